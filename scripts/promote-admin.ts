@@ -0,0 +1,69 @@
+#!/usr/bin/env ts-node
+
+import { PrismaClient, UserRole } from '@prisma/client';
+
+/**
+ * 👑 Promueve un usuario a administrador
+ *
+ * Pensado para dar de alta al primer administrador: si no existe ningún
+ * superadmin, el usuario queda como superadmin. Si ya existe uno, hace
+ * falta --force (o asignar el rol desde la base).
+ *
+ * Uso: npx ts-node scripts/promote-admin.ts <email> [--role=admin|superadmin] [--force]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const email = args.find((arg) => !arg.startsWith('--'));
+  const force = args.includes('--force');
+  const roleArg = args
+    .find((arg) => arg.startsWith('--role='))
+    ?.slice('--role='.length);
+
+  if (!email) {
+    throw new Error(
+      'Uso: npx ts-node scripts/promote-admin.ts <email> [--role=admin|superadmin] [--force]',
+    );
+  }
+
+  if (roleArg && roleArg !== 'admin' && roleArg !== 'superadmin') {
+    throw new Error(`Rol inválido: "${roleArg}" (admin o superadmin)`);
+  }
+
+  const prisma = new PrismaClient();
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user) {
+      throw new Error(
+        `No existe un usuario con email ${email} (tiene que iniciar sesión al menos una vez)`,
+      );
+    }
+
+    const superadmins = await prisma.user.count({
+      where: { role: UserRole.superadmin },
+    });
+
+    if (superadmins > 0 && !force) {
+      throw new Error(
+        `Ya hay ${superadmins} superadmin(s). Usá --force para promover otro usuario`,
+      );
+    }
+
+    const role = (roleArg as UserRole) || UserRole.superadmin;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { role },
+    });
+
+    console.log(`✅ ${email}: ${user.role} → ${role}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
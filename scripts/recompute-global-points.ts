@@ -0,0 +1,45 @@
+#!/usr/bin/env ts-node
+
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../src/app.module';
+import { PointsService } from '../src/external-api/services/points.service';
+
+/**
+ * 🌍 Repara User.globalPoints
+ *
+ * Antes los puntos globales se sumaban una vez por cada torneo del usuario.
+ * Este script acredita en el ledger los puntos globales de los pronósticos
+ * ya procesados que no los tienen (una vez por pronóstico, reglas por defecto,
+ * todas las temporadas) y recalcula globalPoints desde el ledger. Reemplaza los
+ * saldos históricos globales. Se puede ejecutar más de una vez.
+ *
+ * Uso: npx ts-node scripts/recompute-global-points.ts
+ */
+async function main() {
+  console.log(
+    '🌍 Recalculando puntos globales desde los pronósticos procesados...',
+  );
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['log', 'warn', 'error'],
+  });
+
+  try {
+    const pointsService = app.get(PointsService);
+    const result = await pointsService.repairGlobalPoints();
+
+    console.log('\n✅ Reparación completada.');
+    console.log(`Run: ${result.runId}`);
+    console.log(`Pronósticos revisados: ${result.pronosticsScanned}`);
+    console.log(`Pronósticos sin resultado: ${result.pronosticsSkipped}`);
+    console.log(`Pronósticos acreditados: ${result.pronosticsCredited}`);
+    console.log(`Puntos acreditados: ${result.pointsCredited}`);
+    console.log(`Usuarios actualizados: ${result.usersUpdated}`);
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -1,16 +1,17 @@
 #!/usr/bin/env ts-node
 
-import { PrismaClient } from '@prisma/client';
-import axios from 'axios';
+import { Competition, PrismaClient } from '@prisma/client';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from '../src/app.module';
 import { PointsService } from '../src/external-api/services/points.service';
+import { CompetitionService } from '../src/external-api/services/competition.service';
 
 const prisma = new PrismaClient();
-const baseUrl = 'https://api.promiedos.com.ar';
 
 async function resetPoints() {
   console.log('🔄 Reseteando puntos acumulados...');
+  await prisma.pointsLedgerEntry.deleteMany({});
+  await prisma.gradedGameSnapshot.deleteMany({});
   await prisma.matchdayPoints.updateMany({ data: { points: 0 } });
   await prisma.tournamentParticipant.updateMany({ data: { points: 0 } });
   await prisma.user.updateMany({ data: { globalPoints: 0 } });
@@ -18,10 +19,8 @@ async function resetPoints() {
   console.log('✅ Todos los puntos y estados de pronósticos reseteados.');
 }
 
-async function getFinalizedGamesOfMatchday(matchday: number) {
-  const url = `${baseUrl}/league/games/hc/72_224_8_${matchday}`;
-  const response = await axios.get(url);
-  const games = response.data.games || [];
+async function getFinalizedGamesOfMatchday(competitions: CompetitionService, competition: Competition, matchday: number) {
+  const games = await competitions.getProvider(competition).getRoundGames(matchday);
   // status.enum === 3 es finalizado
   return games.filter((g: any) => g.status?.enum === 3);
 }
@@ -30,9 +29,11 @@ async function reprocessMatchday3() {
   console.log('🔁 Reprocesando partidos finalizados de la jornada 3...');
   const app = await NestFactory.createApplicationContext(AppModule, { logger: false });
   const pointsService = app.get(PointsService);
+  const competitions = app.get(CompetitionService);
+  const competition = await competitions.getDefault();
 
-  // 1. Obtener partidos finalizados de la jornada 3
-  const finalizedGames = await getFinalizedGamesOfMatchday(3);
+  // 1. Obtener partidos finalizados de la jornada 3 (competencia por defecto)
+  const finalizedGames = await getFinalizedGamesOfMatchday(competitions, competition, 3);
   console.log(`📋 Partidos finalizados en jornada 3: ${finalizedGames.length}`);
   finalizedGames.forEach(g => {
     const home = g.teams?.[0]?.name || 'Local';
@@ -46,7 +47,7 @@ async function reprocessMatchday3() {
   let userPoints: Record<number, number> = {};
 
   for (const game of finalizedGames) {
-    const result = await pointsService['processGamePronosticsDetailed'](game, 3);
+    const result = await pointsService['processGamePronosticsDetailed'](game, competition, 3);
     totalPronostics += result.processedCount;
     result.userDetails.forEach(u => {
       totalUsers.add(u.userId);
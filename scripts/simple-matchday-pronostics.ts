@@ -1,10 +1,10 @@
 #!/usr/bin/env ts-node
 
 import { PrismaClient } from '@prisma/client';
-import axios from 'axios';
+import { createFixtureProvider } from '../src/external-api/providers/fixture-provider.factory';
 
 const prisma = new PrismaClient();
-const baseUrl = 'https://api.promiedos.com.ar';
+const fixtureProvider = createFixtureProvider();
 
 function getMatchResult(scores: number[]): string {
   if (!scores || scores.length !== 2) return 'none';
@@ -24,10 +24,8 @@ async function showMatchdayPronostics(matchday: number) {
   try {
     console.log(`🔍 Mostrando pronósticos de la jornada ${matchday}...\n`);
 
-    // 1. Obtener partidos de la jornada desde la API de Promiedos
-    const url = `${baseUrl}/league/games/hc/72_224_8_${matchday}`;
-    const response = await axios.get(url);
-    const games = response.data.games || [];
+    // 1. Obtener partidos de la jornada desde el proveedor de fixtures
+    const games = await fixtureProvider.getRoundGames(matchday);
     const matchIds = games.map((g: any) => g.id);
     const matchScores: Record<string, number[]> = {};
     games.forEach((g: any) => {
@@ -1,18 +1,56 @@
-import { Controller, Get } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import * as os from 'os';
 import { PromiedosService } from '../external-api/promiedos.service';
 import { MatchdaySchedulerService } from '../external-api/services/matchday-scheduler.service';
+import { PointsLedgerService } from '../external-api/services/points-ledger.service';
+import { PointsService } from '../external-api/services/points.service';
+import { PointsJobQueueService } from '../external-api/services/points-job-queue.service';
+import {
+  FixtureService,
+  RoundSyncResult,
+} from '../external-api/services/fixture.service';
+import { CompetitionService } from '../external-api/services/competition.service';
+import { SeasonService } from '../external-api/services/season.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { StartSeasonDto } from './dto/start-season.dto';
 
 @ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
 @Controller('admin')
 export class AdminController {
   constructor(
     private readonly promiedosService: PromiedosService,
     private readonly scheduler: MatchdaySchedulerService,
+    private readonly pointsLedger: PointsLedgerService,
+    private readonly pointsService: PointsService,
+    private readonly fixtures: FixtureService,
+    private readonly competitions: CompetitionService,
+    private readonly seasons: SeasonService,
+    private readonly pointsJobs: PointsJobQueueService,
   ) {}
 
-  @Get('refresh-current-round')
+  @Post('refresh-current-round')
   @ApiOperation({
     summary: '🔄 Forzar recálculo de current_matchday',
     description:
@@ -37,7 +75,7 @@ export class AdminController {
     return await this.promiedosService.refreshCurrentMatchday('manual');
   }
 
-  @Get('points/process-now')
+  @Post('points/process-now')
   @ApiOperation({
     summary: '🎲 Procesar puntos manualmente',
     description:
@@ -72,12 +110,12 @@ export class AdminController {
     }
   }
 
-  @Get('points/activate')
+  @Post('points/activate')
   @ApiOperation({
     summary: '🔋 Activar procesamiento automático de puntos',
     description:
-      'Activa manualmente el sistema de procesamiento automático de puntos ' +
-      '(15:00-01:00, cada 5 minutos). Útil para testing.',
+      'Activa manualmente el procesamiento automático de puntos (cada 5 minutos) ' +
+      'hasta desactivarlo, aunque no haya ventanas de partidos. Útil para testing.',
   })
   @ApiResponse({
     status: 200,
@@ -100,7 +138,7 @@ export class AdminController {
     }
   }
 
-  @Get('points/deactivate')
+  @Post('points/deactivate')
   @ApiOperation({
     summary: '🛑 Desactivar procesamiento automático de puntos',
     description:
@@ -142,7 +180,8 @@ export class AdminController {
         pointsProcessing: {
           isActive: true,
           cronName: 'process-points-dynamic',
-          description: 'Procesando puntos cada 5 min (15:00-01:00)',
+          description:
+            'Cron job dinámico activo cada 5 min (ventana de partidos en curso)',
         },
         hasMatchesToday: true,
         timestamp: '2025-01-15T16:45:00Z',
@@ -167,6 +206,555 @@ export class AdminController {
     }
   }
 
+  @Get('points/schedule')
+  @ApiOperation({
+    summary: '🗓️ Ventanas planificadas de procesamiento de puntos',
+    description:
+      'Ventanas armadas desde el horario de cada partido: del inicio al fin estimado (POINTS_MATCH_WINDOW_MINUTES), ' +
+      'uniendo las que se superponen, más una pasada final (POINTS_SETTLEMENT_DELAY_MINUTES). ' +
+      'Se replanifican al iniciar, en cada sincronización de fixture y cuando cambia el estado de un partido. ' +
+      'Con replan=true se vuelven a planificar en el momento.',
+  })
+  @ApiQuery({
+    name: 'replan',
+    type: 'boolean',
+    description: 'Replanificar antes de responder (opcional)',
+    example: false,
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ventanas planificadas',
+    schema: {
+      example: {
+        success: true,
+        plannedAt: '2025-07-20T15:15:00.000Z',
+        isActive: false,
+        manualActivation: false,
+        matchWindowMinutes: 135,
+        settlementDelayMinutes: 30,
+        planHorizonHours: 48,
+        currentWindow: null,
+        windows: [
+          {
+            start: '2025-07-20T16:00:00.000Z',
+            end: '2025-07-20T20:45:00.000Z',
+            settlementAt: '2025-07-20T21:15:00.000Z',
+            matches: [
+              {
+                id: 'edcgcdj',
+                competitionId: 1,
+                round: 5,
+                kickoff: '2025-07-20T16:00:00.000Z',
+              },
+            ],
+          },
+        ],
+        timestamp: '2025-07-20T15:20:00.000Z',
+      },
+    },
+  })
+  async getPointsSchedule(@Query('replan') replan?: string) {
+    try {
+      if (replan === 'true') {
+        await this.scheduler.planPointsProcessing('admin');
+      }
+
+      return {
+        success: true,
+        ...this.scheduler.getProcessingPlan(),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Get('points/jobs')
+  @ApiOperation({
+    summary: '📬 Cola de jobs de calificación',
+    description:
+      'Jobs grade_match (uno por partido finalizado y resultado). Los que fallan se reintentan con backoff ' +
+      'exponencial (POINTS_JOB_RETRY_BASE_SECONDS) y al agotar POINTS_JOB_MAX_ATTEMPTS quedan dead. ' +
+      'Estados: pending, running, completed, dead, cancelled.',
+  })
+  @ApiQuery({
+    name: 'status',
+    type: 'string',
+    description: 'Filtrar por estado (opcional)',
+    example: 'dead',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'externalId',
+    type: 'string',
+    description: 'Filtrar por partido (opcional)',
+    example: 'edcgcdj',
+    required: false,
+  })
+  @ApiQuery({
+    name: 'limit',
+    type: 'number',
+    description: 'Cantidad máxima de jobs (default 50)',
+    example: 50,
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Jobs de la cola',
+    schema: {
+      example: {
+        success: true,
+        counts: { completed: 120, pending: 1, dead: 1 },
+        jobs: [
+          {
+            id: 122,
+            type: 'grade_match',
+            idempotencyKey: 'grade_match:edcgcdj:2-1:new',
+            externalId: 'edcgcdj',
+            competitionId: 1,
+            matchday: 5,
+            status: 'dead',
+            attempts: 5,
+            maxAttempts: 5,
+            runAt: '2025-07-20T21:30:00.000Z',
+            lastError:
+              '3 pronósticos quedaron sin procesar en el partido edcgcdj',
+          },
+        ],
+        timestamp: '2025-07-20T22:00:00.000Z',
+      },
+    },
+  })
+  async getPointsJobs(
+    @Query('status') status?: string,
+    @Query('externalId') externalId?: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    try {
+      return {
+        success: true,
+        counts: await this.pointsJobs.countByStatus(),
+        jobs: await this.pointsJobs.findMany({ status, externalId }, limit),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Get('points/jobs/:id')
+  @ApiOperation({
+    summary: '🔍 Detalle de un job de calificación',
+    description: 'Incluye el payload, el último error y el resultado.',
+  })
+  @ApiParam({ name: 'id', type: 'number', example: 122 })
+  async getPointsJob(@Param('id', ParseIntPipe) id: number) {
+    try {
+      return {
+        success: true,
+        job: await this.pointsJobs.findOne(id),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/jobs/:id/retry')
+  @ApiOperation({
+    summary: '🔁 Reintentar un job de calificación',
+    description:
+      'Vuelve a encolar un job dead, cancelled o pending con los intentos en cero. ' +
+      'Se ejecuta en la próxima pasada del procesamiento de puntos.',
+  })
+  @ApiParam({ name: 'id', type: 'number', example: 122 })
+  async retryPointsJob(@Param('id', ParseIntPipe) id: number) {
+    try {
+      return {
+        success: true,
+        job: await this.pointsJobs.retry(id),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/jobs/:id/cancel')
+  @ApiOperation({
+    summary: '🚫 Cancelar un job de calificación',
+    description:
+      'Cancela un job pending o dead. El partido no se vuelve a encolar mientras no cambie su resultado.',
+  })
+  @ApiParam({ name: 'id', type: 'number', example: 122 })
+  async cancelPointsJob(@Param('id', ParseIntPipe) id: number) {
+    try {
+      return {
+        success: true,
+        job: await this.pointsJobs.cancel(id),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('fixtures/sync')
+  @ApiOperation({
+    summary: '🔄 Sincronizar fixture completo desde los proveedores',
+    description:
+      'Actualiza los partidos (Match) y equipos (Team) de todas las fechas de cada competencia activa ' +
+      '(o solo de la indicada) en la base de datos. ' +
+      'Necesario antes del primer uso: los pronósticos referencian partidos guardados ' +
+      '(los de las fechas sincronizadas quedan vinculados a su partido).',
+  })
+  @ApiQuery({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia (opcional)',
+    example: 'lpf',
+    required: false,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Fixture sincronizado',
+    schema: {
+      example: {
+        success: true,
+        rounds: [
+          { competition: 'liga-profesional', round: 1, matches: 14, teams: 28 },
+        ],
+        totalMatches: 224,
+        timestamp: '2025-01-15T16:45:00Z',
+      },
+    },
+  })
+  async syncFixtures(@Query('competition') competition?: string) {
+    try {
+      const competitions = competition
+        ? [await this.competitions.resolve(competition)]
+        : await this.competitions.findActive();
+      const rounds: RoundSyncResult[] = [];
+
+      for (const { id } of competitions) {
+        rounds.push(...(await this.fixtures.syncAllRounds(id)));
+      }
+
+      await this.scheduler.planPointsProcessing('admin-fixtures-sync');
+
+      return {
+        success: true,
+        rounds,
+        totalMatches: rounds.reduce((sum, round) => sum + round.matches, 0),
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('fixtures/link-pronostics')
+  @ApiOperation({
+    summary: '🔗 Vincular pronósticos con sus partidos',
+    description:
+      'Completa la referencia (matchId) de los pronósticos cuyo partido ya está en la tabla de partidos ' +
+      'y lista los partidos con pronósticos que todavía no se sincronizaron (ejecutar fixtures/sync).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Pronósticos vinculados',
+    schema: {
+      example: {
+        success: true,
+        linked: 1250,
+        orphanGames: ['eeacfhh'],
+        timestamp: '2025-01-15T16:45:00Z',
+      },
+    },
+  })
+  async linkPronostics() {
+    try {
+      const result = await this.fixtures.linkPronostics();
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Get('competitions/:competition/seasons')
+  @ApiOperation({
+    summary: '📆 Temporadas de una competencia',
+    description:
+      'Lista las temporadas de la competencia, la más reciente primero.',
+  })
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Temporadas de la competencia',
+    schema: {
+      example: {
+        competition: 'liga-profesional',
+        seasons: [
+          {
+            id: 2,
+            name: '2026',
+            providerKey: '72_224_9',
+            totalRounds: 16,
+            isCurrent: true,
+            startedAt: '2026-01-20T03:00:00Z',
+            endedAt: null,
+          },
+        ],
+      },
+    },
+  })
+  async getSeasons(@Param('competition') competition: string) {
+    const { id, slug } = await this.competitions.resolve(competition);
+
+    return {
+      competition: slug,
+      seasons: await this.seasons.findByCompetition(id),
+    };
+  }
+
+  @Post('competitions/:competition/seasons')
+  @ApiOperation({
+    summary: '🆕 Abrir una temporada nueva',
+    description:
+      'Cierra la temporada vigente de la competencia (asignándole los partidos y torneos sin temporada), ' +
+      'abre la nueva y reinicia la fecha actual. Los torneos de la temporada cerrada dejan de sumar puntos ' +
+      'y sus dueños pueden archivarlos o copiarlos a la nueva. ' +
+      'Después conviene ejecutar fixtures/sync y refresh-current-round.',
+  })
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Temporada abierta',
+    schema: {
+      example: {
+        success: true,
+        season: { id: 2, name: '2026', isCurrent: true },
+        previousSeason: { id: 1, name: '2025', isCurrent: false },
+        matchesAssigned: 0,
+        tournamentsAssigned: 0,
+        timestamp: '2026-01-20T03:00:00Z',
+      },
+    },
+  })
+  async startSeason(
+    @Param('competition') competition: string,
+    @Body() startSeasonDto: StartSeasonDto,
+  ) {
+    try {
+      const result = await this.seasons.startSeason(
+        await this.competitions.resolve(competition),
+        startSeasonDto,
+        'manual',
+      );
+
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/ledger/rebuild')
+  @ApiOperation({
+    summary: '🔁 Reconstruir agregados de puntos desde el ledger',
+    description:
+      'Recalcula MatchdayPoints, TournamentParticipant.points y User.globalPoints ' +
+      'a partir de los movimientos del ledger, en una única transacción.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Agregados reconstruidos',
+    schema: {
+      example: {
+        success: true,
+        ledgerEntries: 1520,
+        matchdayPointsRows: 240,
+        participantsUpdated: 48,
+        usersUpdated: 30,
+        timestamp: '2025-01-15T16:45:00Z',
+      },
+    },
+  })
+  async rebuildPointsFromLedger() {
+    try {
+      const result = await this.pointsLedger.rebuildAggregates();
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/global/repair')
+  @ApiOperation({
+    summary: '🌍 Reparar puntos globales',
+    description:
+      'Acredita los puntos globales (una vez por pronóstico, reglas por defecto) de los ' +
+      'pronósticos procesados que no los tienen en el ledger, de cualquier competencia o temporada, ' +
+      'y recalcula User.globalPoints. Los pronósticos acreditados reemplazan los saldos históricos globales.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Puntos globales reparados',
+    schema: {
+      example: {
+        success: true,
+        runId: 'global-repair-2b1c…',
+        pronosticsScanned: 1250,
+        pronosticsSkipped: 0,
+        pronosticsCredited: 320,
+        pointsCredited: 410,
+        usersUpdated: 30,
+        timestamp: '2025-01-15T16:45:00Z',
+      },
+    },
+  })
+  async repairGlobalPoints() {
+    try {
+      const result = await this.pointsService.repairGlobalPoints();
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/outcomes/rebuild')
+  @ApiOperation({
+    summary: '🎯 Reconstruir resultados de pronósticos (desempates)',
+    description:
+      'Recalifica los partidos ya calificados para completar el resultado de cada pronóstico en cada torneo ' +
+      '(exacto, resultado o sin acierto), que usan los criterios de desempate de las tablas. ' +
+      'Necesario una vez para los pronósticos calificados antes de existir los desempates.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Resultados reconstruidos',
+    schema: {
+      example: {
+        success: true,
+        runId: '3f6c1a52-9d8e-4b7a-a1f0-2c4e5d6b7a89',
+        gamesScanned: 64,
+        pronosticsRegraded: 0,
+        pronosticsFailed: 0,
+        timestamp: '2025-01-15T16:45:00Z',
+      },
+    },
+  })
+  async rebuildPronosticOutcomes() {
+    try {
+      const result = await this.pointsService.rebuildPronosticOutcomes();
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  @Post('points/ledger/seed-legacy')
+  @ApiOperation({
+    summary: '📥 Cargar saldos históricos en el ledger',
+    description:
+      'Convierte los puntos por fecha existentes (previos al ledger) en movimientos `legacy_balance`. ' +
+      'Solo funciona con el ledger vacío; ejecutar una única vez antes de la primera reconstrucción.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Saldos históricos cargados',
+  })
+  async seedLegacyLedger() {
+    try {
+      const result = await this.pointsLedger.seedLegacyBalances();
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   @Get('timezone-diagnosis')
   @ApiOperation({
     summary: '🔍 Diagnóstico de timezone del servidor',
@@ -196,7 +784,6 @@ export class AdminController {
       },
       cronSchedule: {
         updateCurrentMatchday: '0 6,18 * * *',
-        checkMatchesToday: '0 11 * * *',
         configuredTimezone: 'America/Argentina/Buenos_Aires',
       },
       nextCronExecutions: await this.calculateNextCronExecutions(),
@@ -222,18 +809,20 @@ export class AdminController {
           timezone: 'America/Argentina/Buenos_Aires',
           description: 'Actualiza current_matchday cada 12 horas',
         },
-        checkMatchesToday: {
-          schedule: '0 11 * * *',
-          timezone: 'America/Argentina/Buenos_Aires',
-          description: 'Verifica si hay partidos hoy y activa procesamiento',
-        },
         processPointsEvery5min: {
-          schedule: '*/5 15-23,0-1 * * *',
+          schedule: '*/5 * * * *',
           timezone: 'America/Argentina/Buenos_Aires',
-          description: 'Procesa puntos cada 5 min entre 15:00-01:00 (dinámico)',
+          description:
+            'Procesa puntos cada 5 min dentro de las ventanas de partidos (dinámico, ver points/schedule)',
           isActive: pointsStatus.isActive,
           exists: pointsStatus.cronJobExists,
         },
+        processPointsJobs: {
+          schedule: '*/5 * * * *',
+          timezone: 'America/Argentina/Buenos_Aires',
+          description:
+            'Reintenta los jobs de calificación pendientes fuera de las ventanas de partidos',
+        },
       },
     };
   }
@@ -269,15 +858,10 @@ export class AdminController {
       nextUpdateMatchday = tomorrow6am;
     }
 
-    // Próxima ejecución de check-matches-today (11:00)
-    const today11am = new Date(argentinaTime);
-    today11am.setHours(11, 0, 0, 0);
-    const tomorrow11am = new Date(argentinaTime);
-    tomorrow11am.setDate(tomorrow11am.getDate() + 1);
-    tomorrow11am.setHours(11, 0, 0, 0);
-
-    const nextCheckMatches =
-      argentinaTime < today11am ? today11am : tomorrow11am;
+    // Próxima ventana planificada de procesamiento de puntos
+    const nextWindow = this.scheduler
+      .getProcessingPlan()
+      .windows.find((window) => new Date(window.start) > now);
 
     return {
       currentTimeArgentina: argentinaTime.toLocaleString('es-AR', {
@@ -294,15 +878,17 @@ export class AdminController {
         utc: nextUpdateMatchday.toISOString(),
         local: nextUpdateMatchday.toString(),
       },
-      nextCheckMatches: {
-        argentina: nextCheckMatches.toLocaleString('es-AR', {
-          timeZone: 'America/Argentina/Buenos_Aires',
-          dateStyle: 'full',
-          timeStyle: 'full',
-        }),
-        utc: nextCheckMatches.toISOString(),
-        local: nextCheckMatches.toString(),
-      },
+      nextPointsWindow: nextWindow
+        ? {
+            argentina: new Date(nextWindow.start).toLocaleString('es-AR', {
+              timeZone: 'America/Argentina/Buenos_Aires',
+              dateStyle: 'full',
+              timeStyle: 'full',
+            }),
+            utc: nextWindow.start,
+            matches: nextWindow.matches.length,
+          }
+        : null,
     };
   }
 }
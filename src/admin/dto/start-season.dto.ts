@@ -0,0 +1,53 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartSeasonDto {
+  @ApiProperty({
+    description: 'Nombre de la temporada nueva',
+    example: '2026',
+    maxLength: 50,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Clave de liga en el proveedor para la temporada nueva (por defecto, la actual)',
+    example: '72_224_9',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  providerKey?: string;
+
+  @ApiPropertyOptional({
+    description: 'Cantidad de fechas de la temporada (por defecto, la actual)',
+    example: 16,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  totalRounds?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Nombre para la temporada que agrupa los partidos y torneos previos (solo la primera vez)',
+    example: '2025',
+    maxLength: 50,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  previousSeasonName?: string;
+}
@@ -7,17 +7,35 @@ import {
   Res,
   UseGuards,
   BadRequestException,
+  HttpCode,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
 import { AuthGuard } from '@nestjs/passport';
 import { AuthService } from './auth.service';
+import { MagicLinkService } from './magic-link.service';
+import { SessionMetadata } from './session.service';
 import { GoogleTokenDto } from './dto/google-token.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RequestMagicLinkDto, VerifyMagicLinkDto } from './dto/magic-link.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
 import { Request, Response } from 'express';
 
+type SessionUser = { id: number; sessionId: number };
+
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly magicLinks: MagicLinkService,
+  ) {}
 
   @Get('google')
   @ApiOperation({
@@ -46,6 +64,7 @@ export class AuthController {
     schema: {
       example: {
         access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: '12.Zk3q9v0mX1bW2...',
         user: {
           id: 1,
           email: 'usuario@gmail.com',
@@ -58,7 +77,10 @@ export class AuthController {
   @UseGuards(AuthGuard('google'))
   async googleAuthCallback(@Req() req: Request, @Res() res: Response) {
     const user = req.user;
-    const tokens = await this.authService.generateTokens(user);
+    const tokens = await this.authService.generateTokens(
+      user,
+      this.getSessionMetadata(req),
+    );
 
     // En producción, podrías redirigir al frontend con el token
     // res.redirect(`${process.env.FRONTEND_URL}/auth/success?token=${tokens.access_token}`);
@@ -83,6 +105,7 @@ export class AuthController {
       example: {
         message: '🎉 Autenticación exitosa con Google',
         access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: '12.Zk3q9v0mX1bW2...',
         user: {
           id: 1,
           email: 'usuario@gmail.com',
@@ -96,7 +119,7 @@ export class AuthController {
     status: 400,
     description: 'Token de Google inválido',
   })
-  async verifyGoogleToken(@Body() body: GoogleTokenDto) {
+  async verifyGoogleToken(@Body() body: GoogleTokenDto, @Req() req: Request) {
     try {
       // Verificar el token de Google
       const ticket = await this.authService.verifyGoogleToken(body.credential);
@@ -115,7 +138,10 @@ export class AuthController {
       });
 
       // Generar tokens JWT
-      const tokens = await this.authService.generateTokens(user);
+      const tokens = await this.authService.generateTokens(
+        user,
+        this.getSessionMetadata(req),
+      );
 
       return {
         message: '🎉 Autenticación exitosa con Google',
@@ -126,6 +152,82 @@ export class AuthController {
     }
   }
 
+  @Post('magic-link')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Pedir link de inicio de sesión por email',
+    description:
+      'Envía al email un link de un solo uso y con vencimiento para entrar sin cuenta de Google. ' +
+      'La respuesta es la misma exista o no una cuenta con ese email.',
+  })
+  @ApiBody({ type: RequestMagicLinkDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Link enviado (si corresponde)',
+    schema: {
+      example: {
+        message: '✉️ Si el email es válido, te enviamos un link para entrar',
+        expiresInMinutes: 15,
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Email inválido' })
+  async requestMagicLink(
+    @Body() body: RequestMagicLinkDto,
+    @Req() req: Request,
+  ) {
+    await this.magicLinks.requestLink(body.email, req.ip);
+
+    return {
+      message: '✉️ Si el email es válido, te enviamos un link para entrar',
+      expiresInMinutes: this.magicLinks.expiresInMinutes,
+    };
+  }
+
+  @Post('magic-link/verify')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Canjear link de inicio de sesión',
+    description:
+      'Canjea el token del link por los mismos tokens JWT que el login con Google. ' +
+      'Si ya existe un usuario con ese email (por ejemplo, de Google), se usa esa cuenta.',
+  })
+  @ApiBody({ type: VerifyMagicLinkDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Autenticación exitosa, tokens generados',
+    schema: {
+      example: {
+        message: '🎉 Autenticación exitosa por email',
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: '12.Zk3q9v0mX1bW2...',
+        user: {
+          id: 1,
+          email: 'usuario@ejemplo.com',
+          name: 'usuario',
+          avatar: null,
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Link inválido, vencido o ya usado',
+  })
+  async verifyMagicLink(@Body() body: VerifyMagicLinkDto, @Req() req: Request) {
+    const email = await this.magicLinks.consume(body.token);
+    const user = await this.authService.validateEmailUser(email);
+    const tokens = await this.authService.generateTokens(
+      user,
+      this.getSessionMetadata(req),
+    );
+
+    return {
+      message: '🎉 Autenticación exitosa por email',
+      ...tokens,
+    };
+  }
+
   @Get('profile')
   @ApiOperation({
     summary: 'Obtener perfil del usuario autenticado',
@@ -155,4 +257,110 @@ export class AuthController {
       user: req.user,
     };
   }
+
+  @Post('refresh')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Renovar access token',
+    description:
+      'Canjea el refresh token por un access token nuevo y un refresh token nuevo. ' +
+      'El refresh token usado deja de ser válido; si se vuelve a usar, la sesión se revoca.',
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tokens renovados',
+    schema: {
+      example: {
+        access_token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+        refresh_token: '12.Qp8r1nY7cD4e...',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token inválido, expirado o revocado',
+  })
+  async refresh(@Body() body: RefreshTokenDto, @Req() req: Request) {
+    return this.authService.refreshTokens(
+      body.refresh_token,
+      this.getSessionMetadata(req),
+    );
+  }
+
+  @Post('logout')
+  @HttpCode(200)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cerrar sesión',
+    description:
+      'Revoca la sesión actual: su access token y su refresh token dejan de ser válidos',
+  })
+  @ApiResponse({ status: 200, description: 'Sesión cerrada' })
+  @UseGuards(JwtAuthGuard)
+  async logout(@CurrentUser() user: SessionUser) {
+    await this.authService.logout(user.id, user.sessionId);
+
+    return { message: '👋 Sesión cerrada' };
+  }
+
+  @Post('logout-all')
+  @HttpCode(200)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cerrar todas las sesiones',
+    description:
+      'Revoca todas las sesiones del usuario (todos los dispositivos, incluida la actual)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sesiones cerradas',
+    schema: {
+      example: { message: '👋 Se cerraron 3 sesiones', revokedSessions: 3 },
+    },
+  })
+  @UseGuards(JwtAuthGuard)
+  async logoutAll(@CurrentUser() user: SessionUser) {
+    const revokedSessions = await this.authService.logoutAll(user.id);
+
+    return {
+      message: `👋 Se cerraron ${revokedSessions} sesiones`,
+      revokedSessions,
+    };
+  }
+
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Listar mis sesiones',
+    description: 'Sesiones abiertas del usuario, indicando cuál es la actual',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sesiones abiertas',
+    schema: {
+      example: [
+        {
+          id: 12,
+          userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+          ipAddress: '181.20.10.5',
+          createdAt: '2025-01-10T19:00:00.000Z',
+          lastUsedAt: '2025-01-15T18:30:00.000Z',
+          expiresAt: '2025-02-14T18:30:00.000Z',
+          current: true,
+        },
+      ],
+    },
+  })
+  @UseGuards(JwtAuthGuard)
+  async getSessions(@CurrentUser() user: SessionUser) {
+    return this.authService.getSessions(user.id, user.sessionId);
+  }
+
+  private getSessionMetadata(req: Request): SessionMetadata {
+    return {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    };
+  }
 }
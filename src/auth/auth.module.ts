@@ -7,18 +7,29 @@ import { UsersModule } from '../users/users.module';
 import { PrismaService } from '../prisma.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { SessionService } from './session.service';
+import { MagicLinkService } from './magic-link.service';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'super-secret-key-change-in-production',
-      signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '120d' },
+      signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '15m' },
     }),
     UsersModule,
+    MailModule,
   ],
   controllers: [AuthController],
-  providers: [AuthService, GoogleStrategy, JwtStrategy, PrismaService],
+  providers: [
+    AuthService,
+    SessionService,
+    MagicLinkService,
+    GoogleStrategy,
+    JwtStrategy,
+    PrismaService,
+  ],
   exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
@@ -1,8 +1,9 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { OAuth2Client } from 'google-auth-library';
 import { PrismaService } from '../prisma.service';
 import { UsersService } from '../users/users.service';
+import { SessionMetadata, SessionService } from './session.service';
 
 @Injectable()
 export class AuthService {
@@ -12,6 +13,7 @@ export class AuthService {
     private readonly jwtService: JwtService,
     private readonly prisma: PrismaService,
     private readonly usersService: UsersService,
+    private readonly sessions: SessionService,
   ) {}
 
   async validateGoogleUser(googleProfile: any) {
@@ -59,26 +61,113 @@ export class AuthService {
     }
   }
 
-  async generateTokens(user: any) {
-    const payload = {
-      sub: user.id,
-      email: user.email,
-      name: user.name,
-    };
+  /**
+   * ✉️ Usuario de un login por email: si ya existe (por ejemplo, creado con
+   * Google) se usa esa cuenta; si no, se crea
+   */
+  async validateEmailUser(email: string) {
+    const existing = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+    });
+
+    if (existing) {
+      this.logger.log(`✅ Usuario autenticado por email: ${existing.email}`);
+      return existing;
+    }
+
+    const user = await this.prisma.user.create({
+      data: { email, name: email.split('@')[0] },
+    });
+
+    this.logger.log(`✅ Usuario creado por email: ${user.email}`);
+    return user;
+  }
+
+  /**
+   * 🔑 Abre una sesión nueva y genera access token + refresh token
+   */
+  async generateTokens(user: any, metadata?: SessionMetadata) {
+    const { session, refreshToken } = await this.sessions.create(
+      user.id,
+      metadata,
+    );
 
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: this.signAccessToken(user, session.id),
+      refresh_token: refreshToken,
       user: {
         id: user.id,
         email: user.email,
         name: user.name,
         avatar: user.avatar,
+        role: user.role,
       },
     };
   }
 
+  /**
+   * 🔁 Rota el refresh token y genera un access token nuevo para la sesión
+   */
+  async refreshTokens(refreshToken: string, metadata?: SessionMetadata) {
+    const { session, refreshToken: newRefreshToken } =
+      await this.sessions.rotate(refreshToken, metadata);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: session.userId },
+    });
+
+    if (!user) {
+      throw new UnauthorizedException('Sesión inválida o expirada');
+    }
+
+    return {
+      access_token: this.signAccessToken(user, session.id),
+      refresh_token: newRefreshToken,
+    };
+  }
+
+  /**
+   * 🚪 Cierra la sesión actual
+   */
+  async logout(userId: number, sessionId: number) {
+    await this.sessions.revoke(sessionId, userId);
+  }
+
+  /**
+   * 🚪 Cierra todas las sesiones del usuario
+   */
+  async logoutAll(userId: number) {
+    return this.sessions.revokeAll(userId);
+  }
+
+  /**
+   * 📋 Sesiones abiertas del usuario, marcando la actual
+   */
+  async getSessions(userId: number, currentSessionId: number) {
+    const sessions = await this.sessions.findActive(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
   async validateJwtUser(payload: any) {
     try {
+      // Tokens sin sesión (emitidos antes de los refresh tokens) o de una
+      // sesión revocada/expirada ya no son válidos
+      if (
+        !payload.sid ||
+        !(await this.sessions.isActive(payload.sid, payload.sub))
+      ) {
+        return null;
+      }
+
       const user = await this.prisma.user.findUnique({
         where: { id: payload.sub },
         select: {
@@ -86,6 +175,7 @@ export class AuthService {
           email: true,
           name: true,
           avatar: true,
+          role: true,
           createdAt: true,
         },
       });
@@ -94,7 +184,7 @@ export class AuthService {
         return null;
       }
 
-      return user;
+      return { ...user, sessionId: payload.sid as number };
     } catch (error) {
       this.logger.error('Error en validación JWT:', error);
       return null;
@@ -116,4 +206,13 @@ export class AuthService {
       throw new Error('Token de Google inválido');
     }
   }
+
+  private signAccessToken(user: any, sessionId: number): string {
+    return this.jwtService.sign({
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      name: user.name,
+    });
+  }
 }
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * 🌐 Endpoint accesible sin token dentro de un controller con JwtAuthGuard
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
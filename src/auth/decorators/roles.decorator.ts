@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * 🔐 Roles que pueden acceder al endpoint (se usa junto a RolesGuard)
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,22 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestMagicLinkDto {
+  @ApiProperty({
+    description: 'Email al que se envía el link de inicio de sesión',
+    example: 'usuario@ejemplo.com',
+    format: 'email',
+  })
+  @IsEmail()
+  email: string;
+}
+
+export class VerifyMagicLinkDto {
+  @ApiProperty({
+    description: 'Token recibido en el link (parámetro ?token=)',
+    example: 'q3v9Zk1mX0bW2c4e...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description:
+      'Refresh token recibido al iniciar sesión o en el último refresh',
+    example: '12.Zk3q9v0mX1bW2...',
+  })
+  refresh_token: string;
+}
@@ -0,0 +1,53 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { Roles } from '../decorators/roles.decorator';
+import { RolesGuard } from './roles.guard';
+
+class AdminController {
+  @Roles(UserRole.admin)
+  reprocess() {}
+
+  listPublic() {}
+}
+
+function contextFor(
+  handler: () => void,
+  user?: { role: UserRole },
+): ExecutionContext {
+  return {
+    getHandler: () => handler,
+    getClass: () => AdminController,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  } as unknown as ExecutionContext;
+}
+
+describe('RolesGuard', () => {
+  const guard = new RolesGuard(new Reflector());
+  const { reprocess, listPublic } = AdminController.prototype;
+
+  it('deja pasar los endpoints sin roles', () => {
+    expect(guard.canActivate(contextFor(listPublic))).toBe(true);
+  });
+
+  it('deja pasar al usuario con el rol requerido', () => {
+    expect(
+      guard.canActivate(contextFor(reprocess, { role: UserRole.admin })),
+    ).toBe(true);
+  });
+
+  it('deja pasar siempre a superadmin', () => {
+    expect(
+      guard.canActivate(contextFor(reprocess, { role: UserRole.superadmin })),
+    ).toBe(true);
+  });
+
+  it('rechaza a un usuario común o sin autenticar', () => {
+    expect(() =>
+      guard.canActivate(contextFor(reprocess, { role: UserRole.user })),
+    ).toThrow(ForbiddenException);
+    expect(() => guard.canActivate(contextFor(reprocess))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '@prisma/client';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+
+/**
+ * 🔐 Verifica el rol del usuario autenticado (va después de JwtAuthGuard)
+ * superadmin tiene acceso a todo
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!roles || roles.length === 0) return true;
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (
+      user?.role === UserRole.superadmin ||
+      (user?.role && roles.includes(user.role))
+    ) {
+      return true;
+    }
+
+    throw new ForbiddenException(
+      'Permisos insuficientes para acceder a este recurso',
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { MailService } from '../mail/mail.service';
+import { MagicLinkService } from './magic-link.service';
+
+const now = new Date('2025-07-19T20:00:00Z');
+
+function createPrismaMock() {
+  return {
+    magicLinkToken: {
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest
+        .fn()
+        .mockResolvedValue({ email: 'juan@example.com' }),
+    },
+  };
+}
+
+describe('MagicLinkService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let mail: { sendMagicLink: jest.Mock };
+  let magicLinks: MagicLinkService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    prisma = createPrismaMock();
+    mail = { sendMagicLink: jest.fn() };
+    magicLinks = new MagicLinkService(
+      prisma as unknown as PrismaService,
+      mail as unknown as MailService,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('requestLink', () => {
+    it('guarda el hash del token y envía el link al email normalizado', async () => {
+      await magicLinks.requestLink('  Juan@Example.com ', '10.0.0.1');
+
+      const [{ data }] = prisma.magicLinkToken.create.mock.calls[0];
+      const [email, link, minutes] = mail.sendMagicLink.mock.calls[0];
+      const token = new URL(link).searchParams.get('token');
+
+      expect(email).toBe('juan@example.com');
+      expect(minutes).toBe(15);
+      expect(data).toEqual({
+        email: 'juan@example.com',
+        tokenHash: expect.any(String),
+        expiresAt: new Date('2025-07-19T20:15:00Z'),
+        ipAddress: '10.0.0.1',
+      });
+      expect(data.tokenHash).not.toBe(token);
+    });
+
+    it('no envía más links al superar el máximo de la ventana', async () => {
+      prisma.magicLinkToken.count.mockResolvedValue(5);
+
+      await magicLinks.requestLink('juan@example.com');
+
+      expect(prisma.magicLinkToken.create).not.toHaveBeenCalled();
+      expect(mail.sendMagicLink).not.toHaveBeenCalled();
+    });
+
+    it('rechaza un email inválido', async () => {
+      await expect(magicLinks.requestLink('juan')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('consume', () => {
+    it('marca el token como usado solo si está vigente', async () => {
+      await expect(magicLinks.consume('token')).resolves.toBe(
+        'juan@example.com',
+      );
+
+      expect(prisma.magicLinkToken.updateMany).toHaveBeenCalledWith({
+        where: {
+          tokenHash: expect.any(String),
+          usedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { usedAt: now },
+      });
+    });
+
+    it('rechaza un token usado o vencido', async () => {
+      prisma.magicLinkToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(magicLinks.consume('token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(prisma.magicLinkToken.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+
+    it('rechaza un token vacío', async () => {
+      await expect(magicLinks.consume('')).rejects.toThrow(
+        'Link inválido o expirado',
+      );
+    });
+  });
+});
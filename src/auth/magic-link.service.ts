@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+import { MailService } from '../mail/mail.service';
+
+// Links pedidos por email dentro de la ventana de vigencia antes de dejar de enviar
+const MAX_LINKS_PER_WINDOW = 5;
+
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+
+  // Minutos de validez del link
+  readonly expiresInMinutes = parseInt(
+    process.env.MAGIC_LINK_EXPIRES_MINUTES || '15',
+    10,
+  );
+
+  // Página del frontend que recibe ?token=... y lo canjea en /auth/magic-link/verify
+  private readonly linkUrl =
+    process.env.MAGIC_LINK_URL ||
+    `${process.env.FRONTEND_URL || 'http://localhost:5173'}/auth/magic-link`;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mail: MailService,
+  ) {}
+
+  /**
+   * ✉️ Genera un link de un solo uso y lo envía por email
+   * Siempre responde igual exista o no la cuenta (no revela usuarios)
+   */
+  async requestLink(email: string, ipAddress?: string): Promise<void> {
+    const normalizedEmail = this.normalizeEmail(email);
+    const windowStart = new Date(
+      Date.now() - this.expiresInMinutes * 60 * 1000,
+    );
+
+    const recentLinks = await this.prisma.magicLinkToken.count({
+      where: { email: normalizedEmail, createdAt: { gte: windowStart } },
+    });
+
+    if (recentLinks >= MAX_LINKS_PER_WINDOW) {
+      this.logger.warn(
+        `⚠️ Demasiados links pedidos para ${normalizedEmail}, no se envía otro`,
+      );
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+
+    await this.prisma.magicLinkToken.create({
+      data: {
+        email: normalizedEmail,
+        tokenHash: this.hash(token),
+        expiresAt: new Date(Date.now() + this.expiresInMinutes * 60 * 1000),
+        ipAddress,
+      },
+    });
+
+    await this.mail.sendMagicLink(
+      normalizedEmail,
+      `${this.linkUrl}?token=${encodeURIComponent(token)}`,
+      this.expiresInMinutes,
+    );
+
+    this.logger.log(`🔗 Link de inicio de sesión enviado a ${normalizedEmail}`);
+  }
+
+  /**
+   * 🎟️ Canjea un token (una sola vez) y devuelve el email al que pertenece
+   */
+  async consume(token: string): Promise<string> {
+    if (!token) {
+      throw new UnauthorizedException('Link inválido o expirado');
+    }
+
+    const tokenHash = this.hash(token);
+
+    // Se marca como usado en la misma consulta que valida vigencia (un solo uso)
+    const { count } = await this.prisma.magicLinkToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedException('Link inválido o expirado');
+    }
+
+    const { email } = await this.prisma.magicLinkToken.findUniqueOrThrow({
+      where: { tokenHash },
+    });
+
+    return email;
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  private normalizeEmail(email: string): string {
+    const normalized = (email || '').trim().toLowerCase();
+
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+      throw new BadRequestException('Email inválido');
+    }
+
+    return normalized;
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
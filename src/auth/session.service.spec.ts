@@ -0,0 +1,117 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { SessionService } from './session.service';
+
+const now = new Date('2025-07-19T20:00:00Z');
+
+// Tabla de sesiones en memoria: updateMany solo aplica si coinciden los filtros
+function createPrismaMock() {
+  const sessions = new Map<number, Session>();
+
+  const matches = (session: Session, where: Partial<Session>) =>
+    Object.entries(where).every(
+      ([field, value]) => session[field as keyof Session] === value,
+    );
+
+  return {
+    sessions,
+    session: {
+      create: jest.fn(async ({ data }) => {
+        const session = {
+          id: sessions.size + 1,
+          revokedAt: null,
+          lastUsedAt: now,
+          createdAt: now,
+          ...data,
+        } as Session;
+        sessions.set(session.id, session);
+        return session;
+      }),
+      findUnique: jest.fn(async ({ where }) => sessions.get(where.id) ?? null),
+      findUniqueOrThrow: jest.fn(async ({ where }) => sessions.get(where.id)),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const updated = [...sessions.values()].filter((session) =>
+          matches(session, where),
+        );
+        updated.forEach((session) => Object.assign(session, data));
+        return { count: updated.length };
+      }),
+    },
+  };
+}
+
+describe('SessionService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let sessions: SessionService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    prisma = createPrismaMock();
+    sessions = new SessionService(prisma as unknown as PrismaService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('guarda solo el hash del refresh token', async () => {
+    const { session, refreshToken } = await sessions.create(7, {
+      userAgent: 'jest',
+    });
+
+    const [id, secret] = refreshToken.split('.');
+
+    expect(Number(id)).toBe(session.id);
+    expect(session.refreshTokenHash).not.toContain(secret);
+    expect(session.expiresAt).toEqual(new Date('2025-08-18T20:00:00Z'));
+  });
+
+  it('rota el refresh token y el nuevo sirve para la próxima rotación', async () => {
+    const { refreshToken } = await sessions.create(7);
+
+    const rotated = await sessions.rotate(refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    await expect(sessions.rotate(rotated.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('revoca la sesión si se reutiliza un token ya rotado', async () => {
+    const { session, refreshToken } = await sessions.create(7);
+    const rotated = await sessions.rotate(refreshToken);
+
+    await expect(sessions.rotate(refreshToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    expect(prisma.sessions.get(session.id).revokedAt).toEqual(now);
+    // El token vigente también deja de servir
+    await expect(sessions.rotate(rotated.refreshToken)).rejects.toThrow(
+      'Sesión inválida o expirada',
+    );
+  });
+
+  it('rechaza una sesión expirada', async () => {
+    const { refreshToken } = await sessions.create(7);
+
+    jest.setSystemTime(new Date('2025-08-19T20:00:00Z'));
+
+    await expect(sessions.rotate(refreshToken)).rejects.toThrow(
+      'Sesión inválida o expirada',
+    );
+  });
+
+  it('rechaza un token con formato inválido', async () => {
+    await expect(sessions.rotate('sin-punto')).rejects.toThrow(
+      'Refresh token inválido',
+    );
+    expect(prisma.session.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('solo revoca sesiones del mismo usuario', async () => {
+    const { session } = await sessions.create(7);
+
+    await expect(sessions.revoke(session.id, 8)).resolves.toBe(false);
+    await expect(sessions.revoke(session.id, 7)).resolves.toBe(true);
+    await expect(sessions.revoke(session.id, 7)).resolves.toBe(false);
+  });
+});
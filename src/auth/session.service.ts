@@ -0,0 +1,186 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma.service';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedSession {
+  session: Session;
+  refreshToken: string;
+}
+
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  // Días de validez del refresh token (se renuevan en cada rotación)
+  private readonly refreshTokenDays = parseInt(
+    process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30',
+    10,
+  );
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 🆕 Crea una sesión y su primer refresh token
+   */
+  async create(
+    userId: number,
+    metadata: SessionMetadata = {},
+  ): Promise<IssuedSession> {
+    const secret = this.generateSecret();
+
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: this.hash(secret),
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+        expiresAt: this.getExpiration(),
+      },
+    });
+
+    return { session, refreshToken: this.formatToken(session.id, secret) };
+  }
+
+  /**
+   * 🔁 Rota el refresh token de una sesión: el token usado deja de servir.
+   * Si llega un token ya rotado (posible robo), se revoca la sesión
+   */
+  async rotate(
+    refreshToken: string,
+    metadata: SessionMetadata = {},
+  ): Promise<IssuedSession> {
+    const { sessionId, secret } = this.parseToken(refreshToken);
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Sesión inválida o expirada');
+    }
+
+    const newSecret = this.generateSecret();
+
+    // Solo rota si el token presentado es el vigente (evita dos rotaciones simultáneas)
+    const { count } = await this.prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: this.hash(secret),
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: this.hash(newSecret),
+        lastUsedAt: new Date(),
+        expiresAt: this.getExpiration(),
+        userAgent: metadata.userAgent ?? session.userAgent,
+        ipAddress: metadata.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (count === 0) {
+      await this.revoke(session.id, session.userId);
+      this.logger.warn(
+        `🚨 Refresh token reutilizado en sesión ${session.id} (usuario ${session.userId}), sesión revocada`,
+      );
+      throw new UnauthorizedException('Sesión inválida o expirada');
+    }
+
+    return {
+      session: await this.prisma.session.findUniqueOrThrow({
+        where: { id: session.id },
+      }),
+      refreshToken: this.formatToken(session.id, newSecret),
+    };
+  }
+
+  /**
+   * ✅ Indica si la sesión del usuario sigue vigente
+   */
+  async isActive(sessionId: number, userId: number): Promise<boolean> {
+    const count = await this.prisma.session.count({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * 📋 Sesiones vigentes del usuario (la más reciente primero)
+   */
+  async findActive(userId: number): Promise<Session[]> {
+    return this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * 🚪 Revoca una sesión del usuario
+   */
+  async revoke(sessionId: number, userId: number): Promise<boolean> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * 🚪 Revoca todas las sesiones del usuario
+   */
+  async revokeAll(userId: number): Promise<number> {
+    const { count } = await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  private generateSecret(): string {
+    return randomBytes(48).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private getExpiration(): Date {
+    return new Date(Date.now() + this.refreshTokenDays * 24 * 60 * 60 * 1000);
+  }
+
+  // El refresh token es "<sessionId>.<secreto>"; en la DB solo se guarda el hash
+  private formatToken(sessionId: number, secret: string): string {
+    return `${sessionId}.${secret}`;
+  }
+
+  private parseToken(refreshToken: string): {
+    sessionId: number;
+    secret: string;
+  } {
+    const [id, secret] = (refreshToken || '').split('.');
+    const sessionId = parseInt(id, 10);
+
+    if (!sessionId || !secret) {
+      throw new UnauthorizedException('Refresh token inválido');
+    }
+
+    return { sessionId, secret };
+  }
+}
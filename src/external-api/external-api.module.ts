@@ -12,6 +12,16 @@ import { MatchdaySchedulerService } from './services/matchday-scheduler.service'
 import { MatchdayCacheService } from './services/matchday-cache.service';
 import { PointsService } from './services/points.service';
 import { CronAuditService } from './services/cron-audit.service';
+import { MatchLockService } from './services/match-lock.service';
+import { PointsLedgerService } from './services/points-ledger.service';
+import { MatchStatusService } from './services/match-status.service';
+import { FixtureService } from './services/fixture.service';
+import { CompetitionService } from './services/competition.service';
+import { SeasonService } from './services/season.service';
+import { LiveEventsService } from './services/live-events.service';
+import { CronLockService } from './services/cron-lock.service';
+import { PointsJobQueueService } from './services/points-job-queue.service';
+import { CronJobRegistryService } from './services/cron-job-registry.service';
 
 @Module({
   imports: [forwardRef(() => PronosticModule)], // Importar el módulo de pronósticos
@@ -31,6 +41,16 @@ import { CronAuditService } from './services/cron-audit.service';
     MatchdayCacheService,
     PointsService,
     CronAuditService,
+    MatchLockService,
+    PointsLedgerService,
+    MatchStatusService,
+    FixtureService,
+    CompetitionService,
+    SeasonService,
+    LiveEventsService,
+    CronLockService,
+    PointsJobQueueService,
+    CronJobRegistryService,
   ],
   exports: [
     PromiedosService,
@@ -40,6 +60,16 @@ import { CronAuditService } from './services/cron-audit.service';
     MatchdayCacheService,
     PointsService,
     CronAuditService,
+    MatchLockService,
+    PointsLedgerService,
+    MatchStatusService,
+    FixtureService,
+    CompetitionService,
+    SeasonService,
+    LiveEventsService,
+    CronLockService,
+    PointsJobQueueService,
+    CronJobRegistryService,
   ],
 })
 export class ExternalApiModule {}
@@ -41,6 +41,42 @@ export interface PromiedosApiResponse {
   games: Game[];
 }
 
+// Goles de un partido (gamecenter de Promiedos)
+export interface GoalEvent {
+  playerName: string;
+  teamIndex: number; // 0 = local, 1 = visitante
+  minute?: number;
+  ownGoal: boolean;
+}
+
+export interface GameDetail {
+  id: string;
+  goals: GoalEvent[];
+}
+
+// Evento crudo del gamecenter (los nombres de campo varían según el partido)
+export interface PromiedosGameEvent {
+  type?: string | number;
+  type_name?: string;
+  team?: number | string;
+  team_index?: number | string;
+  time?: string;
+  minute?: string;
+  player_name?: string;
+  player?: { name?: string };
+  name?: string;
+  own_goal?: boolean;
+}
+
+interface PromiedosGameEvents {
+  events?: PromiedosGameEvent[];
+  goals?: PromiedosGameEvent[];
+}
+
+export interface PromiedosGameCenterResponse extends PromiedosGameEvents {
+  game?: PromiedosGameEvents;
+}
+
 // Interfaces para incluir pronósticos
 export interface UserPronostic {
   id: number;
@@ -67,6 +103,7 @@ export interface GameWithPronostics extends Game {
 }
 
 export interface MatchdayResponse {
+  competition: string; // slug de la competencia
   round: number;
   roundName: string;
   totalGames: number;
@@ -83,6 +120,7 @@ export interface GroupedMatchdayResponse {
 
 // 🆕 Interfaz para respuesta completa con metadatos y agrupación por fecha
 export interface EnhancedMatchdayResponse {
+  competition: string;
   round: number;
   roundName: string;
   totalGames: number;
@@ -1,4 +1,13 @@
-import { Controller, Get, Param, Query, ParseIntPipe } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  ParseIntPipe,
+  MessageEvent,
+  Sse,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
@@ -122,7 +131,40 @@ export class PromiedosController {
     );
   }
 
-  @Get('lpf/current')
+  @Get('competitions')
+  @ApiOperation({
+    summary: '🏆 Listar competencias disponibles',
+    description:
+      'Devuelve las competencias con su slug (usado en las rutas), alias y fecha actual',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Competencias disponibles',
+    schema: {
+      example: [
+        {
+          slug: 'liga-profesional',
+          name: 'Liga Profesional',
+          aliases: ['lpf'],
+          currentRound: 5,
+          totalRounds: 16,
+          isActive: true,
+          isDefault: true,
+        },
+      ],
+    },
+  })
+  async getCompetitions() {
+    return this.promiedosService.getCompetitions();
+  }
+
+  @Get(':competition/current')
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
   @ApiOperation({
     summary:
       '🎯 Obtener la fecha actual automáticamente (con metadatos y agrupada por fecha)',
@@ -138,6 +180,7 @@ export class PromiedosController {
       'Datos de la fecha actual con metadatos y partidos agrupados por fecha',
     schema: {
       example: {
+        competition: 'liga-profesional',
         round: 1,
         roundName: 'Fecha 1',
         totalGames: 14,
@@ -188,10 +231,16 @@ export class PromiedosController {
       },
     },
   })
-  async getCurrentMatchday(): Promise<EnhancedMatchdayResponse> {
-    const matchdayData = await this.promiedosService.getMatchday();
+  async getCurrentMatchday(
+    @Param('competition') competition: string,
+  ): Promise<EnhancedMatchdayResponse> {
+    const matchdayData = await this.promiedosService.getMatchday(
+      undefined,
+      competition,
+    );
 
     return {
+      competition: matchdayData.competition,
       round: matchdayData.round,
       roundName: matchdayData.roundName,
       totalGames: matchdayData.totalGames,
@@ -201,7 +250,13 @@ export class PromiedosController {
     };
   }
 
-  @Get('lpf/current/round')
+  @Get(':competition/current/round')
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
   @ApiOperation({
     summary: '🧠 Obtener solo el número de fecha actual',
     description:
@@ -212,22 +267,30 @@ export class PromiedosController {
     description: 'Número de la fecha actual',
     schema: {
       example: {
+        competition: 'liga-profesional',
         currentRound: 1,
         reason: 'Fecha con partidos en vivo',
         timestamp: '2025-01-12T10:30:00Z',
       },
     },
   })
-  async getCurrentRound() {
-    const currentRound = await this.promiedosService.getCurrentRound();
+  async getCurrentRound(@Param('competition') competition: string) {
+    const current =
+      await this.promiedosService.getCompetitionCurrentRound(competition);
     return {
-      currentRound,
+      ...current,
       reason: 'Calculado automáticamente',
       timestamp: new Date().toISOString(),
     };
   }
 
-  @Get('lpf/:roundId')
+  @Get(':competition/:roundId')
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
   @ApiOperation({
     summary: 'Obtener información completa de una fecha específica',
     description:
@@ -244,6 +307,7 @@ export class PromiedosController {
     description: 'Datos de la fecha con pronósticos',
     schema: {
       example: {
+        competition: 'liga-profesional',
         round: 1,
         roundName: 'Fecha 1',
         totalGames: 14,
@@ -274,15 +338,72 @@ export class PromiedosController {
       },
     },
   })
-  async getMatchday(@Param('roundId', ParseIntPipe) roundId: number) {
-    return this.promiedosService.getMatchday(roundId);
+  async getMatchday(
+    @Param('competition') competition: string,
+    @Param('roundId', ParseIntPipe) roundId: number,
+  ) {
+    return this.promiedosService.getMatchday(roundId, competition);
   }
 
-  @Get('lpf/crest/:teamId')
+  @Sse(':competition/:roundId/events')
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
+  })
+  @ApiParam({
+    name: 'roundId',
+    type: 'number',
+    description: 'Número de la fecha/jornada',
+    example: 1,
+  })
+  @ApiOperation({
+    summary: '📡 Eventos en tiempo real de una fecha (SSE)',
+    description:
+      'Server-Sent Events con los cambios de cada procesamiento de puntos: "match_update" (resultado, estado y minuto de un partido) ' +
+      'y "live_points" (cuántos pronósticos de un partido en juego suman cada puntaje, sin datos de usuarios). Cada ~25 segundos llega un "ping".',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stream text/event-stream',
+    schema: {
+      example: {
+        type: 'match_update',
+        data: {
+          id: 'game_id_123',
+          round: 1,
+          homeTeam: 'River Plate',
+          awayTeam: 'Boca Juniors',
+          scores: [2, 1],
+          status: 'live',
+          statusName: '2T',
+          gameTime: "67'",
+          previousScores: [1, 1],
+          previousStatus: 'live',
+          timestamp: '2025-07-20T19:30:00.000Z',
+        },
+      },
+    },
+  })
+  async getMatchdayEvents(
+    @Param('competition') competition: string,
+    @Param('roundId', ParseIntPipe) roundId: number,
+  ): Promise<Observable<MessageEvent>> {
+    return this.promiedosService.getMatchdayEvents(roundId, competition);
+  }
+
+  @Get(':competition/crest/:teamId')
   @ApiOperation({
     summary: 'Obtener URL del escudo del equipo',
     description:
-      'Devuelve la URL directa del escudo del equipo desde promiedos.com.ar',
+      'Devuelve la URL directa del escudo del equipo según el proveedor de la competencia',
+  })
+  @ApiParam({
+    name: 'competition',
+    type: 'string',
+    description: 'Slug o alias de la competencia',
+    example: 'lpf',
   })
   @ApiParam({
     name: 'teamId',
@@ -298,10 +419,11 @@ export class PromiedosController {
     required: false,
   })
   getTeamCrest(
+    @Param('competition') competition: string,
     @Param('teamId') teamId: string,
     @Query('size') size: string = '1',
   ) {
     const sizeNumber = parseInt(size, 10) || 1;
-    return this.promiedosService.getTeamCrest(teamId, sizeNumber);
+    return this.promiedosService.getTeamCrest(teamId, sizeNumber, competition);
   }
 }
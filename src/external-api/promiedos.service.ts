@@ -1,21 +1,31 @@
-import { Injectable, Logger, forwardRef, Inject } from '@nestjs/common';
-import axios from 'axios';
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  forwardRef,
+  Inject,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { PronosticService } from '../pronostic/pronostic.service';
 import { MatchdayRepositoryService } from './services/matchday-repository.service';
 import { MatchdaySchedulerService } from './services/matchday-scheduler.service';
 import { MatchdayCacheService } from './services/matchday-cache.service';
 import { PointsService } from './services/points.service';
+import { FixtureService } from './services/fixture.service';
+import { CompetitionService } from './services/competition.service';
+import { LiveEventsService } from './services/live-events.service';
 import {
   Game,
+  GameDetail,
   GameWithPronostics,
   MatchdayResponse,
   PromiedosApiResponse,
 } from './interfaces/game.interface';
+import { Competition } from '@prisma/client';
 import * as Sentry from '@sentry/node';
 
 @Injectable()
 export class PromiedosService {
-  private readonly baseUrl = 'https://api.promiedos.com.ar';
   private readonly logger = new Logger(PromiedosService.name);
 
   constructor(
@@ -25,6 +35,9 @@ export class PromiedosService {
     private readonly cacheService: MatchdayCacheService,
     @Inject(forwardRef(() => PointsService))
     private readonly pointsService: PointsService,
+    private readonly fixtures: FixtureService,
+    private readonly competitions: CompetitionService,
+    private readonly liveEvents: LiveEventsService,
   ) {}
 
   // ==========================================
@@ -32,19 +45,40 @@ export class PromiedosService {
   // ==========================================
 
   /**
-   * 🆕 Obtiene la fecha actual desde la base de datos (método público rápido)
+   * 🏆 Competencias disponibles
+   */
+  async getCompetitions() {
+    const competitions = await this.competitions.findAll();
+
+    return competitions.map((competition) => ({
+      slug: competition.slug,
+      name: competition.name,
+      aliases: competition.aliases,
+      currentRound: competition.currentRound,
+      totalRounds: competition.totalRounds,
+      isActive: competition.isActive,
+      isDefault: this.competitions.isDefault(competition),
+    }));
+  }
+
+  /**
+   * 🆕 Obtiene la fecha actual de una competencia desde la base de datos
+   * (método público rápido). Por defecto, la competencia principal
    */
-  async getCurrentRound(): Promise<number> {
+  async getCurrentRound(competitionId?: number): Promise<number> {
     try {
-      const currentRound = await this.repository.getCurrentMatchday();
+      const currentRound =
+        await this.repository.getCurrentMatchday(competitionId);
 
       if (currentRound === null) {
         this.logger.warn(
           '⚠️ current_matchday no encontrado en DB, iniciando recálculo automático...',
         );
         // Primera vez - calcular y guardar
-        const result =
-          await this.scheduler.refreshCurrentMatchday('auto_calculated');
+        const result = await this.scheduler.refreshCurrentMatchday(
+          'auto_calculated',
+          competitionId,
+        );
         return result.newRound;
       }
 
@@ -57,6 +91,32 @@ export class PromiedosService {
     }
   }
 
+  /**
+   * 📡 Eventos en tiempo real de una fecha (resultados y puntos en vivo)
+   */
+  async getMatchdayEvents(
+    roundId: number,
+    competitionSlug: string,
+  ): Promise<Observable<MessageEvent>> {
+    const competition = await this.resolveCompetition(competitionSlug);
+
+    return this.liveEvents.streamMatchday(competition.id, roundId);
+  }
+
+  /**
+   * 🧠 Fecha actual de una competencia indicada por slug o alias
+   */
+  async getCompetitionCurrentRound(
+    competitionSlug: string,
+  ): Promise<{ competition: string; currentRound: number }> {
+    const competition = await this.resolveCompetition(competitionSlug);
+
+    return {
+      competition: competition.slug,
+      currentRound: await this.getCurrentRound(competition.id),
+    };
+  }
+
   /**
    * 🔄 Fuerza recálculo del current_matchday y lo guarda en DB
    */
@@ -76,29 +136,39 @@ export class PromiedosService {
   // ==========================================
 
   /**
-   * 📅 Obtiene los partidos de una fecha con pronósticos (optimizado con cache)
+   * 📅 Obtiene los partidos de una fecha de una competencia con pronósticos
+   * (optimizado con cache). Sin competencia, usa la competencia por defecto
    */
-  async getMatchday(roundId?: number): Promise<MatchdayResponse> {
+  async getMatchday(
+    roundId?: number,
+    competitionSlug?: string,
+  ): Promise<MatchdayResponse> {
+    const competition = await this.resolveCompetition(competitionSlug);
+
     try {
       // 🎯 Si no se proporciona roundId, usar la fecha actual
-      const finalRoundId = roundId || (await this.getCurrentRound());
+      const finalRoundId =
+        roundId || (await this.getCurrentRound(competition.id));
 
       this.logger.log(
         `📅 Obteniendo datos de fecha ${finalRoundId}${roundId ? ' (especificada)' : ' (calculada)'}`,
       );
 
-      // 1. Obtener datos de la API externa
-      const { data }: { data: PromiedosApiResponse } = await axios.get(
-        `${this.baseUrl}/league/games/hc/72_224_8_${finalRoundId}`,
+      // 1. Obtener partidos desde la DB (sincronizados desde Promiedos)
+      const data: PromiedosApiResponse = await this.fixtures.getRoundGames(
+        finalRoundId,
+        competition.id,
       );
 
       this.logger.log(
-        `✅ Datos obtenidos de Promiedos para fecha ${finalRoundId}`,
+        `✅ Partidos obtenidos de la DB para fecha ${finalRoundId}`,
       );
 
       // 2. Obtener pronósticos desde cache (optimizado)
-      const pronosticsMap =
-        await this.cacheService.getMatchdayPronostics(finalRoundId);
+      const pronosticsMap = await this.cacheService.getMatchdayPronostics(
+        finalRoundId,
+        competition.id,
+      );
 
       // 3. Enriquecer games con pronósticos (sin queries adicionales)
       const gamesWithPronostics: GameWithPronostics[] = data.games.map(
@@ -125,17 +195,23 @@ export class PromiedosService {
       }
 
       return {
+        competition: competition.slug,
         round: finalRoundId,
         roundName: data.games[0]?.stage_round_name || `Fecha ${finalRoundId}`,
         totalGames: data.games.length,
         games: gamesWithPronostics,
-        externalIdPattern: `72_224_8_${finalRoundId}`,
+        externalIdPattern: this.competitions
+          .getProvider(competition)
+          .getRoundKey(finalRoundId),
         databaseStatus: totalPronostics > 0 ? 'available' : 'unavailable',
       };
     } catch (error) {
       Sentry.withScope((scope) => {
         scope.setTag('service', 'promiedos');
-        scope.setContext('matchday', { roundId });
+        scope.setContext('matchday', {
+          roundId,
+          competition: competition.slug,
+        });
         scope.setLevel('error');
         Sentry.captureException(error);
       });
@@ -150,20 +226,37 @@ export class PromiedosService {
   }
 
   /**
-   * 🏟️ Obtiene la URL del escudo de un equipo
+   * 🏟️ Obtiene la URL del escudo de un equipo según el proveedor de la competencia
    */
-  async getTeamCrest(teamId: string, size: number = 1) {
+  async getTeamCrest(
+    teamId: string,
+    size: number = 1,
+    competitionSlug?: string,
+  ) {
     const validSizes = [1, 2, 3, 4, 5];
     const finalSize = validSizes.includes(size) ? size : 1;
+    const competition = await this.resolveCompetition(competitionSlug);
+    const crest = this.competitions
+      .getProvider(competition)
+      .getTeamCrest(teamId, finalSize);
 
     return {
-      teamId,
-      size: finalSize,
-      url: `${this.baseUrl}/images/team/${teamId}/${finalSize}`,
-      directUrl: `https://api.promiedos.com.ar/images/team/${teamId}/${finalSize}`,
+      ...crest,
+      directUrl: crest.url,
     };
   }
 
+  /**
+   * ⚽ Obtiene el detalle de un partido con sus goles
+   */
+  async getGameDetail(
+    gameId: string,
+    competitionSlug?: string,
+  ): Promise<GameDetail> {
+    const competition = await this.resolveCompetition(competitionSlug);
+    return this.competitions.getProvider(competition).getGameDetail(gameId);
+  }
+
   // ==========================================
   // 📊 ESTADÍSTICAS Y MONITOREO
   // ==========================================
@@ -256,4 +349,17 @@ export class PromiedosService {
   async hasMatchesToday() {
     return await this.pointsService.hasMatchesToday();
   }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * 🏆 Competencia indicada por slug o alias, o la competencia por defecto
+   */
+  private resolveCompetition(competitionSlug?: string): Promise<Competition> {
+    return competitionSlug
+      ? this.competitions.resolve(competitionSlug)
+      : this.competitions.getDefault();
+  }
 }
@@ -0,0 +1,22 @@
+import { FixtureProvider } from './fixture-provider.interface';
+import { PromiedosFixtureProvider } from './promiedos.provider';
+import { StaticFileFixtureProvider } from './static-file.provider';
+
+/**
+ * 🏭 Crea el proveedor de fixtures según FIXTURE_PROVIDER (promiedos | static)
+ * La clave es la liga en Promiedos o la ruta del archivo en el proveedor estático
+ */
+export function createFixtureProvider(
+  type: string = process.env.FIXTURE_PROVIDER || 'promiedos',
+  key?: string,
+  totalRounds?: number,
+): FixtureProvider {
+  switch (type) {
+    case 'promiedos':
+      return new PromiedosFixtureProvider(undefined, key, totalRounds);
+    case 'static':
+      return new StaticFileFixtureProvider(key);
+    default:
+      throw new Error(`Proveedor de fixtures desconocido: ${type}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { Game, GameDetail } from '../interfaces/game.interface';
+
+export interface TeamCrest {
+  teamId: string;
+  size: number;
+  url: string;
+}
+
+/**
+ * 📡 Fuente de partidos (Promiedos, archivo estático, otra API...)
+ * Cada competencia tiene el suyo (ver CompetitionService). Solo lo usan la
+ * sincronización de fixtures y las consultas de detalle
+ */
+export interface FixtureProvider {
+  readonly name: string;
+
+  /** Fechas disponibles en la competencia */
+  listRounds(): Promise<number[]>;
+
+  /** Partidos de una fecha en formato Game */
+  getRoundGames(round: number): Promise<Game[]>;
+
+  /** Detalle de un partido (goles) */
+  getGameDetail(gameId: string): Promise<GameDetail>;
+
+  /** Escudo de un equipo */
+  getTeamCrest(teamId: string, size?: number): TeamCrest;
+
+  /** Clave con la que el proveedor identifica una fecha */
+  getRoundKey(round: number): string;
+}
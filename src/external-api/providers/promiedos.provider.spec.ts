@@ -0,0 +1,123 @@
+import axios from 'axios';
+import { PromiedosFixtureProvider } from './promiedos.provider';
+
+jest.mock('axios');
+
+// Respuesta del gamecenter de Promiedos (recortada a los campos que se usan)
+const GAMECENTER_RESPONSE = {
+  game: {
+    id: 'edcgdfc',
+    stage_round_name: 'Fecha 5',
+    teams: [
+      { id: 'ihg', name: 'River Plate', short_name: 'River' },
+      { id: 'hcch', name: 'Boca Juniors', short_name: 'Boca' },
+    ],
+    scores: [2, 1],
+    status: { enum: 3, name: 'Finalizado', short_name: 'Fin' },
+    events: [
+      {
+        type: 1,
+        type_name: 'Gol',
+        team: 1,
+        time: '12',
+        player_name: 'Miguel Borja',
+      },
+      {
+        type: 3,
+        type_name: 'Tarjeta Amarilla',
+        team: 2,
+        time: '30',
+        player_name: 'Marcos Rojo',
+      },
+      {
+        type: 1,
+        type_name: 'Gol',
+        team: 2,
+        time: '45+2',
+        player_name: 'Edinson Cavani',
+      },
+      {
+        type: 7,
+        type_name: 'Gol en contra',
+        team: 1,
+        time: '67',
+        player_name: 'Cristian Lema',
+      },
+      {
+        type: 9,
+        type_name: 'Gol anulado',
+        team: 1,
+        time: '80',
+        player_name: 'Facundo Colidio',
+      },
+      {
+        type: 5,
+        type_name: 'Cambio',
+        team: 1,
+        time: '75',
+        player_name: 'Pablo Solari',
+      },
+    ],
+  },
+};
+
+describe('PromiedosFixtureProvider', () => {
+  const provider = new PromiedosFixtureProvider('https://api.test', '72_224_8');
+  const mockedGet = axios.get as jest.Mock;
+
+  afterEach(() => mockedGet.mockReset());
+
+  it('extrae solo los goles del gamecenter con su equipo', async () => {
+    mockedGet.mockResolvedValue({ data: GAMECENTER_RESPONSE });
+
+    const detail = await provider.getGameDetail('edcgdfc');
+
+    expect(mockedGet).toHaveBeenCalledWith(
+      'https://api.test/gamecenter/edcgdfc',
+    );
+    expect(detail).toEqual({
+      id: 'edcgdfc',
+      goals: [
+        {
+          playerName: 'Miguel Borja',
+          teamIndex: 0,
+          minute: 12,
+          ownGoal: false,
+        },
+        {
+          playerName: 'Edinson Cavani',
+          teamIndex: 1,
+          minute: 45,
+          ownGoal: false,
+        },
+        {
+          playerName: 'Cristian Lema',
+          teamIndex: 0,
+          minute: 67,
+          ownGoal: true,
+        },
+      ],
+    });
+  });
+
+  it('descarta los eventos sin tipo o sin equipo explícito', async () => {
+    mockedGet.mockResolvedValue({
+      data: {
+        game: {
+          events: [
+            { team: 1, time: '10', player_name: 'Sin tipo' },
+            { type_name: 'Gol', time: '20', player_name: 'Sin equipo' },
+            { type_name: 'Gol', team: 0, time: '30', player_name: 'Equipo 0' },
+            { type_name: 'Gol', team: 2, time: '40', player_name: 'Válido' },
+          ],
+        },
+      },
+    });
+
+    const detail = await provider.getGameDetail('abc');
+
+    expect(detail.goals).toEqual([
+      { playerName: 'Válido', teamIndex: 1, minute: 40, ownGoal: false },
+    ]);
+  });
+});
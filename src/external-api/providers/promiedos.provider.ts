@@ -0,0 +1,115 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import {
+  Game,
+  GameDetail,
+  GoalEvent,
+  PromiedosApiResponse,
+  PromiedosGameCenterResponse,
+  PromiedosGameEvent,
+} from '../interfaces/game.interface';
+import { FixtureProvider, TeamCrest } from './fixture-provider.interface';
+
+export class PromiedosFixtureProvider implements FixtureProvider {
+  readonly name = 'promiedos';
+  private readonly logger = new Logger(PromiedosFixtureProvider.name);
+
+  constructor(
+    private readonly baseUrl: string = process.env.PROMIEDOS_BASE_URL ||
+      'https://api.promiedos.com.ar',
+    private readonly leagueKey: string = process.env.PROMIEDOS_LEAGUE_KEY ||
+      '72_224_8',
+    private readonly totalRounds: number = parseInt(
+      process.env.PROMIEDOS_ROUNDS || '16',
+      10,
+    ),
+  ) {}
+
+  async listRounds(): Promise<number[]> {
+    return Array.from({ length: this.totalRounds }, (_, index) => index + 1);
+  }
+
+  /**
+   * 📅 Partidos de una fecha desde la API de Promiedos
+   */
+  async getRoundGames(round: number): Promise<Game[]> {
+    const { data }: { data: PromiedosApiResponse } = await axios.get(
+      `${this.baseUrl}/league/games/hc/${this.getRoundKey(round)}`,
+    );
+
+    return data.games || [];
+  }
+
+  /**
+   * ⚽ Detalle de un partido con sus goles (gamecenter de Promiedos)
+   */
+  async getGameDetail(gameId: string): Promise<GameDetail> {
+    try {
+      const { data } = await axios.get<PromiedosGameCenterResponse>(
+        `${this.baseUrl}/gamecenter/${gameId}`,
+      );
+
+      return {
+        id: gameId,
+        goals: this.extractGoalEvents(data),
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Error obteniendo detalle del partido ${gameId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  getTeamCrest(teamId: string, size: number = 1): TeamCrest {
+    return {
+      teamId,
+      size,
+      url: `${this.baseUrl}/images/team/${teamId}/${size}`,
+    };
+  }
+
+  getRoundKey(round: number): string {
+    return `${this.leagueKey}_${round}`;
+  }
+
+  /**
+   * 🔎 Extrae los goles de la respuesta del gamecenter
+   * Los eventos vienen agrupados por equipo; solo se toman los que indican
+   * explícitamente que son goles y de qué equipo (1 = local, 2 = visitante)
+   */
+  private extractGoalEvents(data: PromiedosGameCenterResponse): GoalEvent[] {
+    const game = data?.game || data || {};
+    const events: PromiedosGameEvent[] = game.events || game.goals || [];
+
+    return events
+      .map((event) => ({
+        event,
+        type: `${event.type_name ?? event.type ?? ''}`.toLowerCase(),
+        teamNumber: Number(event.team ?? event.team_index),
+      }))
+      .filter(
+        ({ type, teamNumber }) =>
+          this.isGoalType(type) && (teamNumber === 1 || teamNumber === 2),
+      )
+      .map(({ event, type, teamNumber }) => ({
+        playerName: event.player_name || event.player?.name || event.name || '',
+        teamIndex: teamNumber - 1,
+        minute: parseInt(event.time ?? event.minute, 10) || undefined,
+        ownGoal:
+          Boolean(event.own_goal) ||
+          type.includes('contra') ||
+          type.includes('own'),
+      }))
+      .filter((goal) => goal.playerName !== '');
+  }
+
+  // Gol convertido (se descartan los anulados)
+  private isGoalType(type: string): boolean {
+    return (
+      (type.includes('gol') || type.includes('goal')) &&
+      !type.includes('anulad') &&
+      !type.includes('disallowed')
+    );
+  }
+}
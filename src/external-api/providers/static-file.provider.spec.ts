@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { createFixtureProvider } from './fixture-provider.factory';
+import { PromiedosFixtureProvider } from './promiedos.provider';
+import { StaticFileFixtureProvider } from './static-file.provider';
+
+jest.mock('fs');
+
+const FIXTURE_FILE = {
+  roundKeyPrefix: 'amistosos',
+  crestUrlTemplate: 'https://cdn.test/escudos/{teamId}_{size}.png',
+  rounds: {
+    '2': [{ id: 'b' }],
+    '1': [{ id: 'a' }],
+    extra: [],
+  },
+  details: {
+    a: {
+      goals: [
+        {
+          playerName: 'Lionel Messi',
+          teamIndex: 0,
+          minute: 10,
+          ownGoal: false,
+        },
+      ],
+    },
+  },
+};
+
+describe('StaticFileFixtureProvider', () => {
+  const mockedRead = readFileSync as jest.Mock;
+  const provider = new StaticFileFixtureProvider('/data/fixture.json');
+
+  beforeEach(() => mockedRead.mockReturnValue(JSON.stringify(FIXTURE_FILE)));
+
+  afterEach(() => mockedRead.mockReset());
+
+  it('lista las fechas numéricas en orden', async () => {
+    await expect(provider.listRounds()).resolves.toEqual([1, 2]);
+    expect(mockedRead).toHaveBeenCalledWith('/data/fixture.json', 'utf-8');
+  });
+
+  it('devuelve los partidos de una fecha o ninguno si no existe', async () => {
+    await expect(provider.getRoundGames(1)).resolves.toEqual([{ id: 'a' }]);
+    await expect(provider.getRoundGames(9)).resolves.toEqual([]);
+  });
+
+  it('devuelve los goles del partido o una lista vacía', async () => {
+    await expect(provider.getGameDetail('a')).resolves.toEqual({
+      id: 'a',
+      goals: FIXTURE_FILE.details.a.goals,
+    });
+    await expect(provider.getGameDetail('b')).resolves.toEqual({
+      id: 'b',
+      goals: [],
+    });
+  });
+
+  it('arma el escudo y la clave de la fecha desde el archivo', () => {
+    expect(provider.getTeamCrest('river', 2).url).toBe(
+      'https://cdn.test/escudos/river_2.png',
+    );
+    expect(provider.getRoundKey(3)).toBe('amistosos_3');
+  });
+
+  it('exige la ruta del archivo', () => {
+    expect(() => new StaticFileFixtureProvider('')).toThrow(
+      'FIXTURE_FILE_PATH es obligatorio',
+    );
+  });
+});
+
+describe('createFixtureProvider', () => {
+  it('crea el proveedor según el tipo configurado', () => {
+    expect(createFixtureProvider('promiedos', '72_224_8')).toBeInstanceOf(
+      PromiedosFixtureProvider,
+    );
+    expect(
+      createFixtureProvider('static', '/data/fixture.json'),
+    ).toBeInstanceOf(StaticFileFixtureProvider);
+  });
+
+  it('rechaza un proveedor desconocido', () => {
+    expect(() => createFixtureProvider('otro')).toThrow(
+      'Proveedor de fixtures desconocido: otro',
+    );
+  });
+});
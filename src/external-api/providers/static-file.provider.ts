@@ -0,0 +1,84 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { Game, GameDetail } from '../interfaces/game.interface';
+import { FixtureProvider, TeamCrest } from './fixture-provider.interface';
+
+/**
+ * 📄 Formato del archivo de fixture estático
+ *
+ * {
+ *   "roundKeyPrefix": "amistosos",
+ *   "crestUrlTemplate": "https://cdn.ejemplo.com/escudos/{teamId}.png",
+ *   "rounds": { "1": [ Game, ... ], "2": [ ... ] },
+ *   "details": { "<gameId>": { "goals": [ GoalEvent, ... ] } }
+ * }
+ */
+interface StaticFixtureFile {
+  roundKeyPrefix?: string;
+  crestUrlTemplate?: string;
+  rounds: Record<string, Game[]>;
+  details?: Record<string, Omit<GameDetail, 'id'>>;
+}
+
+export class StaticFileFixtureProvider implements FixtureProvider {
+  readonly name = 'static';
+  private readonly logger = new Logger(StaticFileFixtureProvider.name);
+
+  constructor(
+    private readonly filePath: string = process.env.FIXTURE_FILE_PATH,
+  ) {
+    if (!filePath) {
+      throw new Error(
+        'FIXTURE_FILE_PATH es obligatorio con FIXTURE_PROVIDER=static',
+      );
+    }
+  }
+
+  async listRounds(): Promise<number[]> {
+    return Object.keys(this.readFile().rounds)
+      .map((round) => parseInt(round, 10))
+      .filter((round) => !isNaN(round))
+      .sort((a, b) => a - b);
+  }
+
+  async getRoundGames(round: number): Promise<Game[]> {
+    return this.readFile().rounds[round] || [];
+  }
+
+  async getGameDetail(gameId: string): Promise<GameDetail> {
+    const detail = this.readFile().details?.[gameId];
+
+    return {
+      id: gameId,
+      goals: detail?.goals || [],
+    };
+  }
+
+  getTeamCrest(teamId: string, size: number = 1): TeamCrest {
+    const template = this.readFile().crestUrlTemplate || '';
+
+    return {
+      teamId,
+      size,
+      url: template.replace('{teamId}', teamId).replace('{size}', `${size}`),
+    };
+  }
+
+  getRoundKey(round: number): string {
+    return `${this.readFile().roundKeyPrefix || 'static'}_${round}`;
+  }
+
+  /**
+   * 📖 Lee el archivo en cada consulta para tomar cambios sin reiniciar
+   */
+  private readFile(): StaticFixtureFile {
+    try {
+      return JSON.parse(readFileSync(this.filePath, 'utf-8'));
+    } catch (error) {
+      this.logger.error(
+        `❌ Error leyendo fixture estático ${this.filePath}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+
+const liga = { id: 1, slug: 'liga-profesional', aliases: ['lpf'] };
+
+function createPrismaMock() {
+  const prisma = {
+    competition: {
+      findFirst: jest.fn().mockResolvedValue(null),
+      count: jest.fn().mockResolvedValue(0),
+      create: jest.fn().mockResolvedValue(liga),
+    },
+    systemConfig: { findUnique: jest.fn().mockResolvedValue(null) },
+    matchdayPoints: { updateMany: jest.fn() },
+    pointsLedgerEntry: { updateMany: jest.fn() },
+    gradedGameSnapshot: { updateMany: jest.fn() },
+    $transaction: jest.fn((operations) => Promise.all(operations)),
+  };
+
+  for (const model of [
+    prisma.matchdayPoints,
+    prisma.pointsLedgerEntry,
+    prisma.gradedGameSnapshot,
+  ]) {
+    model.updateMany.mockResolvedValue({ count: 0 });
+  }
+
+  return prisma;
+}
+
+describe('CompetitionService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let competitions: CompetitionService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    competitions = new CompetitionService(prisma as unknown as PrismaService);
+  });
+
+  describe('getDefault', () => {
+    it('busca la competencia configurada por slug o alias', async () => {
+      prisma.competition.findFirst.mockResolvedValue(liga);
+
+      await expect(competitions.getDefault()).resolves.toBe(liga);
+      expect(prisma.competition.findFirst).toHaveBeenCalledWith({
+        where: { OR: [{ slug: 'lpf' }, { aliases: { has: 'lpf' } }] },
+      });
+    });
+
+    it('crea la Liga Profesional en una base sin competencias', async () => {
+      await expect(competitions.getDefault()).resolves.toBe(liga);
+      expect(prisma.competition.create).toHaveBeenCalled();
+    });
+
+    it('falla si hay competencias pero ninguna es la configurada', async () => {
+      prisma.competition.count.mockResolvedValue(2);
+
+      await expect(competitions.getDefault()).rejects.toThrow(
+        'La competencia por defecto "lpf" (DEFAULT_COMPETITION) no existe',
+      );
+      expect(prisma.competition.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onModuleInit', () => {
+    it('asigna la competencia por defecto a los puntos sin competencia', async () => {
+      prisma.competition.findFirst.mockResolvedValue(liga);
+
+      await competitions.onModuleInit();
+
+      for (const model of [
+        prisma.matchdayPoints,
+        prisma.pointsLedgerEntry,
+        prisma.gradedGameSnapshot,
+      ]) {
+        expect(model.updateMany).toHaveBeenCalledWith({
+          where: { competitionId: null },
+          data: { competitionId: 1 },
+        });
+      }
+    });
+  });
+});
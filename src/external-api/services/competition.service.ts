@@ -0,0 +1,246 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Competition, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { FixtureProvider } from '../providers/fixture-provider.interface';
+import { createFixtureProvider } from '../providers/fixture-provider.factory';
+
+// Slugs con los que se crea la competencia por defecto en una base vacía
+const LIGA_PROFESIONAL_SLUGS = ['liga-profesional', 'lpf'];
+
+@Injectable()
+export class CompetitionService implements OnModuleInit {
+  private readonly logger = new Logger(CompetitionService.name);
+  private readonly providers = new Map<number, FixtureProvider>();
+
+  // Competencia usada cuando una ruta o un torneo no indica ninguna
+  readonly defaultSlug = process.env.DEFAULT_COMPETITION || 'lpf';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit() {
+    try {
+      const competition = await this.ensureDefaultCompetition();
+      await this.backfillDefaultCompetition(competition);
+    } catch (error) {
+      this.logger.error(
+        `❌ Error inicializando competencias: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 🏆 Busca una competencia por slug o alias (ej: "lpf")
+   */
+  async resolve(slugOrAlias: string): Promise<Competition> {
+    const competition = await this.prisma.competition.findFirst({
+      where: {
+        OR: [{ slug: slugOrAlias }, { aliases: { has: slugOrAlias } }],
+      },
+    });
+
+    if (!competition) {
+      throw new NotFoundException(`Competencia "${slugOrAlias}" no encontrada`);
+    }
+
+    return competition;
+  }
+
+  /**
+   * 🏆 Busca varias competencias por slug o alias (falla si alguna no existe)
+   */
+  async resolveMany(slugsOrAliases: string[]): Promise<Competition[]> {
+    const competitions = await Promise.all(
+      [...new Set(slugsOrAliases)].map((slug) => this.resolve(slug)),
+    );
+
+    return [...new Map(competitions.map((c) => [c.id, c])).values()];
+  }
+
+  /**
+   * ⭐ Competencia por defecto (DEFAULT_COMPETITION, por defecto "lpf")
+   */
+  async getDefault(): Promise<Competition> {
+    try {
+      return await this.resolve(this.defaultSlug);
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) throw error;
+      return this.ensureDefaultCompetition();
+    }
+  }
+
+  /**
+   * ⭐ Indica si una competencia es la competencia por defecto
+   */
+  isDefault(competition: Competition): boolean {
+    return (
+      competition.slug === this.defaultSlug ||
+      competition.aliases.includes(this.defaultSlug)
+    );
+  }
+
+  /**
+   * 🔍 Competencia por id, o la competencia por defecto si no se indica
+   */
+  async findByIdOrDefault(competitionId?: number): Promise<Competition> {
+    if (competitionId === undefined) return this.getDefault();
+
+    const competition = await this.prisma.competition.findUnique({
+      where: { id: competitionId },
+    });
+
+    if (!competition) {
+      throw new NotFoundException(`Competencia ${competitionId} no encontrada`);
+    }
+
+    return competition;
+  }
+
+  /**
+   * 📋 Competencias activas (las que se sincronizan y procesan)
+   */
+  async findActive(): Promise<Competition[]> {
+    return this.prisma.competition.findMany({
+      where: { isActive: true },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  /**
+   * 📋 Todas las competencias
+   */
+  async findAll(): Promise<Competition[]> {
+    return this.prisma.competition.findMany({ orderBy: { id: 'asc' } });
+  }
+
+  /**
+   * 🏆 Filtro de torneos que juegan una competencia
+   * Los torneos sin competencias asignadas juegan la competencia por defecto
+   */
+  tournamentsPlaying(competition: Competition): Prisma.TournamentWhereInput {
+    const boundToCompetition: Prisma.TournamentWhereInput = {
+      competitions: { some: { competitionId: competition.id } },
+    };
+
+    if (!this.isDefault(competition)) return boundToCompetition;
+
+    return {
+      OR: [boundToCompetition, { competitions: { none: {} } }],
+    };
+  }
+
+  /**
+   * 📡 Proveedor de fixtures de una competencia (uno por competencia)
+   */
+  getProvider(competition: Competition): FixtureProvider {
+    let provider = this.providers.get(competition.id);
+
+    if (!provider) {
+      provider = createFixtureProvider(
+        competition.provider,
+        competition.providerKey,
+        competition.totalRounds,
+      );
+      this.providers.set(competition.id, provider);
+    }
+
+    return provider;
+  }
+
+  /**
+   * 🧹 Descarta el proveedor cacheado (cambió la clave de liga o las fechas)
+   */
+  clearProvider(competitionId: number): void {
+    this.providers.delete(competitionId);
+  }
+
+  /**
+   * 🌱 Devuelve la competencia por defecto (DEFAULT_COMPETITION). En una base
+   * sin competencias crea la Liga Profesional desde las variables del
+   * proveedor; la fecha actual se toma del antiguo current_matchday de
+   * SystemConfig si existe. Si hay competencias pero ninguna es la
+   * configurada, falla: los puntos no se imputan a otra competencia
+   */
+  private async ensureDefaultCompetition(): Promise<Competition> {
+    const existing = await this.prisma.competition.findFirst({
+      where: {
+        OR: [
+          { slug: this.defaultSlug },
+          { aliases: { has: this.defaultSlug } },
+        ],
+      },
+    });
+
+    if (existing) return existing;
+
+    const competitions = await this.prisma.competition.count();
+
+    if (
+      competitions > 0 ||
+      !LIGA_PROFESIONAL_SLUGS.includes(this.defaultSlug)
+    ) {
+      throw new Error(
+        `La competencia por defecto "${this.defaultSlug}" (DEFAULT_COMPETITION) no existe`,
+      );
+    }
+
+    const provider = process.env.FIXTURE_PROVIDER || 'promiedos';
+    const legacyRound = await this.prisma.systemConfig.findUnique({
+      where: { key: 'current_matchday' },
+    });
+
+    const competition = await this.prisma.competition.create({
+      data: {
+        slug: 'liga-profesional',
+        name: 'Liga Profesional',
+        aliases: ['lpf'],
+        provider,
+        providerKey:
+          provider === 'static'
+            ? process.env.FIXTURE_FILE_PATH
+            : process.env.PROMIEDOS_LEAGUE_KEY || '72_224_8',
+        totalRounds: parseInt(process.env.PROMIEDOS_ROUNDS || '16', 10),
+        currentRound: legacyRound ? parseInt(legacyRound.value, 10) : null,
+        currentRoundUpdatedAt: legacyRound?.updatedAt,
+        currentRoundUpdatedBy: legacyRound?.updatedBy,
+      },
+    });
+
+    this.logger.log(
+      `🌱 Competencia por defecto creada: ${competition.name} (${competition.slug})`,
+    );
+
+    return competition;
+  }
+
+  /**
+   * 🧩 Asigna la competencia por defecto a los puntos registrados antes de
+   * existir las competencias (competitionId vacío)
+   */
+  private async backfillDefaultCompetition(
+    competition: Competition,
+  ): Promise<void> {
+    const where = { competitionId: null };
+    const data = { competitionId: competition.id };
+
+    const [matchdayPoints, ledgerEntries, snapshots] =
+      await this.prisma.$transaction([
+        this.prisma.matchdayPoints.updateMany({ where, data }),
+        this.prisma.pointsLedgerEntry.updateMany({ where, data }),
+        this.prisma.gradedGameSnapshot.updateMany({ where, data }),
+      ]);
+
+    const total = matchdayPoints.count + ledgerEntries.count + snapshots.count;
+
+    if (total > 0) {
+      this.logger.log(
+        `🧩 ${total} registros de puntos asignados a ${competition.slug} ` +
+          `(${matchdayPoints.count} por fecha, ${ledgerEntries.count} del ledger, ${snapshots.count} snapshots)`,
+      );
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { CronJobExecution } from '@prisma/client';
 import { PrismaService } from '../../prisma.service';
 import * as Sentry from '@sentry/node';
 import * as os from 'os';
@@ -26,7 +27,7 @@ export class CronAuditService {
    */
   async startExecution(jobName: string, metadata?: any): Promise<number> {
     try {
-      const hostInfo = `${os.hostname()}-${process.env.DYNO || 'local'}`;
+      const hostInfo = this.getHostInfo();
 
       const execution = await this.prisma.cronJobExecution.create({
         data: {
@@ -46,6 +47,51 @@ export class CronAuditService {
     }
   }
 
+  /**
+   * ⏭️ Registra una ejecución omitida porque otra instancia tiene el lock del job
+   */
+  async recordSkipped(
+    jobName: string,
+    lock: { holder?: string; expiresAt?: Date },
+    metadata?: any,
+  ): Promise<number> {
+    try {
+      const now = new Date();
+
+      const execution = await this.prisma.cronJobExecution.create({
+        data: {
+          jobName,
+          status: 'skipped_locked',
+          startedAt: now,
+          completedAt: now,
+          executionTimeMs: 0,
+          metadata: {
+            ...(metadata && typeof metadata === 'object' ? metadata : {}),
+            lockHolder: lock.holder ?? null,
+            lockExpiresAt: lock.expiresAt?.toISOString() ?? null,
+          },
+          hostInfo: this.getHostInfo(),
+        },
+      });
+
+      this.logger.log(
+        `⏭️ Ejecución ${execution.id} de ${jobName} omitida: lock tomado por ${lock.holder ?? 'otra instancia'}`,
+      );
+
+      if (global.newrelic) {
+        global.newrelic.recordMetric(`Cron/${jobName}/SkippedLocked`, 1);
+      }
+
+      return execution.id;
+    } catch (error) {
+      this.logger.error(
+        `❌ Error registrando ejecución omitida de ${jobName}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * ✅ Marca una ejecución como completada exitosamente
    */
@@ -223,6 +269,7 @@ export class CronAuditService {
     totalExecutions: number;
     successfulExecutions: number;
     failedExecutions: number;
+    skippedExecutions: number;
     averageExecutionTime: number;
     lastExecution?: any;
     recentFailures: any[];
@@ -253,6 +300,9 @@ export class CronAuditService {
       const failedExecutions = executions.filter(
         (e) => e.status === 'failed',
       ).length;
+      const skippedExecutions = executions.filter(
+        (e) => e.status === 'skipped_locked',
+      ).length;
 
       const completedExecutions = executions.filter((e) => e.executionTimeMs);
       const averageExecutionTime =
@@ -280,6 +330,7 @@ export class CronAuditService {
         totalExecutions,
         successfulExecutions,
         failedExecutions,
+        skippedExecutions,
         averageExecutionTime,
         lastExecution,
         recentFailures,
@@ -328,6 +379,23 @@ export class CronAuditService {
     }
   }
 
+  /**
+   * 🕐 Última ejecución registrada de cada job
+   */
+  async getLastExecutions(
+    jobNames: string[],
+  ): Promise<Map<string, CronJobExecution>> {
+    const executions = await this.prisma.cronJobExecution.findMany({
+      where: { jobName: { in: jobNames } },
+      distinct: ['jobName'],
+      orderBy: [{ jobName: 'asc' }, { startedAt: 'desc' }],
+    });
+
+    return new Map(
+      executions.map((execution) => [execution.jobName, execution]),
+    );
+  }
+
   /**
    * 🧹 Limpia registros antiguos (mantener solo últimos 30 días)
    */
@@ -350,4 +418,12 @@ export class CronAuditService {
       throw error;
     }
   }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  private getHostInfo(): string {
+    return `${os.hostname()}-${process.env.DYNO || 'local'}`;
+  }
 }
@@ -0,0 +1,149 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { PrismaService } from '../../prisma.service';
+import { CronAuditService } from './cron-audit.service';
+import { CronJobRegistryService } from './cron-job-registry.service';
+
+const now = new Date('2025-07-19T20:00:00Z');
+
+// SystemConfig en memoria (clave → fila)
+function createPrismaMock() {
+  const rows = new Map<string, Record<string, unknown>>();
+
+  return {
+    rows,
+    systemConfig: {
+      findUnique: jest.fn(async ({ where }) => rows.get(where.key) ?? null),
+      findMany: jest.fn(async () => [...rows.values()]),
+      upsert: jest.fn(async ({ where, create, update }) => {
+        const row = {
+          ...(rows.get(where.key) ?? create),
+          ...update,
+          updatedAt: now,
+        };
+        rows.set(where.key, row);
+        return row;
+      }),
+    },
+  };
+}
+
+describe('CronJobRegistryService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let schedulerRegistry: SchedulerRegistry;
+  let registry: CronJobRegistryService;
+  let job: CronJob;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    prisma = createPrismaMock();
+    schedulerRegistry = new SchedulerRegistry();
+    job = new CronJob('0 3 * * *', jest.fn(), null, true, 'UTC');
+    schedulerRegistry.addCronJob('update-matchday', job as never);
+
+    const cronAudit = {
+      getLastExecutions: jest.fn().mockResolvedValue(new Map()),
+    } as unknown as CronAuditService;
+
+    registry = new CronJobRegistryService(
+      prisma as unknown as PrismaService,
+      schedulerRegistry,
+      cronAudit,
+    );
+  });
+
+  afterEach(() => {
+    job.stop();
+    jest.useRealTimers();
+  });
+
+  it('lista los jobs con su próxima ejecución', async () => {
+    await expect(registry.findAll()).resolves.toEqual([
+      expect.objectContaining({
+        name: 'update-matchday',
+        status: 'scheduled',
+        cronTime: '0 3 * * *',
+        overridden: false,
+        nextRun: '2025-07-20T03:00:00.000Z',
+        lastRun: null,
+      }),
+    ]);
+  });
+
+  it('pausa y reanuda un job guardando su estado', async () => {
+    const paused = await registry.pause('update-matchday', 'admin@test');
+
+    expect(paused).toMatchObject({
+      status: 'paused',
+      nextRun: null,
+      updatedBy: 'admin@test',
+    });
+    expect(job.running).toBe(false);
+    expect(prisma.rows.get('cron_job:update-matchday')).toMatchObject({
+      value: JSON.stringify({ paused: true, cronTime: null }),
+    });
+
+    const resumed = await registry.resume('update-matchday', 'admin@test');
+
+    expect(resumed.status).toBe('scheduled');
+    expect(job.running).toBe(true);
+  });
+
+  it('reprograma un job y vuelve a la expresión original', async () => {
+    const rescheduled = await registry.reschedule(
+      'update-matchday',
+      '30 4 * * *',
+      'admin@test',
+    );
+
+    expect(rescheduled).toMatchObject({
+      cronTime: '30 4 * * *',
+      defaultCronTime: '0 3 * * *',
+      overridden: true,
+      nextRun: '2025-07-20T04:30:00.000Z',
+    });
+
+    const restored = await registry.reschedule(
+      'update-matchday',
+      null,
+      'admin@test',
+    );
+
+    expect(restored).toMatchObject({
+      cronTime: '0 3 * * *',
+      overridden: false,
+    });
+  });
+
+  it('rechaza una expresión inválida', async () => {
+    await expect(
+      registry.reschedule('update-matchday', 'cada tanto', 'admin@test'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.systemConfig.upsert).not.toHaveBeenCalled();
+  });
+
+  it('aplica el estado guardado por otra instancia', async () => {
+    prisma.rows.set('cron_job:update-matchday', {
+      key: 'cron_job:update-matchday',
+      value: JSON.stringify({ paused: true, cronTime: '0 5 * * *' }),
+      updatedAt: now,
+      updatedBy: 'admin@test',
+    });
+
+    await registry.syncState();
+
+    expect(job.running).toBe(false);
+    expect(String(job.cronTime.source)).toBe('0 5 * * *');
+  });
+
+  it('no controla jobs inexistentes ni el de sincronización', async () => {
+    await expect(registry.pause('otro', 'admin@test')).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(
+      registry.pause('sync-cron-job-state', 'admin@test'),
+    ).rejects.toThrow('no se puede pausar ni reprogramar');
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronTime } from 'cron';
+import { PrismaService } from '../../prisma.service';
+import { CronAuditService } from './cron-audit.service';
+
+// Estado de un job guardado en SystemConfig (sobrevive a los reinicios)
+export interface CronJobState {
+  paused: boolean;
+  cronTime: string | null; // null = expresión original del job
+}
+
+export interface CronJobInfo {
+  name: string;
+  status: 'scheduled' | 'running' | 'paused' | 'stopped';
+  cronTime: string;
+  defaultCronTime: string;
+  overridden: boolean;
+  timeZone: string | null;
+  nextRun: string | null;
+  lastRun: {
+    status: string;
+    startedAt: Date;
+    completedAt: Date | null;
+    executionTimeMs: number | null;
+    errorMessage: string | null;
+  } | null;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+// Lo que se usa de un CronJob: los de @nestjs/schedule son de cron v4 y el
+// dinámico de puntos de cron v3 (isActive vs running)
+type RegisteredCronJob = {
+  cronTime: { source: unknown; timeZone?: string };
+  isActive?: boolean;
+  running?: boolean;
+  isCallbackRunning: boolean;
+  start(): void;
+  stop(): unknown;
+  setTime(time: unknown): void;
+  nextDate(): { toJSDate(): Date };
+  fireOnTick(): Promise<void> | void;
+};
+
+const STATE_KEY_PREFIX = 'cron_job:';
+const SYNC_JOB_NAME = 'sync-cron-job-state';
+
+@Injectable()
+export class CronJobRegistryService {
+  private readonly logger = new Logger(CronJobRegistryService.name);
+
+  // Expresión con la que se registró cada job (antes de cualquier cambio)
+  private readonly defaultCronTimes = new Map<string, string>();
+
+  // Jobs que auditan con otro nombre en CronJobExecution
+  private readonly AUDIT_JOB_NAMES: Record<string, string> = {
+    'process-points-every-5min': 'process-points-dynamic',
+  };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly cronAudit: CronAuditService,
+  ) {}
+
+  /**
+   * 🔄 Aplica a los jobs registrados el estado guardado (pausa y expresión)
+   * Corre al iniciar y cada minuto, para que los cambios hechos en otra
+   * instancia también se apliquen en esta
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: SYNC_JOB_NAME })
+  async syncState(): Promise<void> {
+    try {
+      const states = await this.loadStates();
+
+      for (const [name, job] of this.getJobs()) {
+        if (name === SYNC_JOB_NAME) continue;
+        this.applyState(name, job, states.get(name)?.state);
+      }
+    } catch (error) {
+      this.logger.error(
+        `❌ No se pudo sincronizar el estado de los cron jobs: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 🧷 Aplica el estado guardado a un job recién registrado (los dinámicos
+   * se crean y eliminan en cada ventana de partidos)
+   */
+  async applySavedState(name: string): Promise<void> {
+    const job = this.getJobs().get(name);
+    if (!job) return;
+
+    const saved = await this.prisma.systemConfig.findUnique({
+      where: { key: `${STATE_KEY_PREFIX}${name}` },
+    });
+
+    this.applyState(
+      name,
+      job,
+      saved ? this.parseState(saved.value) : undefined,
+    );
+  }
+
+  /**
+   * 📋 Todos los jobs registrados (estáticos y dinámicos) con su próxima
+   * ejecución y la última registrada en la auditoría
+   */
+  async findAll(): Promise<CronJobInfo[]> {
+    const jobs = [...this.getJobs()].sort(([a], [b]) => a.localeCompare(b));
+    const states = await this.loadStates();
+    const lastRuns = await this.cronAudit.getLastExecutions(
+      jobs.map(([name]) => this.getAuditJobName(name)),
+    );
+
+    return jobs.map(([name, job]) => {
+      const saved = states.get(name);
+      const defaultCronTime = this.rememberDefault(name, job);
+      const active = this.isActive(job);
+      const paused = saved?.state.paused === true;
+      const lastRun = lastRuns.get(this.getAuditJobName(name));
+
+      let status: CronJobInfo['status'];
+      if (job.isCallbackRunning) {
+        status = 'running';
+      } else if (paused) {
+        status = 'paused';
+      } else {
+        status = active ? 'scheduled' : 'stopped';
+      }
+
+      return {
+        name,
+        status,
+        cronTime: String(job.cronTime.source),
+        defaultCronTime,
+        overridden: String(job.cronTime.source) !== defaultCronTime,
+        timeZone: job.cronTime.timeZone ?? null,
+        nextRun: active ? job.nextDate().toJSDate().toISOString() : null,
+        lastRun: lastRun
+          ? {
+              status: lastRun.status,
+              startedAt: lastRun.startedAt,
+              completedAt: lastRun.completedAt,
+              executionTimeMs: lastRun.executionTimeMs,
+              errorMessage: lastRun.errorMessage,
+            }
+          : null,
+        updatedAt: saved?.updatedAt ?? null,
+        updatedBy: saved?.updatedBy ?? null,
+      };
+    });
+  }
+
+  /**
+   * ⏸️ Pausa un job: no se ejecuta hasta reanudarlo (también tras reiniciar)
+   */
+  async pause(name: string, updatedBy: string): Promise<CronJobInfo> {
+    return this.updateState(name, { paused: true }, updatedBy);
+  }
+
+  /**
+   * ▶️ Reanuda un job pausado
+   */
+  async resume(name: string, updatedBy: string): Promise<CronJobInfo> {
+    return this.updateState(name, { paused: false }, updatedBy);
+  }
+
+  /**
+   * 🕰️ Cambia la expresión cron de un job (null vuelve a la original)
+   */
+  async reschedule(
+    name: string,
+    cronTime: string | null,
+    updatedBy: string,
+  ): Promise<CronJobInfo> {
+    const expression = cronTime?.trim() || null;
+
+    if (expression) {
+      try {
+        new CronTime(expression);
+      } catch (error) {
+        throw new BadRequestException(
+          `Expresión cron inválida "${expression}": ${error.message}`,
+        );
+      }
+    }
+
+    return this.updateState(name, { cronTime: expression }, updatedBy);
+  }
+
+  /**
+   * 🧪 Ejecuta un job en el momento (aunque esté pausado). Respeta el lock
+   * del job: si otra instancia lo tiene, la corrida queda como skipped_locked
+   */
+  async run(name: string): Promise<void> {
+    const job = this.getJob(name);
+
+    this.logger.log(`🧪 Ejecutando ${name} manualmente`);
+    await job.fireOnTick();
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  private async updateState(
+    name: string,
+    changes: Partial<CronJobState>,
+    updatedBy: string,
+  ): Promise<CronJobInfo> {
+    if (name === SYNC_JOB_NAME) {
+      throw new BadRequestException(
+        `El job ${name} no se puede pausar ni reprogramar`,
+      );
+    }
+
+    const job = this.getJob(name);
+    const key = `${STATE_KEY_PREFIX}${name}`;
+    const saved = await this.prisma.systemConfig.findUnique({ where: { key } });
+    const state: CronJobState = {
+      ...(saved
+        ? this.parseState(saved.value)
+        : { paused: false, cronTime: null }),
+      ...changes,
+    };
+    const value = JSON.stringify(state);
+
+    await this.prisma.systemConfig.upsert({
+      where: { key },
+      update: { value, updatedBy },
+      create: { key, value, updatedBy },
+    });
+
+    this.applyState(name, job, state);
+
+    this.logger.log(
+      `🎛️ ${name} actualizado por ${updatedBy}: ${state.paused ? 'pausado' : 'activo'}, ${state.cronTime ?? 'expresión original'}`,
+    );
+
+    return (await this.findAll()).find((info) => info.name === name);
+  }
+
+  /**
+   * ⚙️ Ajusta expresión y pausa de un job según su estado guardado
+   */
+  private applyState(
+    name: string,
+    job: RegisteredCronJob,
+    state?: CronJobState,
+  ): void {
+    const defaultCronTime = this.rememberDefault(name, job);
+    const cronTime = state?.cronTime ?? defaultCronTime;
+
+    if (String(job.cronTime.source) !== cronTime) {
+      // CronTime de la misma versión de cron que el job (setTime lo exige)
+      const JobCronTime = job.cronTime.constructor as new (
+        source: string,
+        timeZone?: string,
+      ) => unknown;
+
+      job.setTime(new JobCronTime(cronTime, job.cronTime.timeZone));
+      this.logger.log(`🕰️ ${name} reprogramado: ${cronTime}`);
+    }
+
+    const active = this.isActive(job);
+
+    if (state?.paused && active) {
+      job.stop();
+      this.logger.log(`⏸️ ${name} pausado`);
+    } else if (!state?.paused && !active) {
+      job.start();
+      this.logger.log(`▶️ ${name} reanudado`);
+    }
+  }
+
+  private rememberDefault(name: string, job: RegisteredCronJob): string {
+    if (!this.defaultCronTimes.has(name)) {
+      this.defaultCronTimes.set(name, String(job.cronTime.source));
+    }
+
+    return this.defaultCronTimes.get(name);
+  }
+
+  private async loadStates(): Promise<
+    Map<
+      string,
+      { state: CronJobState; updatedAt: Date; updatedBy: string | null }
+    >
+  > {
+    const rows = await this.prisma.systemConfig.findMany({
+      where: { key: { startsWith: STATE_KEY_PREFIX } },
+    });
+
+    return new Map(
+      rows.map((row) => [
+        row.key.slice(STATE_KEY_PREFIX.length),
+        {
+          state: this.parseState(row.value),
+          updatedAt: row.updatedAt,
+          updatedBy: row.updatedBy,
+        },
+      ]),
+    );
+  }
+
+  private parseState(value: string): CronJobState {
+    try {
+      const parsed = JSON.parse(value);
+      return {
+        paused: parsed.paused === true,
+        cronTime: typeof parsed.cronTime === 'string' ? parsed.cronTime : null,
+      };
+    } catch {
+      return { paused: false, cronTime: null };
+    }
+  }
+
+  private getJobs(): Map<string, RegisteredCronJob> {
+    return this.schedulerRegistry.getCronJobs() as unknown as Map<
+      string,
+      RegisteredCronJob
+    >;
+  }
+
+  private getJob(name: string): RegisteredCronJob {
+    const job = this.getJobs().get(name);
+
+    if (!job) {
+      throw new NotFoundException(
+        `Cron job ${name} no encontrado (los dinámicos solo existen mientras están programados)`,
+      );
+    }
+
+    return job;
+  }
+
+  private isActive(job: RegisteredCronJob): boolean {
+    return job.isActive ?? job.running ?? false;
+  }
+
+  private getAuditJobName(name: string): string {
+    return this.AUDIT_JOB_NAMES[name] ?? name;
+  }
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CronLockService } from './cron-lock.service';
+
+const now = new Date('2025-07-19T20:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+function createPrismaMock() {
+  return {
+    cronJobLock: {
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+}
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: Prisma.prismaVersion.client,
+  });
+}
+
+describe('CronLockService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let locks: CronLockService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    prisma = createPrismaMock();
+    locks = new CronLockService(prisma as unknown as PrismaService);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('acquire', () => {
+    it('toma un lock vencido', async () => {
+      prisma.cronJobLock.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await locks.acquire('process-points', {
+        ttlMs: 30 * MINUTE_MS,
+      });
+
+      expect(result).toEqual({
+        acquired: true,
+        holder: locks.holder,
+        expiresAt: new Date('2025-07-19T20:30:00Z'),
+      });
+      expect(prisma.cronJobLock.updateMany).toHaveBeenCalledWith({
+        where: { jobName: 'process-points', OR: [{ expiresAt: { lte: now } }] },
+        data: expect.objectContaining({ holder: locks.holder }),
+      });
+      expect(prisma.cronJobLock.create).not.toHaveBeenCalled();
+    });
+
+    it('crea el lock la primera vez', async () => {
+      await expect(
+        locks.acquire('process-points', { ttlMs: MINUTE_MS }),
+      ).resolves.toMatchObject({ acquired: true });
+
+      expect(prisma.cronJobLock.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ jobName: 'process-points' }),
+      });
+    });
+
+    it('no lo toma si otra instancia lo tiene', async () => {
+      prisma.cronJobLock.create.mockRejectedValue(uniqueViolation());
+      prisma.cronJobLock.findUnique.mockResolvedValue({
+        holder: 'web.2',
+        expiresAt: new Date('2025-07-19T20:10:00Z'),
+      });
+
+      await expect(
+        locks.acquire('process-points', { ttlMs: MINUTE_MS }),
+      ).resolves.toEqual({
+        acquired: false,
+        holder: 'web.2',
+        expiresAt: new Date('2025-07-19T20:10:00Z'),
+      });
+    });
+
+    it('con ignoreHold toma un lock liberado aunque siga retenido', async () => {
+      prisma.cronJobLock.updateMany.mockResolvedValue({ count: 1 });
+
+      await locks.acquire('process-points', {
+        ttlMs: MINUTE_MS,
+        ignoreHold: true,
+      });
+
+      expect(prisma.cronJobLock.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            jobName: 'process-points',
+            OR: [{ expiresAt: { lte: now } }, { releasedAt: { not: null } }],
+          },
+        }),
+      );
+    });
+
+    it('propaga los errores que no son de lock duplicado', async () => {
+      prisma.cronJobLock.create.mockRejectedValue(new Error('sin conexión'));
+
+      await expect(
+        locks.acquire('process-points', { ttlMs: MINUTE_MS }),
+      ).rejects.toThrow('sin conexión');
+    });
+  });
+
+  describe('release', () => {
+    it('retiene el lock hasta cumplir holdMs', async () => {
+      await locks.acquire('process-points', {
+        ttlMs: 30 * MINUTE_MS,
+        holdMs: 10 * MINUTE_MS,
+      });
+      jest.setSystemTime(new Date('2025-07-19T20:02:00Z'));
+
+      await locks.release('process-points');
+
+      expect(prisma.cronJobLock.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          jobName: 'process-points',
+          holder: locks.holder,
+          releasedAt: null,
+        },
+        data: {
+          releasedAt: new Date('2025-07-19T20:02:00Z'),
+          expiresAt: new Date('2025-07-19T20:10:00Z'),
+        },
+      });
+    });
+
+    it('vence en el momento si no hay retención', async () => {
+      await locks.acquire('process-points', { ttlMs: 30 * MINUTE_MS });
+      jest.setSystemTime(new Date('2025-07-19T20:02:00Z'));
+
+      await locks.release('process-points');
+
+      expect(prisma.cronJobLock.updateMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: {
+            releasedAt: new Date('2025-07-19T20:02:00Z'),
+            expiresAt: new Date('2025-07-19T20:02:00Z'),
+          },
+        }),
+      );
+    });
+
+    it('no falla si no puede liberar (vence con el ttl)', async () => {
+      prisma.cronJobLock.updateMany.mockRejectedValue(new Error('timeout'));
+
+      await expect(locks.release('process-points')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import * as os from 'os';
+
+export interface CronLockOptions {
+  // Máximo que puede tardar el job (si la instancia muere, el lock vence)
+  ttlMs: number;
+  // Mínimo que se retiene el lock aunque el job termine antes, para que otra
+  // instancia no repita la misma ejecución programada
+  holdMs?: number;
+  // Tomar el lock aunque esté retenido por una ejecución ya terminada
+  ignoreHold?: boolean;
+}
+
+export interface CronLockResult {
+  acquired: boolean;
+  holder?: string;
+  expiresAt?: Date;
+}
+
+@Injectable()
+export class CronLockService {
+  private readonly logger = new Logger(CronLockService.name);
+
+  // Identifica esta instancia (mismo formato que CronJobExecution.hostInfo)
+  readonly holder = `${os.hostname()}-${process.env.DYNO || 'local'}-${process.pid}`;
+
+  // Locks tomados por esta instancia: nombre → retención mínima
+  private readonly heldLocks = new Map<string, Date>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 🔒 Intenta tomar el lock de un job. Solo una instancia lo obtiene hasta
+   * que se libere (y pase su retención) o venza
+   */
+  async acquire(
+    lockName: string,
+    options: CronLockOptions,
+  ): Promise<CronLockResult> {
+    const now = new Date();
+    const data = {
+      holder: this.holder,
+      acquiredAt: now,
+      expiresAt: new Date(now.getTime() + options.ttlMs),
+      releasedAt: null,
+    };
+
+    // La fila se bloquea al actualizar: si dos instancias compiten, la segunda
+    // vuelve a evaluar el filtro con el lock ya tomado y no actualiza nada
+    const { count } = await this.prisma.cronJobLock.updateMany({
+      where: {
+        jobName: lockName,
+        OR: [
+          { expiresAt: { lte: now } },
+          ...(options.ignoreHold ? [{ releasedAt: { not: null } }] : []),
+        ],
+      },
+      data,
+    });
+
+    let acquired = count > 0;
+
+    if (!acquired) {
+      try {
+        await this.prisma.cronJobLock.create({
+          data: { jobName: lockName, ...data },
+        });
+        acquired = true;
+      } catch (error) {
+        if (
+          !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+          error.code !== 'P2002'
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    if (acquired) {
+      this.heldLocks.set(
+        lockName,
+        new Date(now.getTime() + (options.holdMs || 0)),
+      );
+      return { acquired: true, holder: this.holder, expiresAt: data.expiresAt };
+    }
+
+    const current = await this.prisma.cronJobLock.findUnique({
+      where: { jobName: lockName },
+    });
+
+    this.logger.log(
+      `🔒 Lock ${lockName} ocupado por ${current?.holder ?? 'otra instancia'} hasta ${current?.expiresAt?.toISOString() ?? '?'}`,
+    );
+
+    return {
+      acquired: false,
+      holder: current?.holder,
+      expiresAt: current?.expiresAt,
+    };
+  }
+
+  /**
+   * 🔓 Libera un lock de esta instancia (queda retenido hasta holdMs)
+   */
+  async release(lockName: string): Promise<void> {
+    const holdUntil = this.heldLocks.get(lockName);
+    this.heldLocks.delete(lockName);
+
+    const now = new Date();
+
+    try {
+      await this.prisma.cronJobLock.updateMany({
+        where: { jobName: lockName, holder: this.holder, releasedAt: null },
+        data: {
+          releasedAt: now,
+          expiresAt: holdUntil && holdUntil > now ? holdUntil : now,
+        },
+      });
+    } catch (error) {
+      // Si no se pudo liberar, el lock vence solo al cumplirse el ttl
+      this.logger.warn(
+        `⚠️ No se pudo liberar el lock ${lockName}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 📋 Locks de todos los jobs (para monitoreo)
+   */
+  async findAll() {
+    return this.prisma.cronJobLock.findMany({ orderBy: { jobName: 'asc' } });
+  }
+}
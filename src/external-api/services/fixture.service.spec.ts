@@ -0,0 +1,169 @@
+import { Competition } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { Game, Team } from '../interfaces/game.interface';
+import { CompetitionService } from './competition.service';
+import { FixtureService } from './fixture.service';
+import { SeasonService } from './season.service';
+
+const competition = { id: 1, slug: 'liga-profesional' } as Competition;
+
+function team(id: string, name: string): Team {
+  return {
+    id,
+    name,
+    short_name: name,
+    url_name: id,
+    country_id: 'arg',
+    allow_open: false,
+    colors: { color: '#fff', text_color: '#000' },
+    red_cards: 0,
+  };
+}
+
+function game(id: string, teams: Team[], scores: number[] = []): Game {
+  return {
+    id,
+    stage_round_name: 'Fecha 5',
+    winner: -1,
+    teams,
+    url_name: id,
+    scores,
+    status: { enum: 1, name: 'Prog.', short_name: 'Prog.', symbol_name: '' },
+    start_time: '19-07-2025 15:30',
+    game_time: null,
+    game_time_to_display: '',
+    game_time_status_to_display: '',
+  };
+}
+
+const river = team('ihg', 'River Plate');
+const boca = team('hcch', 'Boca Juniors');
+const racing = team('hchc', 'Racing Club');
+
+function createPrismaMock() {
+  return {
+    team: { upsert: jest.fn() },
+    match: {
+      upsert: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    pronostic: {
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+}
+
+describe('FixtureService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let provider: { name: string; getRoundGames: jest.Mock };
+  let fixtures: FixtureService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    provider = { name: 'promiedos', getRoundGames: jest.fn() };
+
+    const competitions = {
+      findByIdOrDefault: jest.fn().mockResolvedValue(competition),
+      getProvider: jest.fn().mockReturnValue(provider),
+    } as unknown as CompetitionService;
+    const seasons = {
+      getCurrent: jest.fn().mockResolvedValue({ id: 3 }),
+    } as unknown as SeasonService;
+
+    fixtures = new FixtureService(
+      prisma as unknown as PrismaService,
+      competitions,
+      seasons,
+    );
+  });
+
+  describe('syncRound', () => {
+    it('guarda cada equipo una vez y los partidos con su temporada', async () => {
+      provider.getRoundGames.mockResolvedValue([
+        game('a', [river, boca], [2, 1]),
+        game('b', [racing, river]),
+      ]);
+
+      const result = await fixtures.syncRound(5);
+
+      expect(result).toEqual({
+        competition: 'liga-profesional',
+        round: 5,
+        matches: 2,
+        teams: 3,
+      });
+      expect(prisma.team.upsert).toHaveBeenCalledTimes(3);
+      expect(prisma.match.upsert).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        update: expect.objectContaining({
+          competitionId: 1,
+          round: 5,
+          homeTeamId: 'ihg',
+          awayTeamId: 'hcch',
+          homeScore: 2,
+          awayScore: 1,
+          kickoff: new Date('2025-07-19T18:30:00.000Z'),
+        }),
+        create: expect.objectContaining({ id: 'a', seasonId: 3 }),
+      });
+      expect(prisma.match.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'b' },
+          update: expect.objectContaining({ homeScore: null, awayScore: null }),
+        }),
+      );
+    });
+
+    it('vincula los pronósticos del partido sincronizado', async () => {
+      provider.getRoundGames.mockResolvedValue([game('a', [river, boca])]);
+
+      await fixtures.syncRound(5);
+
+      expect(prisma.pronostic.updateMany).toHaveBeenCalledWith({
+        where: { externalId: 'a', matchId: null },
+        data: { matchId: 'a' },
+      });
+    });
+  });
+
+  describe('syncRounds', () => {
+    it('sigue con las demás fechas si una falla', async () => {
+      provider.getRoundGames
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce([game('b', [racing, river])]);
+
+      const results = await fixtures.syncRounds([4, 5]);
+
+      expect(results).toEqual([expect.objectContaining({ round: 5 })]);
+    });
+  });
+
+  describe('getRoundGames', () => {
+    it('sincroniza la fecha si nunca se guardó', async () => {
+      provider.getRoundGames.mockResolvedValue([]);
+
+      const response = await fixtures.getRoundGames(5);
+
+      expect(provider.getRoundGames).toHaveBeenCalledWith(5);
+      expect(prisma.match.findMany).toHaveBeenCalledTimes(2);
+      expect(response).toEqual({ TTL: 0, games: [] });
+    });
+  });
+
+  describe('linkPronostics', () => {
+    it('vincula los pronósticos y devuelve los partidos sin sincronizar', async () => {
+      prisma.pronostic.findMany.mockResolvedValue([
+        { externalId: 'a' },
+        { externalId: 'z' },
+      ]);
+      prisma.match.findMany.mockResolvedValue([{ id: 'a' }]);
+      prisma.pronostic.updateMany.mockResolvedValue({ count: 4 });
+
+      await expect(fixtures.linkPronostics()).resolves.toEqual({
+        linked: 4,
+        orphanGames: ['z'],
+      });
+    });
+  });
+});
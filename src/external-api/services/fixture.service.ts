@@ -0,0 +1,378 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Match, Team as TeamRecord } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { Game, PromiedosApiResponse, Team } from '../interfaces/game.interface';
+import { argentinaToUTC } from '../utils/date-time.utils';
+import { MATCH_STATUS } from '../utils/match-status.utils';
+import { fromJson } from '../utils/prisma-json.utils';
+import { CompetitionService } from './competition.service';
+import { SeasonService } from './season.service';
+
+type MatchWithTeams = Match & { homeTeam: TeamRecord; awayTeam: TeamRecord };
+
+export interface MatchRound {
+  competitionId: number;
+  round: number;
+}
+
+export interface PronosticLinkResult {
+  linked: number;
+  orphanGames: string[]; // Partidos con pronósticos que no están en la tabla
+}
+
+export interface RoundSyncResult {
+  competition: string;
+  round: number;
+  matches: number;
+  teams: number;
+}
+
+@Injectable()
+export class FixtureService {
+  private readonly logger = new Logger(FixtureService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly competitions: CompetitionService,
+    private readonly seasons: SeasonService,
+  ) {}
+
+  // ==========================================
+  // 🔄 SINCRONIZACIÓN (única lectura de fixtures desde el proveedor)
+  // ==========================================
+
+  /**
+   * 🔄 Sincroniza los partidos y equipos de una fecha desde el proveedor
+   * de la competencia (por defecto, la competencia principal)
+   */
+  async syncRound(
+    round: number,
+    competitionId?: number,
+  ): Promise<RoundSyncResult> {
+    const competition =
+      await this.competitions.findByIdOrDefault(competitionId);
+    const games = await this.competitions
+      .getProvider(competition)
+      .getRoundGames(round);
+    const season = await this.seasons.getCurrent(competition.id);
+    const teams = new Map<string, Team>();
+
+    games.forEach((game) =>
+      game.teams?.forEach((team) => teams.set(team.id, team)),
+    );
+
+    for (const team of teams.values()) {
+      await this.upsertTeam(team);
+    }
+
+    for (const game of games) {
+      await this.upsertMatch(game, competition.id, round, season?.id);
+    }
+
+    this.logger.debug(
+      `🔄 ${competition.slug} fecha ${round} sincronizada: ${games.length} partidos, ${teams.size} equipos`,
+    );
+
+    return {
+      competition: competition.slug,
+      round,
+      matches: games.length,
+      teams: teams.size,
+    };
+  }
+
+  /**
+   * 🔄 Sincroniza varias fechas (los errores de una fecha no cortan el resto)
+   */
+  async syncRounds(
+    rounds: number[],
+    competitionId?: number,
+  ): Promise<RoundSyncResult[]> {
+    const results: RoundSyncResult[] = [];
+
+    for (const round of rounds) {
+      try {
+        results.push(await this.syncRound(round, competitionId));
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ No se pudo sincronizar la fecha ${round}: ${error.message}`,
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 🔄 Sincroniza todas las fechas que informa el proveedor de la competencia
+   */
+  async syncAllRounds(competitionId?: number): Promise<RoundSyncResult[]> {
+    const competition =
+      await this.competitions.findByIdOrDefault(competitionId);
+    const provider = this.competitions.getProvider(competition);
+    const rounds = await provider.listRounds();
+
+    this.logger.log(
+      `🔄 Sincronizando fixture completo de ${competition.slug} desde ${provider.name} (${rounds.length} fechas)...`,
+    );
+
+    const results = await this.syncRounds(rounds, competition.id);
+
+    this.logger.log(
+      `✅ Fixture de ${competition.slug} sincronizado: ${results.reduce((sum, r) => sum + r.matches, 0)} partidos en ${results.length} fechas`,
+    );
+
+    return results;
+  }
+
+  // ==========================================
+  // 📖 LECTURAS (desde la base de datos)
+  // ==========================================
+
+  /**
+   * 🔗 Vincula con su partido (matchId) los pronósticos que todavía no lo
+   * tienen y devuelve los partidos con pronósticos que no están sincronizados
+   */
+  async linkPronostics(): Promise<PronosticLinkResult> {
+    const unlinked = await this.prisma.pronostic.findMany({
+      where: { matchId: null },
+      distinct: ['externalId'],
+      select: { externalId: true },
+    });
+    const externalIds = unlinked.map((pronostic) => pronostic.externalId);
+
+    const matches = await this.prisma.match.findMany({
+      where: { id: { in: externalIds } },
+      select: { id: true },
+    });
+    const synced = new Set(matches.map((match) => match.id));
+
+    let linked = 0;
+    for (const matchId of synced) {
+      linked += await this.linkMatchPronostics(matchId);
+    }
+
+    const orphanGames = externalIds.filter((id) => !synced.has(id));
+
+    this.logger.log(
+      `🔗 ${linked} pronósticos vinculados a su partido, ${orphanGames.length} partidos sin sincronizar`,
+    );
+
+    return { linked, orphanGames };
+  }
+
+  /**
+   * 📅 Partidos de una fecha desde la DB, con el mismo formato que Promiedos
+   * (de la temporada vigente, si la competencia tiene temporadas)
+   * Si la fecha nunca se sincronizó, se sincroniza en el momento
+   */
+  async getRoundGames(
+    round: number,
+    competitionId?: number,
+  ): Promise<PromiedosApiResponse> {
+    const competition =
+      await this.competitions.findByIdOrDefault(competitionId);
+    let matches = await this.findRoundMatches(competition.id, round);
+
+    if (matches.length === 0) {
+      this.logger.debug(
+        `❌ ${competition.slug} fecha ${round} sin partidos en DB, sincronizando...`,
+      );
+      await this.syncRound(round, competition.id);
+      matches = await this.findRoundMatches(competition.id, round);
+    }
+
+    return {
+      TTL: 0,
+      games: matches.map((match) => this.toGame(match)),
+    };
+  }
+
+  /**
+   * 🔎 Partidos guardados con los ids dados (de cualquier fecha), con el
+   * formato de Promiedos e indexados por id
+   */
+  async getGamesByIds(externalIds: string[]): Promise<Map<string, Game>> {
+    const matches = await this.prisma.match.findMany({
+      where: { id: { in: externalIds } },
+      include: { homeTeam: true, awayTeam: true },
+    });
+
+    return new Map(matches.map((match) => [match.id, this.toGame(match)]));
+  }
+
+  /**
+   * 🗂️ Competencias y fechas a las que pertenecen los partidos dados
+   */
+  async getRoundsOfMatches(externalIds: string[]): Promise<MatchRound[]> {
+    return this.prisma.match.findMany({
+      where: { id: { in: externalIds } },
+      select: { competitionId: true, round: true },
+      distinct: ['competitionId', 'round'],
+    });
+  }
+
+  /**
+   * 📅 Cantidad de partidos con inicio dentro del rango dado (UTC)
+   */
+  async countMatchesBetween(from: Date, to: Date): Promise<number> {
+    return this.prisma.match.count({
+      where: { kickoff: { gte: from, lt: to } },
+    });
+  }
+
+  /**
+   * 🗓️ Partidos de competencias activas con inicio dentro del rango (UTC),
+   * ordenados por horario
+   */
+  async findMatchesBetween(from: Date, to: Date): Promise<Match[]> {
+    return this.prisma.match.findMany({
+      where: {
+        kickoff: { gte: from, lt: to },
+        competition: { isActive: true },
+      },
+      orderBy: [{ kickoff: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * 🔴 Cantidad de partidos en juego de competencias activas
+   */
+  async countLiveMatches(): Promise<number> {
+    return this.prisma.match.count({
+      where: {
+        statusEnum: MATCH_STATUS.LIVE,
+        competition: { isActive: true },
+      },
+    });
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  private async findRoundMatches(
+    competitionId: number,
+    round: number,
+  ): Promise<MatchWithTeams[]> {
+    const season = await this.seasons.getCurrent(competitionId);
+
+    return this.prisma.match.findMany({
+      where: { competitionId, round, seasonId: season?.id },
+      include: { homeTeam: true, awayTeam: true },
+      orderBy: [{ kickoff: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  private async upsertTeam(team: Team): Promise<void> {
+    const data = {
+      name: team.name,
+      shortName: team.short_name,
+      urlName: team.url_name,
+      countryId: team.country_id,
+      allowOpen: team.allow_open ?? false,
+      colors: team.colors ? { ...team.colors } : undefined,
+    };
+
+    await this.prisma.team.upsert({
+      where: { id: team.id },
+      update: data,
+      create: { id: team.id, ...data },
+    });
+  }
+
+  private async upsertMatch(
+    game: Game,
+    competitionId: number,
+    round: number,
+    seasonId?: number,
+  ): Promise<void> {
+    const [home, away] = game.teams;
+    const hasScores = Array.isArray(game.scores) && game.scores.length === 2;
+
+    const data = {
+      competitionId,
+      round,
+      roundName: game.stage_round_name,
+      homeTeamId: home.id,
+      awayTeamId: away.id,
+      startTime: game.start_time,
+      kickoff: argentinaToUTC(game.start_time),
+      statusEnum: game.status.enum,
+      statusName: game.status.name,
+      statusShortName: game.status.short_name,
+      statusSymbolName: game.status.symbol_name,
+      homeScore: hasScores ? game.scores[0] : null,
+      awayScore: hasScores ? game.scores[1] : null,
+      winner: game.winner ?? null,
+      homeRedCards: home.red_cards || 0,
+      awayRedCards: away.red_cards || 0,
+      gameTime: game.game_time ?? null,
+      gameTimeToDisplay: game.game_time_to_display,
+      gameTimeStatusToDisplay: game.game_time_status_to_display,
+      urlName: game.url_name,
+      syncedAt: new Date(),
+    };
+
+    // La temporada se fija al crear el partido (los ya guardados conservan la suya)
+    await this.prisma.match.upsert({
+      where: { id: game.id },
+      update: data,
+      create: { id: game.id, seasonId, ...data },
+    });
+
+    await this.linkMatchPronostics(game.id);
+  }
+
+  private async linkMatchPronostics(matchId: string): Promise<number> {
+    const { count } = await this.prisma.pronostic.updateMany({
+      where: { externalId: matchId, matchId: null },
+      data: { matchId },
+    });
+
+    return count;
+  }
+
+  /**
+   * 🔁 Convierte un partido guardado al formato de Promiedos
+   */
+  private toGame(match: MatchWithTeams): Game {
+    return {
+      id: match.id,
+      stage_round_name: match.roundName,
+      winner: match.winner,
+      teams: [
+        this.toTeam(match.homeTeam, match.homeRedCards),
+        this.toTeam(match.awayTeam, match.awayRedCards),
+      ],
+      url_name: match.urlName,
+      scores:
+        match.homeScore !== null && match.awayScore !== null
+          ? [match.homeScore, match.awayScore]
+          : undefined,
+      status: {
+        enum: match.statusEnum,
+        name: match.statusName,
+        short_name: match.statusShortName,
+        symbol_name: match.statusSymbolName,
+      },
+      start_time: match.startTime,
+      game_time: match.gameTime,
+      game_time_to_display: match.gameTimeToDisplay,
+      game_time_status_to_display: match.gameTimeStatusToDisplay,
+    };
+  }
+
+  private toTeam(team: TeamRecord, redCards: number): Team {
+    return {
+      id: team.id,
+      name: team.name,
+      short_name: team.shortName,
+      url_name: team.urlName,
+      country_id: team.countryId,
+      allow_open: team.allowOpen,
+      colors: fromJson<Team['colors']>(team.colors),
+      red_cards: redCards,
+    };
+  }
+}
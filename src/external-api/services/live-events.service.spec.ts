@@ -0,0 +1,174 @@
+import { MessageEvent } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+import { LiveEventsService } from './live-events.service';
+import { PointsService } from './points.service';
+
+const liveMatch = {
+  id: 'abc',
+  competitionId: 1,
+  round: 5,
+  homeScore: 1,
+  awayScore: 0,
+  statusEnum: 2,
+  statusName: '2T',
+  statusShortName: '2T',
+  gameTimeToDisplay: "67'",
+  homeTeam: { name: 'River Plate' },
+  awayTeam: { name: 'Boca Juniors' },
+};
+
+function createPrismaMock() {
+  return {
+    match: { findMany: jest.fn().mockResolvedValue([liveMatch]) },
+    pronostic: {
+      groupBy: jest.fn().mockResolvedValue([
+        { livePoints: 3, _count: { _all: 2 } },
+        { livePoints: 1, _count: { _all: 5 } },
+        { livePoints: 0, _count: { _all: 4 } },
+      ]),
+    },
+    pointsLedgerEntry: { count: jest.fn().mockResolvedValue(0) },
+    tournamentCompetition: {
+      findMany: jest.fn().mockResolvedValue([{ competitionId: 1 }]),
+    },
+  };
+}
+
+describe('LiveEventsService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let pointsService: { getLiveTournamentRanking: jest.Mock };
+  let liveEvents: LiveEventsService;
+  let subscriptions: Subscription[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    prisma = createPrismaMock();
+    pointsService = {
+      getLiveTournamentRanking: jest.fn().mockResolvedValue({
+        liveMatches: 1,
+        ranking: [
+          {
+            position: 1,
+            user: { id: 7, name: 'Juan', avatar: null },
+            settledPoints: 10,
+            livePoints: 3,
+            projectedPoints: 13,
+          },
+        ],
+      }),
+    };
+    liveEvents = new LiveEventsService(
+      prisma as unknown as PrismaService,
+      {} as CompetitionService,
+      pointsService as unknown as PointsService,
+    );
+    subscriptions = [];
+  });
+
+  afterEach(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    liveEvents.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  function collect(stream: {
+    subscribe: (next: (event: MessageEvent) => void) => Subscription;
+  }): MessageEvent[] {
+    const received: MessageEvent[] = [];
+    subscriptions.push(stream.subscribe((event) => received.push(event)));
+    return received;
+  }
+
+  describe('streamMatchday', () => {
+    it('publica el resultado y el resumen de puntos en vivo sin datos de usuarios', async () => {
+      const received = collect(liveEvents.streamMatchday(1, 5));
+
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+
+      expect(received.map((event) => event.type)).toEqual([
+        'match_update',
+        'live_points',
+      ]);
+      expect(received[1].data).toEqual({
+        gameId: 'abc',
+        scores: [1, 0],
+        pronosticsCount: 11,
+        distribution: [
+          { livePoints: 3, pronostics: 2 },
+          { livePoints: 1, pronostics: 5 },
+          { livePoints: 0, pronostics: 4 },
+        ],
+        timestamp: expect.any(String),
+      });
+      expect(JSON.stringify(received[1].data)).not.toMatch(/userId|name/);
+    });
+
+    it('no recibe los eventos de otra fecha', async () => {
+      const received = collect(liveEvents.streamMatchday(1, 6));
+
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+
+      expect(received).toEqual([]);
+    });
+  });
+
+  describe('streamTournament', () => {
+    it('publica resultados y tabla, pero no el resumen público de la fecha', async () => {
+      const received = collect(await liveEvents.streamTournament(1));
+
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+
+      expect(received.map((event) => event.type)).toEqual([
+        'match_update',
+        'leaderboard',
+      ]);
+      expect(pointsService.getLiveTournamentRanking).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('revisión de cambios', () => {
+    it('solo consulta la base mientras hay clientes conectados', async () => {
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(prisma.match.findMany).not.toHaveBeenCalled();
+
+      const first = liveEvents.streamMatchday(1, 5).subscribe();
+      const second = liveEvents.streamMatchday(1, 6).subscribe();
+
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+      expect(prisma.match.findMany).toHaveBeenCalledTimes(1);
+
+      first.unsubscribe();
+      await jest.advanceTimersByTimeAsync(10 * 1000);
+      expect(prisma.match.findMany).toHaveBeenCalledTimes(2);
+
+      second.unsubscribe();
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+      expect(prisma.match.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('no repite un resultado que no cambió', async () => {
+      const received = collect(liveEvents.streamMatchday(1, 5));
+
+      await jest.advanceTimersByTimeAsync(20 * 1000);
+
+      expect(
+        received.filter((event) => event.type === 'match_update'),
+      ).toHaveLength(1);
+    });
+
+    it('solo lee los partidos sincronizados desde la revisión anterior', async () => {
+      collect(liveEvents.streamMatchday(1, 5));
+
+      await jest.advanceTimersByTimeAsync(20 * 1000);
+
+      const [[first], [second]] = prisma.match.findMany.mock.calls;
+
+      expect(second.where.syncedAt.gte.getTime()).toBe(
+        first.where.syncedAt.gte.getTime() + 10 * 1000,
+      );
+    });
+  });
+});
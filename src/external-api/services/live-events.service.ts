@@ -0,0 +1,454 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Match } from '@prisma/client';
+import {
+  Observable,
+  Subject,
+  defer,
+  filter,
+  finalize,
+  interval,
+  map,
+  merge,
+} from 'rxjs';
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+import { PointsService } from './points.service';
+import {
+  MATCH_STATUS,
+  MatchStatusCategory,
+  getMatchStatusCategory,
+} from '../utils/match-status.utils';
+
+export type LiveEventType = 'match_update' | 'live_points' | 'leaderboard';
+
+export interface LiveEvent {
+  type: LiveEventType;
+  competitionId?: number;
+  matchday?: number;
+  tournamentId?: number;
+  data: Record<string, any>;
+}
+
+interface MatchState {
+  scores: Array<number | null>;
+  status: MatchStatusCategory;
+  gameTime: string | null;
+}
+
+interface LeaderboardSnapshotEntry {
+  position: number;
+  points: number;
+}
+
+/**
+ * Los eventos se generan en cada instancia a partir de la base de datos: el
+ * procesamiento de puntos corre en una sola instancia (lock), pero los
+ * clientes pueden estar conectados a cualquiera. Cada instancia con clientes
+ * revisa cada pocos segundos los partidos sincronizados y los puntos nuevos
+ */
+@Injectable()
+export class LiveEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(LiveEventsService.name);
+  private readonly events$ = new Subject<LiveEvent>();
+
+  // Último estado enviado de cada partido (para emitir solo los cambios)
+  private readonly matchStates = new Map<string, MatchState>();
+  // Torneos con clientes conectados y la última tabla enviada a cada uno
+  private readonly tournamentSubscribers = new Map<number, number>();
+  private readonly leaderboardSnapshots = new Map<
+    number,
+    Map<number, LeaderboardSnapshotEntry>
+  >();
+
+  // Clientes conectados (a cualquier canal) y revisión periódica de cambios
+  private activeStreams = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPolledAt = new Date();
+
+  // Segundos entre revisiones de cambios en la base de datos
+  private readonly pollSeconds = parseInt(
+    process.env.LIVE_EVENTS_POLL_SECONDS || '10',
+    10,
+  );
+
+  // Segundos entre pings para que los proxies no corten la conexión
+  private readonly heartbeatSeconds = parseInt(
+    process.env.LIVE_EVENTS_HEARTBEAT_SECONDS || '25',
+    10,
+  );
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly competitions: CompetitionService,
+    private readonly pointsService: PointsService,
+  ) {}
+
+  onModuleDestroy() {
+    this.stopPolling();
+  }
+
+  /**
+   * 📅 Eventos de una fecha de una competencia: resultados, estados y puntos
+   * en vivo de cada pronóstico
+   */
+  streamMatchday(
+    competitionId: number,
+    matchday: number,
+  ): Observable<MessageEvent> {
+    const events = this.events$.pipe(
+      filter(
+        (event) =>
+          event.tournamentId === undefined &&
+          event.competitionId === competitionId &&
+          event.matchday === matchday,
+      ),
+    );
+
+    return defer(() => {
+      this.acquireStream();
+
+      return this.toMessageStream(events).pipe(
+        finalize(() => this.releaseStream()),
+      );
+    });
+  }
+
+  /**
+   * 🏆 Eventos de un torneo: resultados de sus competencias (opcionalmente de
+   * una sola fecha) y cambios en la tabla proyectada
+   */
+  async streamTournament(
+    tournamentId: number,
+    matchday?: number,
+  ): Promise<Observable<MessageEvent>> {
+    const competitionIds = await this.getTournamentCompetitionIds(tournamentId);
+
+    const events = this.events$.pipe(
+      filter((event) => {
+        if (event.type === 'leaderboard') {
+          return event.tournamentId === tournamentId;
+        }
+
+        return (
+          event.type === 'match_update' &&
+          competitionIds.includes(event.competitionId) &&
+          (matchday === undefined || event.matchday === matchday)
+        );
+      }),
+    );
+
+    // Solo se calcula la tabla de los torneos con clientes conectados
+    return defer(() => {
+      this.tournamentSubscribers.set(
+        tournamentId,
+        (this.tournamentSubscribers.get(tournamentId) || 0) + 1,
+      );
+      this.acquireStream();
+
+      return this.toMessageStream(events).pipe(
+        finalize(() => {
+          this.releaseTournament(tournamentId);
+          this.releaseStream();
+        }),
+      );
+    });
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * 🔌 Un cliente se conectó: con el primero empieza la revisión de cambios
+   */
+  private acquireStream(): void {
+    this.activeStreams++;
+
+    if (this.pollTimer) return;
+
+    this.lastPolledAt = new Date();
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.pollSeconds * 1000);
+  }
+
+  /**
+   * 🔌 Un cliente se desconectó: sin clientes se deja de revisar
+   */
+  private releaseStream(): void {
+    this.activeStreams = Math.max(this.activeStreams - 1, 0);
+
+    if (this.activeStreams === 0) {
+      this.stopPolling();
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * 📡 Publica los cambios desde la última revisión: partidos sincronizados,
+   * puntos en vivo y tablas de los torneos con clientes conectados
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    const since = this.lastPolledAt;
+    const now = new Date();
+
+    try {
+      const matches = await this.prisma.match.findMany({
+        where: { syncedAt: { gte: since } },
+        include: {
+          homeTeam: { select: { name: true } },
+          awayTeam: { select: { name: true } },
+        },
+      });
+
+      const changedMatches = matches.filter((match) =>
+        this.publishMatchUpdate(match),
+      );
+
+      await this.publishLivePoints(
+        matches.filter((match) => match.statusEnum === MATCH_STATUS.LIVE),
+      );
+
+      const pointsChanged =
+        (await this.prisma.pointsLedgerEntry.count({
+          where: { createdAt: { gte: since } },
+        })) > 0;
+
+      if (changedMatches.length > 0 || pointsChanged) {
+        for (const tournamentId of this.tournamentSubscribers.keys()) {
+          await this.publishLeaderboard(tournamentId);
+        }
+      }
+
+      this.lastPolledAt = now;
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ No se pudieron publicar los eventos en vivo: ${error.message}`,
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * ⚽ Emite el resultado y estado de un partido si cambió desde el último
+   * envío (la primera vez solo si está en juego)
+   */
+  private publishMatchUpdate(
+    match: Match & { homeTeam: { name: string }; awayTeam: { name: string } },
+  ): boolean {
+    const state: MatchState = {
+      scores: [match.homeScore, match.awayScore],
+      status: getMatchStatusCategory({
+        enum: match.statusEnum,
+        name: match.statusName,
+        short_name: match.statusShortName,
+      }),
+      gameTime: match.gameTimeToDisplay ?? null,
+    };
+    const previous = this.matchStates.get(match.id);
+
+    this.matchStates.set(match.id, state);
+
+    const changed = previous
+      ? previous.status !== state.status ||
+        previous.gameTime !== state.gameTime ||
+        previous.scores.some((score, index) => score !== state.scores[index])
+      : match.statusEnum === MATCH_STATUS.LIVE;
+
+    if (!changed) return false;
+
+    this.events$.next({
+      type: 'match_update',
+      competitionId: match.competitionId,
+      matchday: match.round,
+      data: {
+        id: match.id,
+        round: match.round,
+        homeTeam: match.homeTeam.name,
+        awayTeam: match.awayTeam.name,
+        scores: state.scores,
+        status: state.status,
+        statusName: match.statusName,
+        gameTime: state.gameTime,
+        previousScores: previous?.scores ?? null,
+        previousStatus: previous?.status ?? null,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * 🔴 Emite el resumen de puntos en vivo de los partidos en juego: cuántos
+   * pronósticos suman cada puntaje. El canal de la fecha es público, por eso
+   * no incluye usuarios (los puntos por usuario van en la tabla del torneo)
+   */
+  private async publishLivePoints(matches: Match[]): Promise<void> {
+    for (const match of matches) {
+      const groups = await this.prisma.pronostic.groupBy({
+        by: ['livePoints'],
+        where: { externalId: match.id, processed: false },
+        _count: { _all: true },
+        orderBy: { livePoints: 'desc' },
+      });
+
+      this.events$.next({
+        type: 'live_points',
+        competitionId: match.competitionId,
+        matchday: match.round,
+        data: {
+          gameId: match.id,
+          scores: [match.homeScore, match.awayScore],
+          pronosticsCount: groups.reduce(
+            (sum, group) => sum + group._count._all,
+            0,
+          ),
+          distribution: groups.map((group) => ({
+            livePoints: group.livePoints,
+            pronostics: group._count._all,
+          })),
+        },
+      });
+    }
+  }
+
+  /**
+   * 📊 Emite la tabla proyectada de un torneo si cambiaron posiciones o puntos
+   * desde el último envío
+   */
+  private async publishLeaderboard(tournamentId: number): Promise<void> {
+    try {
+      const { liveMatches, ranking } =
+        await this.pointsService.getLiveTournamentRanking(tournamentId);
+      const previous = this.leaderboardSnapshots.get(tournamentId);
+
+      const changes = ranking
+        .filter((entry) => {
+          const before = previous?.get(entry.user.id);
+          return (
+            !before ||
+            before.position !== entry.position ||
+            before.points !== entry.projectedPoints
+          );
+        })
+        .map((entry) => ({
+          userId: entry.user.id,
+          name: entry.user.name,
+          previousPosition: previous?.get(entry.user.id)?.position ?? null,
+          position: entry.position,
+          previousPoints: previous?.get(entry.user.id)?.points ?? null,
+          projectedPoints: entry.projectedPoints,
+        }));
+
+      this.leaderboardSnapshots.set(
+        tournamentId,
+        new Map(
+          ranking.map((entry) => [
+            entry.user.id,
+            { position: entry.position, points: entry.projectedPoints },
+          ]),
+        ),
+      );
+
+      if (changes.length === 0) return;
+
+      this.events$.next({
+        type: 'leaderboard',
+        tournamentId,
+        data: {
+          tournamentId,
+          liveMatches,
+          ranking: ranking.map((entry) => ({
+            position: entry.position,
+            positionLabel: entry.positionLabel,
+            tied: entry.tied,
+            settledPosition: entry.settledPosition,
+            positionDelta: entry.positionDelta,
+            positionDeltaLabel: entry.positionDeltaLabel,
+            user: {
+              id: entry.user.id,
+              name: entry.user.name,
+              avatar: entry.user.avatar,
+            },
+            settledPoints: entry.settledPoints,
+            livePoints: entry.livePoints,
+            projectedPoints: entry.projectedPoints,
+          })),
+          changes,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ No se pudo calcular la tabla en vivo del torneo ${tournamentId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 🔌 Un cliente del torneo se desconectó (sin clientes se descarta la tabla)
+   */
+  private releaseTournament(tournamentId: number): void {
+    const remaining = (this.tournamentSubscribers.get(tournamentId) || 1) - 1;
+
+    if (remaining > 0) {
+      this.tournamentSubscribers.set(tournamentId, remaining);
+    } else {
+      this.tournamentSubscribers.delete(tournamentId);
+      this.leaderboardSnapshots.delete(tournamentId);
+    }
+  }
+
+  /**
+   * 🏆 Competencias de un torneo (la por defecto si no tiene asignadas)
+   */
+  private async getTournamentCompetitionIds(
+    tournamentId: number,
+  ): Promise<number[]> {
+    const bindings = await this.prisma.tournamentCompetition.findMany({
+      where: { tournamentId },
+      select: { competitionId: true },
+    });
+
+    return bindings.length > 0
+      ? bindings.map((binding) => binding.competitionId)
+      : [(await this.competitions.getDefault()).id];
+  }
+
+  /**
+   * 📨 Convierte eventos en mensajes SSE y agrega pings periódicos
+   */
+  private toMessageStream(
+    events: Observable<LiveEvent>,
+  ): Observable<MessageEvent> {
+    return merge(
+      events.pipe(
+        map((event) => ({
+          type: event.type,
+          data: { ...event.data, timestamp: new Date().toISOString() },
+        })),
+      ),
+      interval(this.heartbeatSeconds * 1000).pipe(
+        map(() => ({
+          type: 'ping',
+          data: { timestamp: new Date().toISOString() },
+        })),
+      ),
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Competition } from '@prisma/client';
+import { MatchdayCalculatorService } from './matchday-calculator.service';
+import { MatchStatusService } from './match-status.service';
+import { CompetitionService } from './competition.service';
+import { FixtureService } from './fixture.service';
+import { Game } from '../interfaces/game.interface';
+import { argentinaToUTC } from '../utils/date-time.utils';
+import { getMatchStatusCategory } from '../utils/match-status.utils';
+
+export interface MatchLockStatus {
+  externalId: string;
+  locked: boolean;
+  reason?: string;
+  kickoff?: string; // ISO UTC
+  lockedAt?: string; // ISO UTC (kickoff - cutoff)
+}
+
+interface RoundCacheEntry {
+  games: Game[];
+  timestamp: number;
+}
+
+@Injectable()
+export class MatchLockService {
+  private readonly logger = new Logger(MatchLockService.name);
+  private readonly roundCache = new Map<string, RoundCacheEntry>();
+  private readonly cacheTtlMs = 60 * 1000;
+
+  // Minutos antes del inicio en que se cierran los pronósticos (0 = al kickoff)
+  private readonly lockMinutesBeforeKickoff = parseInt(
+    process.env.PRONOSTIC_LOCK_MINUTES_BEFORE || '0',
+    10,
+  );
+
+  constructor(
+    private readonly calculator: MatchdayCalculatorService,
+    private readonly matchStatus: MatchStatusService,
+    private readonly competitions: CompetitionService,
+    private readonly fixtures: FixtureService,
+  ) {}
+
+  /**
+   * 🔒 Determina si los pronósticos de cada partido están cerrados
+   * El horario y estado salen de la tabla de partidos; los que no están
+   * guardados se buscan en el proveedor (fecha actual, siguiente y fechas con
+   * partidos pendientes de cada competencia)
+   */
+  async getLockStatuses(
+    externalIds: string[],
+  ): Promise<Map<string, MatchLockStatus>> {
+    const gamesById = await this.fixtures.getGamesByIds(externalIds);
+    const missing = externalIds.filter((id) => !gamesById.has(id));
+
+    if (missing.length > 0) {
+      const openGames = await this.getOpenRoundsGames();
+
+      for (const externalId of missing) {
+        if (openGames.has(externalId)) {
+          gamesById.set(externalId, openGames.get(externalId));
+        }
+      }
+    }
+
+    const now = new Date();
+    const statuses = new Map<string, MatchLockStatus>();
+
+    for (const externalId of externalIds) {
+      const game = gamesById.get(externalId);
+
+      if (!game) {
+        statuses.set(externalId, {
+          externalId,
+          locked: true,
+          reason:
+            'Partido no encontrado entre los guardados ni en la fecha actual, la siguiente o los reprogramados',
+        });
+        continue;
+      }
+
+      statuses.set(externalId, this.evaluateGame(game, now));
+    }
+
+    return statuses;
+  }
+
+  /**
+   * 🔒 Estado de bloqueo de un único partido
+   */
+  async getLockStatus(externalId: string): Promise<MatchLockStatus> {
+    const statuses = await this.getLockStatuses([externalId]);
+    return statuses.get(externalId);
+  }
+
+  /**
+   * ⚖️ Evalúa el estado y horario de un partido
+   */
+  private evaluateGame(game: Game, now: Date): MatchLockStatus {
+    const kickoff = argentinaToUTC(game.start_time);
+    const lockedAt = kickoff
+      ? new Date(kickoff.getTime() - this.lockMinutesBeforeKickoff * 60 * 1000)
+      : null;
+
+    const status: MatchLockStatus = {
+      externalId: game.id,
+      locked: false,
+      kickoff: kickoff?.toISOString(),
+      lockedAt: lockedAt?.toISOString(),
+    };
+
+    const category = getMatchStatusCategory(game.status);
+    // Un partido postergado que ya tiene nueva fecha futura vuelve a abrirse
+    const reopened =
+      category === 'postponed' &&
+      kickoff !== null &&
+      kickoff.getTime() > now.getTime();
+
+    // Solo se aceptan pronósticos para partidos programados (status.enum === 1)
+    if (category !== 'scheduled' && !reopened) {
+      status.locked = true;
+      status.reason = `El partido ya no está programado (estado: ${game.status?.name || game.status?.enum})`;
+      return status;
+    }
+
+    if (lockedAt && now.getTime() >= lockedAt.getTime()) {
+      status.locked = true;
+      status.reason =
+        this.lockMinutesBeforeKickoff > 0
+          ? `Los pronósticos se cerraron ${this.lockMinutesBeforeKickoff} minutos antes del inicio (${game.start_time})`
+          : `El partido ya comenzó (${game.start_time})`;
+    }
+
+    return status;
+  }
+
+  /**
+   * 📅 Obtiene del proveedor los partidos de la fecha actual, la siguiente y
+   * las fechas con partidos pendientes (postergados / reprogramados) de cada
+   * competencia activa, indexados por id
+   */
+  private async getOpenRoundsGames(): Promise<Map<string, Game>> {
+    const gamesById = new Map<string, Game>();
+
+    for (const competition of await this.competitions.findActive()) {
+      let currentRound = competition.currentRound;
+
+      if (currentRound === null) {
+        currentRound = await this.calculator.calculateCurrentRound(
+          competition.id,
+        );
+      }
+
+      const pendingRounds = (
+        await this.matchStatus.getOpenPendingMatches(competition.id)
+      ).map((pending) => pending.matchday);
+      const rounds = new Set([
+        currentRound,
+        currentRound + 1,
+        ...pendingRounds,
+      ]);
+
+      for (const roundId of rounds) {
+        try {
+          const games = await this.getRoundGames(competition, roundId);
+          games.forEach((game) => gamesById.set(game.id, game));
+        } catch (error) {
+          this.logger.warn(
+            `⚠️ No se pudieron obtener partidos de ${competition.slug} fecha ${roundId} para validar cierre: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    return gamesById;
+  }
+
+  /**
+   * 📊 Partidos de una fecha del proveedor con cache corto para no saturar
+   * la API externa
+   */
+  private async getRoundGames(
+    competition: Competition,
+    roundId: number,
+  ): Promise<Game[]> {
+    const cacheKey = `${competition.id}_${roundId}`;
+    const cached = this.roundCache.get(cacheKey);
+
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      return cached.games;
+    }
+
+    const games = await this.competitions
+      .getProvider(competition)
+      .getRoundGames(roundId);
+
+    this.roundCache.set(cacheKey, { games, timestamp: Date.now() });
+    return games;
+  }
+}
@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PendingMatch } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { Game } from '../interfaces/game.interface';
+import { argentinaToUTC } from '../utils/date-time.utils';
+import {
+  getMatchStatusCategory,
+  isInterruptedStatus,
+} from '../utils/match-status.utils';
+
+export type CancelledMatchPolicy = 'void' | 'carry_over';
+
+export interface MatchStatusChange {
+  externalId: string;
+  competitionId: number;
+  matchday: number;
+  previousStatus: string | null;
+  newStatus: string;
+  kickoff?: string; // ISO UTC
+}
+
+@Injectable()
+export class MatchStatusService {
+  private readonly logger = new Logger(MatchStatusService.name);
+
+  // Qué hacer con los pronósticos de un partido cancelado:
+  // void = se cierran sin puntos, carry_over = se conservan para cuando se juegue
+  readonly cancelledPolicy: CancelledMatchPolicy =
+    process.env.CANCELLED_MATCH_POLICY === 'carry_over' ? 'carry_over' : 'void';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 🚦 Registra los partidos interrumpidos de una fecha y detecta
+   * reprogramaciones de partidos ya pendientes
+   */
+  async trackRoundGames(
+    competitionId: number,
+    matchday: number,
+    games: Game[],
+  ): Promise<MatchStatusChange[]> {
+    const pendingById = new Map(
+      (
+        await this.prisma.pendingMatch.findMany({
+          where: { externalId: { in: games.map((game) => game.id) } },
+        })
+      ).map((pending) => [pending.externalId, pending]),
+    );
+
+    const changes: MatchStatusChange[] = [];
+
+    for (const game of games) {
+      const category = getMatchStatusCategory(game.status);
+      const pending = pendingById.get(game.id);
+
+      if (pending?.resolvedAt) continue;
+
+      if (isInterruptedStatus(category)) {
+        if (pending?.status === category) continue;
+
+        await this.prisma.pendingMatch.upsert({
+          where: { externalId: game.id },
+          update: { status: category, kickoff: null },
+          create: {
+            externalId: game.id,
+            competitionId,
+            matchday,
+            status: category,
+          },
+        });
+
+        changes.push({
+          externalId: game.id,
+          competitionId,
+          matchday: pending?.matchday ?? matchday,
+          previousStatus: pending?.status ?? null,
+          newStatus: category,
+        });
+        continue;
+      }
+
+      // Partido pendiente que volvió a estar programado con nueva fecha
+      if (pending && category === 'scheduled') {
+        const kickoff = argentinaToUTC(game.start_time);
+
+        if (
+          !kickoff ||
+          kickoff.getTime() <= Date.now() ||
+          (pending.status === 'rescheduled' &&
+            pending.kickoff?.getTime() === kickoff.getTime())
+        ) {
+          continue;
+        }
+
+        await this.prisma.pendingMatch.update({
+          where: { externalId: game.id },
+          data: { status: 'rescheduled', kickoff },
+        });
+
+        changes.push({
+          externalId: game.id,
+          competitionId,
+          matchday: pending.matchday,
+          previousStatus: pending.status,
+          newStatus: 'rescheduled',
+          kickoff: kickoff.toISOString(),
+        });
+      }
+    }
+
+    if (changes.length > 0) {
+      this.logger.log(
+        `🚦 Cambios de estado en fecha ${matchday} (competencia ${competitionId}): ${changes
+          .map(
+            (c) =>
+              `${c.externalId} ${c.previousStatus ?? '-'} → ${c.newStatus}`,
+          )
+          .join(', ')}`,
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * 📋 Partidos pendientes sin resolver (de una competencia o de todas)
+   */
+  async getOpenPendingMatches(competitionId?: number): Promise<PendingMatch[]> {
+    return this.prisma.pendingMatch.findMany({
+      where: { resolvedAt: null, competitionId },
+      orderBy: { matchday: 'asc' },
+    });
+  }
+
+  /**
+   * ✅ Marca un partido pendiente como resuelto (finalizado o anulado)
+   */
+  async resolve(
+    externalId: string,
+    resolution: 'finished' | 'voided',
+  ): Promise<void> {
+    await this.prisma.pendingMatch.updateMany({
+      where: { externalId, resolvedAt: null },
+      data: { resolution, resolvedAt: new Date() },
+    });
+  }
+}
@@ -1,7 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma.service';
-import axios from 'axios';
-import { PromiedosApiResponse } from '../interfaces/game.interface';
+import { FixtureService, MatchRound } from './fixture.service';
 
 interface PronosticWithUser {
   id: number;
@@ -22,6 +21,7 @@ interface PronosticWithUser {
 interface CacheEntry {
   data: Map<string, PronosticWithUser[]>;
   timestamp: number;
+  competitionId: number;
   roundId: number;
 }
 
@@ -29,17 +29,20 @@ interface CacheEntry {
 export class MatchdayCacheService {
   private readonly cache = new Map<string, CacheEntry>();
   private readonly logger = new Logger(MatchdayCacheService.name);
-  private readonly baseUrl = 'https://api.promiedos.com.ar';
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly fixtures: FixtureService,
+  ) {}
 
   /**
-   * Obtiene pronósticos de una fecha desde cache o DB
+   * Obtiene pronósticos de una fecha de una competencia desde cache o DB
    */
   async getMatchdayPronostics(
     roundId: number,
+    competitionId: number,
   ): Promise<Map<string, PronosticWithUser[]>> {
-    const cacheKey = `matchday_${roundId}`;
+    const cacheKey = this.getCacheKey(competitionId, roundId);
     const cached = this.cache.get(cacheKey);
 
     if (cached) {
@@ -49,11 +52,15 @@ export class MatchdayCacheService {
 
     this.logger.debug(`❌ Cache MISS para fecha ${roundId}, consultando DB...`);
 
-    const pronosticsData = await this.fetchOptimizedMatchdayPronostics(roundId);
+    const pronosticsData = await this.fetchOptimizedMatchdayPronostics(
+      roundId,
+      competitionId,
+    );
 
     this.cache.set(cacheKey, {
       data: pronosticsData,
       timestamp: Date.now(),
+      competitionId,
       roundId,
     });
 
@@ -65,24 +72,13 @@ export class MatchdayCacheService {
    */
   private async fetchOptimizedMatchdayPronostics(
     roundId: number,
+    competitionId: number,
   ): Promise<Map<string, PronosticWithUser[]>> {
     try {
-      // 1. Obtener todos los externalIds de la fecha
-      const { data }: { data: PromiedosApiResponse } = await axios.get(
-        `${this.baseUrl}/league/games/hc/72_224_8_${roundId}`,
-      );
-
-      if (!data.games || data.games.length === 0) {
-        this.logger.warn(`⚠️ No hay partidos para fecha ${roundId}`);
-        return new Map();
-      }
-
-      const externalIds = data.games.map((game) => game.id);
-
-      // 2. UNA SOLA consulta para todos los pronósticos de la fecha
+      // UNA SOLA consulta para todos los pronósticos de la fecha (vía Match)
       const allPronostics = await this.prisma.pronostic.findMany({
         where: {
-          externalId: { in: externalIds },
+          match: { competitionId, round: roundId },
         },
         include: {
           user: {
@@ -98,7 +94,7 @@ export class MatchdayCacheService {
         },
       });
 
-      // 3. Agrupar por externalId para acceso O(1)
+      // Agrupar por externalId para acceso O(1)
       const pronosticsMap = new Map<string, PronosticWithUser[]>();
 
       allPronostics.forEach((pronostic) => {
@@ -111,7 +107,7 @@ export class MatchdayCacheService {
       });
 
       this.logger.log(
-        `✅ Cargados ${allPronostics.length} pronósticos para fecha ${roundId} (${externalIds.length} partidos)`,
+        `✅ Cargados ${allPronostics.length} pronósticos para fecha ${roundId} (${pronosticsMap.size} partidos con pronósticos)`,
       );
 
       return pronosticsMap;
@@ -136,9 +132,11 @@ export class MatchdayCacheService {
       const affectedRounds = await this.getAffectedRounds(externalIds);
 
       // Invalidar solo las fechas afectadas
-      affectedRounds.forEach((roundId) => {
-        this.cache.delete(`matchday_${roundId}`);
-        this.logger.debug(`🗑️ Cache invalidado para fecha ${roundId}`);
+      affectedRounds.forEach(({ competitionId, round }) => {
+        this.cache.delete(this.getCacheKey(competitionId, round));
+        this.logger.debug(
+          `🗑️ Cache invalidado para fecha ${round} (competencia ${competitionId})`,
+        );
       });
 
       this.logger.log(
@@ -154,8 +152,10 @@ export class MatchdayCacheService {
   /**
    * Determina qué fechas están afectadas por los externalIds dados
    */
-  private async getAffectedRounds(externalIds: string[]): Promise<number[]> {
-    const affectedRounds = new Set<number>();
+  private async getAffectedRounds(
+    externalIds: string[],
+  ): Promise<MatchRound[]> {
+    const affectedRounds = new Map<string, MatchRound>();
 
     // Revisar cache actual para encontrar fechas afectadas
     for (const [cacheKey, entry] of this.cache.entries()) {
@@ -164,42 +164,38 @@ export class MatchdayCacheService {
       );
 
       if (hasAffectedGames) {
-        affectedRounds.add(entry.roundId);
+        affectedRounds.set(cacheKey, {
+          competitionId: entry.competitionId,
+          round: entry.roundId,
+        });
       }
     }
 
     // Si no encontramos en cache, consultar DB para determinar fechas
     if (affectedRounds.size === 0) {
       try {
-        // Buscar en qué fechas aparecen estos externalIds
-        for (let roundId = 1; roundId <= 16; roundId++) {
-          try {
-            const { data }: { data: PromiedosApiResponse } = await axios.get(
-              `${this.baseUrl}/league/games/hc/72_224_8_${roundId}`,
-            );
-
-            const hasMatchingGames = data.games?.some((game) =>
-              externalIds.includes(game.id),
-            );
-
-            if (hasMatchingGames) {
-              affectedRounds.add(roundId);
-            }
-          } catch (error) {
-            // Ignorar errores de fechas específicas
-            continue;
-          }
-        }
+        const rounds = await this.fixtures.getRoundsOfMatches(externalIds);
+        rounds.forEach((match) =>
+          affectedRounds.set(
+            this.getCacheKey(match.competitionId, match.round),
+            match,
+          ),
+        );
       } catch (error) {
         this.logger.warn(
-          `⚠️ Error determinando fechas afectadas, invalidando fechas comunes`,
+          `⚠️ Error determinando fechas afectadas, invalidando fechas en cache`,
         );
-        // Fallback: invalidar fechas más comunes (1-5)
-        [1, 2, 3, 4, 5].forEach((round) => affectedRounds.add(round));
+        // Fallback: invalidar todas las fechas en cache
+        for (const [cacheKey, entry] of this.cache.entries()) {
+          affectedRounds.set(cacheKey, {
+            competitionId: entry.competitionId,
+            round: entry.roundId,
+          });
+        }
       }
     }
 
-    return Array.from(affectedRounds);
+    return Array.from(affectedRounds.values());
   }
 
   /**
@@ -216,6 +212,7 @@ export class MatchdayCacheService {
   getCacheStats(): {
     totalEntries: number;
     entries: Array<{
+      competitionId: number;
       roundId: number;
       gamesCount: number;
       pronosticsCount: number;
@@ -223,6 +220,7 @@ export class MatchdayCacheService {
     }>;
   } {
     const entries = Array.from(this.cache.entries()).map(([key, entry]) => ({
+      competitionId: entry.competitionId,
       roundId: entry.roundId,
       gamesCount: entry.data.size,
       pronosticsCount: Array.from(entry.data.values()).reduce(
@@ -237,4 +235,8 @@ export class MatchdayCacheService {
       entries,
     };
   }
+
+  private getCacheKey(competitionId: number, roundId: number): string {
+    return `matchday_${competitionId}_${roundId}`;
+  }
 }
@@ -1,15 +1,44 @@
 import { Injectable, Logger } from '@nestjs/common';
-import axios from 'axios';
 import { MatchdayDataValidator } from '../validators/matchday-data.validator';
-import { PromiedosApiResponse } from '../interfaces/game.interface';
+import { Game, PromiedosApiResponse } from '../interfaces/game.interface';
+import { MatchStatusService } from './match-status.service';
+import { FixtureService } from './fixture.service';
+import { CompetitionService } from './competition.service';
+import {
+  getMatchStatusCategory,
+  isInterruptedStatus,
+} from '../utils/match-status.utils';
 import * as Sentry from '@sentry/node';
 
+export type IncompleteRoundPolicy = 'skip' | 'wait';
+
+interface RoundAnalysis {
+  roundId: number;
+  totalGames: number;
+  finishedGames: number;
+  liveGames: number;
+  scheduledGames: number;
+  pendingGames: number; // Postergados, suspendidos, cancelados o reprogramados
+  isValid: boolean;
+  isComplete: boolean;
+  hasLiveGames: boolean;
+}
+
 @Injectable()
 export class MatchdayCalculatorService {
-  private readonly baseUrl = 'https://api.promiedos.com.ar';
   private readonly logger = new Logger(MatchdayCalculatorService.name);
 
-  constructor(private readonly validator: MatchdayDataValidator) {}
+  // Cómo tratar fechas con partidos interrumpidos:
+  // skip = no bloquean el avance de fecha, wait = la fecha sigue abierta hasta que se jueguen
+  private readonly incompleteRoundPolicy: IncompleteRoundPolicy =
+    process.env.INCOMPLETE_ROUND_POLICY === 'wait' ? 'wait' : 'skip';
+
+  constructor(
+    private readonly validator: MatchdayDataValidator,
+    private readonly matchStatus: MatchStatusService,
+    private readonly fixtures: FixtureService,
+    private readonly competitions: CompetitionService,
+  ) {}
 
   /**
    * 🧠 Calcula automáticamente la fecha actual basándose en el estado de los partidos
@@ -20,23 +49,33 @@ export class MatchdayCalculatorService {
    * 2. Si hay partidos en vivo o programados → fecha actual
    * 3. Si una fecha no tiene información válida → fecha anterior
    * 4. NUEVO: Detecta automáticamente cuando fechas futuras se actualizan
+   * 5. Partidos postergados/suspendidos/cancelados según INCOMPLETE_ROUND_POLICY
    */
-  async calculateCurrentRound(): Promise<number> {
-    this.logger.log('🎯 Calculando fecha actual automáticamente...');
+  async calculateCurrentRound(competitionId?: number): Promise<number> {
+    const competition =
+      await this.competitions.findByIdOrDefault(competitionId);
+    this.logger.log(
+      `🎯 Calculando fecha actual de ${competition.slug} automáticamente...`,
+    );
 
-    const maxRoundsToCheck = 16;
+    const maxRoundsToCheck = competition.totalRounds;
     let lastValidRound = 1;
+    const pendingIds = await this.getPendingMatchIds();
 
     for (let roundId = 1; roundId <= maxRoundsToCheck; roundId++) {
       try {
-        const roundData = await this.getRawMatchday(roundId);
+        const roundData = await this.getRawMatchday(roundId, competition.id);
 
         if (!roundData.games || roundData.games.length === 0) {
           this.logger.warn(`⚠️ Fecha ${roundId} sin partidos válidos`);
           continue;
         }
 
-        const roundAnalysis = this.analyzeRoundGames(roundData.games, roundId);
+        const roundAnalysis = this.analyzeRoundGames(
+          roundData.games,
+          roundId,
+          pendingIds,
+        );
 
         if (!roundAnalysis.isValid) {
           this.logger.warn(
@@ -47,8 +86,11 @@ export class MatchdayCalculatorService {
 
         lastValidRound = roundId;
 
-        const currentRoundResult =
-          await this.evaluateCurrentRound(roundAnalysis);
+        const currentRoundResult = await this.evaluateCurrentRound(
+          roundAnalysis,
+          pendingIds,
+          competition.id,
+        );
         if (currentRoundResult !== null) {
           return currentRoundResult;
         }
@@ -83,14 +125,14 @@ export class MatchdayCalculatorService {
 
   /**
    * 📊 Obtiene datos RAW de una fecha específica (sin pronósticos)
-   * Método auxiliar para calculateCurrentRound()
+   * Método auxiliar para calculateCurrentRound(), servido desde la DB
    */
-  async getRawMatchday(roundId: number): Promise<PromiedosApiResponse> {
+  async getRawMatchday(
+    roundId: number,
+    competitionId?: number,
+  ): Promise<PromiedosApiResponse> {
     try {
-      const { data }: { data: PromiedosApiResponse } = await axios.get(
-        `${this.baseUrl}/league/games/hc/72_224_8_${roundId}`,
-      );
-      return data;
+      return await this.fixtures.getRoundGames(roundId, competitionId);
     } catch (error) {
       this.logger.error(
         `❌ Error obteniendo datos RAW de fecha ${roundId}: ${error.message}`,
@@ -103,36 +145,33 @@ export class MatchdayCalculatorService {
    * 📊 Analiza los datos de una fecha específica (método optimizado)
    */
   private analyzeRoundGames(
-    games: any[],
+    games: Game[],
     roundId: number,
-  ): {
-    roundId: number;
-    totalGames: number;
-    finishedGames: number;
-    liveGames: number;
-    scheduledGames: number;
-    isValid: boolean;
-    isComplete: boolean;
-    hasLiveGames: boolean;
-  } {
+    pendingIds: Set<string> = new Set(),
+  ): RoundAnalysis {
     const hasValidData = this.validator.isRoundDataValid(games);
 
-    const finishedGames = games.filter(
+    const pendingGames = games.filter((game) =>
+      this.isSkippableGame(game, pendingIds),
+    );
+    const countedGames = games.filter((game) => !pendingGames.includes(game));
+
+    const finishedGames = countedGames.filter(
       (game) => game.status.enum === 3 || game.status.name === 'Finalizado',
     ).length;
 
-    const liveGames = games.filter(
+    const liveGames = countedGames.filter(
       (game) => game.status.enum === 2 || game.status.name === 'En Vivo',
     ).length;
 
-    const scheduledGames = games.filter(
+    const scheduledGames = countedGames.filter(
       (game) => game.status.enum === 1 || game.status.name === 'Prog.',
     ).length;
 
     const totalGames = games.length;
 
     this.logger.debug(
-      `📊 Fecha ${roundId}: ${finishedGames} finalizados, ${liveGames} en vivo, ${scheduledGames} programados de ${totalGames} total`,
+      `📊 Fecha ${roundId}: ${finishedGames} finalizados, ${liveGames} en vivo, ${scheduledGames} programados, ${pendingGames.length} pendientes de ${totalGames} total`,
     );
 
     return {
@@ -141,8 +180,9 @@ export class MatchdayCalculatorService {
       finishedGames,
       liveGames,
       scheduledGames,
+      pendingGames: pendingGames.length,
       isValid: hasValidData,
-      isComplete: finishedGames === totalGames,
+      isComplete: finishedGames + pendingGames.length === totalGames,
       hasLiveGames: liveGames > 0,
     };
   }
@@ -150,16 +190,11 @@ export class MatchdayCalculatorService {
   /**
    * 🎯 Evalúa si una fecha es la actual basándose en su análisis
    */
-  private async evaluateCurrentRound(roundAnalysis: {
-    roundId: number;
-    totalGames: number;
-    finishedGames: number;
-    liveGames: number;
-    scheduledGames: number;
-    isValid: boolean;
-    isComplete: boolean;
-    hasLiveGames: boolean;
-  }): Promise<number | null> {
+  private async evaluateCurrentRound(
+    roundAnalysis: RoundAnalysis,
+    pendingIds: Set<string>,
+    competitionId: number,
+  ): Promise<number | null> {
     if (roundAnalysis.hasLiveGames) {
       this.logger.log(
         `🔴 Fecha actual: ${roundAnalysis.roundId} (partidos en vivo)`,
@@ -168,7 +203,11 @@ export class MatchdayCalculatorService {
     }
 
     if (roundAnalysis.scheduledGames > 0) {
-      return await this.handleScheduledRound(roundAnalysis.roundId);
+      return await this.handleScheduledRound(
+        roundAnalysis.roundId,
+        pendingIds,
+        competitionId,
+      );
     }
 
     return null;
@@ -177,7 +216,11 @@ export class MatchdayCalculatorService {
   /**
    * 📅 Maneja la lógica para fechas con partidos programados
    */
-  private async handleScheduledRound(roundId: number): Promise<number> {
+  private async handleScheduledRound(
+    roundId: number,
+    pendingIds: Set<string>,
+    competitionId: number,
+  ): Promise<number> {
     if (roundId === 1) {
       this.logger.log(
         `🟡 Fecha actual: ${roundId} (primera fecha con partidos programados)`,
@@ -187,6 +230,8 @@ export class MatchdayCalculatorService {
 
     const previousRoundCompletion = await this.checkPreviousRoundCompletion(
       roundId - 1,
+      pendingIds,
+      competitionId,
     );
 
     if (previousRoundCompletion.shouldUseCurrent) {
@@ -205,11 +250,18 @@ export class MatchdayCalculatorService {
   /**
    * ✅ Verifica si la fecha anterior está completamente terminada
    */
-  private async checkPreviousRoundCompletion(previousRoundId: number): Promise<{
+  private async checkPreviousRoundCompletion(
+    previousRoundId: number,
+    pendingIds: Set<string>,
+    competitionId: number,
+  ): Promise<{
     shouldUseCurrent: boolean;
   }> {
     try {
-      const previousRoundData = await this.getRawMatchday(previousRoundId);
+      const previousRoundData = await this.getRawMatchday(
+        previousRoundId,
+        competitionId,
+      );
       const previousValidData = this.validator.isRoundDataValid(
         previousRoundData.games,
       );
@@ -218,12 +270,14 @@ export class MatchdayCalculatorService {
         return { shouldUseCurrent: true };
       }
 
-      const previousFinished = previousRoundData.games.filter(
-        (game) => game.status.enum === 3 || game.status.name === 'Finalizado',
-      ).length;
+      const previousAnalysis = this.analyzeRoundGames(
+        previousRoundData.games,
+        previousRoundId,
+        pendingIds,
+      );
 
       return {
-        shouldUseCurrent: previousFinished === previousRoundData.games.length,
+        shouldUseCurrent: previousAnalysis.isComplete,
       };
     } catch (prevError) {
       this.logger.warn(
@@ -272,21 +326,47 @@ export class MatchdayCalculatorService {
     return lastValidRound;
   }
 
+  /**
+   * ⏸️ Indica si un partido no debe bloquear el cierre de su fecha
+   * (interrumpido o reprogramado) según la política configurada
+   */
+  private isSkippableGame(game: Game, pendingIds: Set<string>): boolean {
+    if (this.incompleteRoundPolicy === 'wait') return false;
+
+    const category = getMatchStatusCategory(game.status);
+
+    return (
+      isInterruptedStatus(category) ||
+      (category === 'scheduled' && pendingIds.has(game.id))
+    );
+  }
+
+  /**
+   * 📋 Ids de partidos pendientes (postergados/reprogramados) registrados en DB
+   */
+  private async getPendingMatchIds(): Promise<Set<string>> {
+    if (this.incompleteRoundPolicy === 'wait') return new Set();
+
+    try {
+      const pending = await this.matchStatus.getOpenPendingMatches();
+      return new Set(pending.map((match) => match.externalId));
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ No se pudieron obtener partidos pendientes: ${error.message}`,
+      );
+      return new Set();
+    }
+  }
+
   /**
    * 🎯 Analiza el estado de una fecha específica (método público)
    */
-  async analyzeRoundStatus(roundId: number): Promise<{
-    roundId: number;
-    totalGames: number;
-    finishedGames: number;
-    liveGames: number;
-    scheduledGames: number;
-    isValid: boolean;
-    isComplete: boolean;
-    hasLiveGames: boolean;
-  }> {
+  async analyzeRoundStatus(
+    roundId: number,
+    competitionId?: number,
+  ): Promise<RoundAnalysis> {
     try {
-      const data = await this.getRawMatchday(roundId);
+      const data = await this.getRawMatchday(roundId, competitionId);
 
       if (!data.games || data.games.length === 0) {
         return {
@@ -295,13 +375,18 @@ export class MatchdayCalculatorService {
           finishedGames: 0,
           liveGames: 0,
           scheduledGames: 0,
+          pendingGames: 0,
           isValid: false,
           isComplete: false,
           hasLiveGames: false,
         };
       }
 
-      return this.analyzeRoundGames(data.games, roundId);
+      return this.analyzeRoundGames(
+        data.games,
+        roundId,
+        await this.getPendingMatchIds(),
+      );
     } catch (error) {
       this.logger.error(
         `❌ Error analizando estado de fecha ${roundId}: ${error.message}`,
@@ -1,32 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
 
 @Injectable()
 export class MatchdayRepositoryService {
   private readonly logger = new Logger(MatchdayRepositoryService.name);
 
-  constructor(private readonly prismaService: PrismaService) {}
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly competitions: CompetitionService,
+  ) {}
 
   /**
-   * 📖 Lee el current_matchday desde la base de datos
+   * 📖 Lee la fecha actual de una competencia (por defecto, la principal)
    */
-  async getCurrentMatchday(): Promise<number | null> {
+  async getCurrentMatchday(competitionId?: number): Promise<number | null> {
     try {
-      const config = await this.prismaService.systemConfig.findUnique({
-        where: { key: 'current_matchday' },
-      });
+      const competition =
+        await this.competitions.findByIdOrDefault(competitionId);
 
-      if (!config) {
-        this.logger.warn('⚠️ current_matchday no encontrado en DB');
+      if (competition.currentRound === null) {
+        this.logger.warn(
+          `⚠️ Fecha actual de ${competition.slug} no encontrada en DB`,
+        );
         return null;
       }
 
-      const currentRound = parseInt(config.value);
       this.logger.log(
-        `📖 current_matchday leído desde DB: ${currentRound} (actualizado: ${config.updatedAt})`,
+        `📖 Fecha actual de ${competition.slug} leída desde DB: ${competition.currentRound} (actualizado: ${competition.currentRoundUpdatedAt})`,
       );
 
-      return currentRound;
+      return competition.currentRound;
     } catch (error) {
       this.logger.error(
         `❌ Error leyendo current_matchday desde DB: ${error.message}`,
@@ -36,29 +40,28 @@ export class MatchdayRepositoryService {
   }
 
   /**
-   * 💾 Guarda el current_matchday en la base de datos
+   * 💾 Guarda la fecha actual de una competencia en la base de datos
    */
   async saveCurrentMatchday(
     roundId: number,
     updatedBy: string = 'system',
+    competitionId?: number,
   ): Promise<void> {
     try {
-      await this.prismaService.systemConfig.upsert({
-        where: { key: 'current_matchday' },
-        update: {
-          value: roundId.toString(),
-          updatedBy,
-          updatedAt: new Date(),
-        },
-        create: {
-          key: 'current_matchday',
-          value: roundId.toString(),
-          updatedBy,
+      const competition =
+        await this.competitions.findByIdOrDefault(competitionId);
+
+      await this.prismaService.competition.update({
+        where: { id: competition.id },
+        data: {
+          currentRound: roundId,
+          currentRoundUpdatedBy: updatedBy,
+          currentRoundUpdatedAt: new Date(),
         },
       });
 
       this.logger.log(
-        `💾 current_matchday guardado en DB: ${roundId} por ${updatedBy}`,
+        `💾 Fecha actual de ${competition.slug} guardada en DB: ${roundId} por ${updatedBy}`,
       );
     } catch (error) {
       this.logger.error(
@@ -69,30 +72,21 @@ export class MatchdayRepositoryService {
   }
 
   /**
-   * 📊 Obtiene metadatos del current_matchday
+   * 📊 Obtiene metadatos de la fecha actual de una competencia
    */
-  async getCurrentMatchdayMetadata(): Promise<{
+  async getCurrentMatchdayMetadata(competitionId?: number): Promise<{
     value: number | null;
     updatedAt: Date | null;
     updatedBy: string | null;
   }> {
     try {
-      const config = await this.prismaService.systemConfig.findUnique({
-        where: { key: 'current_matchday' },
-      });
-
-      if (!config) {
-        return {
-          value: null,
-          updatedAt: null,
-          updatedBy: null,
-        };
-      }
+      const competition =
+        await this.competitions.findByIdOrDefault(competitionId);
 
       return {
-        value: parseInt(config.value),
-        updatedAt: config.updatedAt,
-        updatedBy: config.updatedBy,
+        value: competition.currentRound,
+        updatedAt: competition.currentRoundUpdatedAt,
+        updatedBy: competition.currentRoundUpdatedBy,
       };
     } catch (error) {
       this.logger.error(
@@ -103,15 +97,14 @@ export class MatchdayRepositoryService {
   }
 
   /**
-   * 🔍 Verifica si existe configuración para current_matchday
+   * 🔍 Verifica si la competencia tiene fecha actual configurada
    */
-  async hasCurrentMatchday(): Promise<boolean> {
+  async hasCurrentMatchday(competitionId?: number): Promise<boolean> {
     try {
-      const config = await this.prismaService.systemConfig.findUnique({
-        where: { key: 'current_matchday' },
-      });
+      const competition =
+        await this.competitions.findByIdOrDefault(competitionId);
 
-      return config !== null;
+      return competition.currentRound !== null;
     } catch (error) {
       this.logger.error(
         `❌ Error verificando existencia de current_matchday: ${error.message}`,
@@ -121,15 +114,23 @@ export class MatchdayRepositoryService {
   }
 
   /**
-   * 🗑️ Elimina la configuración de current_matchday (para testing/reset)
+   * 🗑️ Elimina la fecha actual de una competencia (para testing/reset)
    */
-  async deleteCurrentMatchday(): Promise<void> {
+  async deleteCurrentMatchday(competitionId?: number): Promise<void> {
     try {
-      await this.prismaService.systemConfig.delete({
-        where: { key: 'current_matchday' },
+      const competition =
+        await this.competitions.findByIdOrDefault(competitionId);
+
+      await this.prismaService.competition.update({
+        where: { id: competition.id },
+        data: {
+          currentRound: null,
+          currentRoundUpdatedBy: null,
+          currentRoundUpdatedAt: null,
+        },
       });
 
-      this.logger.log('🗑️ current_matchday eliminado de DB');
+      this.logger.log(`🗑️ Fecha actual de ${competition.slug} eliminada de DB`);
     } catch (error) {
       this.logger.error(
         `❌ Error eliminando current_matchday: ${error.message}`,
@@ -142,7 +143,7 @@ export class MatchdayRepositoryService {
    * 📜 Obtiene historial de cambios (si necesario en el futuro)
    * Por ahora solo devuelve el valor actual, pero se puede extender
    */
-  async getCurrentMatchdayHistory(): Promise<
+  async getCurrentMatchdayHistory(competitionId?: number): Promise<
     Array<{
       value: number;
       updatedAt: Date;
@@ -150,20 +151,18 @@ export class MatchdayRepositoryService {
     }>
   > {
     try {
-      const config = await this.prismaService.systemConfig.findUnique({
-        where: { key: 'current_matchday' },
-      });
+      const metadata = await this.getCurrentMatchdayMetadata(competitionId);
 
-      if (!config) {
+      if (metadata.value === null) {
         return [];
       }
 
       // Por ahora solo el valor actual, se puede extender con tabla de historial
       return [
         {
-          value: parseInt(config.value),
-          updatedAt: config.updatedAt,
-          updatedBy: config.updatedBy,
+          value: metadata.value,
+          updatedAt: metadata.updatedAt,
+          updatedBy: metadata.updatedBy,
         },
       ];
     } catch (error) {
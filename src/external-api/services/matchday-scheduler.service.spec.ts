@@ -0,0 +1,122 @@
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { MatchdayCalculatorService } from './matchday-calculator.service';
+import { MatchdayRepositoryService } from './matchday-repository.service';
+import { PointsService } from './points.service';
+import { CronAuditService } from './cron-audit.service';
+import { FixtureService } from './fixture.service';
+import { CompetitionService } from './competition.service';
+import { CronLockService } from './cron-lock.service';
+import { PointsJobQueueService } from './points-job-queue.service';
+import { CronJobRegistryService } from './cron-job-registry.service';
+import { MatchdaySchedulerService } from './matchday-scheduler.service';
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2025-07-19T22:00:00Z');
+
+describe('MatchdaySchedulerService', () => {
+  let schedulerRegistry: SchedulerRegistry;
+  let cronLock: { acquire: jest.Mock; release: jest.Mock };
+  let pointsService: { processFinishedMatches: jest.Mock };
+  let scheduler: MatchdaySchedulerService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    schedulerRegistry = new SchedulerRegistry();
+    cronLock = {
+      acquire: jest.fn().mockResolvedValue({ acquired: true }),
+      release: jest.fn(),
+    };
+    pointsService = { processFinishedMatches: jest.fn().mockResolvedValue({}) };
+
+    // Partido terminado hace 5 minutos (135 de ventana): falta la pasada final
+    const fixtures = {
+      findMatchesBetween: jest.fn().mockResolvedValue([
+        {
+          id: 'abc',
+          competitionId: 1,
+          round: 5,
+          kickoff: new Date(now.getTime() - 140 * MINUTE_MS),
+          statusEnum: 3,
+          statusName: 'Finalizado',
+        },
+      ]),
+    };
+    const cronAudit = {
+      startExecution: jest.fn().mockResolvedValue(1),
+      completeExecution: jest.fn(),
+      recordSkipped: jest.fn(),
+    };
+
+    scheduler = new MatchdaySchedulerService(
+      {} as MatchdayCalculatorService,
+      {} as MatchdayRepositoryService,
+      pointsService as unknown as PointsService,
+      schedulerRegistry,
+      cronAudit as unknown as CronAuditService,
+      fixtures as unknown as FixtureService,
+      {} as CompetitionService,
+      cronLock as unknown as CronLockService,
+      {} as PointsJobQueueService,
+      {} as CronJobRegistryService,
+    );
+  });
+
+  afterEach(() => {
+    for (const name of schedulerRegistry.getTimeouts()) {
+      schedulerRegistry.deleteTimeout(name);
+    }
+    jest.useRealTimers();
+  });
+
+  describe('pasada final', () => {
+    it('se agenda a los 30 minutos del fin de la ventana', async () => {
+      const [window] = await scheduler.planPointsProcessing('test');
+
+      expect(window.settlementAt).toEqual(
+        new Date(now.getTime() + 25 * MINUTE_MS),
+      );
+      expect(schedulerRegistry.getTimeouts()).toEqual([
+        'points-plan-settlement-0',
+      ]);
+    });
+
+    it('toma el lock aunque siga retenido por la corrida anterior', async () => {
+      await scheduler.planPointsProcessing('test');
+      await jest.advanceTimersByTimeAsync(25 * MINUTE_MS);
+
+      expect(cronLock.acquire).toHaveBeenCalledWith(
+        'process-points',
+        expect.objectContaining({ ignoreHold: true }),
+      );
+      expect(pointsService.processFinishedMatches).toHaveBeenCalledTimes(1);
+      expect(schedulerRegistry.getTimeouts()).toEqual([]);
+    });
+
+    it('se reintenta si hay otro procesamiento en curso', async () => {
+      cronLock.acquire.mockResolvedValueOnce({ acquired: false });
+
+      await scheduler.planPointsProcessing('test');
+      await jest.advanceTimersByTimeAsync(25 * MINUTE_MS);
+
+      expect(pointsService.processFinishedMatches).not.toHaveBeenCalled();
+      expect(schedulerRegistry.getTimeouts()).toEqual([
+        'points-settlement-retry',
+      ]);
+
+      await jest.advanceTimersByTimeAsync(5 * MINUTE_MS);
+
+      expect(pointsService.processFinishedMatches).toHaveBeenCalledTimes(1);
+    });
+
+    it('deja de reintentar después de 3 intentos', async () => {
+      cronLock.acquire.mockResolvedValue({ acquired: false });
+
+      await scheduler.planPointsProcessing('test');
+      await jest.advanceTimersByTimeAsync(60 * MINUTE_MS);
+
+      expect(cronLock.acquire).toHaveBeenCalledTimes(3);
+      expect(schedulerRegistry.getTimeouts()).toEqual([]);
+    });
+  });
+});
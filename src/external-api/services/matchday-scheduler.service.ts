@@ -1,17 +1,76 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { Cron, SchedulerRegistry } from '@nestjs/schedule';
 import { CronJob } from 'cron';
 import { MatchdayCalculatorService } from './matchday-calculator.service';
 import { MatchdayRepositoryService } from './matchday-repository.service';
 import { PointsService } from './points.service';
 import { CronAuditService } from './cron-audit.service';
+import { FixtureService, RoundSyncResult } from './fixture.service';
+import { CompetitionService } from './competition.service';
+import { CronLockOptions, CronLockService } from './cron-lock.service';
+import { PointsJobQueueService } from './points-job-queue.service';
+import { CronJobRegistryService } from './cron-job-registry.service';
+import {
+  ProcessingWindow,
+  addMinutes,
+  planProcessingWindows,
+} from '../utils/processing-window.utils';
+import {
+  getMatchStatusCategory,
+  isInterruptedStatus,
+} from '../utils/match-status.utils';
 import * as Sentry from '@sentry/node';
 
+const MINUTE_MS = 60 * 1000;
+
 @Injectable()
-export class MatchdaySchedulerService {
+export class MatchdaySchedulerService implements OnApplicationBootstrap {
   private readonly logger = new Logger(MatchdaySchedulerService.name);
   private pointsProcessingActive = false;
+  private pointsProcessingRunning = false;
   private readonly POINTS_CRON_NAME = 'process-points-every-5min';
+  private readonly PLAN_TIMEOUT_PREFIX = 'points-plan-';
+
+  // Ventanas de procesamiento planificadas desde el horario de cada partido
+  private processingWindows: ProcessingWindow[] = [];
+  private processingPlannedAt: Date | null = null;
+  // Activado a mano por un admin: el fin de una ventana no lo desactiva
+  private manualActivation = false;
+
+  // Locks por job para que solo una instancia ejecute cada corrida:
+  // ttl = máximo que puede tardar, hold = retención para que otra instancia
+  // no repita la misma corrida programada (menor al intervalo del job)
+  private readonly JOB_LOCKS: Record<string, CronLockOptions> = {
+    'update-current-matchday': {
+      ttlMs: 10 * MINUTE_MS,
+      holdMs: 60 * MINUTE_MS,
+    },
+    'sync-fixtures': { ttlMs: 15 * MINUTE_MS, holdMs: 30 * MINUTE_MS },
+    'sync-all-fixtures': { ttlMs: 30 * MINUTE_MS, holdMs: 60 * MINUTE_MS },
+    'process-points': { ttlMs: 10 * MINUTE_MS, holdMs: 4 * MINUTE_MS },
+    'cleanup-audit-logs': { ttlMs: 10 * MINUTE_MS, holdMs: 60 * MINUTE_MS },
+  };
+
+  // Duración estimada de un partido (inicio → fin, con entretiempo y descuentos)
+  private readonly matchWindowMinutes = parseInt(
+    process.env.POINTS_MATCH_WINDOW_MINUTES || '135',
+    10,
+  );
+  // Minutos después de la ventana para la pasada final de acreditación
+  private readonly settlementDelayMinutes = parseInt(
+    process.env.POINTS_SETTLEMENT_DELAY_MINUTES || '30',
+    10,
+  );
+  // Horas hacia adelante que se planifican (se replanifica en cada sincronización)
+  private readonly planHorizonHours = parseInt(
+    process.env.POINTS_PLAN_HORIZON_HOURS || '48',
+    10,
+  );
+  // Minutos que se extiende una ventana si al terminar sigue habiendo partidos en juego
+  private readonly windowExtensionMinutes = 15;
+  // Reintentos de una pasada final omitida porque había otro procesamiento en curso
+  private readonly settlementRetryMinutes = 5;
+  private readonly settlementMaxAttempts = 3;
 
   constructor(
     private readonly calculator: MatchdayCalculatorService,
@@ -19,20 +78,31 @@ export class MatchdaySchedulerService {
     private readonly pointsService: PointsService,
     private readonly schedulerRegistry: SchedulerRegistry,
     private readonly cronAudit: CronAuditService,
+    private readonly fixtures: FixtureService,
+    private readonly competitions: CompetitionService,
+    private readonly cronLock: CronLockService,
+    private readonly pointsJobQueue: PointsJobQueueService,
+    private readonly cronRegistry: CronJobRegistryService,
   ) {}
 
+  async onApplicationBootstrap() {
+    await this.planPointsProcessing('startup');
+  }
+
   /**
-   * 🕛 Cron job que actualiza current_matchday cada 12 horas
-   * Ejecuta a las 06:00 y 18:00 todos los días
+   * 🕛 Cron job que actualiza la fecha actual de cada competencia activa
+   * cada 12 horas. Ejecuta a las 06:00 y 18:00 todos los días
    */
   @Cron('0 6,18 * * *', {
     name: 'update-current-matchday',
     timeZone: 'America/Argentina/Buenos_Aires',
   })
-  async updateCurrentMatchdayCronJob(): Promise<void> {
+  async updateCurrentMatchdayCronJob(manual: boolean = false): Promise<void> {
     const jobName = 'update-current-matchday';
     let executionId: number;
 
+    if (!(await this.acquireJobLock(jobName, { ignoreHold: manual }))) return;
+
     try {
       // Iniciar auditoría
       executionId = await this.cronAudit.startExecution(jobName, {
@@ -44,41 +114,66 @@ export class MatchdaySchedulerService {
         `⏰ Ejecutando cron job: ${jobName} (ID: ${executionId})`,
       );
 
-      // Obtener valor anterior para logging
-      const previousRound = await this.repository
-        .getCurrentMatchday()
-        .catch(() => null);
+      const updates: Array<{
+        competition: string;
+        previousRound: number | null;
+        newRound: number;
+        changed: boolean;
+      }> = [];
+
+      for (const competition of await this.competitions.findActive()) {
+        // Calcular y guardar la nueva fecha de cada competencia
+        const previousRound = competition.currentRound;
+        const newRound = await this.calculator.calculateCurrentRound(
+          competition.id,
+        );
 
-      // Calcular nueva fecha
-      const newRound = await this.calculator.calculateCurrentRound();
+        await this.repository.saveCurrentMatchday(
+          newRound,
+          'cron_job',
+          competition.id,
+        );
 
-      // Guardar en DB
-      await this.repository.saveCurrentMatchday(newRound, 'cron_job');
+        const changed = previousRound !== newRound;
+        updates.push({
+          competition: competition.slug,
+          previousRound,
+          newRound,
+          changed,
+        });
 
-      const changed = previousRound !== newRound;
+        // Log adicional si cambió la fecha
+        if (changed) {
+          this.logger.log(
+            `🎯 FECHA ACTUALIZADA (${competition.slug}): De ${previousRound} a ${newRound} por cron job`,
+          );
+        }
+      }
 
       // Completar auditoría exitosa
       const result = await this.cronAudit.completeExecution(executionId, {
-        previousValue: previousRound?.toString(),
-        newValue: newRound.toString(),
-        recordsAffected: 1,
+        previousValue: updates
+          .map((u) => `${u.competition}:${u.previousRound ?? 'null'}`)
+          .join(','),
+        newValue: updates
+          .map((u) => `${u.competition}:${u.newRound}`)
+          .join(','),
+        recordsAffected: updates.length,
         metadata: {
-          changed,
+          changed: updates.some((u) => u.changed),
           calculatedRounds: 'auto-detection',
+          competitions: updates,
         },
       });
 
       this.logger.log(
-        `✅ Cron job completado: current_matchday ${previousRound || 'null'} → ${newRound} ` +
-          `(${changed ? 'CAMBIÓ' : 'sin cambios'}) - ${result.executionTimeMs}ms`,
+        `✅ Cron job completado: ${updates
+          .map(
+            (u) =>
+              `${u.competition} ${u.previousRound ?? 'null'} → ${u.newRound}`,
+          )
+          .join(', ')} - ${result.executionTimeMs}ms`,
       );
-
-      // Log adicional si cambió la fecha
-      if (changed) {
-        this.logger.log(
-          `🎯 FECHA ACTUALIZADA: De ${previousRound} a ${newRound} por cron job`,
-        );
-      }
     } catch (error) {
       this.logger.error(`❌ Error en cron job ${jobName}: ${error.message}`);
 
@@ -99,13 +194,19 @@ export class MatchdaySchedulerService {
         scope.setLevel('error');
         Sentry.captureException(error);
       });
+    } finally {
+      await this.cronLock.release(jobName);
     }
   }
 
   /**
-   * 🔄 Fuerza recálculo manual del current_matchday
+   * 🔄 Fuerza recálculo manual de la fecha actual de una competencia
+   * (por defecto, la competencia principal)
    */
-  async refreshCurrentMatchday(updatedBy: string = 'manual'): Promise<{
+  async refreshCurrentMatchday(
+    updatedBy: string = 'manual',
+    competitionId?: number,
+  ): Promise<{
     success: boolean;
     previousRound: number | null;
     newRound: number;
@@ -123,14 +224,19 @@ export class MatchdaySchedulerService {
     try {
       // Obtener valor anterior para comparación
       const previousRound = await this.repository
-        .getCurrentMatchday()
+        .getCurrentMatchday(competitionId)
         .catch(() => null);
 
       // Calcular nueva fecha
-      const newRound = await this.calculator.calculateCurrentRound();
+      const newRound =
+        await this.calculator.calculateCurrentRound(competitionId);
 
       // Guardar en DB
-      await this.repository.saveCurrentMatchday(newRound, updatedBy);
+      await this.repository.saveCurrentMatchday(
+        newRound,
+        updatedBy,
+        competitionId,
+      );
 
       const executionTime = Date.now() - startTime;
       const changed = previousRound !== newRound;
@@ -216,7 +322,7 @@ export class MatchdaySchedulerService {
    */
   async executeCronJobManually(): Promise<void> {
     this.logger.log('🧪 Ejecutando cron job manualmente para testing...');
-    await this.updateCurrentMatchdayCronJob();
+    await this.updateCurrentMatchdayCronJob(true);
   }
 
   // ==========================================
@@ -224,79 +330,376 @@ export class MatchdaySchedulerService {
   // ==========================================
 
   /**
-   * 🌅 Cron job que verifica a las 11 AM si hay partidos hoy
-   * Si hay partidos, activa el procesamiento de puntos de 15:00 a 01:00
+   * 🔄 Cron job que sincroniza la fecha actual y la siguiente de cada
+   * competencia activa cada hora
+   * Mantiene Match/Team actualizados (horarios, estados y resultados)
+   */
+  @Cron('15 * * * *', {
+    name: 'sync-fixtures',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async syncFixturesCronJob(): Promise<void> {
+    await this.runFixtureSync('sync-fixtures', async () => {
+      const results: RoundSyncResult[] = [];
+
+      for (const competition of await this.competitions.findActive()) {
+        const currentRound = competition.currentRound ?? 1;
+        results.push(
+          ...(await this.fixtures.syncRounds(
+            [currentRound, currentRound + 1],
+            competition.id,
+          )),
+        );
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * 🌙 Cron job que sincroniza el fixture completo de cada competencia activa
+   * una vez por día (05:00)
    */
-  @Cron('0 11 * * *', {
-    name: 'check-matches-today',
+  @Cron('0 5 * * *', {
+    name: 'sync-all-fixtures',
     timeZone: 'America/Argentina/Buenos_Aires',
   })
-  async checkMatchesTodayCronJob(): Promise<void> {
-    const jobName = 'check-matches-today';
+  async syncAllFixturesCronJob(): Promise<void> {
+    await this.runFixtureSync('sync-all-fixtures', async () => {
+      const results: RoundSyncResult[] = [];
+
+      for (const competition of await this.competitions.findActive()) {
+        results.push(...(await this.fixtures.syncAllRounds(competition.id)));
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * 🔄 Ejecuta una sincronización de fixture con auditoría
+   */
+  private async runFixtureSync(
+    jobName: string,
+    sync: () => Promise<RoundSyncResult[]>,
+  ): Promise<void> {
     let executionId: number;
 
+    // Sin el lock, otra instancia sincroniza: igual se replanifica con lo que hay
+    if (!(await this.acquireJobLock(jobName))) {
+      await this.planPointsProcessing(jobName);
+      return;
+    }
+
     try {
-      // Iniciar auditoría
       executionId = await this.cronAudit.startExecution(jobName, {
         scheduledTime: new Date().toISOString(),
         timezone: 'America/Argentina/Buenos_Aires',
       });
 
-      this.logger.log(
-        `🌅 Ejecutando verificación de partidos de hoy (11 AM)...`,
-      );
-
-      const hasMatches = await this.pointsService.hasMatchesToday();
+      const results = await sync();
+      const matches = results.reduce((sum, result) => sum + result.matches, 0);
 
-      if (hasMatches) {
-        this.logger.log(
-          '⚽ HAY partidos hoy - Activando procesamiento de puntos',
-        );
-        await this.activatePointsProcessing();
-      } else {
-        this.logger.log(
-          '😴 NO hay partidos hoy - Manteniendo procesamiento inactivo',
-        );
-        await this.deactivatePointsProcessing();
-      }
-
-      // Completar auditoría exitosa
       await this.cronAudit.completeExecution(executionId, {
-        previousValue: 'null', // No hay valor anterior para esta verificación
-        newValue: 'null', // No hay valor nuevo para esta verificación
-        recordsAffected: 0, // No hay registros afectados
+        previousValue: 'null',
+        newValue: 'null',
+        recordsAffected: matches,
         metadata: {
-          hasMatchesToday: hasMatches,
+          rounds: results,
         },
       });
-    } catch (error) {
-      this.logger.error(
-        `❌ Error verificando partidos de hoy: ${error.message}`,
+
+      this.logger.log(
+        `🔄 ${jobName}: ${matches} partidos sincronizados en ${results.length} fechas`,
       );
 
-      // Marcar auditoría como fallida
+      // Los horarios pueden haber cambiado: replanificar las ventanas
+      await this.planPointsProcessing(jobName);
+    } catch (error) {
+      this.logger.error(`❌ Error en ${jobName}: ${error.message}`);
+
       if (executionId) {
         await this.cronAudit.failExecution(executionId, error, {
-          operation: 'check-matches-today',
-          phase: error.message.includes('hasMatchesToday')
-            ? 'check'
-            : 'database',
+          operation: jobName,
+          phase: 'fixture-sync',
         });
       }
 
-      // Reportar a Sentry para monitoreo
       Sentry.withScope((scope) => {
         scope.setTag('service', 'matchday-scheduler');
         scope.setTag('cron_job', jobName);
         scope.setLevel('error');
         Sentry.captureException(error);
       });
+    } finally {
+      await this.cronLock.release(jobName);
+    }
+  }
+
+  /**
+   * 🗓️ Planifica las ventanas de procesamiento de puntos desde el horario de
+   * cada partido (inicio → inicio + duración, más una pasada final).
+   * Se replanifica al iniciar, en cada sincronización de fixture y cuando
+   * cambia el estado de un partido
+   */
+  async planPointsProcessing(
+    trigger: string = 'manual',
+  ): Promise<ProcessingWindow[]> {
+    try {
+      const now = new Date();
+      const matches = await this.fixtures.findMatchesBetween(
+        addMinutes(now, -this.matchWindowMinutes),
+        addMinutes(now, this.planHorizonHours * 60),
+      );
+
+      // Los partidos postergados, suspendidos o cancelados no abren ventana
+      const playable = matches.filter(
+        (match) =>
+          !isInterruptedStatus(
+            getMatchStatusCategory({
+              enum: match.statusEnum,
+              name: match.statusName,
+              short_name: match.statusShortName,
+            }),
+          ),
+      );
+
+      const windows = planProcessingWindows(
+        playable.map((match) => ({
+          id: match.id,
+          competitionId: match.competitionId,
+          round: match.round,
+          kickoff: match.kickoff,
+        })),
+        {
+          matchDurationMinutes: this.matchWindowMinutes,
+          settlementDelayMinutes: this.settlementDelayMinutes,
+        },
+      );
+
+      this.clearWindowTimeouts();
+      this.processingWindows = windows;
+      this.processingPlannedAt = now;
+
+      windows.forEach((window, index) => {
+        if (window.start > now) {
+          this.addWindowTimeout(
+            `${this.PLAN_TIMEOUT_PREFIX}start-${index}`,
+            window.start,
+            () => this.activatePointsProcessing(),
+          );
+        }
+        if (window.end > now) {
+          this.addWindowTimeout(
+            `${this.PLAN_TIMEOUT_PREFIX}end-${index}`,
+            window.end,
+            () => this.closeProcessingWindow(),
+          );
+        }
+        if (window.settlementAt > now) {
+          this.addWindowTimeout(
+            `${this.PLAN_TIMEOUT_PREFIX}settlement-${index}`,
+            window.settlementAt,
+            () => this.executeSettlementPass(),
+          );
+        }
+      });
+
+      if (this.getCurrentWindow(now)) {
+        await this.activatePointsProcessing();
+      } else if (this.pointsProcessingActive) {
+        // Sin ventana vigente: se cierra (o se extiende si hay partidos en juego)
+        await this.closeProcessingWindow();
+      }
+
+      this.logger.log(
+        `🗓️ Procesamiento planificado (${trigger}): ${windows.length} ventanas en las próximas ${this.planHorizonHours}h` +
+          (windows.length > 0
+            ? ` - ${windows
+                .map(
+                  (window) =>
+                    `${window.start.toISOString()} → ${window.end.toISOString()} (${window.matches.length} partidos)`,
+                )
+                .join(', ')}`
+            : ''),
+      );
+
+      return windows;
+    } catch (error) {
+      this.logger.error(
+        `❌ Error planificando el procesamiento de puntos: ${error.message}`,
+      );
+
+      Sentry.withScope((scope) => {
+        scope.setTag('service', 'matchday-scheduler');
+        scope.setTag('operation', 'plan-points-processing');
+        scope.setContext('plan', { trigger });
+        scope.setLevel('error');
+        Sentry.captureException(error);
+      });
+
+      return this.processingWindows;
+    }
+  }
+
+  /**
+   * 📋 Ventanas planificadas y estado del procesamiento
+   */
+  getProcessingPlan(): {
+    plannedAt: string | null;
+    isActive: boolean;
+    manualActivation: boolean;
+    matchWindowMinutes: number;
+    settlementDelayMinutes: number;
+    planHorizonHours: number;
+    currentWindow: number | null;
+    windows: Array<{
+      start: string;
+      end: string;
+      settlementAt: string;
+      matches: Array<{
+        id: string;
+        competitionId: number;
+        round: number;
+        kickoff: string;
+      }>;
+    }>;
+  } {
+    const current = this.getCurrentWindow(new Date());
+
+    return {
+      plannedAt: this.processingPlannedAt?.toISOString() ?? null,
+      isActive: this.pointsProcessingActive,
+      manualActivation: this.manualActivation,
+      matchWindowMinutes: this.matchWindowMinutes,
+      settlementDelayMinutes: this.settlementDelayMinutes,
+      planHorizonHours: this.planHorizonHours,
+      currentWindow: current ? this.processingWindows.indexOf(current) : null,
+      windows: this.processingWindows.map((window) => ({
+        start: window.start.toISOString(),
+        end: window.end.toISOString(),
+        settlementAt: window.settlementAt.toISOString(),
+        matches: window.matches.map((match) => ({
+          ...match,
+          kickoff: match.kickoff.toISOString(),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * 🏁 Fin de una ventana: se desactiva el procesamiento, salvo que sigan
+   * partidos en juego (se vuelve a revisar más tarde) o lo haya activado un admin
+   */
+  private async closeProcessingWindow(): Promise<void> {
+    const now = new Date();
+
+    if (this.getCurrentWindow(now) || this.manualActivation) return;
+
+    const liveMatches = await this.fixtures.countLiveMatches();
+
+    if (liveMatches > 0) {
+      this.logger.log(
+        `⏱️ ${liveMatches} partidos siguen en juego: se extiende la ventana ${this.windowExtensionMinutes} min`,
+      );
+      this.addWindowTimeout(
+        'points-window-extension',
+        addMinutes(now, this.windowExtensionMinutes),
+        () => this.closeProcessingWindow(),
+      );
+      return;
+    }
+
+    await this.deactivatePointsProcessing();
+
+    // Si la ventana se extendió más allá de su pasada final, se agenda otra
+    const pendingSettlement = this.processingWindows.some(
+      (window) => window.end <= now && window.settlementAt > now,
+    );
+
+    if (!pendingSettlement) {
+      this.addWindowTimeout(
+        'points-late-settlement',
+        addMinutes(now, this.settlementDelayMinutes),
+        () => this.executeSettlementPass(),
+      );
+    }
+  }
+
+  private getCurrentWindow(now: Date): ProcessingWindow | undefined {
+    return this.processingWindows.find(
+      (window) => window.start <= now && now < window.end,
+    );
+  }
+
+  /**
+   * ⏲️ Agenda una acción de la planificación (reemplaza la del mismo nombre)
+   */
+  private addWindowTimeout(
+    name: string,
+    at: Date,
+    action: () => Promise<void>,
+  ): void {
+    if (this.schedulerRegistry.getTimeouts().includes(name)) {
+      this.schedulerRegistry.deleteTimeout(name);
+    }
+
+    const timeout = setTimeout(
+      () => {
+        this.schedulerRegistry.deleteTimeout(name);
+        action().catch((error) =>
+          this.logger.error(
+            `❌ Error en la ventana de procesamiento (${name}): ${error.message}`,
+          ),
+        );
+      },
+      Math.max(at.getTime() - Date.now(), 0),
+    );
+
+    this.schedulerRegistry.addTimeout(name, timeout);
+  }
+
+  // La extensión, la pasada final tardía y sus reintentos sobreviven a la
+  // replanificación
+  private clearWindowTimeouts(): void {
+    for (const name of this.schedulerRegistry.getTimeouts()) {
+      if (name.startsWith(this.PLAN_TIMEOUT_PREFIX)) {
+        this.schedulerRegistry.deleteTimeout(name);
+      }
+    }
+  }
+
+  /**
+   * 🔒 Toma el lock de un job. Si lo tiene otra instancia, la corrida se
+   * registra como skipped_locked y no se ejecuta
+   */
+  private async acquireJobLock(
+    jobName: string,
+    options: { lockName?: string; ignoreHold?: boolean } = {},
+  ): Promise<boolean> {
+    const lockName = options.lockName ?? jobName;
+
+    try {
+      const lock = await this.cronLock.acquire(lockName, {
+        ...this.JOB_LOCKS[lockName],
+        ignoreHold: options.ignoreHold,
+      });
+
+      if (lock.acquired) return true;
+
+      await this.cronAudit.recordSkipped(jobName, lock, { lockName });
+    } catch (error) {
+      this.logger.error(
+        `❌ No se pudo tomar el lock de ${jobName}: ${error.message}`,
+      );
     }
+
+    return false;
   }
 
   /**
-   * 🎯 Activa el procesamiento dinámico de puntos (15:00 - 01:00)
-   * Crea un cron job dinámico que solo existe cuando hay partidos
+   * 🎯 Activa el procesamiento dinámico de puntos (inicio de una ventana)
+   * Crea un cron job dinámico que solo existe mientras hay partidos
    */
   private async activatePointsProcessing(): Promise<void> {
     if (this.pointsProcessingActive) {
@@ -311,7 +714,7 @@ export class MatchdaySchedulerService {
       await this.createDynamicPointsCronJob();
 
       this.logger.log(
-        '✅ Procesamiento de puntos ACTIVADO - Cron job dinámico creado (15:00-01:00, cada 5 min)',
+        '✅ Procesamiento de puntos ACTIVADO - Cron job dinámico creado (cada 5 min)',
       );
     } catch (error) {
       this.logger.error(
@@ -349,7 +752,7 @@ export class MatchdaySchedulerService {
 
   /**
    * 🏗️ Crea un cron job dinámico para procesamiento de puntos
-   * Se ejecuta cada 5 minutos entre 15:00-01:00
+   * Se ejecuta cada 5 minutos mientras esté activo (lo crean y eliminan las ventanas)
    */
   private async createDynamicPointsCronJob(): Promise<void> {
     const cronName = this.POINTS_CRON_NAME;
@@ -369,7 +772,7 @@ export class MatchdaySchedulerService {
 
     // Crear el cron job
     const job = new CronJob(
-      '*/5 15-23,0-1 * * *', // Cada 5 minutos entre 15:00-01:00
+      '*/5 * * * *', // Cada 5 minutos
       () => {
         // Ejecutar procesamiento de puntos
         this.executeDynamicPointsProcessing().catch((error) => {
@@ -388,6 +791,9 @@ export class MatchdaySchedulerService {
     job.start();
 
     this.logger.log(`🏗️ Cron job dinámico ${cronName} creado y iniciado`);
+
+    // Pausa o expresión configuradas desde el panel de cron jobs
+    await this.cronRegistry.applySavedState(cronName);
   }
 
   /**
@@ -414,20 +820,79 @@ export class MatchdaySchedulerService {
     }
   }
 
+  /**
+   * 🏁 Pasada final de una ventana. No respeta la retención del lock (la
+   * corrida anterior pudo terminar hace instantes, antes de los últimos
+   * resultados) y, si hay otro procesamiento en curso, se reintenta
+   */
+  private async executeSettlementPass(attempt: number = 1): Promise<void> {
+    const executed = await this.executeDynamicPointsProcessing(
+      'process-points-settlement',
+      { ignoreHold: true },
+    );
+
+    if (executed) return;
+
+    if (attempt >= this.settlementMaxAttempts) {
+      this.logger.warn(
+        `⚠️ Pasada final omitida ${attempt} veces: queda para la próxima corrida`,
+      );
+      return;
+    }
+
+    this.addWindowTimeout(
+      'points-settlement-retry',
+      addMinutes(new Date(), this.settlementRetryMinutes),
+      () => this.executeSettlementPass(attempt + 1),
+    );
+  }
+
   /**
    * 🎲 Ejecuta el procesamiento de puntos desde el cron job dinámico
+   * (o la pasada final de una ventana)
+   * Devuelve false si se omitió por otro procesamiento en curso
    */
-  private async executeDynamicPointsProcessing(): Promise<void> {
-    const jobName = 'process-points-dynamic';
+  private async executeDynamicPointsProcessing(
+    jobName: string = 'process-points-dynamic',
+    options: { ignoreHold?: boolean } = {},
+  ): Promise<boolean> {
     let executionId: number;
 
+    // Una pasada final puede coincidir con el cron de 5 minutos
+    if (this.pointsProcessingRunning) {
+      this.logger.log(
+        `⏭️ ${jobName} omitido: ya hay un procesamiento en curso`,
+      );
+      return false;
+    }
+
+    // El lock es compartido con la pasada final y la ejecución manual
+    if (
+      !(await this.acquireJobLock(jobName, {
+        lockName: 'process-points',
+        ignoreHold: options.ignoreHold,
+      }))
+    ) {
+      return false;
+    }
+
+    this.pointsProcessingRunning = true;
+
     try {
+      const window = this.getCurrentWindow(new Date());
+
       // Iniciar auditoría
       executionId = await this.cronAudit.startExecution(jobName, {
         scheduledTime: new Date().toISOString(),
         isAutomaticExecution: true,
-        activeHours: '15:00-01:00',
-        isDynamicCronJob: true,
+        processingWindow: window
+          ? {
+              start: window.start.toISOString(),
+              end: window.end.toISOString(),
+              matches: window.matches.length,
+            }
+          : null,
+        isDynamicCronJob: jobName === 'process-points-dynamic',
       });
 
       this.logger.log(
@@ -449,8 +914,17 @@ export class MatchdaySchedulerService {
           liveProcessedPronostics: result?.liveProcessedCount || 0,
           totalMatches: result?.totalMatches || 0,
           matchday: result?.matchday || 0,
+          competitions: result?.competitions || [],
+          pointsJobs: {
+            enqueued: result?.enqueuedJobs || 0,
+            completed: result?.jobsCompleted || 0,
+            retried: result?.jobsRetried || 0,
+            dead: result?.jobsDead || 0,
+          },
           userPointsDetails: result?.userPointsDetails || [],
           gamesProcessed: result?.gamesProcessed || [],
+          scoreCorrections: result?.scoreCorrections || [],
+          matchStatusChanges: result?.matchStatusChanges || [],
           summary: {
             usersAffected: result?.userPointsDetails?.length || 0,
             totalPointsAwarded:
@@ -470,6 +944,19 @@ export class MatchdaySchedulerService {
               result?.userPointsDetails?.filter(
                 (detail) => detail.pointType === 'none',
               ).length || 0,
+            scorerHits:
+              result?.userPointsDetails?.reduce(
+                (sum, detail) => sum + (detail.scorerHits?.length || 0),
+                0,
+              ) || 0,
+            scoreCorrections: result?.scoreCorrections?.length || 0,
+            matchStatusChanges: result?.matchStatusChanges?.length || 0,
+            voidedPronostics: result?.voidedPronostics || 0,
+            pronosticsRegraded:
+              result?.scoreCorrections?.reduce(
+                (sum, correction) => sum + correction.pronosticsRegraded,
+                0,
+              ) || 0,
             liveUpdates:
               result?.userPointsDetails?.filter(
                 (detail) => detail.isLive === true,
@@ -483,6 +970,11 @@ export class MatchdaySchedulerService {
       });
 
       this.logger.log('✅ Procesamiento de puntos dinámico completado');
+
+      // Partidos postergados o reprogramados cambian las ventanas
+      if (result?.matchStatusChanges?.length > 0) {
+        await this.planPointsProcessing('match-status-change');
+      }
     } catch (error) {
       this.logger.error(
         `❌ Error en procesamiento de puntos dinámico: ${error.message}`,
@@ -504,22 +996,110 @@ export class MatchdaySchedulerService {
         scope.setLevel('error');
         Sentry.captureException(error);
       });
+    } finally {
+      this.pointsProcessingRunning = false;
+      await this.cronLock.release('process-points');
+    }
+
+    return true;
+  }
+
+  /**
+   * 📬 Cron job que ejecuta los jobs de puntos pendientes (reintentos de
+   * calificación y recálculos de torneos) cuando no hay una ventana activa
+   * (dentro de una ventana los ejecuta el cron dinámico)
+   */
+  @Cron('*/5 * * * *', {
+    name: 'process-points-jobs',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async processPointsJobsCronJob(): Promise<void> {
+    const jobName = 'process-points-jobs';
+    let executionId: number;
+
+    if (this.pointsProcessingActive || this.pointsProcessingRunning) return;
+
+    try {
+      if ((await this.pointsJobQueue.countDue()) === 0) return;
+    } catch (error) {
+      this.logger.error(
+        `❌ No se pudo consultar la cola de puntos: ${error.message}`,
+      );
+      return;
+    }
+
+    // Comparte el lock con el resto del procesamiento de puntos
+    if (!(await this.acquireJobLock(jobName, { lockName: 'process-points' }))) {
+      return;
+    }
+
+    this.pointsProcessingRunning = true;
+
+    try {
+      executionId = await this.cronAudit.startExecution(jobName, {
+        scheduledTime: new Date().toISOString(),
+        isAutomaticExecution: true,
+      });
+
+      const result = await this.pointsService.processPointsJobs();
+
+      await this.cronAudit.completeExecution(executionId, {
+        previousValue: 'null',
+        newValue: 'null',
+        recordsAffected: result.processedCount,
+        metadata: {
+          processedMatches: result.processedMatches,
+          processedPronostics: result.processedCount,
+          gamesProcessed: result.gamesProcessed,
+          scoreCorrections: result.scoreCorrections,
+          pointsJobs: {
+            completed: result.jobsCompleted,
+            retried: result.jobsRetried,
+            dead: result.jobsDead,
+          },
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `❌ Error ejecutando la cola de puntos: ${error.message}`,
+      );
+
+      if (executionId) {
+        await this.cronAudit.failExecution(executionId, error, {
+          operation: jobName,
+          phase: 'processing',
+        });
+      }
+
+      Sentry.withScope((scope) => {
+        scope.setTag('service', 'matchday-scheduler');
+        scope.setTag('cron_job', jobName);
+        scope.setLevel('error');
+        Sentry.captureException(error);
+      });
+    } finally {
+      this.pointsProcessingRunning = false;
+      await this.cronLock.release('process-points');
     }
   }
 
   /**
    * 🔧 Método manual para activar procesamiento de puntos (testing)
+   * Queda activo hasta desactivarlo a mano, aunque terminen las ventanas
    */
   async forceActivatePointsProcessing(): Promise<void> {
     this.logger.log('🔧 Activando procesamiento de puntos manualmente...');
+    this.manualActivation = true;
     await this.activatePointsProcessing();
   }
 
   /**
    * 🔧 Método manual para desactivar procesamiento de puntos (testing)
+   * La próxima ventana planificada lo vuelve a activar
    */
   async forceDeactivatePointsProcessing(): Promise<void> {
     this.logger.log('🔧 Desactivando procesamiento de puntos manualmente...');
+    this.manualActivation = false;
     await this.deactivatePointsProcessing();
   }
 
@@ -528,7 +1108,25 @@ export class MatchdaySchedulerService {
    */
   async executePointsProcessingManually(): Promise<any> {
     this.logger.log('🧪 Ejecutando procesamiento de puntos manualmente...');
-    const result = await this.pointsService.processFinishedMatches();
+
+    const lock = await this.cronLock.acquire('process-points', {
+      ...this.JOB_LOCKS['process-points'],
+      ignoreHold: true,
+    });
+
+    if (!lock.acquired) {
+      throw new Error(
+        `Ya hay un procesamiento de puntos en curso (${lock.holder}, lock hasta ${lock.expiresAt?.toISOString()})`,
+      );
+    }
+
+    let result: Awaited<ReturnType<PointsService['processFinishedMatches']>>;
+
+    try {
+      result = await this.pointsService.processFinishedMatches();
+    } finally {
+      await this.cronLock.release('process-points');
+    }
 
     if (result.liveProcessedCount > 0) {
       this.logger.log(
@@ -557,11 +1155,14 @@ export class MatchdaySchedulerService {
 
     let description: string;
     if (this.pointsProcessingActive && cronJobExists) {
-      description = 'Cron job dinámico activo cada 5 min (15:00-01:00)';
+      description = this.manualActivation
+        ? 'Cron job dinámico activo cada 5 min (activado manualmente)'
+        : 'Cron job dinámico activo cada 5 min (ventana de partidos en curso)';
     } else if (this.pointsProcessingActive && !cronJobExists) {
       description = 'Sistema activo pero cron job no existe (error)';
     } else {
-      description = 'Sistema inactivo - Cron job dinámico no existe';
+      description =
+        'Sistema inactivo - Se activa al comenzar la próxima ventana de partidos';
     }
 
     return {
@@ -649,6 +1250,8 @@ export class MatchdaySchedulerService {
     const jobName = 'cleanup-audit-logs';
     let executionId: number;
 
+    if (!(await this.acquireJobLock(jobName))) return;
+
     try {
       // Iniciar auditoría
       executionId = await this.cronAudit.startExecution(jobName, {
@@ -695,6 +1298,8 @@ export class MatchdaySchedulerService {
         scope.setLevel('error');
         Sentry.captureException(error);
       });
+    } finally {
+      await this.cronLock.release(jobName);
     }
   }
 }
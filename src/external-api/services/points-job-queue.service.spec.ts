@@ -0,0 +1,231 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PointsJob } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CronLockService } from './cron-lock.service';
+import { PointsJobQueueService } from './points-job-queue.service';
+
+jest.mock('@sentry/node', () => ({
+  withScope: jest.fn(),
+  captureException: jest.fn(),
+}));
+
+const now = new Date('2025-07-19T20:00:00Z');
+
+function createPrismaMock() {
+  return {
+    pointsJob: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn().mockResolvedValue(null),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+}
+
+function job(overrides: Partial<PointsJob> = {}): PointsJob {
+  return {
+    id: 1,
+    type: 'grade_match',
+    idempotencyKey: 'grade:abc:2-1',
+    externalId: 'abc',
+    competitionId: 1,
+    matchday: 5,
+    tournamentId: null,
+    payload: {},
+    status: 'running',
+    attempts: 1,
+    maxAttempts: 5,
+    runAt: now,
+    lockedAt: now,
+    lockedBy: 'host-1',
+    lastError: null,
+    result: null,
+    runId: null,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+describe('PointsJobQueueService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let queue: PointsJobQueueService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    process.env.POINTS_JOB_RETRY_BASE_SECONDS = '60';
+
+    prisma = createPrismaMock();
+    queue = new PointsJobQueueService(
+      prisma as unknown as PrismaService,
+      { holder: 'host-1' } as CronLockService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.POINTS_JOB_RETRY_BASE_SECONDS;
+  });
+
+  describe('claimDue', () => {
+    it('toma solo los jobs que no cambiaron desde que se leyeron', async () => {
+      prisma.pointsJob.findMany.mockResolvedValue([
+        job({ id: 1, status: 'pending', attempts: 0, lockedBy: null }),
+        job({ id: 2, status: 'pending', attempts: 0, lockedBy: null }),
+      ]);
+      prisma.pointsJob.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const claimed = await queue.claimDue();
+
+      expect(claimed).toHaveLength(1);
+      expect(claimed[0]).toMatchObject({
+        id: 1,
+        status: 'running',
+        attempts: 1,
+        lockedBy: 'host-1',
+      });
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 1, status: 'pending', attempts: 0 },
+        }),
+      );
+    });
+  });
+
+  describe('complete', () => {
+    it('marca completado el job tomado por esta instancia', async () => {
+      await expect(queue.complete(job(), { graded: 3 }, 'run-1')).resolves.toBe(
+        true,
+      );
+
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: 'running', lockedBy: 'host-1', attempts: 1 },
+        data: expect.objectContaining({ status: 'completed', runId: 'run-1' }),
+      });
+    });
+
+    it('no lo marca si otra instancia lo volvió a tomar', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(queue.complete(job(), {}, 'run-1')).resolves.toBe(false);
+    });
+  });
+
+  describe('fail', () => {
+    it('reprograma con backoff exponencial', async () => {
+      const outcome = await queue.fail(
+        job({ attempts: 3 }),
+        new Error('timeout'),
+        'run-1',
+      );
+
+      expect(outcome).toBe('retry');
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ status: 'running', attempts: 3 }),
+        data: expect.objectContaining({
+          status: 'pending',
+          runAt: new Date('2025-07-19T20:04:00Z'),
+          lastError: 'timeout',
+        }),
+      });
+    });
+
+    it('pasa a dead al agotar los intentos', async () => {
+      const outcome = await queue.fail(
+        job({ attempts: 5 }),
+        new Error('timeout'),
+        'run-1',
+      );
+
+      expect(outcome).toBe('dead');
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'dead', runAt: now }),
+        }),
+      );
+    });
+
+    it('devuelve lost si el job ya no está tomado por esta instancia', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        queue.fail(job({ attempts: 5 }), new Error('timeout'), 'run-1'),
+      ).resolves.toBe('lost');
+    });
+  });
+
+  describe('supersedeGradeMatch', () => {
+    it('cancela los jobs del partido con otro resultado que no corrieron', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        queue.supersedeGradeMatch('abc', 'grade_match:abc:2-2:run-1'),
+      ).resolves.toBe(1);
+
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith({
+        where: {
+          type: 'grade_match',
+          externalId: 'abc',
+          status: { in: ['pending', 'dead'] },
+          idempotencyKey: { not: 'grade_match:abc:2-2:run-1' },
+        },
+        data: expect.objectContaining({ status: 'cancelled' }),
+      });
+    });
+  });
+
+  describe('retry', () => {
+    it('vuelve a encolar un job dead con los intentos en cero', async () => {
+      prisma.pointsJob.findUnique.mockResolvedValue(
+        job({ status: 'pending', attempts: 0 }),
+      );
+
+      const retried = await queue.retry(1);
+
+      expect(retried.status).toBe('pending');
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { in: ['dead', 'cancelled', 'pending'] } },
+        data: expect.objectContaining({ status: 'pending', attempts: 0 }),
+      });
+    });
+
+    it('rechaza un job que se está ejecutando', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 0 });
+      prisma.pointsJob.findUnique.mockResolvedValue(job());
+
+      await expect(queue.retry(1)).rejects.toThrow(BadRequestException);
+    });
+
+    it('devuelve 404 si el job no existe', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(queue.retry(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancela solo jobs pending o dead', async () => {
+      prisma.pointsJob.findUnique.mockResolvedValue(
+        job({ status: 'cancelled' }),
+      );
+
+      await queue.cancel(1);
+
+      expect(prisma.pointsJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: { in: ['pending', 'dead'] } },
+        data: expect.objectContaining({ status: 'cancelled' }),
+      });
+    });
+
+    it('rechaza un job completado', async () => {
+      prisma.pointsJob.updateMany.mockResolvedValue({ count: 0 });
+      prisma.pointsJob.findUnique.mockResolvedValue(
+        job({ status: 'completed' }),
+      );
+
+      await expect(queue.cancel(1)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,373 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PointsJob, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CronLockService } from './cron-lock.service';
+import * as Sentry from '@sentry/node';
+
+export type PointsJobType = 'grade_match' | 'recompute_tournament';
+
+export type PointsJobStatus =
+  | 'pending' // Esperando su próximo intento (runAt)
+  | 'running'
+  | 'completed'
+  | 'dead' // Agotó los reintentos: solo se reintenta a mano
+  | 'cancelled';
+
+export interface EnqueuePointsJob {
+  type: PointsJobType;
+  idempotencyKey: string;
+  externalId?: string;
+  competitionId?: number;
+  matchday?: number;
+  tournamentId?: number;
+  payload: Prisma.InputJsonValue;
+}
+
+@Injectable()
+export class PointsJobQueueService {
+  private readonly logger = new Logger(PointsJobQueueService.name);
+
+  // Intentos antes de pasar a dead (se reintenta con backoff exponencial)
+  private readonly maxAttempts = parseInt(
+    process.env.POINTS_JOB_MAX_ATTEMPTS || '5',
+    10,
+  );
+  // Espera antes del primer reintento; se duplica en cada intento
+  private readonly retryBaseSeconds = parseInt(
+    process.env.POINTS_JOB_RETRY_BASE_SECONDS || '60',
+    10,
+  );
+  private readonly retryMaxSeconds = 60 * 60;
+  // Un job "running" más viejo que esto quedó colgado (la instancia murió)
+  private readonly stuckAfterMs = 15 * 60 * 1000;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cronLock: CronLockService,
+  ) {}
+
+  /**
+   * 📥 Encola jobs. Los que repiten una idempotencyKey existente se ignoran
+   */
+  async enqueue(jobs: EnqueuePointsJob[]): Promise<number> {
+    if (jobs.length === 0) return 0;
+
+    const { count } = await this.prisma.pointsJob.createMany({
+      data: jobs.map((job) => ({ ...job, maxAttempts: this.maxAttempts })),
+      skipDuplicates: true,
+    });
+
+    if (count > 0) {
+      this.logger.log(`📥 ${count} jobs de puntos encolados`);
+    }
+
+    return count;
+  }
+
+  /**
+   * 🗑️ Cancela los jobs grade_match de un partido que todavía no se ejecutaron
+   * con éxito y llevan otro resultado (el de idempotencyKey los reemplaza):
+   * un job viejo con el resultado anterior volvería a calificar mal el partido
+   */
+  async supersedeGradeMatch(
+    externalId: string,
+    idempotencyKey: string,
+  ): Promise<number> {
+    const { count } = await this.prisma.pointsJob.updateMany({
+      where: {
+        type: 'grade_match',
+        externalId,
+        status: { in: ['pending', 'dead'] },
+        idempotencyKey: { not: idempotencyKey },
+      },
+      data: {
+        status: 'cancelled',
+        lastError: `Reemplazado por ${idempotencyKey}`,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    if (count > 0) {
+      this.logger.log(
+        `🗑️ ${count} jobs del partido ${externalId} reemplazados por ${idempotencyKey}`,
+      );
+    }
+
+    return count;
+  }
+
+  /**
+   * 🔎 Job pendiente (todavía no tomado) de un tipo para un torneo
+   */
+  async findPendingForTournament(
+    type: PointsJobType,
+    tournamentId: number,
+  ): Promise<PointsJob | null> {
+    return this.prisma.pointsJob.findFirst({
+      where: { type, tournamentId, status: 'pending' },
+      orderBy: { id: 'desc' },
+    });
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<PointsJob> {
+    return this.prisma.pointsJob.findUnique({ where: { idempotencyKey } });
+  }
+
+  /**
+   * 🔢 Jobs listos para ejecutarse (o colgados en running)
+   */
+  async countDue(): Promise<number> {
+    return this.prisma.pointsJob.count({ where: this.dueFilter(new Date()) });
+  }
+
+  /**
+   * 🎫 Toma los jobs listos para ejecutarse, del más viejo al más nuevo.
+   * Cada job lo toma una sola instancia (se marca running solo si no cambió)
+   */
+  async claimDue(limit: number = 50): Promise<PointsJob[]> {
+    const now = new Date();
+    const candidates = await this.prisma.pointsJob.findMany({
+      where: this.dueFilter(now),
+      orderBy: [{ runAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+    });
+
+    const claimed: PointsJob[] = [];
+
+    for (const job of candidates) {
+      const { count } = await this.prisma.pointsJob.updateMany({
+        where: { id: job.id, status: job.status, attempts: job.attempts },
+        data: {
+          status: 'running',
+          attempts: { increment: 1 },
+          lockedAt: now,
+          lockedBy: this.cronLock.holder,
+        },
+      });
+
+      if (count > 0) {
+        claimed.push({
+          ...job,
+          status: 'running',
+          attempts: job.attempts + 1,
+          lockedAt: now,
+          lockedBy: this.cronLock.holder,
+        });
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * ✅ Marca un job como completado
+   * Solo si sigue tomado por esta instancia: si quedó colgado y otra lo volvió
+   * a tomar, el resultado lo registra esa (devuelve false)
+   */
+  async complete(
+    job: PointsJob,
+    result: Prisma.InputJsonValue,
+    runId: string,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.pointsJob.updateMany({
+      where: this.claimFilter(job),
+      data: {
+        status: 'completed',
+        result,
+        runId,
+        lastError: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      this.logger.warn(
+        `⚠️ Job ${job.id} (${job.idempotencyKey}) ya no está tomado por esta instancia: no se marca completado`,
+      );
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * ❌ Registra un intento fallido: se reprograma con backoff exponencial o,
+   * si agotó los intentos, pasa a dead
+   * Devuelve lost si otra instancia ya había vuelto a tomar el job
+   */
+  async fail(
+    job: PointsJob,
+    error: Error,
+    runId: string,
+  ): Promise<'retry' | 'dead' | 'lost'> {
+    const dead = job.attempts >= job.maxAttempts;
+    const delaySeconds = Math.min(
+      this.retryBaseSeconds * 2 ** (job.attempts - 1),
+      this.retryMaxSeconds,
+    );
+
+    const { count } = await this.prisma.pointsJob.updateMany({
+      where: this.claimFilter(job),
+      data: {
+        status: dead ? 'dead' : 'pending',
+        runAt: dead ? job.runAt : new Date(Date.now() + delaySeconds * 1000),
+        lastError: error.message,
+        runId,
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    if (count === 0) {
+      this.logger.warn(
+        `⚠️ Job ${job.id} (${job.idempotencyKey}) falló pero ya no está tomado por esta instancia: ${error.message}`,
+      );
+      return 'lost';
+    }
+
+    if (dead) {
+      this.logger.error(
+        `💀 Job ${job.id} (${job.idempotencyKey}) sin más reintentos tras ${job.attempts} intentos: ${error.message}`,
+      );
+
+      Sentry.withScope((scope) => {
+        scope.setTag('service', 'points-job-queue');
+        scope.setTag('points_job', job.type);
+        scope.setExtra('jobId', job.id);
+        scope.setExtra('idempotencyKey', job.idempotencyKey);
+        scope.setLevel('error');
+        Sentry.captureException(error);
+      });
+    } else {
+      this.logger.warn(
+        `🔁 Job ${job.id} (${job.idempotencyKey}) falló (intento ${job.attempts}/${job.maxAttempts}), reintento en ${delaySeconds}s: ${error.message}`,
+      );
+    }
+
+    return dead ? 'dead' : 'retry';
+  }
+
+  /**
+   * 📋 Jobs filtrados por estado o partido (los más recientes primero)
+   */
+  async findMany(
+    filters: { status?: string; externalId?: string } = {},
+    limit: number = 50,
+  ): Promise<PointsJob[]> {
+    return this.prisma.pointsJob.findMany({
+      where: { status: filters.status, externalId: filters.externalId },
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * 📊 Cantidad de jobs por estado
+   */
+  async countByStatus(): Promise<Record<string, number>> {
+    const groups = await this.prisma.pointsJob.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    return Object.fromEntries(
+      groups.map((group) => [group.status, group._count._all]),
+    );
+  }
+
+  async findOne(id: number): Promise<PointsJob> {
+    const job = await this.prisma.pointsJob.findUnique({ where: { id } });
+
+    if (!job) {
+      throw new NotFoundException(`Job ${id} no encontrado`);
+    }
+
+    return job;
+  }
+
+  /**
+   * 🔁 Vuelve a encolar un job dead o cancelado (con los intentos en cero)
+   * La condición sobre el estado va en el mismo update: un job que se está
+   * ejecutando o ya se completó no se toca aunque cambie mientras tanto
+   */
+  async retry(id: number): Promise<PointsJob> {
+    const retryable = ['dead', 'cancelled', 'pending'];
+    const { count } = await this.prisma.pointsJob.updateMany({
+      where: { id, status: { in: retryable } },
+      data: {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+
+    if (count === 0) {
+      await this.rejectTransition(
+        id,
+        'solo se reintentan jobs dead, cancelled o pending',
+      );
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * 🚫 Cancela un job que todavía no se ejecutó con éxito
+   */
+  async cancel(id: number): Promise<PointsJob> {
+    const { count } = await this.prisma.pointsJob.updateMany({
+      where: { id, status: { in: ['pending', 'dead'] } },
+      data: { status: 'cancelled', lockedAt: null, lockedBy: null },
+    });
+
+    if (count === 0) {
+      await this.rejectTransition(id, 'solo se cancelan jobs pending o dead');
+    }
+
+    return this.findOne(id);
+  }
+
+  // ==========================================
+  // 🔧 MÉTODOS PRIVADOS
+  // ==========================================
+
+  /**
+   * 🚧 Error de una transición rechazada (404 si el job no existe)
+   */
+  private async rejectTransition(id: number, rule: string): Promise<never> {
+    const job = await this.findOne(id);
+
+    throw new BadRequestException(`El job ${id} está ${job.status}: ${rule}`);
+  }
+
+  // El job sigue tomado por esta instancia en el mismo intento
+  private claimFilter(job: PointsJob): Prisma.PointsJobWhereInput {
+    return {
+      id: job.id,
+      status: 'running',
+      lockedBy: this.cronLock.holder,
+      attempts: job.attempts,
+    };
+  }
+
+  private dueFilter(now: Date): Prisma.PointsJobWhereInput {
+    return {
+      OR: [
+        { status: 'pending', runAt: { lte: now } },
+        {
+          status: 'running',
+          lockedAt: { lt: new Date(now.getTime() - this.stuckAfterMs) },
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,225 @@
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+import { PointsLedgerService, PronosticGrade } from './points-ledger.service';
+
+// Cliente de Prisma simulado: la transacción recibe el mismo cliente
+function createPrismaMock() {
+  const prisma = {
+    pronostic: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest
+        .fn()
+        .mockResolvedValue({ createdAt: new Date('2025-07-19T12:00:00Z') }),
+    },
+    pronosticOutcome: {
+      findMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    pointsLedgerEntry: {
+      groupBy: jest.fn().mockResolvedValue([]),
+      createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    matchdayPoints: { upsert: jest.fn() },
+    tournamentParticipant: { updateMany: jest.fn() },
+    user: { update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+  return prisma;
+}
+
+const grade: PronosticGrade = {
+  pronosticId: 10,
+  userId: 7,
+  competitionId: 1,
+  matchday: 5,
+  runId: 'run-1',
+  globalBreakdown: { exact: 3 },
+  grades: [
+    { tournamentId: 100, pointType: 'exact', breakdown: { exact: 5 } },
+    { tournamentId: 200, pointType: 'exact', breakdown: { exact: 3 } },
+  ],
+};
+
+describe('PointsLedgerService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let ledger: PointsLedgerService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    ledger = new PointsLedgerService(
+      prisma as unknown as PrismaService,
+      {} as CompetitionService,
+    );
+  });
+
+  describe('recordPronosticGrade', () => {
+    it('marca el pronóstico y escribe sus movimientos globales y por torneo', async () => {
+      await expect(ledger.recordPronosticGrade(grade)).resolves.toBe(true);
+
+      expect(prisma.pronostic.updateMany).toHaveBeenCalledWith({
+        where: { id: 10, processed: false },
+        data: { processed: true, livePoints: 0 },
+      });
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ tournamentId: null, delta: 3 }),
+          expect.objectContaining({ tournamentId: 100, delta: 5 }),
+          expect.objectContaining({ tournamentId: 200, delta: 3 }),
+        ],
+      });
+      expect(prisma.tournamentParticipant.updateMany).toHaveBeenCalledTimes(2);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({ globalPoints: { increment: 3 } }),
+      });
+    });
+
+    it('no escribe nada si el pronóstico ya estaba calificado', async () => {
+      prisma.pronostic.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(ledger.recordPronosticGrade(grade)).resolves.toBe(false);
+
+      expect(prisma.pointsLedgerEntry.createMany).not.toHaveBeenCalled();
+      expect(prisma.matchdayPoints.upsert).not.toHaveBeenCalled();
+      expect(prisma.tournamentParticipant.updateMany).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('regradePronostic', () => {
+    // Saldo anterior: 3 globales y 5 en el torneo 100
+    const previousBalance = [
+      {
+        tournamentId: null,
+        competitionId: 1,
+        matchday: 5,
+        rule: 'exact',
+        _sum: { delta: 3 },
+      },
+      {
+        tournamentId: 100,
+        competitionId: 1,
+        matchday: 5,
+        rule: 'exact',
+        _sum: { delta: 5 },
+      },
+    ];
+
+    beforeEach(() => {
+      prisma.pointsLedgerEntry.groupBy.mockResolvedValue(previousBalance);
+      prisma.pronosticOutcome.findMany.mockResolvedValue([
+        { tournamentId: 100 },
+      ]);
+    });
+
+    it('no escribe movimientos si la calificación no cambió', async () => {
+      const result = await ledger.regradePronostic(grade);
+
+      expect(result).toEqual({
+        changed: false,
+        previousPoints: 3,
+        newPoints: 3,
+      });
+      expect(prisma.pointsLedgerEntry.createMany).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('revierte el saldo y reaplica solo en los torneos donde se calificó', async () => {
+      const result = await ledger.regradePronostic({
+        ...grade,
+        globalBreakdown: { result: 1 },
+        grades: [
+          { tournamentId: 100, pointType: 'result', breakdown: { result: 2 } },
+          { tournamentId: 200, pointType: 'result', breakdown: { result: 1 } },
+        ],
+      });
+
+      expect(result).toEqual({
+        changed: true,
+        previousPoints: 3,
+        newPoints: 1,
+      });
+
+      const [reversals, entries] =
+        prisma.pointsLedgerEntry.createMany.mock.calls.map(
+          ([args]) => args.data,
+        );
+
+      expect(reversals).toEqual([
+        expect.objectContaining({ tournamentId: null, delta: -3 }),
+        expect.objectContaining({ tournamentId: 100, delta: -5 }),
+      ]);
+      expect(entries).toEqual([
+        expect.objectContaining({ tournamentId: null, delta: 1 }),
+        expect.objectContaining({ tournamentId: 100, delta: 2 }),
+      ]);
+      expect(prisma.pronosticOutcome.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [expect.objectContaining({ tournamentId: 100, points: 2 })],
+        }),
+      );
+    });
+
+    it('falla si el pronóstico no está calificado', async () => {
+      prisma.pronostic.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(ledger.regradePronostic(grade)).rejects.toThrow(
+        'no está calificado',
+      );
+      expect(prisma.pointsLedgerEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordGlobalCredits', () => {
+    it('revierte los saldos históricos globales sin borrar movimientos', async () => {
+      prisma.pointsLedgerEntry.groupBy.mockResolvedValue([
+        { userId: 7, competitionId: 1, matchday: 0, _sum: { delta: 12 } },
+        { userId: 8, competitionId: 1, matchday: 0, _sum: { delta: 0 } },
+      ]);
+      const deleteMany = jest.fn();
+      Object.assign(prisma.pointsLedgerEntry, { deleteMany });
+
+      await ledger.recordGlobalCredits(
+        [
+          {
+            pronosticId: 10,
+            userId: 7,
+            competitionId: 1,
+            matchday: 5,
+            breakdown: { exact: 3 },
+          },
+        ],
+        'repair-1',
+        { replaceLegacy: true },
+      );
+
+      expect(deleteMany).not.toHaveBeenCalled();
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenNthCalledWith(1, {
+        data: [
+          {
+            userId: 7,
+            tournamentId: null,
+            competitionId: 1,
+            matchday: 0,
+            rule: 'legacy_balance',
+            delta: -12,
+            runId: 'repair-1',
+          },
+        ],
+      });
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenNthCalledWith(2, {
+        data: [
+          expect.objectContaining({
+            pronosticId: 10,
+            tournamentId: null,
+            delta: 3,
+          }),
+        ],
+      });
+    });
+  });
+});
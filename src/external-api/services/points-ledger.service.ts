@@ -0,0 +1,704 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+import { PointType, ScoringRule } from '../utils/scoring.utils';
+
+export type LedgerRule = ScoringRule | 'legacy_balance';
+
+export interface TournamentGrade {
+  tournamentId: number;
+  pointType: PointType;
+  breakdown: Partial<Record<ScoringRule, number>>;
+}
+
+export interface PronosticGrade {
+  pronosticId: number;
+  userId: number;
+  competitionId: number;
+  matchday: number;
+  runId: string;
+  grades: TournamentGrade[];
+  globalBreakdown: Partial<Record<ScoringRule, number>>;
+}
+
+export interface GlobalCredit {
+  pronosticId: number;
+  userId: number;
+  competitionId: number;
+  matchday: number;
+  breakdown: Partial<Record<ScoringRule, number>>;
+}
+
+@Injectable()
+export class PointsLedgerService {
+  private readonly logger = new Logger(PointsLedgerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly competitions: CompetitionService,
+  ) {}
+
+  /**
+   * 🆔 Genera un identificador para una ejecución de procesamiento
+   */
+  createRunId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * 🧾 Registra la calificación de un pronóstico en el ledger y actualiza
+   * los agregados en la misma transacción (todo o nada)
+   *
+   * Los puntos globales se acreditan una sola vez por pronóstico (movimientos
+   * sin torneo), sin importar en cuántos torneos participe el usuario
+   *
+   * Devuelve false si el pronóstico ya estaba calificado (otra ejecución lo
+   * procesó en paralelo): en ese caso no se escribe nada
+   */
+  async recordPronosticGrade(grade: PronosticGrade): Promise<boolean> {
+    const entries = await this.prisma.$transaction(async (tx) => {
+      // Primera escritura: marca el pronóstico solo si seguía sin procesar.
+      // Bloquea la fila, así una ejecución concurrente espera y no encuentra nada
+      const { count } = await tx.pronostic.updateMany({
+        where: { id: grade.pronosticId, processed: false },
+        data: { processed: true, livePoints: 0 },
+      });
+
+      if (count === 0) return null;
+
+      return this.applyGrade(tx, grade);
+    });
+
+    if (entries === null) {
+      this.logger.warn(
+        `⏭️ Ledger: pronóstico ${grade.pronosticId} ya estaba calificado, se omite [run ${grade.runId}]`,
+      );
+      return false;
+    }
+
+    this.logger.debug(
+      `🧾 Ledger: pronóstico ${grade.pronosticId} (usuario ${grade.userId}, fecha ${grade.matchday}) → ${entries} movimientos [run ${grade.runId}]`,
+    );
+
+    return true;
+  }
+
+  /**
+   * ♻️ Recalifica un pronóstico ya procesado (resultado corregido)
+   * Revierte el saldo neto de sus movimientos anteriores y aplica la nueva
+   * calificación en la misma transacción. Devuelve el delta de puntos globales
+   *
+   * Solo se reaplica en los torneos donde se calificó originalmente: si el
+   * usuario dejó un torneo o se sumó a otro después, esos no se tocan.
+   * newTournamentIds habilita además la primera calificación en esos torneos
+   * (recálculo de un torneo que ahora incluye el partido)
+   */
+  async regradePronostic(
+    grade: PronosticGrade,
+    options: { newTournamentIds?: number[] } = {},
+  ): Promise<{
+    changed: boolean;
+    previousPoints: number;
+    newPoints: number;
+  }> {
+    const { pronosticId, userId, runId } = grade;
+    const newPoints = this.sumBreakdown(grade.globalBreakdown);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Bloquear la fila del pronóstico antes de leer su saldo: dos
+      // recalificaciones concurrentes se serializan y no revierten dos veces
+      const { count } = await tx.pronostic.updateMany({
+        where: { id: pronosticId, processed: true },
+        data: { livePoints: 0 },
+      });
+
+      if (count === 0) {
+        throw new Error(
+          `El pronóstico ${pronosticId} no está calificado, no se puede recalificar`,
+        );
+      }
+
+      const previousOutcomes = await tx.pronosticOutcome.findMany({
+        where: { pronosticId },
+        select: { tournamentId: true },
+      });
+
+      // Los resultados por torneo se reemplazan siempre (completa los que falten)
+      await tx.pronosticOutcome.deleteMany({ where: { pronosticId } });
+
+      const previous = await tx.pointsLedgerEntry.groupBy({
+        by: ['tournamentId', 'competitionId', 'matchday', 'rule'],
+        where: { pronosticId },
+        _sum: { delta: true },
+      });
+
+      // Torneos en los que se calificó (con movimientos o con resultado
+      // guardado) y los que pueden recibir su primera calificación
+      const gradedTournaments = new Set([
+        ...(options.newTournamentIds ?? []),
+        ...previousOutcomes.map((outcome) => outcome.tournamentId),
+        ...previous
+          .filter((row) => row.tournamentId !== null)
+          .map((row) => row.tournamentId),
+      ]);
+      const regrade: PronosticGrade = {
+        ...grade,
+        grades: grade.grades.filter((tournamentGrade) =>
+          gradedTournaments.has(tournamentGrade.tournamentId),
+        ),
+      };
+
+      const reversals: Prisma.PointsLedgerEntryCreateManyInput[] = previous
+        .filter((row) => (row._sum.delta || 0) !== 0)
+        .map((row) => ({
+          pronosticId,
+          userId,
+          tournamentId: row.tournamentId,
+          competitionId: row.competitionId,
+          matchday: row.matchday,
+          rule: row.rule,
+          delta: -row._sum.delta,
+          runId,
+        }));
+
+      const previousGlobal = reversals
+        .filter((reversal) => reversal.tournamentId === null)
+        .reduce((sum, reversal) => sum - reversal.delta, 0);
+
+      // Si la nueva calificación es idéntica no se escriben movimientos
+      if (this.sameBalance(reversals, this.toGradeEntries(regrade))) {
+        await this.recordOutcomes(tx, regrade);
+        return { changed: false, previousPoints: previousGlobal };
+      }
+
+      if (reversals.length > 0) {
+        await tx.pointsLedgerEntry.createMany({ data: reversals });
+      }
+
+      for (const reversal of reversals) {
+        if (reversal.tournamentId === null) continue;
+
+        await this.applyTournamentDelta(
+          tx,
+          reversal.tournamentId,
+          userId,
+          reversal.competitionId,
+          reversal.matchday,
+          reversal.delta,
+        );
+      }
+
+      if (previousGlobal !== 0) {
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            globalPoints: { decrement: previousGlobal },
+            updatedAt: new Date(),
+          },
+        });
+      }
+
+      await this.applyGrade(tx, regrade);
+
+      return { changed: true, previousPoints: previousGlobal };
+    });
+
+    if (result.changed) {
+      this.logger.debug(
+        `♻️ Ledger: pronóstico ${pronosticId} recalificado ${result.previousPoints} → ${newPoints} puntos [run ${runId}]`,
+      );
+    }
+
+    return { ...result, newPoints };
+  }
+
+  /**
+   * 🌍 Acredita en el ledger los puntos globales de pronósticos ya procesados
+   * que no los tienen registrados (reparación de puntos globales)
+   *
+   * Con replaceLegacy se revierten además los saldos históricos globales con
+   * movimientos compensatorios: los pronósticos acreditados los reemplazan
+   * (si no, se contarían dos veces)
+   * No toca User.globalPoints: usar recomputeGlobalPoints() al terminar
+   */
+  async recordGlobalCredits(
+    credits: GlobalCredit[],
+    runId: string,
+    options: { replaceLegacy: boolean },
+  ): Promise<number> {
+    const entries = credits.flatMap((credit) =>
+      this.toEntries(
+        credit.pronosticId,
+        credit.userId,
+        null,
+        credit.competitionId,
+        credit.matchday,
+        runId,
+        credit.breakdown,
+      ),
+    );
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        if (options.replaceLegacy) {
+          const legacy = await tx.pointsLedgerEntry.groupBy({
+            by: ['userId', 'competitionId', 'matchday'],
+            where: { tournamentId: null, rule: 'legacy_balance' },
+            _sum: { delta: true },
+          });
+          const reversals: Prisma.PointsLedgerEntryCreateManyInput[] = legacy
+            .filter((row) => (row._sum.delta || 0) !== 0)
+            .map((row) => ({
+              userId: row.userId,
+              tournamentId: null,
+              competitionId: row.competitionId,
+              matchday: row.matchday,
+              rule: 'legacy_balance',
+              delta: -row._sum.delta,
+              runId,
+            }));
+
+          if (reversals.length > 0) {
+            await tx.pointsLedgerEntry.createMany({ data: reversals });
+          }
+        }
+
+        if (entries.length > 0) {
+          await tx.pointsLedgerEntry.createMany({ data: entries });
+        }
+      },
+      { timeout: 120000 },
+    );
+
+    return credits.reduce(
+      (sum, credit) => sum + this.sumBreakdown(credit.breakdown),
+      0,
+    );
+  }
+
+  /**
+   * 📥 Indica si el ledger tiene saldos históricos globales (sin torneo)
+   */
+  async hasLegacyGlobalBalances(): Promise<boolean> {
+    const count = await this.prisma.pointsLedgerEntry.count({
+      where: { tournamentId: null, rule: 'legacy_balance' },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * 📥 Indica si quedan saldos históricos globales sin revertir (algún
+   * usuario con saldo neto distinto de cero)
+   */
+  async hasOpenLegacyGlobalBalances(): Promise<boolean> {
+    const open = await this.prisma.pointsLedgerEntry.groupBy({
+      by: ['userId'],
+      where: { tournamentId: null, rule: 'legacy_balance' },
+      having: { delta: { _sum: { not: 0 } } },
+      take: 1,
+      orderBy: { userId: 'asc' },
+    });
+
+    return open.length > 0;
+  }
+
+  /**
+   * 🌍 Recalcula User.globalPoints desde los movimientos globales del ledger
+   */
+  async recomputeGlobalPoints(): Promise<{ usersUpdated: number }> {
+    const usersUpdated = await this.prisma.$transaction(
+      async (tx) => {
+        await tx.user.updateMany({ data: { globalPoints: 0 } });
+        return this.applyGlobalTotals(tx);
+      },
+      { timeout: 120000 },
+    );
+
+    this.logger.log(
+      `🌍 Puntos globales recalculados para ${usersUpdated} usuarios`,
+    );
+
+    return { usersUpdated };
+  }
+
+  /**
+   * 🔁 Reconstruye todos los agregados a partir del ledger
+   */
+  async rebuildAggregates(): Promise<{
+    ledgerEntries: number;
+    matchdayPointsRows: number;
+    participantsUpdated: number;
+    usersUpdated: number;
+  }> {
+    this.logger.log('🔁 Reconstruyendo agregados de puntos desde el ledger...');
+
+    const ledgerEntries = await this.prisma.pointsLedgerEntry.count();
+    const existingPoints = await this.prisma.matchdayPoints.aggregate({
+      _sum: { points: true },
+    });
+
+    if (ledgerEntries === 0 && (existingPoints._sum.points || 0) > 0) {
+      throw new Error(
+        'El ledger está vacío pero existen puntos registrados. Ejecutá primero la carga de saldos históricos (seed-legacy)',
+      );
+    }
+
+    // Ledgers cargados antes de incluir el saldo global: reconstruir pondría
+    // en cero los puntos globales previos al ledger
+    const legacyTournamentBalances = await this.prisma.pointsLedgerEntry.count({
+      where: { tournamentId: { not: null }, rule: 'legacy_balance' },
+    });
+
+    if (
+      legacyTournamentBalances > 0 &&
+      !(await this.hasLegacyGlobalBalances())
+    ) {
+      throw new Error(
+        'El ledger no tiene saldos históricos globales. Ejecutá primero la reparación de puntos globales (repair-global-points)',
+      );
+    }
+
+    const result = await this.prisma.$transaction(
+      async (tx) => {
+        // 1. Limpiar agregados
+        await tx.matchdayPoints.deleteMany({});
+        await tx.tournamentParticipant.updateMany({ data: { points: 0 } });
+        await tx.user.updateMany({ data: { globalPoints: 0 } });
+
+        // 2. Puntos por fecha
+        const byMatchday = await tx.pointsLedgerEntry.groupBy({
+          by: ['tournamentId', 'userId', 'competitionId', 'matchday'],
+          where: { tournamentId: { not: null } },
+          _sum: { delta: true },
+        });
+
+        await tx.matchdayPoints.createMany({
+          data: byMatchday.map((row) => ({
+            tournamentId: row.tournamentId,
+            userId: row.userId,
+            competitionId: row.competitionId,
+            matchday: row.matchday,
+            points: row._sum.delta || 0,
+          })),
+        });
+
+        // 3. Puntos acumulados por torneo
+        const byTournament = await tx.pointsLedgerEntry.groupBy({
+          by: ['tournamentId', 'userId'],
+          where: { tournamentId: { not: null } },
+          _sum: { delta: true },
+        });
+
+        for (const row of byTournament) {
+          await tx.tournamentParticipant.updateMany({
+            where: { tournamentId: row.tournamentId, userId: row.userId },
+            data: { points: row._sum.delta || 0 },
+          });
+        }
+
+        // 4. Puntos globales por usuario (movimientos sin torneo)
+        const usersUpdated = await this.applyGlobalTotals(tx);
+
+        return {
+          ledgerEntries,
+          matchdayPointsRows: byMatchday.length,
+          participantsUpdated: byTournament.length,
+          usersUpdated,
+        };
+      },
+      { timeout: 120000 },
+    );
+
+    this.logger.log(
+      `✅ Agregados reconstruidos: ${result.matchdayPointsRows} filas por fecha, ` +
+        `${result.participantsUpdated} participaciones, ${result.usersUpdated} usuarios`,
+    );
+
+    return result;
+  }
+
+  /**
+   * 📥 Carga los puntos existentes (previos al ledger) como saldos históricos:
+   * uno por torneo y fecha (MatchdayPoints) y uno global por usuario
+   * (User.globalPoints, imputado a la fecha 0 de la competencia por defecto)
+   * Solo puede ejecutarse con el ledger vacío
+   */
+  async seedLegacyBalances(): Promise<{ runId: string; entries: number }> {
+    const ledgerEntries = await this.prisma.pointsLedgerEntry.count();
+
+    if (ledgerEntries > 0) {
+      throw new Error(
+        'El ledger ya tiene movimientos, no se pueden cargar saldos históricos',
+      );
+    }
+
+    const runId = `legacy-${this.createRunId()}`;
+    const matchdayPoints = await this.prisma.matchdayPoints.findMany({
+      where: { points: { not: 0 } },
+    });
+
+    const users = await this.prisma.user.findMany({
+      where: { globalPoints: { not: 0 } },
+      select: { id: true, globalPoints: true },
+    });
+    const defaultCompetition = await this.competitions.getDefault();
+
+    const data: Prisma.PointsLedgerEntryCreateManyInput[] = [
+      ...matchdayPoints.map((row) => ({
+        userId: row.userId,
+        tournamentId: row.tournamentId,
+        competitionId: row.competitionId,
+        matchday: row.matchday,
+        rule: 'legacy_balance',
+        delta: row.points,
+        runId,
+      })),
+      ...users.map((user) => ({
+        userId: user.id,
+        tournamentId: null,
+        competitionId: defaultCompetition.id,
+        matchday: 0,
+        rule: 'legacy_balance',
+        delta: user.globalPoints,
+        runId,
+      })),
+    ];
+
+    await this.prisma.pointsLedgerEntry.createMany({ data });
+
+    this.logger.log(
+      `📥 Saldos históricos cargados: ${matchdayPoints.length} por torneo y ${users.length} globales [run ${runId}]`,
+    );
+
+    return { runId, entries: data.length };
+  }
+
+  /**
+   * 🧮 Escribe los movimientos de una calificación y actualiza agregados
+   * El pronóstico ya debe estar marcado como procesado en la transacción
+   */
+  private async applyGrade(
+    tx: Prisma.TransactionClient,
+    grade: PronosticGrade,
+  ): Promise<number> {
+    const { userId, competitionId, matchday, grades } = grade;
+    const entries = this.toGradeEntries(grade);
+
+    if (entries.length > 0) {
+      await tx.pointsLedgerEntry.createMany({ data: entries });
+    }
+
+    for (const tournamentGrade of grades) {
+      const points = this.sumBreakdown(tournamentGrade.breakdown);
+      await this.applyTournamentDelta(
+        tx,
+        tournamentGrade.tournamentId,
+        userId,
+        competitionId,
+        matchday,
+        points,
+      );
+    }
+
+    const globalPoints = this.sumBreakdown(grade.globalBreakdown);
+
+    if (globalPoints !== 0) {
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          globalPoints: { increment: globalPoints },
+          updatedAt: new Date(),
+        },
+      });
+    }
+
+    await this.recordOutcomes(tx, grade);
+
+    return entries.length;
+  }
+
+  /**
+   * 🎯 Guarda el resultado del pronóstico en cada torneo (exacto, resultado
+   * o sin acierto), usado para los desempates de las tablas
+   */
+  private async recordOutcomes(
+    tx: Prisma.TransactionClient,
+    grade: PronosticGrade,
+  ): Promise<void> {
+    if (grade.grades.length === 0) return;
+
+    const { createdAt } = await tx.pronostic.findUniqueOrThrow({
+      where: { id: grade.pronosticId },
+      select: { createdAt: true },
+    });
+
+    await tx.pronosticOutcome.createMany({
+      data: grade.grades.map((tournamentGrade) => ({
+        pronosticId: grade.pronosticId,
+        tournamentId: tournamentGrade.tournamentId,
+        userId: grade.userId,
+        competitionId: grade.competitionId,
+        matchday: grade.matchday,
+        pointType: tournamentGrade.pointType,
+        points: this.sumBreakdown(tournamentGrade.breakdown),
+        submittedAt: createdAt,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * ➕ Aplica un delta a MatchdayPoints y TournamentParticipant
+   */
+  private async applyTournamentDelta(
+    tx: Prisma.TransactionClient,
+    tournamentId: number,
+    userId: number,
+    competitionId: number,
+    matchday: number,
+    points: number,
+  ): Promise<void> {
+    if (points === 0) return; // No actualizar si no obtuvo puntos
+
+    await tx.matchdayPoints.upsert({
+      where: {
+        tournamentId_userId_competitionId_matchday: {
+          tournamentId,
+          userId,
+          competitionId,
+          matchday,
+        },
+      },
+      update: {
+        points: { increment: points },
+        updatedAt: new Date(),
+      },
+      create: {
+        tournamentId,
+        userId,
+        competitionId,
+        matchday,
+        points,
+      },
+    });
+
+    await tx.tournamentParticipant.updateMany({
+      where: { tournamentId, userId },
+      data: {
+        points: { increment: points },
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * 🌍 Asigna a cada usuario la suma de sus movimientos globales
+   */
+  private async applyGlobalTotals(
+    tx: Prisma.TransactionClient,
+  ): Promise<number> {
+    const byUser = await tx.pointsLedgerEntry.groupBy({
+      by: ['userId'],
+      where: { tournamentId: null },
+      _sum: { delta: true },
+    });
+
+    for (const row of byUser) {
+      await tx.user.update({
+        where: { id: row.userId },
+        data: { globalPoints: row._sum.delta || 0 },
+      });
+    }
+
+    return byUser.length;
+  }
+
+  /**
+   * 📝 Movimientos de una calificación: globales (sin torneo) y por torneo
+   */
+  private toGradeEntries(
+    grade: PronosticGrade,
+  ): Prisma.PointsLedgerEntryCreateManyInput[] {
+    const {
+      pronosticId,
+      userId,
+      competitionId,
+      matchday,
+      runId,
+      grades,
+      globalBreakdown,
+    } = grade;
+
+    return [
+      ...this.toEntries(
+        pronosticId,
+        userId,
+        null,
+        competitionId,
+        matchday,
+        runId,
+        globalBreakdown,
+      ),
+      ...grades.flatMap((tournamentGrade) =>
+        this.toEntries(
+          pronosticId,
+          userId,
+          tournamentGrade.tournamentId,
+          competitionId,
+          matchday,
+          runId,
+          tournamentGrade.breakdown,
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * ⚖️ Indica si revertir y aplicar los movimientos dejaría el saldo igual
+   */
+  private sameBalance(
+    reversals: Prisma.PointsLedgerEntryCreateManyInput[],
+    entries: Prisma.PointsLedgerEntryCreateManyInput[],
+  ): boolean {
+    const balance = new Map<string, number>();
+
+    for (const entry of [...reversals, ...entries]) {
+      const key = `${entry.tournamentId}:${entry.competitionId}:${entry.matchday}:${entry.rule}`;
+      balance.set(key, (balance.get(key) || 0) + entry.delta);
+    }
+
+    return [...balance.values()].every((delta) => delta === 0);
+  }
+
+  private toEntries(
+    pronosticId: number,
+    userId: number,
+    tournamentId: number | null,
+    competitionId: number,
+    matchday: number,
+    runId: string,
+    breakdown: Partial<Record<ScoringRule, number>>,
+  ): Prisma.PointsLedgerEntryCreateManyInput[] {
+    return Object.entries(breakdown)
+      .filter(([, delta]) => delta !== 0)
+      .map(([rule, delta]) => ({
+        pronosticId,
+        userId,
+        tournamentId,
+        competitionId,
+        matchday,
+        rule,
+        delta,
+        runId,
+      }));
+  }
+
+  private sumBreakdown(
+    breakdown: Partial<Record<ScoringRule, number>>,
+  ): number {
+    return Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+  }
+}
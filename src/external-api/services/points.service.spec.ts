@@ -0,0 +1,479 @@
+import { Competition } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { PromiedosService } from '../promiedos.service';
+import { CompetitionService } from './competition.service';
+import { FixtureService } from './fixture.service';
+import { MatchStatusService } from './match-status.service';
+import { PointsJobQueueService } from './points-job-queue.service';
+import { PointsLedgerService } from './points-ledger.service';
+import { PointsService } from './points.service';
+
+const competition = { id: 1, slug: 'liga-profesional' } as Competition;
+
+// Cliente de Prisma simulado: la transacción recibe el mismo cliente
+function createPrismaMock() {
+  const prisma = {
+    tournamentCompetition: { findMany: jest.fn().mockResolvedValue([]) },
+    tournament: { findUniqueOrThrow: jest.fn() },
+    tournamentParticipant: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    gradedGameSnapshot: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      update: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([
+        {
+          externalId: 'abc',
+          competitionId: 1,
+          matchday: 5,
+          scores: [2, 1],
+        },
+      ]),
+    },
+    pronostic: {
+      findMany: jest.fn(),
+      count: jest.fn().mockResolvedValue(0),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest
+        .fn()
+        .mockResolvedValue({ createdAt: new Date('2025-07-19T12:00:00Z') }),
+    },
+    match: {
+      findUnique: jest.fn().mockResolvedValue({
+        kickoff: new Date('2025-07-19T18:00:00Z'),
+        seasonId: null,
+      }),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    pendingMatch: { findMany: jest.fn().mockResolvedValue([]) },
+    pronosticOutcome: {
+      groupBy: jest.fn().mockResolvedValue([]),
+      findMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    pointsLedgerEntry: {
+      // Calificado antes de que el torneo incluyera la fecha: solo globales
+      groupBy: jest.fn().mockResolvedValue([
+        {
+          tournamentId: null,
+          competitionId: 1,
+          matchday: 5,
+          rule: 'exact',
+          _sum: { delta: 3 },
+        },
+      ]),
+      createMany: jest.fn(),
+    },
+    matchdayPoints: { upsert: jest.fn() },
+    user: { update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+  return prisma;
+}
+
+describe('PointsService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let provider: { getGameDetail: jest.Mock };
+  let jobQueue: { claimDue: jest.Mock; complete: jest.Mock; fail: jest.Mock };
+  let points: PointsService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    provider = { getGameDetail: jest.fn() };
+    jobQueue = {
+      claimDue: jest.fn().mockResolvedValue([]),
+      complete: jest.fn().mockResolvedValue(true),
+      fail: jest.fn().mockResolvedValue('retry'),
+    };
+
+    const competitions = {
+      getDefault: jest.fn().mockResolvedValue(competition),
+      findByIdOrDefault: jest.fn().mockResolvedValue(competition),
+      tournamentsPlaying: jest.fn().mockReturnValue({}),
+      getProvider: jest.fn().mockReturnValue(provider),
+    } as unknown as CompetitionService;
+    const ledger = new PointsLedgerService(
+      prisma as unknown as PrismaService,
+      competitions,
+    );
+
+    points = new PointsService(
+      prisma as unknown as PrismaService,
+      {} as PromiedosService,
+      ledger,
+      {} as MatchStatusService,
+      {} as FixtureService,
+      competitions,
+      jobQueue as unknown as PointsJobQueueService,
+    );
+  });
+
+  describe('recomputeTournamentPoints', () => {
+    it('acredita al torneo los partidos que entran al ampliar la ventana', async () => {
+      prisma.tournamentParticipant.findMany
+        // Participantes del torneo
+        .mockResolvedValueOnce([{ userId: 7 }])
+        // Torneos que suman el partido (la ventana ampliada incluye la fecha 5)
+        .mockResolvedValueOnce([
+          { tournamentId: 100, tournament: { scoringRules: null } },
+        ]);
+      prisma.pronostic.findMany.mockImplementation(({ distinct }) =>
+        distinct
+          ? []
+          : [
+              {
+                id: 10,
+                userId: 7,
+                externalId: 'abc',
+                prediction: { scores: [2, 1] },
+              },
+            ],
+      );
+
+      const result = await points.recomputeTournamentPoints(100, 'run-1');
+
+      expect(result).toMatchObject({
+        gamesScanned: 1,
+        pronosticsRegraded: 1,
+        pronosticsFailed: 0,
+      });
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({ tournamentId: 100, delta: 3 }),
+        ]),
+      });
+      expect(prisma.tournamentParticipant.updateMany).toHaveBeenCalledWith({
+        where: { tournamentId: 100, userId: 7 },
+        data: expect.objectContaining({ points: { increment: 3 } }),
+      });
+      expect(prisma.pronosticOutcome.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [expect.objectContaining({ tournamentId: 100, points: 3 })],
+        }),
+      );
+    });
+  });
+
+  describe('goleadores', () => {
+    const scorerRules = {
+      exactResult: 3,
+      correctResult: 1,
+      goalDifference: 0,
+      teamGoals: 0,
+      scorer: 2,
+    };
+
+    beforeEach(() => {
+      prisma.tournamentParticipant.findMany
+        .mockResolvedValueOnce([{ userId: 7 }, { userId: 8 }])
+        .mockResolvedValue([
+          { tournamentId: 100, tournament: { scoringRules: scorerRules } },
+        ]);
+      prisma.pronostic.findMany.mockImplementation(({ distinct }) =>
+        distinct
+          ? []
+          : [
+              {
+                id: 10,
+                userId: 7,
+                externalId: 'abc',
+                prediction: { scores: [2, 1], scorers: ['Borja', 'Lema'] },
+              },
+              {
+                id: 11,
+                userId: 8,
+                externalId: 'abc',
+                prediction: { scores: [0, 0], scorers: ['M. Borja'] },
+              },
+            ],
+      );
+      provider.getGameDetail.mockResolvedValue({
+        id: 'abc',
+        goals: [
+          {
+            playerName: 'Miguel Borja',
+            teamIndex: 0,
+            minute: 12,
+            ownGoal: false,
+          },
+          {
+            playerName: 'Cristian Lema',
+            teamIndex: 0,
+            minute: 67,
+            ownGoal: true,
+          },
+          {
+            playerName: 'Edinson Cavani',
+            teamIndex: 1,
+            minute: 45,
+            ownGoal: false,
+          },
+        ],
+      });
+    });
+
+    it('suma los goleadores acertados sin contar goles en contra', async () => {
+      await points.recomputeTournamentPoints(100, 'run-1');
+
+      expect(prisma.pronosticOutcome.createMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [
+            expect.objectContaining({
+              pronosticId: 10,
+              tournamentId: 100,
+              points: 5,
+            }),
+          ],
+        }),
+      );
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          expect.objectContaining({
+            pronosticId: 11,
+            tournamentId: 100,
+            rule: 'scorer',
+            delta: 2,
+          }),
+        ]),
+      });
+    });
+
+    it('consulta los goles del partido una sola vez', async () => {
+      await points.recomputeTournamentPoints(100, 'run-1');
+
+      expect(provider.getGameDetail).toHaveBeenCalledTimes(1);
+      expect(provider.getGameDetail).toHaveBeenCalledWith('abc');
+    });
+
+    it('no consulta los goles si ningún torneo los puntúa', async () => {
+      prisma.tournamentParticipant.findMany.mockReset();
+      prisma.tournamentParticipant.findMany
+        .mockResolvedValueOnce([{ userId: 7 }, { userId: 8 }])
+        .mockResolvedValue([
+          { tournamentId: 100, tournament: { scoringRules: null } },
+        ]);
+
+      await points.recomputeTournamentPoints(100, 'run-1');
+
+      expect(provider.getGameDetail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resultado corregido', () => {
+    beforeEach(() => {
+      // Calificado 2-1 y Promiedos lo corrige a 2-2
+      jobQueue.claimDue.mockResolvedValue([
+        {
+          id: 1,
+          type: 'grade_match',
+          externalId: 'abc',
+          payload: {
+            game: { id: 'abc', scores: [2, 2], status: { enum: 3 } },
+            competitionId: 1,
+            matchday: 5,
+            pending: false,
+          },
+        },
+      ]);
+      prisma.gradedGameSnapshot.findUnique.mockResolvedValue({
+        externalId: 'abc',
+        competitionId: 1,
+        matchday: 5,
+        scores: [2, 1],
+      });
+      prisma.tournamentParticipant.findMany.mockResolvedValue([
+        { tournamentId: 100, tournament: { scoringRules: null } },
+      ]);
+      prisma.pronostic.findMany.mockImplementation(({ where }) =>
+        where.processed
+          ? [
+              {
+                id: 10,
+                userId: 7,
+                externalId: 'abc',
+                prediction: { scores: [2, 1] },
+                user: { id: 7, name: 'Juan' },
+              },
+            ]
+          : [],
+      );
+      prisma.pronosticOutcome.findMany.mockResolvedValue([
+        { tournamentId: 100 },
+      ]);
+      prisma.pointsLedgerEntry.groupBy.mockResolvedValue([
+        {
+          tournamentId: null,
+          competitionId: 1,
+          matchday: 5,
+          rule: 'exact',
+          _sum: { delta: 3 },
+        },
+        {
+          tournamentId: 100,
+          competitionId: 1,
+          matchday: 5,
+          rule: 'exact',
+          _sum: { delta: 3 },
+        },
+      ]);
+    });
+
+    it('revierte los puntos del resultado anterior y guarda el nuevo', async () => {
+      const result = await points.processPointsJobs('run-2');
+
+      expect(result.scoreCorrections).toEqual([
+        expect.objectContaining({
+          gameId: 'abc',
+          previousScores: [2, 1],
+          newScores: [2, 2],
+          pronosticsRegraded: 1,
+          globalPointsDelta: -3,
+        }),
+      ]);
+      expect(prisma.pointsLedgerEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ tournamentId: null, delta: -3 }),
+          expect.objectContaining({ tournamentId: 100, delta: -3 }),
+        ],
+      });
+      expect(prisma.gradedGameSnapshot.update).toHaveBeenCalledWith({
+        where: { externalId: 'abc' },
+        data: { scores: [2, 2], runId: 'run-2' },
+      });
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('no recalifica si el resultado no cambió', async () => {
+      prisma.gradedGameSnapshot.findUnique.mockResolvedValue({
+        externalId: 'abc',
+        competitionId: 1,
+        matchday: 5,
+        scores: [2, 2],
+      });
+
+      const result = await points.processPointsJobs('run-2');
+
+      expect(result.scoreCorrections).toEqual([]);
+      expect(prisma.pointsLedgerEntry.createMany).not.toHaveBeenCalled();
+      expect(prisma.gradedGameSnapshot.update).not.toHaveBeenCalled();
+    });
+
+    it('conserva el resultado anterior y reintenta el job si algo falla', async () => {
+      prisma.pronostic.updateMany.mockResolvedValue({ count: 0 });
+
+      await points.processPointsJobs('run-2');
+
+      expect(prisma.gradedGameSnapshot.update).not.toHaveBeenCalled();
+      expect(jobQueue.complete).not.toHaveBeenCalled();
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        expect.any(Error),
+        'run-2',
+      );
+    });
+  });
+
+  describe('getLiveTournamentRanking', () => {
+    const kickoff = new Date('2025-07-19T18:00:00Z');
+
+    function member(id: number, points: number, joinedAt: Date) {
+      return {
+        userId: id,
+        role: 'member',
+        points,
+        joinedAt,
+        user: { id, name: `Usuario ${id}`, email: null, avatar: null },
+      };
+    }
+
+    beforeEach(() => {
+      prisma.tournament.findUniqueOrThrow.mockResolvedValue({
+        id: 100,
+        scoringRules: null,
+        competitions: [{ competitionId: 1 }],
+        season: null,
+        seasonId: null,
+        startMatchday: null,
+        endMatchday: null,
+        includePastMatches: false,
+        archivedAt: null,
+        tiebreakers: [],
+      });
+      prisma.tournamentParticipant.findMany.mockResolvedValue([
+        member(7, 10, new Date('2025-07-01T12:00:00Z')),
+        member(8, 8, new Date('2025-07-01T12:00:00Z')),
+        // Se unió con el partido empezado: no suma en vivo
+        member(9, 9, new Date('2025-07-19T18:30:00Z')),
+      ]);
+      prisma.match.findMany.mockResolvedValue([
+        {
+          id: 'abc',
+          competitionId: 1,
+          round: 5,
+          seasonId: null,
+          kickoff,
+          homeScore: 1,
+          awayScore: 0,
+          statusEnum: 2,
+          statusName: '2T',
+          statusShortName: '2T',
+          gameTimeToDisplay: "67'",
+          homeTeam: { name: 'River Plate' },
+          awayTeam: { name: 'Boca Juniors' },
+        },
+      ]);
+      prisma.pronostic.findMany.mockResolvedValue([
+        { userId: 7, externalId: 'abc', prediction: { scores: [0, 1] } },
+        { userId: 8, externalId: 'abc', prediction: { scores: [1, 0] } },
+        { userId: 9, externalId: 'abc', prediction: { scores: [1, 0] } },
+      ]);
+    });
+
+    it('proyecta los puntos en vivo y el cambio de posición', async () => {
+      const { liveMatches, ranking } =
+        await points.getLiveTournamentRanking(100);
+
+      expect(liveMatches).toEqual([
+        expect.objectContaining({ id: 'abc', scores: [1, 0] }),
+      ]);
+      expect(
+        ranking.map(({ user, projectedPoints, positionDeltaLabel }) => [
+          user.id,
+          projectedPoints,
+          positionDeltaLabel,
+        ]),
+      ).toEqual([
+        [8, 11, '+2 ▲'],
+        [7, 10, '-1 ▼'],
+        [9, 9, '-1 ▼'],
+      ]);
+      expect(ranking[0]).toMatchObject({
+        settledPoints: 8,
+        livePoints: 3,
+        livePredictions: 1,
+      });
+    });
+
+    it('no suma partidos nuevos en un torneo archivado', async () => {
+      prisma.tournament.findUniqueOrThrow.mockResolvedValue({
+        id: 100,
+        scoringRules: null,
+        competitions: [{ competitionId: 1 }],
+        archivedAt: new Date('2025-07-01T00:00:00Z'),
+        tiebreakers: [],
+      });
+
+      const { liveMatches, ranking } =
+        await points.getLiveTournamentRanking(100);
+
+      expect(liveMatches).toEqual([]);
+      expect(prisma.pronostic.findMany).not.toHaveBeenCalled();
+      expect(ranking.every((entry) => entry.positionDelta === 0)).toBe(true);
+    });
+  });
+});
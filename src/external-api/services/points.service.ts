@@ -1,105 +1,473 @@
 import { Injectable, Logger, forwardRef, Inject } from '@nestjs/common';
+import { Competition, PointsJob, Prisma, TournamentRole } from '@prisma/client';
 import { PrismaService } from '../../prisma.service';
 import { PromiedosService } from '../promiedos.service';
+import {
+  GlobalCredit,
+  PointsLedgerService,
+  TournamentGrade,
+} from './points-ledger.service';
+import { MatchStatusChange, MatchStatusService } from './match-status.service';
+import { FixtureService } from './fixture.service';
+import { CompetitionService } from './competition.service';
+import { PointsJobQueueService } from './points-job-queue.service';
+import { matchPredictedScorers } from '../utils/player-name.utils';
+import { argentinaToUTC } from '../utils/date-time.utils';
+import { fromJson, toJson } from '../utils/prisma-json.utils';
+import {
+  MATCH_STATUS,
+  getMatchStatusCategory,
+  isInterruptedStatus,
+} from '../utils/match-status.utils';
+import {
+  DEFAULT_SCORING_RULES,
+  PointType,
+  PronosticScore,
+  ScoringRule,
+  ScoringRules,
+  scorePrediction,
+} from '../utils/scoring.utils';
+import {
+  buildHeadToHead,
+  HeadToHead,
+  normalizeTiebreakers,
+  RankedEntry,
+  RankingStats,
+  rankWithTiebreakers,
+} from '../utils/tiebreak.utils';
 
 interface GameResult {
   id: string;
   scores: number[];
   status: {
     enum: number; // 1=Programado, 2=En vivo, 3=Finalizado
+    name?: string; // "Postergado", "Susp.", "Cancelado", etc.
   };
 }
 
+interface RegradeSummary {
+  runId: string;
+  gamesScanned: number;
+  pronosticsRegraded: number;
+  pronosticsFailed: number;
+}
+
+// Datos del partido guardado que definen en qué torneos suma
+interface MatchContext {
+  kickoff: Date | null;
+  seasonId: number | null;
+}
+
 interface PronosticPrediction {
   scores: number[];
   scorers?: string[];
 }
 
-interface PointsConfiguration {
-  exactResult: number; // 3 puntos
-  onlyResult: number; // 1 punto
+interface TournamentPointsDetail {
+  tournamentId: number;
+  points: number;
+  pointType: PointType;
+  breakdown: Partial<Record<ScoringRule, number>>;
+}
+
+interface UserPointsDetail {
+  userId: number;
+  userName: string;
+  gameId: string;
+  predictedScores: number[];
+  realScores: number[];
+  pointsAwarded: number;
+  pointType: PointType;
+  tournamentsAffected: number[];
+  tournamentPoints?: TournamentPointsDetail[];
+  scorerHits?: string[];
+  isLive: boolean;
+}
+
+interface GameProcessedDetail {
+  gameId: string;
+  realScores: number[];
+  pronosticsCount: number;
+  pointsDistributed: number;
+  isLive: boolean;
+}
+
+interface ScoreCorrection {
+  gameId: string;
+  matchday: number;
+  previousScores: number[];
+  newScores: number[];
+  pronosticsRegraded: number;
+  pronosticsFailed: number;
+  globalPointsDelta: number;
+  users: Array<{
+    userId: number;
+    userName: string;
+    previousPoints: number;
+    newPoints: number;
+  }>;
+}
+
+// Payload de un job recompute_tournament
+interface RecomputeTournamentJobPayload {
+  tournamentId: number;
+}
+
+// Partido calificado a recalificar: snapshot o, si no hay, partido guardado
+interface GradedGame {
+  externalId: string;
+  competitionId: number;
+  matchday: number;
+  scores: number[];
+}
+
+// Payload de un job grade_match (resultado del partido al encolarlo)
+interface GradeMatchJobPayload {
+  game: GameResult;
+  competitionId: number;
+  matchday: number;
+  // Partido pendiente de una fecha anterior: se resuelve al calificarlo
+  pending: boolean;
+}
+
+// Partido en vivo que suma en la tabla proyectada de un torneo
+export interface LiveRankingMatch {
+  id: string;
+  round: number;
+  homeTeam: string;
+  awayTeam: string;
+  scores: number[];
+  gameTime: string | null;
+}
+
+// Participante en la tabla proyectada, con su cambio respecto de la acreditada
+export interface LiveRankingEntry {
+  position: number;
+  positionLabel: string;
+  tied: boolean;
+  settledPosition: number;
+  positionDelta: number;
+  positionDeltaLabel: string;
+  user: {
+    id: number;
+    name: string | null;
+    email: string | null;
+    avatar: string | null;
+  };
+  role: TournamentRole;
+  settledPoints: number;
+  livePoints: number;
+  projectedPoints: number;
+  livePredictions: number;
+}
+
+interface PointsJobsResult {
+  jobsCompleted: number;
+  jobsRetried: number;
+  jobsDead: number;
+  processedCount: number;
+  processedMatches: number;
+  scoreCorrections: ScoreCorrection[];
+  userPointsDetails: UserPointsDetail[];
+  gamesProcessed: GameProcessedDetail[];
 }
 
-type PointType = 'exact' | 'result' | 'none';
+interface CompetitionProcessingResult {
+  processedCount: number;
+  processedMatches: number;
+  totalMatches: number;
+  matchday: number;
+  liveProcessedCount: number;
+  liveProcessedMatches: number;
+  // Resultados corregidos después de calificar (recalificaciones)
+  scoreCorrections: ScoreCorrection[];
+  // Partidos postergados, suspendidos, cancelados o reprogramados
+  matchStatusChanges: MatchStatusChange[];
+  voidedPronostics: number;
+  // Jobs de calificación encolados para partidos finalizados
+  enqueuedJobs: number;
+  // Detalles granulares para auditoría
+  userPointsDetails: UserPointsDetail[];
+  gamesProcessed: GameProcessedDetail[];
+}
 
 @Injectable()
 export class PointsService {
   private readonly logger = new Logger(PointsService.name);
 
-  // Configuración de puntos (por ahora hardcodeado, luego configurable por torneo)
-  private readonly pointsConfig: PointsConfiguration = {
-    exactResult: 3,
-    onlyResult: 1,
-  };
-
   constructor(
     private readonly prisma: PrismaService,
     @Inject(forwardRef(() => PromiedosService))
     private readonly promiedosService: PromiedosService,
+    private readonly ledger: PointsLedgerService,
+    private readonly matchStatus: MatchStatusService,
+    private readonly fixtures: FixtureService,
+    private readonly competitions: CompetitionService,
+    private readonly jobQueue: PointsJobQueueService,
   ) {}
 
   /**
-   * Procesa todos los partidos (en vivo y finalizados) y calcula puntos
+   * Procesa todos los partidos (en vivo y finalizados) de cada competencia
+   * activa y calcula puntos. Los finalizados se califican mediante jobs
+   * encolados (con reintentos), que se ejecutan al final de la corrida
    * Este es el método principal que ejecutará el cron job
    */
-  async processFinishedMatches(): Promise<{
-    processedCount: number;
-    processedMatches: number;
-    totalMatches: number;
-    matchday: number;
-    liveProcessedCount: number;
-    liveProcessedMatches: number;
-    // Detalles granulares para auditoría
-    userPointsDetails: Array<{
-      userId: number;
-      userName: string;
-      gameId: string;
-      predictedScores: number[];
-      realScores: number[];
-      pointsAwarded: number;
-      pointType: PointType;
-      tournamentsAffected: number[];
-      isLive: boolean;
-    }>;
-    gamesProcessed: Array<{
-      gameId: string;
-      realScores: number[];
-      pronosticsCount: number;
-      pointsDistributed: number;
-      isLive: boolean;
-    }>;
-  }> {
+  async processFinishedMatches(): Promise<
+    CompetitionProcessingResult &
+      PointsJobsResult & {
+        runId: string;
+        competitions: Array<{
+          competition: string;
+          matchday?: number;
+          totalMatches?: number;
+          enqueuedJobs?: number;
+          error?: string;
+        }>;
+      }
+  > {
     this.logger.log(
       '🔍 Iniciando procesamiento de partidos (en vivo y finalizados)...',
     );
 
+    // Identificador de esta ejecución para el ledger de puntos
+    const runId = this.ledger.createRunId();
+    const activeCompetitions = await this.competitions.findActive();
+
+    const summary: CompetitionProcessingResult = {
+      processedCount: 0,
+      processedMatches: 0,
+      totalMatches: 0,
+      matchday: null,
+      liveProcessedCount: 0,
+      liveProcessedMatches: 0,
+      scoreCorrections: [],
+      matchStatusChanges: [],
+      voidedPronostics: 0,
+      enqueuedJobs: 0,
+      userPointsDetails: [],
+      gamesProcessed: [],
+    };
+    const competitions = [];
+    let lastError: Error | null = null;
+
+    for (const competition of activeCompetitions) {
+      try {
+        const result = await this.processCompetitionMatches(competition);
+
+        summary.totalMatches += result.totalMatches;
+        summary.liveProcessedCount += result.liveProcessedCount;
+        summary.liveProcessedMatches += result.liveProcessedMatches;
+        summary.voidedPronostics += result.voidedPronostics;
+        summary.enqueuedJobs += result.enqueuedJobs;
+        summary.matchStatusChanges.push(...result.matchStatusChanges);
+        summary.userPointsDetails.push(...result.userPointsDetails);
+        summary.gamesProcessed.push(...result.gamesProcessed);
+
+        // La fecha informada es la de la competencia por defecto
+        if (
+          summary.matchday === null ||
+          this.competitions.isDefault(competition)
+        ) {
+          summary.matchday = result.matchday;
+        }
+
+        competitions.push({
+          competition: competition.slug,
+          matchday: result.matchday,
+          totalMatches: result.totalMatches,
+          enqueuedJobs: result.enqueuedJobs,
+        });
+      } catch (error) {
+        lastError = error;
+        competitions.push({
+          competition: competition.slug,
+          error: error.message,
+        });
+      }
+    }
+
+    // Calificar los partidos finalizados (incluye reintentos pendientes)
+    const jobs = await this.processPointsJobs(runId);
+
+    summary.processedCount += jobs.processedCount;
+    summary.processedMatches += jobs.processedMatches;
+    summary.scoreCorrections.push(...jobs.scoreCorrections);
+    summary.userPointsDetails.push(...jobs.userPointsDetails);
+    summary.gamesProcessed.push(...jobs.gamesProcessed);
+
+    // Solo se considera fallida la ejecución si fallaron todas las competencias
+    if (lastError && competitions.every((c) => c.error)) {
+      throw lastError;
+    }
+
+    return {
+      ...summary,
+      jobsCompleted: jobs.jobsCompleted,
+      jobsRetried: jobs.jobsRetried,
+      jobsDead: jobs.jobsDead,
+      runId,
+      competitions,
+    };
+  }
+
+  /**
+   * 📬 Ejecuta los jobs de calificación listos (nuevos y reintentos)
+   * Un job que falla se reprograma con backoff; al agotar los intentos queda
+   * dead hasta que un admin lo reintente
+   */
+  async processPointsJobs(
+    runId: string = this.ledger.createRunId(),
+  ): Promise<PointsJobsResult> {
+    const result: PointsJobsResult = {
+      jobsCompleted: 0,
+      jobsRetried: 0,
+      jobsDead: 0,
+      processedCount: 0,
+      processedMatches: 0,
+      scoreCorrections: [],
+      userPointsDetails: [],
+      gamesProcessed: [],
+    };
+
+    const jobs = await this.jobQueue.claimDue();
+
+    for (const job of jobs) {
+      try {
+        if (job.type === 'recompute_tournament') {
+          const recompute = await this.runRecomputeTournamentJob(job, runId);
+
+          await this.jobQueue.complete(job, toJson(recompute), runId);
+          result.jobsCompleted++;
+          continue;
+        }
+
+        const graded = await this.runGradeMatchJob(job, runId);
+
+        await this.jobQueue.complete(
+          job,
+          {
+            processedCount: graded.processedCount,
+            scoreCorrection: graded.correction
+              ? {
+                  previousScores: graded.correction.previousScores,
+                  newScores: graded.correction.newScores,
+                  pronosticsRegraded: graded.correction.pronosticsRegraded,
+                }
+              : null,
+          },
+          runId,
+        );
+
+        result.jobsCompleted++;
+        result.processedCount += graded.processedCount;
+
+        if (graded.correction) {
+          result.scoreCorrections.push(graded.correction);
+        }
+
+        if (graded.processedCount > 0) {
+          result.processedMatches++;
+          result.gamesProcessed.push(graded.gameProcessed);
+          result.userPointsDetails.push(...graded.userDetails);
+        }
+      } catch (error) {
+        const outcome = await this.jobQueue.fail(job, error, runId);
+
+        if (outcome === 'dead') {
+          result.jobsDead++;
+        } else if (outcome === 'retry') {
+          result.jobsRetried++;
+        }
+      }
+    }
+
+    if (jobs.length > 0) {
+      this.logger.log(
+        `📬 Jobs de puntos: ${result.jobsCompleted} completados, ${result.jobsRetried} a reintentar, ${result.jobsDead} sin más reintentos`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 🏆 Procesa los partidos de la fecha actual de una competencia y sus
+   * partidos pendientes de fechas anteriores
+   */
+  private async processCompetitionMatches(
+    competition: Competition,
+  ): Promise<
+    Omit<
+      CompetitionProcessingResult,
+      'processedCount' | 'processedMatches' | 'scoreCorrections'
+    >
+  > {
     try {
-      // Obtener la fecha actual automáticamente
-      const currentMatchdayData = await this.promiedosService.getMatchday();
-      const currentMatchday = currentMatchdayData.round;
+      // Obtener la fecha actual y traer sus resultados actualizados del proveedor
+      const currentMatchday = await this.promiedosService.getCurrentRound(
+        competition.id,
+      );
+      await this.fixtures.syncRounds([currentMatchday], competition.id);
+
+      const currentMatchdayData = await this.fixtures.getRoundGames(
+        currentMatchday,
+        competition.id,
+      );
+
+      this.logger.log(
+        `📅 Procesando ${competition.slug} fecha ${currentMatchday}`,
+      );
 
-      this.logger.log(`📅 Procesando fecha ${currentMatchday}`);
+      // Cambios de estado (postergados, suspendidos, cancelados, reprogramados)
+      const matchStatusChanges = await this.matchStatus.trackRoundGames(
+        competition.id,
+        currentMatchday,
+        currentMatchdayData.games,
+      );
+
+      // Partidos pendientes de fechas anteriores: sus puntos van a la fecha original
+      const pendingMatches = await this.matchStatus.getOpenPendingMatches(
+        competition.id,
+      );
+      const pendingMatchdays = new Map(
+        pendingMatches.map((pending) => [pending.externalId, pending.matchday]),
+      );
+      const previousRoundsGames = await this.getPendingRoundsGames(
+        competition,
+        pendingMatches,
+        currentMatchday,
+        matchStatusChanges,
+      );
+      const games: GameResult[] = [
+        ...currentMatchdayData.games,
+        ...previousRoundsGames,
+      ];
 
       // Filtrar partidos finalizados (status.enum === 3)
-      const finishedGames = currentMatchdayData.games.filter(
-        (game: GameResult) => game.status.enum === 3,
+      const finishedGames = games.filter(
+        (game) => getMatchStatusCategory(game.status) === 'finished',
       );
 
       // Filtrar partidos en vivo (status.enum === 2)
-      const liveGames = currentMatchdayData.games.filter(
-        (game: GameResult) => game.status.enum === 2,
+      const liveGames = games.filter(
+        (game) => getMatchStatusCategory(game.status) === 'live',
+      );
+
+      // Partidos postergados, suspendidos o cancelados
+      const interruptedGames = games.filter((game) =>
+        isInterruptedStatus(getMatchStatusCategory(game.status)),
       );
 
       const totalMatches = currentMatchdayData.games.length;
 
       // Arrays para auditoría detallada
-      const userPointsDetails = [];
-      const gamesProcessed = [];
+      const userPointsDetails: UserPointsDetail[] = [];
+      const gamesProcessed: GameProcessedDetail[] = [];
 
-      let totalProcessed = 0;
-      let processedMatches = 0;
+      let enqueuedJobs = 0;
       let liveProcessedCount = 0;
       let liveProcessedMatches = 0;
+      let voidedPronostics = 0;
 
       // 1. Procesar partidos en vivo primero
       if (liveGames.length > 0) {
@@ -134,53 +502,62 @@ export class PointsService {
         }
       }
 
-      // 2. Procesar partidos finalizados
+      // 2. Encolar la calificación de los partidos finalizados
       if (finishedGames.length > 0) {
         this.logger.log(
           `🏁 Encontrados ${finishedGames.length} partidos finalizados`,
         );
 
-        for (const game of finishedGames) {
-          const gameResult = await this.processGamePronosticsDetailed(
-            game,
-            currentMatchday,
-          );
-
-          if (gameResult.processedCount > 0) {
-            processedMatches++;
-
-            // Agregar detalles del juego
-            gamesProcessed.push({
-              gameId: game.id,
-              realScores: game.scores,
-              pronosticsCount: gameResult.processedCount,
-              pointsDistributed: gameResult.userDetails.reduce(
-                (sum, detail) => sum + detail.pointsAwarded,
-                0,
-              ),
-              isLive: false,
-            });
-
-            // Agregar detalles de usuarios
-            userPointsDetails.push(...gameResult.userDetails);
-          }
+        enqueuedJobs = await this.enqueueGradeMatchJobs(
+          finishedGames,
+          competition,
+          currentMatchday,
+          pendingMatchdays,
+        );
+      }
 
-          totalProcessed += gameResult.processedCount;
+      // 3. Partidos interrumpidos
+      for (const game of interruptedGames) {
+        const category = getMatchStatusCategory(game.status);
+
+        if (
+          category === 'cancelled' &&
+          this.matchStatus.cancelledPolicy === 'void'
+        ) {
+          voidedPronostics += await this.voidGamePronostics(game.id);
+          await this.matchStatus.resolve(game.id, 'voided');
+          continue;
         }
+
+        // Postergado o suspendido: los pronósticos siguen pendientes y los
+        // puntos en vivo acumulados dejan de contar
+        await this.prisma.pronostic.updateMany({
+          where: {
+            externalId: game.id,
+            processed: false,
+            livePoints: { not: 0 },
+          },
+          data: { livePoints: 0 },
+        });
       }
 
       // Log del resultado
+      if (voidedPronostics > 0) {
+        this.logger.log(
+          `🚫 ${voidedPronostics} pronósticos anulados por partidos cancelados`,
+        );
+      }
       if (liveProcessedCount > 0) {
         this.logger.log(
           `🔴 Procesamiento en vivo: ${liveProcessedCount} pronósticos actualizados`,
         );
       }
-      if (totalProcessed > 0) {
+      if (enqueuedJobs > 0) {
         this.logger.log(
-          `🏁 Procesamiento final: ${totalProcessed} pronósticos procesados`,
+          `📥 ${enqueuedJobs} partidos finalizados encolados para calificar`,
         );
       }
-      if (liveProcessedCount === 0 && totalProcessed === 0) {
+      if (liveProcessedCount === 0 && enqueuedJobs === 0) {
         this.logger.log('⏸️ No hay partidos para procesar');
       }
 
@@ -189,40 +566,193 @@ export class PointsService {
       );
 
       return {
-        processedCount: totalProcessed,
-        processedMatches,
         totalMatches,
         matchday: currentMatchday,
         liveProcessedCount,
         liveProcessedMatches,
+        matchStatusChanges,
+        voidedPronostics,
+        enqueuedJobs,
         userPointsDetails,
         gamesProcessed,
       };
     } catch (error) {
-      this.logger.error('❌ Error procesando partidos:', error);
+      this.logger.error(
+        `❌ Error procesando partidos de ${competition.slug}:`,
+        error,
+      );
       throw error;
     }
   }
 
+  /**
+   * 📥 Encola un job grade_match por partido finalizado que falta calificar:
+   * sin snapshot (nunca calificado) o con un resultado distinto al calificado.
+   * La idempotencyKey evita encolar dos veces el mismo resultado, y los jobs
+   * del partido con un resultado anterior que todavía no corrieron se cancelan
+   */
+  private async enqueueGradeMatchJobs(
+    games: GameResult[],
+    competition: Competition,
+    currentMatchday: number,
+    pendingMatchdays: Map<string, number>,
+  ): Promise<number> {
+    const snapshots = await this.prisma.gradedGameSnapshot.findMany({
+      where: { externalId: { in: games.map((game) => game.id) } },
+    });
+    const snapshotsById = new Map(
+      snapshots.map((snapshot) => [snapshot.externalId, snapshot]),
+    );
+
+    const jobs = games
+      .filter((game) => {
+        const snapshot = snapshotsById.get(game.id);
+        const scores = snapshot && fromJson<number[]>(snapshot.scores);
+        return (
+          !scores ||
+          scores[0] !== game.scores[0] ||
+          scores[1] !== game.scores[1]
+        );
+      })
+      .map((game) => {
+        // Un partido reprogramado suma en su fecha original
+        const matchday = pendingMatchdays.get(game.id) ?? currentMatchday;
+        const payload: GradeMatchJobPayload = {
+          game: { id: game.id, scores: game.scores, status: game.status },
+          competitionId: competition.id,
+          matchday,
+          pending: pendingMatchdays.has(game.id),
+        };
+
+        return {
+          type: 'grade_match' as const,
+          idempotencyKey: `grade_match:${game.id}:${game.scores.join('-')}:${snapshotsById.get(game.id)?.runId ?? 'new'}`,
+          externalId: game.id,
+          competitionId: competition.id,
+          matchday,
+          payload: toJson(payload),
+        };
+      });
+
+    const enqueued = await this.jobQueue.enqueue(jobs);
+
+    for (const job of jobs) {
+      await this.jobQueue.supersedeGradeMatch(
+        job.externalId,
+        job.idempotencyKey,
+      );
+    }
+
+    return enqueued;
+  }
+
+  /**
+   * 🔁 Recalcula un torneo (job recompute_tournament). Falla si algún
+   * pronóstico no se pudo recalificar, para que el job se reintente
+   */
+  private async runRecomputeTournamentJob(
+    job: PointsJob,
+    runId: string,
+  ): Promise<RegradeSummary> {
+    const { tournamentId } = fromJson<RecomputeTournamentJobPayload>(
+      job.payload,
+    );
+    const result = await this.recomputeTournamentPoints(tournamentId, runId);
+
+    if (result.pronosticsFailed > 0) {
+      throw new Error(
+        `${result.pronosticsFailed} pronósticos del torneo ${tournamentId} no se pudieron recalcular`,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * 🏁 Califica un partido finalizado (job grade_match): recalifica si cambió
+   * el resultado y procesa los pronósticos pendientes. Falla si queda algún
+   * pronóstico sin procesar, para que el job se reintente
+   */
+  private async runGradeMatchJob(
+    job: PointsJob,
+    runId: string,
+  ): Promise<{
+    processedCount: number;
+    correction: ScoreCorrection | null;
+    gameProcessed: GameProcessedDetail;
+    userDetails: UserPointsDetail[];
+  }> {
+    const { game, competitionId, matchday, pending } =
+      fromJson<GradeMatchJobPayload>(job.payload);
+    const competition =
+      await this.competitions.findByIdOrDefault(competitionId);
+
+    // Resultado corregido después de calificar: recalificar lo procesado
+    const correction = await this.regradeCorrectedGame(
+      game,
+      competition,
+      runId,
+    );
+
+    if (correction?.pronosticsFailed > 0) {
+      throw new Error(
+        `${correction.pronosticsFailed} pronósticos no se pudieron recalificar en el partido ${game.id}`,
+      );
+    }
+
+    const gameResult = await this.processGamePronosticsDetailed(
+      game,
+      competition,
+      matchday,
+      runId,
+    );
+
+    if (gameResult.processedCount > 0) {
+      await this.saveGradedSnapshot(game, competition.id, matchday, runId);
+    }
+
+    const remaining = await this.prisma.pronostic.count({
+      where: { externalId: game.id, processed: false },
+    });
+
+    if (remaining > 0) {
+      throw new Error(
+        `${remaining} pronósticos quedaron sin procesar en el partido ${game.id}`,
+      );
+    }
+
+    if (pending) {
+      await this.matchStatus.resolve(game.id, 'finished');
+    }
+
+    return {
+      processedCount: gameResult.processedCount,
+      correction,
+      gameProcessed: {
+        gameId: game.id,
+        realScores: game.scores,
+        pronosticsCount: gameResult.processedCount,
+        pointsDistributed: gameResult.userDetails.reduce(
+          (sum, detail) => sum + detail.pointsAwarded,
+          0,
+        ),
+        isLive: false,
+      },
+      userDetails: gameResult.userDetails,
+    };
+  }
+
   /**
    * Procesa los pronósticos de un partido específico con detalles granulares
    */
   private async processGamePronosticsDetailed(
     game: GameResult,
+    competition: Competition,
     matchday: number,
+    runId: string = this.ledger.createRunId(),
   ): Promise<{
     processedCount: number;
-    userDetails: Array<{
-      userId: number;
-      userName: string;
-      gameId: string;
-      predictedScores: number[];
-      realScores: number[];
-      pointsAwarded: number;
-      pointType: PointType;
-      tournamentsAffected: number[];
-      isLive: boolean;
-    }>;
+    userDetails: UserPointsDetail[];
   }> {
     // Buscar pronósticos no procesados para este partido
     const unprocessedPronostics = await this.prisma.pronostic.findMany({
@@ -257,46 +787,44 @@ export class PointsService {
     );
 
     let processedCount = 0;
+    const getScorers = this.createScorersLoader(game.id, competition);
+    const matchContext = await this.getMatchContext(game.id);
 
     for (const pronostic of unprocessedPronostics) {
       try {
-        const prediction =
-          pronostic.prediction as unknown as PronosticPrediction;
-        const points = this.calculatePoints(game.scores, prediction.scores);
-        const pointType = this.getPointType(game.scores, prediction.scores);
+        const prediction = fromJson<PronosticPrediction>(pronostic.prediction);
+        const graded = await this.gradePronostic(
+          pronostic.userId,
+          prediction,
+          game,
+          competition,
+          matchday,
+          matchContext,
+          getScorers,
+        );
+        const points = graded.globalScore.points;
+        const pointType = graded.globalScore.pointType;
+        const { grades, tournamentsAffected, tournamentPoints, scorerHits } =
+          graded;
 
         this.logger.debug(
           `👤 ${pronostic.user.name}: Pronóstico ${JSON.stringify(prediction.scores)} vs Real ${JSON.stringify(game.scores)} = ${points} puntos`,
         );
 
-        // Buscar todos los torneos donde participa este usuario
-        const userTournaments =
-          await this.prisma.tournamentParticipant.findMany({
-            where: { userId: pronostic.userId },
-            select: { tournamentId: true },
-          });
-
-        const tournamentsAffected = userTournaments.map((t) => t.tournamentId);
-
-        // Actualizar puntos en todos los torneos del usuario
-        for (const tournament of userTournaments) {
-          await this.updateUserPointsInTournament(
-            tournament.tournamentId,
-            pronostic.userId,
-            matchday,
-            points,
-          );
-        }
-
-        // Marcar pronóstico como procesado y resetear puntos temporales
-        await this.prisma.pronostic.update({
-          where: { id: pronostic.id },
-          data: {
-            processed: true,
-            livePoints: 0, // Resetear puntos temporales al finalizar
-          },
+        // Registrar en el ledger, actualizar agregados y marcar como procesado (atómico)
+        const recorded = await this.ledger.recordPronosticGrade({
+          pronosticId: pronostic.id,
+          userId: pronostic.userId,
+          competitionId: competition.id,
+          matchday,
+          runId,
+          grades,
+          globalBreakdown: graded.globalScore.breakdown,
         });
 
+        // Otra ejecución lo calificó mientras tanto: no suma en esta
+        if (!recorded) continue;
+
         // Agregar detalles del usuario para auditoría
         userDetails.push({
           userId: pronostic.userId,
@@ -307,6 +835,8 @@ export class PointsService {
           pointsAwarded: points,
           pointType,
           tournamentsAffected,
+          tournamentPoints,
+          scorerHits,
           isLive: false,
         });
 
@@ -326,31 +856,110 @@ export class PointsService {
   }
 
   /**
-   * Procesa los pronósticos de un partido EN VIVO con detalles granulares
-   * A diferencia de los partidos finalizados, aquí se actualizan los puntos temporalmente
+   * 📅 Obtiene los partidos pendientes de fechas anteriores a la actual
+   * (postergados o suspendidos que todavía pueden jugarse)
    */
-  private async processLiveGamePronosticsDetailed(
+  private async getPendingRoundsGames(
+    competition: Competition,
+    pendingMatches: Array<{ externalId: string; matchday: number }>,
+    currentMatchday: number,
+    matchStatusChanges: MatchStatusChange[],
+  ): Promise<GameResult[]> {
+    const pendingIds = new Set(pendingMatches.map((p) => p.externalId));
+    const rounds = [
+      ...new Set(
+        pendingMatches
+          .map((pending) => pending.matchday)
+          .filter((matchday) => matchday !== currentMatchday),
+      ),
+    ];
+
+    const games: GameResult[] = [];
+    await this.fixtures.syncRounds(rounds, competition.id);
+
+    for (const round of rounds) {
+      try {
+        const roundData = await this.fixtures.getRoundGames(
+          round,
+          competition.id,
+        );
+        const pendingGames = roundData.games.filter((game) =>
+          pendingIds.has(game.id),
+        );
+
+        matchStatusChanges.push(
+          ...(await this.matchStatus.trackRoundGames(
+            competition.id,
+            round,
+            pendingGames,
+          )),
+        );
+        games.push(...pendingGames);
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ No se pudieron revisar partidos pendientes de ${competition.slug} fecha ${round}: ${error.message}`,
+        );
+      }
+    }
+
+    return games;
+  }
+
+  /**
+   * 🚫 Anula los pronósticos pendientes de un partido cancelado (sin puntos)
+   */
+  private async voidGamePronostics(gameId: string): Promise<number> {
+    const { count } = await this.prisma.pronostic.updateMany({
+      where: {
+        externalId: gameId,
+        processed: false,
+      },
+      data: {
+        processed: true,
+        livePoints: 0,
+      },
+    });
+
+    this.logger.log(
+      `🚫 Partido ${gameId} cancelado: ${count} pronósticos anulados`,
+    );
+
+    return count;
+  }
+
+  /**
+   * ♻️ Detecta si el resultado de un partido ya calificado cambió y recalifica
+   * sus pronósticos procesados (revirtiendo y reaplicando movimientos del ledger)
+   * Los puntos se imputan a la fecha en que se calificó originalmente
+   */
+  private async regradeCorrectedGame(
     game: GameResult,
-    matchday: number,
-  ): Promise<{
-    processedCount: number;
-    userDetails: Array<{
-      userId: number;
-      userName: string;
-      gameId: string;
-      predictedScores: number[];
-      realScores: number[];
-      pointsAwarded: number;
-      pointType: PointType;
-      tournamentsAffected: number[];
-      isLive: boolean;
-    }>;
-  }> {
-    // Buscar pronósticos para este partido (no importa si están procesados o no)
-    const livePronostics = await this.prisma.pronostic.findMany({
+    competition: Competition,
+    runId: string,
+  ): Promise<ScoreCorrection | null> {
+    const snapshot = await this.prisma.gradedGameSnapshot.findUnique({
+      where: { externalId: game.id },
+    });
+
+    if (!snapshot) return null;
+
+    const previousScores = fromJson<number[]>(snapshot.scores);
+
+    if (
+      previousScores[0] === game.scores[0] &&
+      previousScores[1] === game.scores[1]
+    ) {
+      return null;
+    }
+
+    this.logger.warn(
+      `♻️ Resultado corregido en partido ${game.id}: ${previousScores.join('-')} → ${game.scores.join('-')}`,
+    );
+
+    const processedPronostics = await this.prisma.pronostic.findMany({
       where: {
         externalId: game.id,
-        processed: false, // Solo los que no están finalizados
+        processed: true,
       },
       include: {
         user: {
@@ -362,28 +971,144 @@ export class PointsService {
       },
     });
 
-    const userDetails = [];
+    const correction: ScoreCorrection = {
+      gameId: game.id,
+      matchday: snapshot.matchday,
+      previousScores,
+      newScores: game.scores,
+      pronosticsRegraded: 0,
+      pronosticsFailed: 0,
+      globalPointsDelta: 0,
+      users: [],
+    };
+    const getScorers = this.createScorersLoader(game.id, competition);
+    const matchContext = await this.getMatchContext(game.id);
 
-    if (livePronostics.length === 0) {
-      this.logger.debug(
-        `⏭️ No hay pronósticos activos para partido en vivo ${game.id}`,
-      );
-      return {
-        processedCount: 0,
-        userDetails,
-      };
-    }
+    for (const pronostic of processedPronostics) {
+      try {
+        const prediction = fromJson<PronosticPrediction>(pronostic.prediction);
+        const graded = await this.gradePronostic(
+          pronostic.userId,
+          prediction,
+          game,
+          competition,
+          snapshot.matchday,
+          matchContext,
+          getScorers,
+        );
 
-    this.logger.log(
-      `🔴 Procesando ${livePronostics.length} pronósticos para partido en vivo ${game.id}`,
-    );
+        const result = await this.ledger.regradePronostic({
+          pronosticId: pronostic.id,
+          userId: pronostic.userId,
+          competitionId: snapshot.competitionId,
+          matchday: snapshot.matchday,
+          runId,
+          grades: graded.grades,
+          globalBreakdown: graded.globalScore.breakdown,
+        });
 
-    let processedCount = 0;
+        if (!result.changed) continue;
+
+        correction.pronosticsRegraded++;
+        correction.globalPointsDelta +=
+          result.newPoints - result.previousPoints;
+        correction.users.push({
+          userId: pronostic.userId,
+          userName: pronostic.user.name,
+          previousPoints: result.previousPoints,
+          newPoints: result.newPoints,
+        });
+      } catch (error) {
+        correction.pronosticsFailed++;
+        this.logger.error(
+          `❌ Error recalificando pronóstico ${pronostic.id}:`,
+          error,
+        );
+      }
+    }
+
+    // Si algo falló se conserva el snapshot para reintentar en la próxima
+    // ejecución (recalificar es idempotente)
+    if (correction.pronosticsFailed === 0) {
+      await this.prisma.gradedGameSnapshot.update({
+        where: { externalId: game.id },
+        data: { scores: game.scores, runId },
+      });
+    }
+
+    return correction;
+  }
+
+  /**
+   * 📸 Guarda el resultado contra el que se calificó un partido
+   */
+  private async saveGradedSnapshot(
+    game: GameResult,
+    competitionId: number,
+    matchday: number,
+    runId: string,
+  ): Promise<void> {
+    await this.prisma.gradedGameSnapshot.upsert({
+      where: { externalId: game.id },
+      update: { scores: game.scores, runId },
+      create: {
+        externalId: game.id,
+        competitionId,
+        matchday,
+        scores: game.scores,
+        runId,
+      },
+    });
+  }
+
+  /**
+   * Procesa los pronósticos de un partido EN VIVO con detalles granulares
+   * A diferencia de los partidos finalizados, aquí se actualizan los puntos temporalmente
+   */
+  private async processLiveGamePronosticsDetailed(
+    game: GameResult,
+    matchday: number,
+  ): Promise<{
+    processedCount: number;
+    userDetails: UserPointsDetail[];
+  }> {
+    // Buscar pronósticos para este partido (no importa si están procesados o no)
+    const livePronostics = await this.prisma.pronostic.findMany({
+      where: {
+        externalId: game.id,
+        processed: false, // Solo los que no están finalizados
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    const userDetails = [];
+
+    if (livePronostics.length === 0) {
+      this.logger.debug(
+        `⏭️ No hay pronósticos activos para partido en vivo ${game.id}`,
+      );
+      return {
+        processedCount: 0,
+        userDetails,
+      };
+    }
+
+    this.logger.log(
+      `🔴 Procesando ${livePronostics.length} pronósticos para partido en vivo ${game.id}`,
+    );
+
+    let processedCount = 0;
 
     for (const pronostic of livePronostics) {
       try {
-        const prediction =
-          pronostic.prediction as unknown as PronosticPrediction;
+        const prediction = fromJson<PronosticPrediction>(pronostic.prediction);
         const newPoints = this.calculatePoints(game.scores, prediction.scores);
         const pointType = this.getPointType(game.scores, prediction.scores);
         const previousLivePoints = pronostic.livePoints;
@@ -433,55 +1158,197 @@ export class PointsService {
   }
 
   /**
-   * Calcula los puntos comparando pronóstico vs resultado real
+   * 🧮 Califica un pronóstico: puntos globales (reglas por defecto) y
+   * puntos por cada torneo del usuario que juega la competencia del partido,
+   * si la fecha está dentro de la ventana del torneo y el partido empezó
+   * después de que el usuario se unió (salvo includePastMatches).
+   * Los torneos solo suman partidos de su temporada y de antes de archivarse
    */
-  private calculatePoints(
-    realScores: number[],
-    predictedScores: number[],
-  ): number {
-    if (
-      !realScores ||
-      !predictedScores ||
-      realScores.length !== 2 ||
-      predictedScores.length !== 2
-    ) {
-      return 0;
-    }
+  private async gradePronostic(
+    userId: number,
+    prediction: PronosticPrediction,
+    game: GameResult,
+    competition: Competition,
+    matchday: number,
+    matchContext: MatchContext,
+    getScorers: () => Promise<string[]>,
+  ): Promise<{
+    globalScore: PronosticScore;
+    grades: TournamentGrade[];
+    tournamentsAffected: number[];
+    tournamentPoints: TournamentPointsDetail[];
+    scorerHits: string[];
+  }> {
+    // Puntos globales: reglas por defecto, una sola vez por pronóstico
+    const globalScore = scorePrediction(game.scores, prediction.scores);
 
-    const realResult = this.getMatchResult(realScores);
-    const predictedResult = this.getMatchResult(predictedScores);
+    const { kickoff } = matchContext;
 
-    // Resultado exacto (scores exactos)
-    if (
-      realScores[0] === predictedScores[0] &&
-      realScores[1] === predictedScores[1]
-    ) {
-      this.logger.debug(
-        `🎯 Resultado exacto: ${this.pointsConfig.exactResult} puntos`,
+    // Buscar los torneos del usuario que juegan esta competencia (con sus reglas)
+    const userTournaments = await this.prisma.tournamentParticipant.findMany({
+      where: {
+        userId,
+        tournament: {
+          AND: [
+            this.competitions.tournamentsPlaying(competition),
+            this.includesMatchday(matchday),
+            this.playsSeason(competition, matchContext),
+          ],
+        },
+        ...(kickoff && {
+          OR: [
+            { joinedAt: { lte: kickoff } },
+            { tournament: { includePastMatches: true } },
+          ],
+        }),
+      },
+      select: {
+        tournamentId: true,
+        tournament: { select: { scoringRules: true } },
+      },
+    });
+
+    const tournamentsAffected = userTournaments.map((t) => t.tournamentId);
+    const tournamentPoints: TournamentPointsDetail[] = [];
+
+    // Goleadores acertados (solo si algún torneo del usuario los puntúa)
+    let scorerHits: string[] = [];
+    const scoresScorers = userTournaments.some(
+      (t) => t.tournament.scoringRules?.scorer > 0,
+    );
+
+    if (prediction.scorers?.length && scoresScorers) {
+      scorerHits = matchPredictedScorers(
+        prediction.scorers,
+        await getScorers(),
       );
-      return this.pointsConfig.exactResult;
     }
 
-    // Solo resultado (ganador/empate correcto)
-    if (realResult === predictedResult) {
-      this.logger.debug(
-        `⚽ Solo resultado: ${this.pointsConfig.onlyResult} punto`,
+    // Puntuar el pronóstico por separado en cada torneo según sus reglas
+    const grades: TournamentGrade[] = [];
+
+    for (const tournament of userTournaments) {
+      const rules = this.toScoringRules(tournament.tournament.scoringRules);
+      const score = scorePrediction(
+        game.scores,
+        prediction.scores,
+        rules,
+        scorerHits.length,
       );
-      return this.pointsConfig.onlyResult;
+
+      grades.push({
+        tournamentId: tournament.tournamentId,
+        pointType: score.pointType,
+        breakdown: score.breakdown,
+      });
+
+      tournamentPoints.push({
+        tournamentId: tournament.tournamentId,
+        points: score.points,
+        pointType: score.pointType,
+        breakdown: score.breakdown,
+      });
     }
 
-    // Sin puntos
-    this.logger.debug(`❌ Sin puntos`);
-    return 0;
+    return {
+      globalScore,
+      grades,
+      tournamentsAffected,
+      tournamentPoints,
+      scorerHits,
+    };
+  }
+
+  /**
+   * 📅 Filtro de torneos cuya ventana de fechas incluye la fecha dada
+   */
+  private includesMatchday(matchday: number): Prisma.TournamentWhereInput {
+    return {
+      AND: [
+        { OR: [{ startMatchday: null }, { startMatchday: { lte: matchday } }] },
+        { OR: [{ endMatchday: null }, { endMatchday: { gte: matchday } }] },
+      ],
+    };
+  }
+
+  /**
+   * 📆 Filtro de torneos que suman un partido según su temporada: los torneos
+   * de otra temporada de la competencia no suman, y los archivados solo suman
+   * partidos que empezaron antes de archivarse (correcciones de resultado)
+   */
+  private playsSeason(
+    competition: Competition,
+    { kickoff, seasonId }: MatchContext,
+  ): Prisma.TournamentWhereInput {
+    return {
+      AND: [
+        {
+          OR: [
+            { seasonId: null },
+            { season: { competitionId: { not: competition.id } } },
+            ...(seasonId ? [{ seasonId }] : []),
+          ],
+        },
+        kickoff
+          ? { OR: [{ archivedAt: null }, { archivedAt: { gt: kickoff } }] }
+          : { archivedAt: null },
+      ],
+    };
+  }
+
+  /**
+   * 🕐 Inicio (UTC) y temporada del partido según el fixture guardado
+   */
+  private async getMatchContext(gameId: string): Promise<MatchContext> {
+    const match = await this.prisma.match.findUnique({
+      where: { id: gameId },
+      select: { kickoff: true, seasonId: true },
+    });
+
+    return {
+      kickoff: match?.kickoff ?? null,
+      seasonId: match?.seasonId ?? null,
+    };
+  }
+
+  /**
+   * ⚽ Devuelve una función que consulta los goleadores del partido una sola vez
+   * (solo si algún pronóstico los necesita)
+   */
+  private createScorersLoader(
+    gameId: string,
+    competition: Competition,
+  ): () => Promise<string[]> {
+    let actualScorers: Promise<string[]> | null = null;
+
+    return () => {
+      if (actualScorers === null) {
+        actualScorers = this.getGameScorers(gameId, competition).catch(
+          (error) => {
+            actualScorers = null; // Reintentar en el próximo pronóstico
+            throw error;
+          },
+        );
+      }
+      return actualScorers;
+    };
   }
 
   /**
-   * Determina el resultado de un partido: 'home', 'away', o 'draw'
+   * Calcula los puntos comparando pronóstico vs resultado real
    */
-  private getMatchResult(scores: number[]): string {
-    if (scores[0] > scores[1]) return 'home';
-    if (scores[1] > scores[0]) return 'away';
-    return 'draw';
+  private calculatePoints(
+    realScores: number[],
+    predictedScores: number[],
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): number {
+    const score = scorePrediction(realScores, predictedScores, rules);
+
+    this.logger.debug(
+      `🧮 ${score.pointType}: ${score.points} puntos ${JSON.stringify(score.breakdown)}`,
+    );
+
+    return score.points;
   }
 
   /**
@@ -491,105 +1358,601 @@ export class PointsService {
     realScores: number[],
     predictedScores: number[],
   ): PointType {
-    if (
-      !realScores ||
-      !predictedScores ||
-      realScores.length !== 2 ||
-      predictedScores.length !== 2
-    ) {
-      return 'none';
-    }
+    return scorePrediction(realScores, predictedScores).pointType;
+  }
 
-    // Resultado exacto (scores exactos)
-    if (
-      realScores[0] === predictedScores[0] &&
-      realScores[1] === predictedScores[1]
-    ) {
-      return 'exact';
-    }
+  /**
+   * Obtiene los goleadores de un partido (sin goles en contra)
+   */
+  private async getGameScorers(
+    gameId: string,
+    competition: Competition,
+  ): Promise<string[]> {
+    const detail = await this.competitions
+      .getProvider(competition)
+      .getGameDetail(gameId);
+    const scorers = detail.goals
+      .filter((goal) => !goal.ownGoal)
+      .map((goal) => goal.playerName);
+
+    this.logger.debug(
+      `⚽ Goleadores del partido ${gameId}: ${scorers.join(', ') || 'ninguno'}`,
+    );
 
-    // Solo resultado (ganador/empate correcto)
-    const realResult = this.getMatchResult(realScores);
-    const predictedResult = this.getMatchResult(predictedScores);
+    return scorers;
+  }
 
-    if (realResult === predictedResult) {
-      return 'result';
-    }
+  /**
+   * Convierte las reglas guardadas de un torneo (o su ausencia) en reglas de cálculo
+   */
+  private toScoringRules(
+    stored: ScoringRules | null | undefined,
+  ): ScoringRules {
+    if (!stored) return DEFAULT_SCORING_RULES;
 
-    return 'none';
+    return {
+      exactResult: stored.exactResult,
+      correctResult: stored.correctResult,
+      goalDifference: stored.goalDifference,
+      teamGoals: stored.teamGoals,
+      scorer: stored.scorer,
+    };
   }
 
   /**
-   * Actualiza los puntos de un usuario en un torneo específico
+   * 🥇 Ordena una tabla del torneo con sus criterios de desempate, usando los
+   * resultados de los pronósticos calificados (filtro: fecha o todo el torneo)
    */
-  private async updateUserPointsInTournament(
+  private async rankWithTiebreakers<
+    T extends { userId: number; points: number },
+  >(
     tournamentId: number,
-    userId: number,
-    matchday: number,
-    points: number,
-  ): Promise<void> {
-    if (points === 0) return; // No actualizar si no obtuvo puntos
+    entries: T[],
+    outcomeFilter: Prisma.PronosticOutcomeWhereInput,
+  ): Promise<RankedEntry<T & RankingStats>[]> {
+    const { tiebreakers } = await this.prisma.tournament.findUniqueOrThrow({
+      where: { id: tournamentId },
+      select: { tiebreakers: true },
+    });
+    const chain = normalizeTiebreakers(tiebreakers);
+    const where: Prisma.PronosticOutcomeWhereInput = {
+      tournamentId,
+      userId: { in: entries.map((entry) => entry.userId) },
+      ...outcomeFilter,
+    };
 
-    // Upsert en MatchdayPoints (puntos por fecha)
-    await this.prisma.matchdayPoints.upsert({
-      where: {
-        tournamentId_userId_matchday: {
-          tournamentId,
-          userId,
-          matchday,
-        },
-      },
-      update: {
-        points: { increment: points },
-        updatedAt: new Date(),
-      },
-      create: {
+    const [byType, zeroPoints, firstSubmissions] = await Promise.all([
+      this.prisma.pronosticOutcome.groupBy({
+        by: ['userId', 'pointType'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.pronosticOutcome.groupBy({
+        by: ['userId'],
+        where: { ...where, points: 0 },
+        _count: { _all: true },
+      }),
+      this.prisma.pronosticOutcome.groupBy({
+        by: ['userId'],
+        where,
+        _min: { submittedAt: true },
+      }),
+    ]);
+
+    const countOf = (userId: number, pointType: PointType) =>
+      byType.find((row) => row.userId === userId && row.pointType === pointType)
+        ?._count._all || 0;
+
+    const withStats = entries.map((entry) => ({
+      ...entry,
+      exactResults: countOf(entry.userId, 'exact'),
+      correctResults:
+        countOf(entry.userId, 'exact') + countOf(entry.userId, 'result'),
+      zeroPointPredictions:
+        zeroPoints.find((row) => row.userId === entry.userId)?._count._all || 0,
+      firstSubmissionAt:
+        firstSubmissions.find((row) => row.userId === entry.userId)?._min
+          .submittedAt ?? null,
+    }));
+
+    // Cruces solo entre los usuarios empatados en puntos
+    let headToHead: HeadToHead = new Map();
+
+    if (chain.includes('head_to_head')) {
+      const tiedUserIds = withStats
+        .filter((entry) =>
+          withStats.some(
+            (other) =>
+              other.userId !== entry.userId && other.points === entry.points,
+          ),
+        )
+        .map((entry) => entry.userId);
+
+      if (tiedUserIds.length > 0) {
+        const results = await this.prisma.pronosticOutcome.findMany({
+          where: { ...where, userId: { in: tiedUserIds } },
+          select: {
+            userId: true,
+            points: true,
+            pronostic: { select: { externalId: true } },
+          },
+        });
+
+        headToHead = buildHeadToHead(
+          results.map((result) => ({
+            userId: result.userId,
+            matchId: result.pronostic.externalId,
+            points: result.points,
+          })),
+        );
+      }
+    }
+
+    return rankWithTiebreakers(withStats, chain, headToHead);
+  }
+
+  private toRankingStats(stats: RankingStats) {
+    return {
+      exactResults: stats.exactResults,
+      correctResults: stats.correctResults,
+      zeroPointPredictions: stats.zeroPointPredictions,
+    };
+  }
+
+  /**
+   * 📥 Encola el recálculo de puntos de un torneo (cambio de ventana de fechas
+   * o de includePastMatches). Lo ejecuta el procesamiento de puntos, con su
+   * lock; si ya hay un recálculo pendiente del torneo se reutiliza
+   */
+  async enqueueTournamentRecompute(tournamentId: number): Promise<PointsJob> {
+    const pending = await this.jobQueue.findPendingForTournament(
+      'recompute_tournament',
+      tournamentId,
+    );
+    if (pending) return pending;
+
+    const payload: RecomputeTournamentJobPayload = { tournamentId };
+    const idempotencyKey = `recompute_tournament:${tournamentId}:${Date.now()}`;
+
+    await this.jobQueue.enqueue([
+      {
+        type: 'recompute_tournament',
+        idempotencyKey,
         tournamentId,
-        userId,
-        matchday,
-        points,
+        payload: toJson(payload),
       },
+    ]);
+
+    return this.jobQueue.findByIdempotencyKey(idempotencyKey);
+  }
+
+  /**
+   * 🔁 Recalcula los puntos de un torneo. Recalifica los pronósticos ya
+   * procesados de sus participantes contra el resultado guardado de cada
+   * partido (snapshot o, para los calificados antes de existir los snapshots,
+   * el partido guardado). Los pronósticos previos al ledger quedan en los
+   * saldos históricos y no se recalculan
+   *
+   * El torneo recibe también los puntos de los partidos que antes no sumaba
+   * (ventana ampliada, includePastMatches o una competencia nueva)
+   */
+  async recomputeTournamentPoints(
+    tournamentId: number,
+    runId: string = this.ledger.createRunId(),
+  ): Promise<RegradeSummary> {
+    const bindings = await this.prisma.tournamentCompetition.findMany({
+      where: { tournamentId },
+      select: { competitionId: true },
     });
+    const competitionIds =
+      bindings.length > 0
+        ? bindings.map((binding) => binding.competitionId)
+        : [(await this.competitions.getDefault()).id];
 
-    // Actualizar puntos acumulativos en TournamentParticipant
-    await this.prisma.tournamentParticipant.update({
+    const participants = await this.prisma.tournamentParticipant.findMany({
+      where: { tournamentId },
+      select: { userId: true },
+    });
+    const userIds = participants.map((participant) => participant.userId);
+
+    this.logger.log(
+      `🔁 Recalculando torneo ${tournamentId}: ${userIds.length} participantes`,
+    );
+
+    const pronosticFilter: Prisma.PronosticWhereInput = {
+      userId: { in: userIds },
+    };
+    const snapshots = await this.prisma.gradedGameSnapshot.findMany({
+      where: { competitionId: { in: competitionIds } },
+      orderBy: [{ competitionId: 'asc' }, { matchday: 'asc' }],
+    });
+    const games = [
+      ...snapshots.map((snapshot) => this.toGradedGame(snapshot)),
+      ...(await this.findGamesWithoutSnapshot(competitionIds, pronosticFilter)),
+    ];
+
+    const result = await this.regradeGames(games, pronosticFilter, runId, [
+      tournamentId,
+    ]);
+
+    this.logger.log(
+      `✅ Torneo ${tournamentId} recalculado: ${result.pronosticsRegraded} pronósticos recalificados, ${result.pronosticsFailed} con error [run ${result.runId}]`,
+    );
+
+    return result;
+  }
+
+  /**
+   * 🎯 Completa los resultados por torneo (exacto, resultado, sin acierto) de
+   * todos los pronósticos calificados, usados para los desempates. Recalifica
+   * cada partido guardado: si algún saldo no coincide, también se corrige
+   */
+  async rebuildPronosticOutcomes(): Promise<RegradeSummary> {
+    this.logger.log('🎯 Reconstruyendo resultados de pronósticos...');
+
+    const result = await this.regradeGradedGames({}, {});
+
+    this.logger.log(
+      `✅ Resultados reconstruidos: ${result.gamesScanned} partidos, ${result.pronosticsRegraded} pronósticos con saldo corregido, ${result.pronosticsFailed} con error [run ${result.runId}]`,
+    );
+
+    return result;
+  }
+
+  /**
+   * ♻️ Recalifica los pronósticos procesados de los partidos guardados
+   * (GradedGameSnapshot) contra su resultado guardado
+   */
+  private async regradeGradedGames(
+    snapshotFilter: Prisma.GradedGameSnapshotWhereInput,
+    pronosticFilter: Prisma.PronosticWhereInput,
+  ): Promise<RegradeSummary> {
+    const snapshots = await this.prisma.gradedGameSnapshot.findMany({
+      where: snapshotFilter,
+      orderBy: [{ competitionId: 'asc' }, { matchday: 'asc' }],
+    });
+
+    return this.regradeGames(
+      snapshots.map((snapshot) => this.toGradedGame(snapshot)),
+      pronosticFilter,
+      this.ledger.createRunId(),
+    );
+  }
+
+  /**
+   * 🗂️ Partidos finalizados sin snapshot (calificados antes de existir los
+   * snapshots) con pronósticos ya registrados en el ledger
+   */
+  private async findGamesWithoutSnapshot(
+    competitionIds: number[],
+    pronosticFilter: Prisma.PronosticWhereInput,
+  ): Promise<GradedGame[]> {
+    const pronostics = await this.prisma.pronostic.findMany({
       where: {
-        tournamentId_userId: {
-          tournamentId,
-          userId,
-        },
-      },
-      data: {
-        points: { increment: points },
-        updatedAt: new Date(),
+        ...pronosticFilter,
+        processed: true,
+        ledgerEntries: { some: {} },
+        match: { competitionId: { in: competitionIds }, statusEnum: 3 },
       },
+      distinct: ['externalId'],
+      select: { externalId: true },
     });
+    const externalIds = pronostics.map((pronostic) => pronostic.externalId);
 
-    // 🌟 NUEVO: Actualizar puntos globales del usuario
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: { 
-        globalPoints: { increment: points },
-        updatedAt: new Date(),
+    const snapshotted = await this.prisma.gradedGameSnapshot.findMany({
+      where: { externalId: { in: externalIds } },
+      select: { externalId: true },
+    });
+    const withSnapshot = new Set(snapshotted.map((row) => row.externalId));
+    const pendingIds = externalIds.filter((id) => !withSnapshot.has(id));
+
+    const matches = await this.prisma.match.findMany({
+      where: {
+        id: { in: pendingIds },
+        homeScore: { not: null },
+        awayScore: { not: null },
       },
     });
+    // Un partido reprogramado suma en su fecha original
+    const rescheduled = await this.prisma.pendingMatch.findMany({
+      where: { externalId: { in: pendingIds }, resolution: 'finished' },
+    });
+    const originalMatchdays = new Map(
+      rescheduled.map((pending) => [pending.externalId, pending.matchday]),
+    );
 
-    this.logger.debug(
-      `📊 Puntos actualizados: Usuario ${userId}, Torneo ${tournamentId}, Fecha ${matchday}, +${points} puntos (Global +${points})`,
+    return matches.map((match) => ({
+      externalId: match.id,
+      competitionId: match.competitionId,
+      matchday: originalMatchdays.get(match.id) ?? match.round,
+      scores: [match.homeScore, match.awayScore],
+    }));
+  }
+
+  private toGradedGame(snapshot: {
+    externalId: string;
+    competitionId: number;
+    matchday: number;
+    scores: Prisma.JsonValue;
+  }): GradedGame {
+    return {
+      externalId: snapshot.externalId,
+      competitionId: snapshot.competitionId,
+      matchday: snapshot.matchday,
+      scores: fromJson<number[]>(snapshot.scores),
+    };
+  }
+
+  /**
+   * ♻️ Recalifica los pronósticos procesados de cada partido contra su
+   * resultado (revirtiendo y reaplicando movimientos del ledger)
+   * newTournamentIds: torneos que pueden calificarse por primera vez
+   */
+  private async regradeGames(
+    games: GradedGame[],
+    pronosticFilter: Prisma.PronosticWhereInput,
+    runId: string,
+    newTournamentIds: number[] = [],
+  ): Promise<RegradeSummary> {
+    const result: RegradeSummary = {
+      runId,
+      gamesScanned: 0,
+      pronosticsRegraded: 0,
+      pronosticsFailed: 0,
+    };
+
+    const competitionsById = new Map<number, Competition>();
+
+    for (const gradedGame of games) {
+      const pronostics = await this.prisma.pronostic.findMany({
+        where: {
+          ...pronosticFilter,
+          externalId: gradedGame.externalId,
+          processed: true,
+        },
+      });
+
+      result.gamesScanned++;
+      if (pronostics.length === 0) continue;
+
+      if (!competitionsById.has(gradedGame.competitionId)) {
+        competitionsById.set(
+          gradedGame.competitionId,
+          await this.competitions.findByIdOrDefault(gradedGame.competitionId),
+        );
+      }
+      const competition = competitionsById.get(gradedGame.competitionId);
+
+      const game: GameResult = {
+        id: gradedGame.externalId,
+        scores: gradedGame.scores,
+        status: { enum: 3 },
+      };
+      const getScorers = this.createScorersLoader(game.id, competition);
+      const matchContext = await this.getMatchContext(game.id);
+
+      for (const pronostic of pronostics) {
+        try {
+          const graded = await this.gradePronostic(
+            pronostic.userId,
+            fromJson<PronosticPrediction>(pronostic.prediction),
+            game,
+            competition,
+            gradedGame.matchday,
+            matchContext,
+            getScorers,
+          );
+
+          const regraded = await this.ledger.regradePronostic(
+            {
+              pronosticId: pronostic.id,
+              userId: pronostic.userId,
+              competitionId: gradedGame.competitionId,
+              matchday: gradedGame.matchday,
+              runId: result.runId,
+              grades: graded.grades,
+              globalBreakdown: graded.globalScore.breakdown,
+            },
+            { newTournamentIds },
+          );
+
+          if (regraded.changed) result.pronosticsRegraded++;
+        } catch (error) {
+          result.pronosticsFailed++;
+          this.logger.error(
+            `❌ Error recalculando pronóstico ${pronostic.id}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 🌍 Repara los puntos globales a partir de los pronósticos procesados
+   * Acredita en el ledger los pronósticos sin movimientos globales (calificados
+   * antes de separar los puntos globales de los de torneo), de cualquier
+   * competencia o temporada, y recalcula User.globalPoints desde el ledger
+   *
+   * El resultado de cada partido sale del snapshot calificado o, si no hay,
+   * de la tabla de partidos. Los pronósticos acreditados reemplazan los saldos
+   * históricos globales, por eso si hay saldos históricos y algún partido no
+   * se puede resolver no se escribe nada
+   */
+  async repairGlobalPoints(): Promise<{
+    runId: string;
+    pronosticsScanned: number;
+    pronosticsSkipped: number;
+    pronosticsCredited: number;
+    pointsCredited: number;
+    usersUpdated: number;
+  }> {
+    const runId = `global-repair-${this.ledger.createRunId()}`;
+    const hasLegacyBalances = await this.ledger.hasOpenLegacyGlobalBalances();
+
+    this.logger.log(
+      `🌍 Reparando puntos globales desde los pronósticos procesados [run ${runId}]`,
     );
+
+    const credits: GlobalCredit[] = [];
+    const unresolvedGames = new Set<string>();
+    let pronosticsScanned = 0;
+    let pronosticsSkipped = 0;
+    let cursor = 0;
+
+    while (true) {
+      // Pronósticos procesados que todavía no tienen movimientos globales
+      const pronostics = await this.prisma.pronostic.findMany({
+        where: {
+          id: { gt: cursor },
+          processed: true,
+          ledgerEntries: { none: { tournamentId: null } },
+        },
+        orderBy: { id: 'asc' },
+        take: 1000,
+      });
+
+      if (pronostics.length === 0) break;
+      cursor = pronostics[pronostics.length - 1].id;
+      pronosticsScanned += pronostics.length;
+
+      const results = await this.resolveFinalResults(
+        pronostics.map((pronostic) => pronostic.externalId),
+      );
+
+      for (const pronostic of pronostics) {
+        const result = results.get(pronostic.externalId);
+
+        // Partidos anulados: sus pronósticos no suman puntos
+        if (result === null) continue;
+
+        if (!result) {
+          unresolvedGames.add(pronostic.externalId);
+          pronosticsSkipped++;
+          continue;
+        }
+
+        const prediction = fromJson<PronosticPrediction>(pronostic.prediction);
+        const score = scorePrediction(result.scores, prediction.scores);
+
+        if (score.points === 0) continue;
+
+        credits.push({
+          pronosticId: pronostic.id,
+          userId: pronostic.userId,
+          competitionId: result.competitionId,
+          matchday: result.matchday,
+          breakdown: score.breakdown,
+        });
+      }
+    }
+
+    if (unresolvedGames.size > 0) {
+      this.logger.warn(
+        `⚠️ ${pronosticsSkipped} pronósticos sin resultado final conocido (${unresolvedGames.size} partidos): ${[...unresolvedGames].slice(0, 20).join(', ')}`,
+      );
+
+      if (hasLegacyBalances) {
+        throw new Error(
+          `No se pudo resolver el resultado de ${unresolvedGames.size} partidos. Sincronizá sus fechas antes de reemplazar los saldos históricos globales`,
+        );
+      }
+    }
+
+    const pointsCredited = await this.ledger.recordGlobalCredits(
+      credits,
+      runId,
+      { replaceLegacy: hasLegacyBalances },
+    );
+    const { usersUpdated } = await this.ledger.recomputeGlobalPoints();
+
+    this.logger.log(
+      `✅ Puntos globales reparados: ${credits.length} pronósticos acreditados (${pointsCredited} puntos), ${usersUpdated} usuarios`,
+    );
+
+    return {
+      runId,
+      pronosticsScanned,
+      pronosticsSkipped,
+      pronosticsCredited: credits.length,
+      pointsCredited,
+      usersUpdated,
+    };
+  }
+
+  /**
+   * 🏁 Resultado final de cada partido: snapshot calificado o tabla de partidos
+   * null = partido anulado; sin entrada = resultado desconocido
+   */
+  private async resolveFinalResults(
+    externalIds: string[],
+  ): Promise<
+    Map<
+      string,
+      { scores: number[]; competitionId: number; matchday: number } | null
+    >
+  > {
+    const ids = [...new Set(externalIds)];
+    const results = new Map<
+      string,
+      { scores: number[]; competitionId: number; matchday: number } | null
+    >();
+
+    const voided = await this.prisma.pendingMatch.findMany({
+      where: { externalId: { in: ids }, resolution: 'voided' },
+      select: { externalId: true },
+    });
+    voided.forEach((match) => results.set(match.externalId, null));
+
+    const snapshots = await this.prisma.gradedGameSnapshot.findMany({
+      where: { externalId: { in: ids } },
+    });
+    for (const snapshot of snapshots) {
+      if (results.has(snapshot.externalId)) continue;
+      results.set(snapshot.externalId, {
+        scores: fromJson<number[]>(snapshot.scores),
+        competitionId: snapshot.competitionId,
+        matchday: snapshot.matchday,
+      });
+    }
+
+    const matches = await this.prisma.match.findMany({
+      where: {
+        id: { in: ids.filter((id) => !results.has(id)) },
+        statusEnum: 3,
+        homeScore: { not: null },
+        awayScore: { not: null },
+      },
+    });
+    for (const match of matches) {
+      results.set(match.id, {
+        scores: [match.homeScore, match.awayScore],
+        competitionId: match.competitionId,
+        matchday: match.round,
+      });
+    }
+
+    return results;
   }
 
   /**
-   * Obtiene el ranking de una fecha específica de un torneo
+   * Obtiene el ranking de una fecha específica de una competencia de un torneo
+   * Los empates se resuelven con los criterios de desempate del torneo
    */
   async getMatchdayRanking(
     tournamentId: number,
+    competitionId: number,
     matchday: number,
   ): Promise<any[]> {
-    const ranking = await this.prisma.matchdayPoints.findMany({
+    const rows = await this.prisma.matchdayPoints.findMany({
       where: {
         tournamentId,
+        competitionId,
         matchday,
+        // Solo participantes actuales (los expulsados conservan su historial en el ledger)
+        user: { participations: { some: { tournamentId } } },
       },
       include: {
         user: {
@@ -601,25 +1964,31 @@ export class PointsService {
           },
         },
       },
-      orderBy: [
-        { points: 'desc' },
-        { createdAt: 'asc' }, // Desempate por quien hizo pronósticos primero
-      ],
     });
 
-    return ranking.map((entry, index) => ({
-      position: index + 1,
+    const ranking = await this.rankWithTiebreakers(
+      tournamentId,
+      rows.map((row) => ({ ...row, userId: row.user.id })),
+      { competitionId, matchday },
+    );
+
+    return ranking.map(({ entry, position, tied, positionLabel }) => ({
+      position,
+      positionLabel,
+      tied,
       user: entry.user,
       points: entry.points,
       matchday: entry.matchday,
+      stats: this.toRankingStats(entry),
     }));
   }
 
   /**
    * Obtiene el ranking acumulativo de un torneo
+   * Los empates se resuelven con los criterios de desempate del torneo
    */
   async getTournamentRanking(tournamentId: number): Promise<any[]> {
-    const ranking = await this.prisma.tournamentParticipant.findMany({
+    const participants = await this.prisma.tournamentParticipant.findMany({
       where: { tournamentId },
       include: {
         user: {
@@ -631,20 +2000,180 @@ export class PointsService {
           },
         },
       },
-      orderBy: [
-        { points: 'desc' },
-        { joinedAt: 'asc' }, // Desempate por quien se unió primero
-      ],
     });
 
-    return ranking.map((participant, index) => ({
-      position: index + 1,
-      user: participant.user,
-      points: participant.points,
-      joinedAt: participant.joinedAt,
+    const ranking = await this.rankWithTiebreakers(
+      tournamentId,
+      participants,
+      {},
+    );
+
+    return ranking.map(({ entry, position, tied, positionLabel }) => ({
+      position,
+      positionLabel,
+      tied,
+      user: entry.user,
+      role: entry.role,
+      points: entry.points,
+      joinedAt: entry.joinedAt,
+      stats: this.toRankingStats(entry),
     }));
   }
 
+  /**
+   * 🔴 Tabla proyectada de un torneo: puntos ya acreditados más los que
+   * sumaría cada pronóstico si los partidos en vivo terminaran así.
+   * Los puntos en vivo se calculan con las reglas del torneo (Pronostic.livePoints
+   * usa las reglas por defecto) y sin goleadores, que se cuentan al finalizar
+   */
+  async getLiveTournamentRanking(tournamentId: number): Promise<{
+    liveMatches: LiveRankingMatch[];
+    ranking: LiveRankingEntry[];
+  }> {
+    const tournament = await this.prisma.tournament.findUniqueOrThrow({
+      where: { id: tournamentId },
+      include: {
+        scoringRules: true,
+        competitions: { select: { competitionId: true } },
+        season: { select: { competitionId: true } },
+      },
+    });
+
+    const settled = await this.getTournamentRanking(tournamentId);
+    const competitionIds =
+      tournament.competitions.length > 0
+        ? tournament.competitions.map((binding) => binding.competitionId)
+        : [(await this.competitions.getDefault()).id];
+
+    // Los torneos archivados no suman partidos nuevos
+    const candidates = tournament.archivedAt
+      ? []
+      : await this.prisma.match.findMany({
+          where: {
+            competitionId: { in: competitionIds },
+            statusEnum: MATCH_STATUS.LIVE,
+            homeScore: { not: null },
+            awayScore: { not: null },
+          },
+          include: {
+            homeTeam: { select: { name: true } },
+            awayTeam: { select: { name: true } },
+          },
+          orderBy: [{ kickoff: 'asc' }, { id: 'asc' }],
+        });
+
+    const liveMatches = candidates.filter(
+      (match) =>
+        getMatchStatusCategory({
+          enum: match.statusEnum,
+          name: match.statusName,
+          short_name: match.statusShortName,
+        }) === 'live' &&
+        (tournament.startMatchday === null ||
+          match.round >= tournament.startMatchday) &&
+        (tournament.endMatchday === null ||
+          match.round <= tournament.endMatchday) &&
+        (tournament.seasonId === null ||
+          tournament.season?.competitionId !== match.competitionId ||
+          match.seasonId === tournament.seasonId),
+    );
+
+    const matchesById = new Map(liveMatches.map((match) => [match.id, match]));
+    const joinedAtByUser = new Map(
+      settled.map((entry) => [entry.user.id, entry.joinedAt as Date]),
+    );
+    const rules = this.toScoringRules(tournament.scoringRules);
+    const livePointsByUser = new Map<number, number>();
+    const liveCountByUser = new Map<number, number>();
+
+    const pronostics =
+      liveMatches.length === 0
+        ? []
+        : await this.prisma.pronostic.findMany({
+            where: {
+              externalId: { in: [...matchesById.keys()] },
+              processed: false,
+              userId: { in: [...joinedAtByUser.keys()] },
+            },
+          });
+
+    for (const pronostic of pronostics) {
+      const match = matchesById.get(pronostic.externalId);
+      const joinedAt = joinedAtByUser.get(pronostic.userId);
+
+      // Igual que al calificar: no suman partidos empezados antes de unirse
+      if (
+        !tournament.includePastMatches &&
+        match.kickoff &&
+        joinedAt > match.kickoff
+      ) {
+        continue;
+      }
+
+      const prediction = fromJson<PronosticPrediction>(pronostic.prediction);
+      const { points } = scorePrediction(
+        [match.homeScore, match.awayScore],
+        prediction.scores,
+        rules,
+      );
+
+      livePointsByUser.set(
+        pronostic.userId,
+        (livePointsByUser.get(pronostic.userId) || 0) + points,
+      );
+      liveCountByUser.set(
+        pronostic.userId,
+        (liveCountByUser.get(pronostic.userId) || 0) + 1,
+      );
+    }
+
+    const projected = await this.rankWithTiebreakers(
+      tournamentId,
+      settled.map((entry) => ({
+        ...entry,
+        userId: entry.user.id as number,
+        settledPoints: entry.points as number,
+        livePoints: livePointsByUser.get(entry.user.id) || 0,
+        points: entry.points + (livePointsByUser.get(entry.user.id) || 0),
+      })),
+      {},
+    );
+
+    return {
+      liveMatches: liveMatches.map((match) => ({
+        id: match.id,
+        round: match.round,
+        homeTeam: match.homeTeam.name,
+        awayTeam: match.awayTeam.name,
+        scores: [match.homeScore, match.awayScore],
+        gameTime: match.gameTimeToDisplay ?? null,
+      })),
+      ranking: projected.map(({ entry, position, tied, positionLabel }) => {
+        const positionDelta = entry.position - position;
+
+        return {
+          position,
+          positionLabel,
+          tied,
+          settledPosition: entry.position,
+          positionDelta,
+          positionDeltaLabel:
+            positionDelta > 0
+              ? `+${positionDelta} ▲`
+              : positionDelta < 0
+                ? `${positionDelta} ▼`
+                : '=',
+          user: entry.user,
+          role: entry.role,
+          settledPoints: entry.settledPoints,
+          livePoints: entry.livePoints,
+          projectedPoints: entry.points,
+          livePredictions: liveCountByUser.get(entry.userId) || 0,
+        };
+      }),
+    };
+  }
+
   /**
    * 🌟 NUEVO: Obtiene el ranking global de todos los usuarios
    */
@@ -690,8 +2219,6 @@ export class PointsService {
    */
   async hasMatchesToday(): Promise<boolean> {
     try {
-      const currentMatchdayData = await this.promiedosService.getMatchday();
-
       // Obtener fecha de HOY en horario argentino (UTC-3)
       const now = new Date();
       const argentinaTime = new Date(
@@ -700,33 +2227,26 @@ export class PointsService {
         }),
       );
       const todayArgentina =
-        argentinaTime.getFullYear() +
+        String(argentinaTime.getDate()).padStart(2, '0') +
         '-' +
         String(argentinaTime.getMonth() + 1).padStart(2, '0') +
         '-' +
-        String(argentinaTime.getDate()).padStart(2, '0');
+        argentinaTime.getFullYear();
 
       this.logger.debug(`🕒 Fecha actual en Argentina: ${todayArgentina}`);
-      this.logger.debug(
-        `🌍 Hora servidor: ${now.toISOString()}, Hora Argentina: ${argentinaTime.toISOString()}`,
-      );
 
-      const hasGamesToday = currentMatchdayData.games.some((game: any) => {
-        if (!game.start_time) return false;
+      // Rango del día argentino en UTC
+      const startOfDay = argentinaToUTC(`${todayArgentina} 00:00`);
+      const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
 
-        const [datePart] = game.start_time.split(' ');
-        const [day, month, year] = datePart.split('-');
-        const gameDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-
-        this.logger.debug(
-          `🎮 Partido: ${gameDate}, Hoy (ARG): ${todayArgentina}, ¿Coincide? ${gameDate === todayArgentina}`,
-        );
-
-        return gameDate === todayArgentina;
-      });
+      const gamesToday = await this.fixtures.countMatchesBetween(
+        startOfDay,
+        endOfDay,
+      );
+      const hasGamesToday = gamesToday > 0;
 
       this.logger.log(
-        `📅 ¿Hay partidos hoy en Argentina? ${hasGamesToday ? 'SÍ' : 'NO'}`,
+        `📅 ¿Hay partidos hoy en Argentina? ${hasGamesToday ? `SÍ (${gamesToday})` : 'NO'}`,
       );
       return hasGamesToday;
     } catch (error) {
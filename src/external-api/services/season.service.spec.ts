@@ -0,0 +1,145 @@
+import { ConflictException } from '@nestjs/common';
+import { Competition } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+import { SeasonService } from './season.service';
+
+const now = new Date('2025-07-19T20:00:00Z');
+
+const competition = {
+  id: 1,
+  slug: 'liga-profesional',
+  name: 'Liga Profesional',
+  providerKey: '72_224_8',
+  totalRounds: 16,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+} as Competition;
+
+// Cliente de Prisma simulado: la transacción recibe el mismo cliente
+function createPrismaMock() {
+  const prisma = {
+    season: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async ({ data }) => ({
+        id: data.isCurrent === false ? 1 : 2,
+        ...data,
+      })),
+      update: jest.fn(async ({ where, data }) => ({ id: where.id, ...data })),
+    },
+    match: {
+      count: jest.fn().mockResolvedValue(0),
+      updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    },
+    tournament: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+    competition: { update: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+  return prisma;
+}
+
+describe('SeasonService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let competitions: { tournamentsPlaying: jest.Mock; clearProvider: jest.Mock };
+  let seasons: SeasonService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+
+    prisma = createPrismaMock();
+    competitions = {
+      tournamentsPlaying: jest.fn().mockReturnValue({ competitions: {} }),
+      clearProvider: jest.fn(),
+    };
+    seasons = new SeasonService(
+      prisma as unknown as PrismaService,
+      competitions as unknown as CompetitionService,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('startSeason', () => {
+    it('cierra la temporada vigente y le asigna los datos sin temporada', async () => {
+      prisma.season.findFirst.mockResolvedValue({ id: 1, isCurrent: true });
+      prisma.match.updateMany.mockResolvedValue({ count: 240 });
+      prisma.tournament.updateMany.mockResolvedValue({ count: 3 });
+
+      const result = await seasons.startSeason(competition, {
+        name: '2026',
+        providerKey: '72_224_9',
+      });
+
+      expect(prisma.season.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { isCurrent: false, endedAt: now },
+      });
+      expect(prisma.match.updateMany).toHaveBeenCalledWith({
+        where: { competitionId: 1, seasonId: null },
+        data: { seasonId: 1 },
+      });
+      expect(prisma.tournament.updateMany).toHaveBeenCalledWith({
+        where: { seasonId: null, competitions: {} },
+        data: { seasonId: 1 },
+      });
+      expect(result).toMatchObject({
+        matchesAssigned: 240,
+        tournamentsAssigned: 3,
+      });
+    });
+
+    it('agrupa los datos previos en una temporada cerrada la primera vez', async () => {
+      prisma.match.count.mockResolvedValue(240);
+
+      await seasons.startSeason(competition, {
+        name: '2026',
+        previousSeasonName: '2025',
+      });
+
+      expect(prisma.season.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          name: '2025',
+          isCurrent: false,
+          startedAt: competition.createdAt,
+          endedAt: now,
+        }),
+      });
+      expect(prisma.season.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ name: '2026', startedAt: now }),
+      });
+    });
+
+    it('reinicia la fecha actual con el fixture de la temporada nueva', async () => {
+      await seasons.startSeason(
+        competition,
+        { name: '2026', providerKey: '72_224_9', totalRounds: 14 },
+        'admin@example.com',
+      );
+
+      expect(prisma.competition.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          providerKey: '72_224_9',
+          totalRounds: 14,
+          currentRound: null,
+          currentRoundUpdatedAt: now,
+          currentRoundUpdatedBy: 'admin@example.com',
+        },
+      });
+      expect(competitions.clearProvider).toHaveBeenCalledWith(1);
+      expect(prisma.match.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rechaza una temporada con el mismo nombre', async () => {
+      prisma.season.findUnique.mockResolvedValue({ id: 1, name: '2026' });
+
+      await expect(
+        seasons.startSeason(competition, { name: '2026' }),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Competition, Season } from '@prisma/client';
+import { PrismaService } from '../../prisma.service';
+import { CompetitionService } from './competition.service';
+
+export interface StartSeasonParams {
+  name: string;
+  providerKey?: string;
+  totalRounds?: number;
+  // Nombre de la temporada que agrupa los datos previos a las temporadas
+  previousSeasonName?: string;
+}
+
+export interface StartSeasonResult {
+  season: Season;
+  previousSeason: Season | null;
+  matchesAssigned: number;
+  tournamentsAssigned: number;
+}
+
+@Injectable()
+export class SeasonService {
+  private readonly logger = new Logger(SeasonService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly competitions: CompetitionService,
+  ) {}
+
+  /**
+   * 📆 Temporada vigente de una competencia (null si nunca se abrió una)
+   */
+  async getCurrent(competitionId: number): Promise<Season | null> {
+    return this.prisma.season.findFirst({
+      where: { competitionId, isCurrent: true },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * 📋 Temporadas de una competencia (la más reciente primero)
+   */
+  async findByCompetition(competitionId: number): Promise<Season[]> {
+    return this.prisma.season.findMany({
+      where: { competitionId },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * 🆕 Abre una temporada nueva: cierra la vigente, le asigna los partidos y
+   * torneos que todavía no tenían temporada y reinicia la fecha actual de la
+   * competencia. Si la competencia nunca tuvo temporadas, los datos previos
+   * quedan en una temporada cerrada (previousSeasonName)
+   */
+  async startSeason(
+    competition: Competition,
+    params: StartSeasonParams,
+    updatedBy: string = 'system',
+  ): Promise<StartSeasonResult> {
+    const existing = await this.prisma.season.findUnique({
+      where: {
+        competitionId_name: {
+          competitionId: competition.id,
+          name: params.name,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `La temporada "${params.name}" ya existe en ${competition.name}`,
+      );
+    }
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const current = await tx.season.findFirst({
+        where: { competitionId: competition.id, isCurrent: true },
+      });
+
+      const legacyMatches = await tx.match.count({
+        where: { competitionId: competition.id, seasonId: null },
+      });
+
+      let previousSeason: Season | null = null;
+
+      if (current) {
+        previousSeason = await tx.season.update({
+          where: { id: current.id },
+          data: { isCurrent: false, endedAt: now },
+        });
+      } else if (legacyMatches > 0) {
+        previousSeason = await tx.season.create({
+          data: {
+            competitionId: competition.id,
+            name: params.previousSeasonName || 'Temporada anterior',
+            providerKey: competition.providerKey,
+            totalRounds: competition.totalRounds,
+            isCurrent: false,
+            startedAt: competition.createdAt,
+            endedAt: now,
+          },
+        });
+      }
+
+      let matchesAssigned = 0;
+      let tournamentsAssigned = 0;
+
+      if (previousSeason) {
+        ({ count: matchesAssigned } = await tx.match.updateMany({
+          where: { competitionId: competition.id, seasonId: null },
+          data: { seasonId: previousSeason.id },
+        }));
+
+        ({ count: tournamentsAssigned } = await tx.tournament.updateMany({
+          where: {
+            seasonId: null,
+            ...this.competitions.tournamentsPlaying(competition),
+          },
+          data: { seasonId: previousSeason.id },
+        }));
+      }
+
+      const season = await tx.season.create({
+        data: {
+          competitionId: competition.id,
+          name: params.name,
+          providerKey: params.providerKey ?? competition.providerKey,
+          totalRounds: params.totalRounds ?? competition.totalRounds,
+          startedAt: now,
+        },
+      });
+
+      // La fecha actual se vuelve a detectar con el fixture de la temporada nueva
+      await tx.competition.update({
+        where: { id: competition.id },
+        data: {
+          providerKey: season.providerKey,
+          totalRounds: season.totalRounds,
+          currentRound: null,
+          currentRoundUpdatedAt: now,
+          currentRoundUpdatedBy: updatedBy,
+        },
+      });
+
+      return { season, previousSeason, matchesAssigned, tournamentsAssigned };
+    });
+
+    this.competitions.clearProvider(competition.id);
+
+    this.logger.log(
+      `🆕 Temporada "${result.season.name}" abierta en ${competition.slug}` +
+        (result.previousSeason
+          ? ` (cerrada "${result.previousSeason.name}": ${result.matchesAssigned} partidos, ${result.tournamentsAssigned} torneos asignados)`
+          : ''),
+    );
+
+    return result;
+  }
+}
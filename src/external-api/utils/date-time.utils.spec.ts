@@ -0,0 +1,40 @@
+import { argentinaToUTC, extractDayAndHour } from './date-time.utils';
+
+describe('date-time.utils', () => {
+  describe('argentinaToUTC', () => {
+    it('suma 3 horas a la hora argentina', () => {
+      expect(argentinaToUTC('13-07-2025 15:30')).toEqual(
+        new Date('2025-07-13T18:30:00.000Z'),
+      );
+    });
+
+    it('pasa al día siguiente después de las 21', () => {
+      expect(argentinaToUTC('31-12-2025 22:15')).toEqual(
+        new Date('2026-01-01T01:15:00.000Z'),
+      );
+    });
+
+    it('acepta día, mes y hora de un dígito', () => {
+      expect(argentinaToUTC('5-8-2025 9:00')).toEqual(
+        new Date('2025-08-05T12:00:00.000Z'),
+      );
+    });
+
+    it('devuelve null con formatos desconocidos', () => {
+      expect(argentinaToUTC('2025-07-13T15:30:00')).toBeNull();
+      expect(argentinaToUTC('')).toBeNull();
+      expect(argentinaToUTC(undefined)).toBeNull();
+    });
+  });
+
+  describe('extractDayAndHour', () => {
+    it('devuelve el día de la semana y la hora', () => {
+      expect(extractDayAndHour('19-07-2025 15:30')).toBe('Sáb-15:30');
+      expect(extractDayAndHour('20-07-2025 9:05')).toBe('Dom-09:05');
+    });
+
+    it('devuelve null con formatos desconocidos', () => {
+      expect(extractDayAndHour('sin fecha')).toBeNull();
+    });
+  });
+});
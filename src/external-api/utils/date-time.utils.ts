@@ -59,6 +59,8 @@ export function calculateScheduleStats(schedules: string[]): {
 
 /**
  * 🎯 Convierte timestamp de Argentina a UTC
+ * Argentina no tiene horario de verano, así que el offset es siempre -03:00
+ * (se usa Date.UTC para no depender del timezone del servidor)
  */
 export function argentinaToUTC(dateString: string): Date | null {
   try {
@@ -69,17 +71,16 @@ export function argentinaToUTC(dateString: string): Date | null {
 
     const [, day, month, year, hour, minute] = match;
 
-    // Crear fecha en timezone de Argentina (UTC-3)
-    const argDate = new Date(
-      parseInt(year),
-      parseInt(month) - 1,
-      parseInt(day),
-      parseInt(hour),
-      parseInt(minute),
+    // Sumar 3 horas a la hora argentina para obtener UTC
+    return new Date(
+      Date.UTC(
+        parseInt(year),
+        parseInt(month) - 1,
+        parseInt(day),
+        parseInt(hour) + 3,
+        parseInt(minute),
+      ),
     );
-
-    // Ajustar a UTC (sumar 3 horas)
-    return new Date(argDate.getTime() + 3 * 60 * 60 * 1000);
   } catch (error) {
     return null;
   }
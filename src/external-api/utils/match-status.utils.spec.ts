@@ -0,0 +1,55 @@
+import {
+  getMatchStatusCategory,
+  isInterruptedStatus,
+} from './match-status.utils';
+
+describe('match-status.utils', () => {
+  describe('getMatchStatusCategory', () => {
+    it('usa el enum para los estados normales', () => {
+      expect(getMatchStatusCategory({ enum: 1, name: 'Prog.' })).toBe(
+        'scheduled',
+      );
+      expect(getMatchStatusCategory({ enum: 2, name: 'ST' })).toBe('live');
+      expect(getMatchStatusCategory({ enum: 3, name: 'Finalizado' })).toBe(
+        'finished',
+      );
+      expect(getMatchStatusCategory({ enum: 9 })).toBe('unknown');
+    });
+
+    it('detecta los estados interrumpidos por nombre', () => {
+      expect(getMatchStatusCategory({ enum: 1, name: 'Postergado' })).toBe(
+        'postponed',
+      );
+      expect(getMatchStatusCategory({ enum: 1, name: 'Aplazado' })).toBe(
+        'postponed',
+      );
+      expect(
+        getMatchStatusCategory({ enum: 2, name: 'Suspendido', short_name: '' }),
+      ).toBe('suspended');
+      expect(getMatchStatusCategory({ enum: 2, short_name: 'Susp.' })).toBe(
+        'suspended',
+      );
+      expect(getMatchStatusCategory({ enum: 3, name: 'Cancelado' })).toBe(
+        'cancelled',
+      );
+      expect(getMatchStatusCategory({ enum: 3, name: 'Anulado' })).toBe(
+        'cancelled',
+      );
+    });
+
+    it('devuelve unknown sin estado', () => {
+      expect(getMatchStatusCategory(null)).toBe('unknown');
+      expect(getMatchStatusCategory(undefined)).toBe('unknown');
+    });
+  });
+
+  describe('isInterruptedStatus', () => {
+    it('solo incluye postergados, suspendidos y cancelados', () => {
+      expect(isInterruptedStatus('postponed')).toBe(true);
+      expect(isInterruptedStatus('suspended')).toBe(true);
+      expect(isInterruptedStatus('cancelled')).toBe(true);
+      expect(isInterruptedStatus('live')).toBe(false);
+      expect(isInterruptedStatus('finished')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 🚦 Utilidades para interpretar el estado de los partidos de Promiedos
+ * Además de programado (1), en vivo (2) y finalizado (3), Promiedos informa
+ * partidos postergados, suspendidos o cancelados con su nombre de estado
+ */
+
+export const MATCH_STATUS = {
+  SCHEDULED: 1,
+  LIVE: 2,
+  FINISHED: 3,
+} as const;
+
+export type MatchStatusCategory =
+  | 'scheduled'
+  | 'live'
+  | 'finished'
+  | 'postponed'
+  | 'suspended'
+  | 'cancelled'
+  | 'unknown';
+
+interface StatusLike {
+  enum: number;
+  name?: string;
+  short_name?: string;
+}
+
+/**
+ * 🏷️ Clasifica el estado de un partido
+ * Los estados interrumpidos se detectan por nombre ("Postergado", "Susp.", "Cancelado")
+ */
+export function getMatchStatusCategory(
+  status: StatusLike | null | undefined,
+): MatchStatusCategory {
+  if (!status) return 'unknown';
+
+  const label = `${status.name || ''} ${status.short_name || ''}`.toLowerCase();
+
+  if (/cancel|anulad/.test(label)) return 'cancelled';
+  if (/suspend|susp\./.test(label)) return 'suspended';
+  if (/posterg|aplaz|post\./.test(label)) return 'postponed';
+
+  switch (status.enum) {
+    case MATCH_STATUS.SCHEDULED:
+      return 'scheduled';
+    case MATCH_STATUS.LIVE:
+      return 'live';
+    case MATCH_STATUS.FINISHED:
+      return 'finished';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * ⏸️ Indica si el partido está postergado, suspendido o cancelado
+ */
+export function isInterruptedStatus(category: MatchStatusCategory): boolean {
+  return (
+    category === 'postponed' ||
+    category === 'suspended' ||
+    category === 'cancelled'
+  );
+}
@@ -0,0 +1,54 @@
+import {
+  matchPredictedScorers,
+  matchesPlayerName,
+  normalizePlayerName,
+} from './player-name.utils';
+
+describe('player-name.utils', () => {
+  describe('normalizePlayerName', () => {
+    it('quita acentos, puntuación y espacios de más', () => {
+      expect(normalizePlayerName('  Ángel  Di María ')).toBe('angel di maria');
+      expect(normalizePlayerName('E. Cavani')).toBe('e cavani');
+      expect(normalizePlayerName('')).toBe('');
+    });
+  });
+
+  describe('matchesPlayerName', () => {
+    it('acepta el apellido solo', () => {
+      expect(matchesPlayerName('Cavani', 'Edinson Cavani')).toBe(true);
+      expect(matchesPlayerName('di maria', 'Ángel Di María')).toBe(true);
+    });
+
+    it('acepta la inicial del nombre', () => {
+      expect(matchesPlayerName('E. Cavani', 'Edinson Cavani')).toBe(true);
+      expect(matchesPlayerName('M. Cavani', 'Edinson Cavani')).toBe(false);
+    });
+
+    it('tolera un error de tipeo en apellidos largos', () => {
+      expect(matchesPlayerName('Cavany', 'Edinson Cavani')).toBe(true);
+      expect(matchesPlayerName('Rojo', 'Marcos Roja')).toBe(false);
+    });
+
+    it('no confunde jugadores con otro apellido', () => {
+      expect(matchesPlayerName('Borja', 'Edinson Cavani')).toBe(false);
+      expect(matchesPlayerName('', 'Edinson Cavani')).toBe(false);
+    });
+  });
+
+  describe('matchPredictedScorers', () => {
+    it('devuelve cada goleador acertado una sola vez', () => {
+      expect(
+        matchPredictedScorers(
+          ['Cavani', 'cavani', 'Borja', 'Merentiel'],
+          ['Edinson Cavani', 'Edinson Cavani', 'Miguel Merentiel'],
+        ),
+      ).toEqual(['Cavani', 'Merentiel']);
+    });
+
+    it('devuelve una lista vacía sin goleadores', () => {
+      expect(matchPredictedScorers([], ['Edinson Cavani'])).toEqual([]);
+      expect(matchPredictedScorers(['Cavani'], [])).toEqual([]);
+      expect(matchPredictedScorers(undefined, undefined)).toEqual([]);
+    });
+  });
+});
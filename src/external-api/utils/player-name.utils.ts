@@ -0,0 +1,110 @@
+/**
+ * ⚽ Utilidades para normalizar y comparar nombres de jugadores
+ * Los usuarios escriben goleadores a mano ("Cavani", "E. Cavani", "Di Maria")
+ * y el proveedor los informa con nombre completo ("Edinson Cavani", "Ángel Di María")
+ */
+
+/**
+ * 🔤 Normaliza un nombre: minúsculas, sin acentos ni puntuación
+ */
+export function normalizePlayerName(name: string): string {
+  if (!name) return '';
+
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 📏 Distancia de Levenshtein entre dos strings
+ */
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const temp = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = temp;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 🔍 Compara dos palabras de un nombre
+ * - Iguales
+ * - Una es la inicial de la otra ("e" vs "edinson"), solo para nombres de pila
+ * - Apellidos largos con un error de tipeo ("cavany" vs "cavani")
+ */
+function tokensMatch(a: string, b: string, isSurname: boolean): boolean {
+  if (a === b) return true;
+
+  if (!isSurname && (a.length === 1 || b.length === 1)) {
+    return a[0] === b[0];
+  }
+
+  if (isSurname && a.length >= 5 && b.length >= 5) {
+    return levenshtein(a, b) <= 1;
+  }
+
+  return false;
+}
+
+/**
+ * 🎯 Determina si un goleador pronosticado corresponde a un jugador real
+ * El nombre más corto debe coincidir con el final del más largo
+ * ("cavani" ⊂ "edinson cavani", "e cavani" ≈ "edinson cavani")
+ */
+export function matchesPlayerName(predicted: string, actual: string): boolean {
+  const predictedTokens = normalizePlayerName(predicted).split(' ');
+  const actualTokens = normalizePlayerName(actual).split(' ');
+
+  if (!predictedTokens[0] || !actualTokens[0]) return false;
+
+  const [shorter, longer] =
+    predictedTokens.length <= actualTokens.length
+      ? [predictedTokens, actualTokens]
+      : [actualTokens, predictedTokens];
+
+  const offset = longer.length - shorter.length;
+
+  return shorter.every((token, index) =>
+    tokensMatch(token, longer[index + offset], index === shorter.length - 1),
+  );
+}
+
+/**
+ * 📋 Devuelve los goleadores pronosticados que efectivamente convirtieron
+ * Cada pronóstico cuenta una sola vez aunque el jugador haya hecho varios goles
+ */
+export function matchPredictedScorers(
+  predictedScorers: string[],
+  actualScorers: string[],
+): string[] {
+  if (!predictedScorers?.length || !actualScorers?.length) return [];
+
+  const uniquePredicted = predictedScorers.filter(
+    (scorer, index) =>
+      normalizePlayerName(scorer) !== '' &&
+      predictedScorers.findIndex(
+        (other) => normalizePlayerName(other) === normalizePlayerName(scorer),
+      ) === index,
+  );
+
+  return uniquePredicted.filter((predicted) =>
+    actualScorers.some((actual) => matchesPlayerName(predicted, actual)),
+  );
+}
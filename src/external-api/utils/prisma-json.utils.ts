@@ -0,0 +1,21 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * 🗃️ Utilidades para los campos Json de Prisma
+ * Solo se guardan valores armados por el propio código (pronósticos, resultados,
+ * payloads de jobs), así que al leerlos se toman con la forma con la que se guardaron
+ */
+
+/**
+ * 📖 Lee un campo Json con la forma con la que se guardó
+ */
+export function fromJson<T>(value: Prisma.JsonValue): T {
+  return value as unknown as T;
+}
+
+/**
+ * 💾 Prepara un valor para guardarlo en un campo Json
+ */
+export function toJson<T>(value: T): Prisma.InputJsonValue {
+  return value as unknown as Prisma.InputJsonValue;
+}
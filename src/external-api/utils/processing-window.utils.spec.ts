@@ -0,0 +1,75 @@
+import {
+  PlannedMatch,
+  addMinutes,
+  planProcessingWindows,
+} from './processing-window.utils';
+
+const options = { matchDurationMinutes: 120, settlementDelayMinutes: 30 };
+
+function match(id: string, kickoff: string): PlannedMatch {
+  return { id, competitionId: 1, round: 5, kickoff: new Date(kickoff) };
+}
+
+describe('planProcessingWindows', () => {
+  it('arma una ventana por partido con su pasada final', () => {
+    const [window] = planProcessingWindows(
+      [match('a', '2025-07-19T18:00:00Z')],
+      options,
+    );
+
+    expect(window.start).toEqual(new Date('2025-07-19T18:00:00Z'));
+    expect(window.end).toEqual(new Date('2025-07-19T20:00:00Z'));
+    expect(window.settlementAt).toEqual(new Date('2025-07-19T20:30:00Z'));
+  });
+
+  it('une los partidos que se superponen o se tocan', () => {
+    const windows = planProcessingWindows(
+      [
+        match('c', '2025-07-19T22:00:00Z'),
+        match('a', '2025-07-19T18:00:00Z'),
+        match('b', '2025-07-19T20:00:00Z'),
+      ],
+      options,
+    );
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].matches.map((m) => m.id)).toEqual(['a', 'b', 'c']);
+    expect(windows[0].end).toEqual(new Date('2025-07-20T00:00:00Z'));
+    expect(windows[0].settlementAt).toEqual(new Date('2025-07-20T00:30:00Z'));
+  });
+
+  it('separa los partidos que no se superponen', () => {
+    const windows = planProcessingWindows(
+      [match('a', '2025-07-19T18:00:00Z'), match('b', '2025-07-20T18:00:00Z')],
+      options,
+    );
+
+    expect(windows.map((window) => window.matches.map((m) => m.id))).toEqual([
+      ['a'],
+      ['b'],
+    ]);
+  });
+
+  it('no extiende la ventana con un partido contenido en ella', () => {
+    const [window] = planProcessingWindows(
+      [match('a', '2025-07-19T18:00:00Z'), match('b', '2025-07-19T18:30:00Z')],
+      { matchDurationMinutes: 120, settlementDelayMinutes: 0 },
+    );
+
+    expect(window.end).toEqual(new Date('2025-07-19T20:30:00Z'));
+    expect(window.settlementAt).toEqual(window.end);
+  });
+
+  it('no arma ventanas sin partidos', () => {
+    expect(planProcessingWindows([], options)).toEqual([]);
+  });
+});
+
+describe('addMinutes', () => {
+  it('suma minutos sin modificar la fecha original', () => {
+    const date = new Date('2025-07-19T18:00:00Z');
+
+    expect(addMinutes(date, 90)).toEqual(new Date('2025-07-19T19:30:00Z'));
+    expect(date).toEqual(new Date('2025-07-19T18:00:00Z'));
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 🗓️ Utilidades para planificar las ventanas de procesamiento de puntos a
+ * partir del horario de inicio de cada partido
+ */
+
+export interface PlannedMatch {
+  id: string;
+  competitionId: number;
+  round: number;
+  kickoff: Date;
+}
+
+export interface ProcessingWindow {
+  start: Date; // Inicio del primer partido
+  end: Date; // Fin estimado del último partido
+  settlementAt: Date; // Pasada final para acreditar resultados tardíos
+  matches: PlannedMatch[];
+}
+
+export interface ProcessingWindowOptions {
+  matchDurationMinutes: number;
+  settlementDelayMinutes: number;
+}
+
+/**
+ * 🧩 Arma una ventana por partido (inicio → inicio + duración) y une las que
+ * se superponen o se tocan, ordenadas por inicio
+ */
+export function planProcessingWindows(
+  matches: PlannedMatch[],
+  options: ProcessingWindowOptions,
+): ProcessingWindow[] {
+  const windows: ProcessingWindow[] = [];
+  const sorted = [...matches].sort(
+    (a, b) => a.kickoff.getTime() - b.kickoff.getTime(),
+  );
+
+  for (const match of sorted) {
+    const end = addMinutes(match.kickoff, options.matchDurationMinutes);
+    const last = windows[windows.length - 1];
+
+    if (last && match.kickoff.getTime() <= last.end.getTime()) {
+      last.matches.push(match);
+      if (end > last.end) last.end = end;
+      continue;
+    }
+
+    windows.push({
+      start: match.kickoff,
+      end,
+      settlementAt: end,
+      matches: [match],
+    });
+  }
+
+  for (const window of windows) {
+    window.settlementAt = addMinutes(
+      window.end,
+      options.settlementDelayMinutes,
+    );
+  }
+
+  return windows;
+}
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
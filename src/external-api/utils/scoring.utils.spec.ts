@@ -0,0 +1,99 @@
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+  getMatchResult,
+  scorePrediction,
+} from './scoring.utils';
+
+describe('scoring.utils', () => {
+  describe('getMatchResult', () => {
+    it('distingue local, visitante y empate', () => {
+      expect(getMatchResult([2, 1])).toBe('home');
+      expect(getMatchResult([0, 3])).toBe('away');
+      expect(getMatchResult([1, 1])).toBe('draw');
+    });
+  });
+
+  describe('scorePrediction con las reglas por defecto', () => {
+    it('da 3 puntos al resultado exacto', () => {
+      expect(scorePrediction([2, 1], [2, 1])).toEqual({
+        points: 3,
+        pointType: 'exact',
+        breakdown: { exact: 3 },
+      });
+    });
+
+    it('da 1 punto al acertar ganador o empate', () => {
+      expect(scorePrediction([3, 0], [1, 0])).toEqual({
+        points: 1,
+        pointType: 'result',
+        breakdown: { result: 1 },
+      });
+      expect(scorePrediction([2, 2], [0, 0])).toEqual({
+        points: 1,
+        pointType: 'result',
+        breakdown: { result: 1 },
+      });
+    });
+
+    it('no da puntos si no acierta el resultado', () => {
+      expect(scorePrediction([0, 1], [2, 1])).toEqual({
+        points: 0,
+        pointType: 'none',
+        breakdown: {},
+      });
+    });
+
+    it('no da puntos con scores incompletos', () => {
+      expect(scorePrediction([1], [1, 0]).points).toBe(0);
+      expect(scorePrediction(null, [1, 0]).points).toBe(0);
+      expect(scorePrediction([1, 0], undefined).points).toBe(0);
+    });
+  });
+
+  describe('scorePrediction con reglas del torneo', () => {
+    const rules: ScoringRules = {
+      exactResult: 5,
+      correctResult: 2,
+      goalDifference: 1,
+      teamGoals: 1,
+      scorer: 2,
+    };
+
+    it('suma la diferencia de gol al acertar el resultado', () => {
+      expect(scorePrediction([3, 1], [2, 0], rules)).toEqual({
+        points: 3,
+        pointType: 'result',
+        breakdown: { result: 2, goal_difference: 1 },
+      });
+    });
+
+    it('suma los goles exactos de un equipo si el resultado no es exacto', () => {
+      expect(scorePrediction([1, 2], [1, 0], rules)).toEqual({
+        points: 1,
+        pointType: 'none',
+        breakdown: { team_goals: 1 },
+      });
+    });
+
+    it('no suma goles por equipo al resultado exacto', () => {
+      expect(scorePrediction([1, 0], [1, 0], rules).breakdown).toEqual({
+        exact: 5,
+      });
+    });
+
+    it('suma los goleadores acertados a cualquier resultado', () => {
+      expect(scorePrediction([0, 2], [1, 0], rules, 2)).toEqual({
+        points: 4,
+        pointType: 'none',
+        breakdown: { scorer: 4 },
+      });
+    });
+
+    it('ignora los goleadores si la regla vale 0', () => {
+      expect(
+        scorePrediction([2, 1], [2, 1], DEFAULT_SCORING_RULES, 3).points,
+      ).toBe(3);
+    });
+  });
+});
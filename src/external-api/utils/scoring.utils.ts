@@ -0,0 +1,115 @@
+/**
+ * 🎯 Utilidades para el cálculo de puntos de pronósticos
+ * Funciones puras reutilizables por el motor de puntos y los torneos
+ */
+
+export interface ScoringRules {
+  exactResult: number;
+  correctResult: number;
+  goalDifference: number;
+  teamGoals: number;
+  scorer: number;
+}
+
+export type PointType = 'exact' | 'result' | 'none';
+
+export type ScoringRule =
+  | 'exact'
+  | 'result'
+  | 'goal_difference'
+  | 'team_goals'
+  | 'scorer';
+
+export interface PronosticScore {
+  points: number;
+  pointType: PointType;
+  breakdown: Partial<Record<ScoringRule, number>>;
+}
+
+/**
+ * ⚙️ Reglas por defecto (las históricas del sistema: exacto = 3, resultado = 1)
+ */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  exactResult: 3,
+  correctResult: 1,
+  goalDifference: 0,
+  teamGoals: 0,
+  scorer: 0,
+};
+
+/**
+ * ⚽ Determina el resultado de un partido: 'home', 'away', o 'draw'
+ */
+export function getMatchResult(scores: number[]): string {
+  if (scores[0] > scores[1]) return 'home';
+  if (scores[1] > scores[0]) return 'away';
+  return 'draw';
+}
+
+/**
+ * 🧮 Calcula los puntos de un pronóstico según las reglas dadas
+ *
+ * - Resultado exacto: `exactResult`
+ * - Resultado correcto: `correctResult` + `goalDifference` si acierta la diferencia
+ * - Cualquier otro caso: `teamGoals` por cada equipo con goles exactos
+ * - Siempre: `scorer` por cada goleador acertado (`scorerHits`)
+ */
+export function scorePrediction(
+  realScores: number[],
+  predictedScores: number[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  scorerHits: number = 0,
+): PronosticScore {
+  if (
+    !realScores ||
+    !predictedScores ||
+    realScores.length !== 2 ||
+    predictedScores.length !== 2
+  ) {
+    return { points: 0, pointType: 'none', breakdown: {} };
+  }
+
+  const breakdown: Partial<Record<ScoringRule, number>> = {};
+  let pointType: PointType = 'none';
+
+  // Bonus por goleadores acertados (se suma a cualquier resultado)
+  if (rules.scorer > 0 && scorerHits > 0) {
+    breakdown.scorer = rules.scorer * scorerHits;
+  }
+
+  // Resultado exacto (scores exactos)
+  if (
+    realScores[0] === predictedScores[0] &&
+    realScores[1] === predictedScores[1]
+  ) {
+    pointType = 'exact';
+    breakdown.exact = rules.exactResult;
+  } else if (getMatchResult(realScores) === getMatchResult(predictedScores)) {
+    // Solo resultado (ganador/empate correcto)
+    pointType = 'result';
+    breakdown.result = rules.correctResult;
+
+    const realDifference = realScores[0] - realScores[1];
+    const predictedDifference = predictedScores[0] - predictedScores[1];
+
+    if (rules.goalDifference > 0 && realDifference === predictedDifference) {
+      breakdown.goal_difference = rules.goalDifference;
+    }
+  }
+
+  // Goles exactos de uno de los equipos (solo si el resultado no es exacto)
+  const teamsWithExactGoals = [0, 1].filter(
+    (index) => realScores[index] === predictedScores[index],
+  ).length;
+
+  if (pointType !== 'exact' && rules.teamGoals > 0 && teamsWithExactGoals > 0) {
+    breakdown.team_goals = rules.teamGoals * teamsWithExactGoals;
+  }
+
+  const points = Object.values(breakdown).reduce(
+    (total, value) => total + value,
+    0,
+  );
+
+  return { points, pointType, breakdown };
+}
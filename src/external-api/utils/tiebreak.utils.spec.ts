@@ -0,0 +1,159 @@
+import {
+  RankingStats,
+  buildHeadToHead,
+  normalizeTiebreakers,
+  rankWithTiebreakers,
+} from './tiebreak.utils';
+
+function stats(
+  userId: number,
+  points: number,
+  overrides: Partial<RankingStats> = {},
+): RankingStats {
+  return {
+    userId,
+    points,
+    exactResults: 0,
+    correctResults: 0,
+    zeroPointPredictions: 0,
+    firstSubmissionAt: null,
+    ...overrides,
+  };
+}
+
+function summarize(ranked: ReturnType<typeof rankWithTiebreakers>) {
+  return ranked.map((row) => [row.entry.userId, row.positionLabel]);
+}
+
+describe('tiebreak.utils', () => {
+  describe('rankWithTiebreakers', () => {
+    it('ordena por puntos', () => {
+      const ranked = rankWithTiebreakers(
+        [stats(1, 5), stats(2, 9), stats(3, 7)],
+        [],
+      );
+
+      expect(summarize(ranked)).toEqual([
+        [2, '1'],
+        [3, '2'],
+        [1, '3'],
+      ]);
+    });
+
+    it('comparte la posición si siguen empatados al terminar la cadena', () => {
+      const ranked = rankWithTiebreakers(
+        [stats(1, 10), stats(2, 8), stats(3, 8), stats(4, 3)],
+        ['exact_results'],
+      );
+
+      expect(summarize(ranked)).toEqual([
+        [1, '1'],
+        [2, 'T-2'],
+        [3, 'T-2'],
+        [4, '4'],
+      ]);
+      expect(ranked[1].tied).toBe(true);
+    });
+
+    it('aplica los criterios en orden', () => {
+      const ranked = rankWithTiebreakers(
+        [
+          stats(1, 8, { exactResults: 1, correctResults: 5 }),
+          stats(2, 8, { exactResults: 2, correctResults: 3 }),
+          stats(3, 8, { exactResults: 1, correctResults: 6 }),
+        ],
+        ['exact_results', 'correct_results'],
+      );
+
+      expect(summarize(ranked)).toEqual([
+        [2, '1'],
+        [3, '2'],
+        [1, '3'],
+      ]);
+    });
+
+    it('prefiere menos pronósticos sin puntos y el primero en cargar', () => {
+      const ranked = rankWithTiebreakers(
+        [
+          stats(1, 8, {
+            zeroPointPredictions: 2,
+            firstSubmissionAt: new Date('2025-07-01T10:00:00Z'),
+          }),
+          stats(2, 8, {
+            zeroPointPredictions: 1,
+            firstSubmissionAt: new Date('2025-07-03T10:00:00Z'),
+          }),
+          stats(3, 8, {
+            zeroPointPredictions: 1,
+            firstSubmissionAt: new Date('2025-07-02T10:00:00Z'),
+          }),
+          stats(4, 8, { zeroPointPredictions: 1 }),
+        ],
+        ['fewest_zero', 'earliest_submission'],
+      );
+
+      expect(summarize(ranked)).toEqual([
+        [3, '1'],
+        [2, '2'],
+        [4, '3'],
+        [1, '4'],
+      ]);
+    });
+
+    it('desempata por enfrentamientos entre los empatados', () => {
+      const headToHead = buildHeadToHead([
+        { userId: 1, matchId: 'a', points: 3 },
+        { userId: 2, matchId: 'a', points: 0 },
+        { userId: 1, matchId: 'b', points: 0 },
+        { userId: 2, matchId: 'b', points: 1 },
+        { userId: 1, matchId: 'c', points: 1 },
+        { userId: 2, matchId: 'c', points: 0 },
+      ]);
+
+      const ranked = rankWithTiebreakers(
+        [stats(2, 4), stats(1, 4)],
+        ['head_to_head'],
+        headToHead,
+      );
+
+      expect(summarize(ranked)).toEqual([
+        [1, '1'],
+        [2, '2'],
+      ]);
+    });
+  });
+
+  describe('buildHeadToHead', () => {
+    it('cuenta los partidos ganados contra cada rival (empates no cuentan)', () => {
+      const wins = buildHeadToHead([
+        { userId: 1, matchId: 'a', points: 3 },
+        { userId: 2, matchId: 'a', points: 1 },
+        { userId: 3, matchId: 'a', points: 1 },
+        { userId: 1, matchId: 'b', points: 1 },
+        { userId: 2, matchId: 'b', points: 3 },
+      ]);
+
+      expect(wins.get(1)).toEqual(
+        new Map([
+          [2, 1],
+          [3, 1],
+        ]),
+      );
+      expect(wins.get(2)).toEqual(new Map([[1, 1]]));
+      expect(wins.get(3)).toBeUndefined();
+    });
+  });
+
+  describe('normalizeTiebreakers', () => {
+    it('descarta criterios desconocidos y repetidos', () => {
+      expect(
+        normalizeTiebreakers([
+          'head_to_head',
+          'coin_flip',
+          'exact_results',
+          'head_to_head',
+        ]),
+      ).toEqual(['head_to_head', 'exact_results']);
+    });
+  });
+});
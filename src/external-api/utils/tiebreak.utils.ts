@@ -0,0 +1,187 @@
+/**
+ * 🥇 Utilidades para ordenar tablas de posiciones con criterios de desempate
+ * Funciones puras: el motor de puntos carga las estadísticas y los cruces
+ */
+
+export type TiebreakerRule =
+  | 'exact_results' // Más resultados exactos
+  | 'correct_results' // Más aciertos de ganador/empate (incluye exactos)
+  | 'fewest_zero' // Menos pronósticos sin puntos
+  | 'head_to_head' // Más partidos ganados contra los empatados
+  | 'earliest_submission'; // Primer pronóstico cargado antes
+
+export const TIEBREAKER_RULES: TiebreakerRule[] = [
+  'exact_results',
+  'correct_results',
+  'fewest_zero',
+  'head_to_head',
+  'earliest_submission',
+];
+
+/**
+ * ⚙️ Cadena por defecto (la misma que la columna Tournament.tiebreakers)
+ */
+export const DEFAULT_TIEBREAKERS: TiebreakerRule[] = [...TIEBREAKER_RULES];
+
+export interface RankingStats {
+  userId: number;
+  points: number;
+  exactResults: number;
+  correctResults: number;
+  zeroPointPredictions: number;
+  firstSubmissionAt: Date | null;
+}
+
+export interface RankedEntry<T extends RankingStats> {
+  entry: T;
+  position: number;
+  tied: boolean;
+  positionLabel: string; // "3" o "T-3" si comparte la posición
+}
+
+// Partidos ganados por cada usuario contra cada rival: wins.get(a).get(b)
+export type HeadToHead = Map<number, Map<number, number>>;
+
+/**
+ * 🧹 Filtra una cadena de desempates a los criterios conocidos (sin repetir)
+ */
+export function normalizeTiebreakers(rules: string[]): TiebreakerRule[] {
+  return [...new Set(rules)].filter((rule): rule is TiebreakerRule =>
+    TIEBREAKER_RULES.includes(rule as TiebreakerRule),
+  );
+}
+
+/**
+ * 🥇 Ordena por puntos y desempata aplicando los criterios en orden.
+ * Los que siguen empatados al terminar la cadena comparten la posición
+ */
+export function rankWithTiebreakers<T extends RankingStats>(
+  entries: T[],
+  tiebreakers: TiebreakerRule[],
+  headToHead: HeadToHead = new Map(),
+): RankedEntry<T>[] {
+  const groups = splitBy(entries, (entry) => entry.points).flatMap((group) =>
+    breakTies(group, tiebreakers, headToHead),
+  );
+
+  const ranked: RankedEntry<T>[] = [];
+
+  for (const group of groups) {
+    const position = ranked.length + 1;
+    const tied = group.length > 1;
+
+    for (const entry of group) {
+      ranked.push({
+        entry,
+        position,
+        tied,
+        positionLabel: tied ? `T-${position}` : `${position}`,
+      });
+    }
+  }
+
+  return ranked;
+}
+
+/**
+ * ⚔️ Partidos ganados por cada usuario contra cada rival (más puntos en el
+ * mismo partido), a partir de los puntos de cada uno por partido
+ */
+export function buildHeadToHead(
+  results: Array<{ userId: number; matchId: string; points: number }>,
+): HeadToHead {
+  const byMatch = new Map<string, Array<{ userId: number; points: number }>>();
+
+  for (const result of results) {
+    const matchResults = byMatch.get(result.matchId) || [];
+    matchResults.push(result);
+    byMatch.set(result.matchId, matchResults);
+  }
+
+  const wins: HeadToHead = new Map();
+
+  for (const matchResults of byMatch.values()) {
+    for (const a of matchResults) {
+      for (const b of matchResults) {
+        if (a.points <= b.points) continue;
+
+        const rivals = wins.get(a.userId) || new Map<number, number>();
+        rivals.set(b.userId, (rivals.get(b.userId) || 0) + 1);
+        wins.set(a.userId, rivals);
+      }
+    }
+  }
+
+  return wins;
+}
+
+// ==========================================
+// 🔧 FUNCIONES PRIVADAS
+// ==========================================
+
+/**
+ * ✂️ Separa un grupo empatado aplicando el primer criterio, y sigue con el
+ * resto de la cadena en los subgrupos que siguen empatados
+ */
+function breakTies<T extends RankingStats>(
+  group: T[],
+  tiebreakers: TiebreakerRule[],
+  headToHead: HeadToHead,
+): T[][] {
+  if (group.length < 2 || tiebreakers.length === 0) return [group];
+
+  const [rule, ...rest] = tiebreakers;
+  const score = getTiebreakerScore(rule, group, headToHead);
+
+  return splitBy(group, score).flatMap((subgroup) =>
+    breakTies(subgroup, rest, headToHead),
+  );
+}
+
+/**
+ * 📏 Valor de cada usuario para un criterio (mayor = mejor posición)
+ */
+function getTiebreakerScore<T extends RankingStats>(
+  rule: TiebreakerRule,
+  group: T[],
+  headToHead: HeadToHead,
+): (entry: T) => number {
+  switch (rule) {
+    case 'exact_results':
+      return (entry) => entry.exactResults;
+    case 'correct_results':
+      return (entry) => entry.correctResults;
+    case 'fewest_zero':
+      return (entry) => -entry.zeroPointPredictions;
+    case 'head_to_head':
+      // Saldo de partidos ganados y perdidos contra el resto del grupo
+      return (entry) =>
+        group.reduce((balance, rival) => {
+          if (rival.userId === entry.userId) return balance;
+          const won = headToHead.get(entry.userId)?.get(rival.userId) || 0;
+          const lost = headToHead.get(rival.userId)?.get(entry.userId) || 0;
+          return balance + won - lost;
+        }, 0);
+    case 'earliest_submission':
+      return (entry) =>
+        entry.firstSubmissionAt
+          ? -entry.firstSubmissionAt.getTime()
+          : Number.NEGATIVE_INFINITY;
+  }
+}
+
+/**
+ * 📊 Agrupa por valor, de mayor a menor (conserva el orden dentro del grupo)
+ */
+function splitBy<T>(entries: T[], value: (entry: T) => number): T[][] {
+  const groups = new Map<number, T[]>();
+
+  for (const entry of entries) {
+    const key = value(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([, group]) => group);
+}
@@ -0,0 +1,45 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createMailTransport } from './transports/mail-transport.factory';
+import {
+  MailMessage,
+  MailTransport,
+} from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly transport: MailTransport = createMailTransport();
+
+  /**
+   * ✉️ Envía un email con el medio configurado
+   */
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send(message);
+    this.logger.debug(
+      `✉️ Email enviado a ${message.to} vía ${this.transport.name}`,
+    );
+  }
+
+  /**
+   * 🔗 Email con el link de inicio de sesión
+   */
+  async sendMagicLink(
+    to: string,
+    link: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    await this.send({
+      to,
+      subject: '⚽ Tu link para entrar al Prode',
+      text:
+        `Hacé clic en este link para iniciar sesión en el Prode:\n\n${link}\n\n` +
+        `El link vence en ${expiresInMinutes} minutos y sirve una sola vez. ` +
+        'Si no lo pediste, ignorá este email.',
+      html:
+        `<p>Hacé clic en este link para iniciar sesión en el Prode:</p>` +
+        `<p><a href="${link}">Entrar al Prode</a></p>` +
+        `<p>El link vence en ${expiresInMinutes} minutos y sirve una sola vez. ` +
+        'Si no lo pediste, ignorá este email.</p>',
+    });
+  }
+}
@@ -0,0 +1,16 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * 🖥️ No envía nada: escribe los emails en el log (desarrollo)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `✉️ Email para ${message.to} — ${message.subject}\n${message.text}`,
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { ConsoleMailTransport } from './console.transport';
+import { MailTransport } from './mail-transport.interface';
+import { SmtpMailTransport } from './smtp.transport';
+
+/**
+ * 🏭 Crea el medio de envío según MAIL_TRANSPORT (console | smtp)
+ */
+export function createMailTransport(
+  type: string = process.env.MAIL_TRANSPORT || 'console',
+): MailTransport {
+  switch (type) {
+    case 'console':
+      return new ConsoleMailTransport();
+    case 'smtp':
+      return new SmtpMailTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '1025', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from: process.env.MAIL_FROM || 'Prode <no-reply@prode.local>',
+      });
+    default:
+      throw new Error(`Medio de envío de emails desconocido: ${type}`);
+  }
+}
@@ -0,0 +1,17 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * ✉️ Medio de envío de emails (SMTP, consola...)
+ * Se elige con MAIL_TRANSPORT (ver createMailTransport)
+ */
+export interface MailTransport {
+  readonly name: string;
+
+  /** Envía un email */
+  send(message: MailMessage): Promise<void>;
+}
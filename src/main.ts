@@ -16,6 +16,7 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { PrismaExceptionFilter } from './common/filters/prisma-exception.filter';
+import { CronJobRegistryService } from './external-api/services/cron-job-registry.service';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, { cors: true });
@@ -40,6 +41,10 @@ async function bootstrap() {
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api/docs', app, document);
 
+  // Restaurar pausas y expresiones de los cron jobs antes de atender pedidos
+  await app.init();
+  await app.get(CronJobRegistryService).syncState();
+
   await app.listen(port);
   console.log(`🚀 Aplicación corriendo en http://localhost:${port}`);
 }
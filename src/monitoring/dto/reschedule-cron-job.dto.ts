@@ -0,0 +1,14 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RescheduleCronJobDto {
+  @ApiPropertyOptional({
+    description:
+      'Expresión cron nueva (zona horaria del job). Vacía o null vuelve a la original',
+    example: '30 * * * *',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  cronTime?: string | null;
+}
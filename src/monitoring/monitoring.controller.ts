@@ -1,10 +1,13 @@
 import {
+  Body,
   Controller,
   Get,
+  Post,
   Param,
   Query,
   ParseIntPipe,
   DefaultValuePipe,
+  UseGuards,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -12,16 +15,31 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiBearerAuth,
 } from '@nestjs/swagger';
 import { CronAuditService } from '../external-api/services/cron-audit.service';
+import { CronLockService } from '../external-api/services/cron-lock.service';
+import { PointsJobQueueService } from '../external-api/services/points-job-queue.service';
 import { MatchdaySchedulerService } from '../external-api/services/matchday-scheduler.service';
+import { CronJobRegistryService } from '../external-api/services/cron-job-registry.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RescheduleCronJobDto } from './dto/reschedule-cron-job.dto';
 
 @ApiTags('monitoring')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
 @Controller('monitoring')
 export class MonitoringController {
   constructor(
     private readonly cronAudit: CronAuditService,
     private readonly scheduler: MatchdaySchedulerService,
+    private readonly cronLock: CronLockService,
+    private readonly pointsJobs: PointsJobQueueService,
+    private readonly cronRegistry: CronJobRegistryService,
   ) {}
 
   @Get('cron-jobs/stats')
@@ -50,6 +68,7 @@ export class MonitoringController {
         totalExecutions: 12,
         successfulExecutions: 11,
         failedExecutions: 1,
+        skippedExecutions: 2,
         successRate: 91.67,
         averageExecutionTime: 1250,
         lastExecution: {
@@ -79,10 +98,14 @@ export class MonitoringController {
 
     return {
       ...stats,
+      // Las corridas omitidas por lock (las ejecutó otra instancia) no cuentan
       successRate:
-        stats.totalExecutions > 0
+        stats.totalExecutions - stats.skippedExecutions > 0
           ? Math.round(
-              (stats.successfulExecutions / stats.totalExecutions) * 100 * 100,
+              (stats.successfulExecutions /
+                (stats.totalExecutions - stats.skippedExecutions)) *
+                100 *
+                100,
             ) / 100
           : 0,
       timeframe: `${hours} horas`,
@@ -157,22 +180,32 @@ export class MonitoringController {
             enabled: true,
             nextExecution: '2025-01-16T06:00:00.000Z',
           },
-          {
-            name: 'check-matches-today',
-            schedule: '0 11 * * *',
-            timezone: 'America/Argentina/Buenos_Aires',
-            enabled: true,
-            nextExecution: '2025-01-16T11:00:00.000Z',
-          },
         ],
         dynamicJobs: [
           {
-            name: 'process-points-dynamic',
             isActive: true,
-            schedule: 'cada 5 min (15:00-01:00)',
-            description: 'Procesando puntos cada 5 min (15:00-01:00)',
+            cronName: 'process-points-every-5min',
+            cronJobExists: true,
+            description:
+              'Cron job dinámico activo cada 5 min (ventana de partidos en curso)',
           },
         ],
+        locks: [
+          {
+            jobName: 'process-points',
+            holder: 'web.1-3f2a-42',
+            acquiredAt: '2025-01-15T20:25:00.000Z',
+            expiresAt: '2025-01-15T20:29:00.000Z',
+            releasedAt: '2025-01-15T20:25:04.000Z',
+          },
+        ],
+        nextPointsWindow: {
+          start: '2025-01-15T19:00:00.000Z',
+          end: '2025-01-15T23:45:00.000Z',
+          settlementAt: '2025-01-16T00:15:00.000Z',
+          matches: 3,
+        },
+        pointsJobs: { completed: 120, pending: 1, dead: 1 },
         timestamp: '2025-01-15T20:30:00.000Z',
       },
     },
@@ -180,6 +213,9 @@ export class MonitoringController {
   async getCronJobStatus() {
     const schedulerStats = await this.scheduler.getSchedulerStats();
     const pointsStatus = this.scheduler.getPointsProcessingStatus();
+    const nextWindow = this.scheduler
+      .getProcessingPlan()
+      .windows.find((window) => new Date(window.end) > new Date());
 
     return {
       scheduledJobs: [
@@ -192,14 +228,25 @@ export class MonitoringController {
           lastExecution: schedulerStats.lastExecution,
         },
         {
-          name: 'check-matches-today',
-          schedule: '0 11 * * *',
+          name: 'process-points-jobs',
+          schedule: '*/5 * * * *',
           timezone: 'America/Argentina/Buenos_Aires',
           enabled: true,
-          nextExecution: this.calculateNext11AM(),
         },
       ],
       dynamicJobs: [pointsStatus],
+      // Solo una instancia ejecuta cada corrida: la que toma el lock del job
+      locks: await this.cronLock.findAll(),
+      nextPointsWindow: nextWindow
+        ? {
+            start: nextWindow.start,
+            end: nextWindow.end,
+            settlementAt: nextWindow.settlementAt,
+            matches: nextWindow.matches.length,
+          }
+        : null,
+      // Jobs de calificación por estado (los dead requieren revisión manual)
+      pointsJobs: await this.pointsJobs.countByStatus(),
       currentMatchday: {
         value: schedulerStats.currentMatchday,
         updatedBy: schedulerStats.updatedBy,
@@ -209,11 +256,123 @@ export class MonitoringController {
     };
   }
 
-  @Get('cron-jobs/execute/:jobName')
+  @Get('cron-jobs')
+  @ApiOperation({
+    summary: 'Registro de cron jobs',
+    description:
+      'Lista todos los cron jobs registrados (estáticos y dinámicos) con su expresión, próxima ejecución, ' +
+      'última ejecución auditada y si están pausados o reprogramados',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cron jobs registrados',
+    schema: {
+      example: {
+        jobs: [
+          {
+            name: 'sync-fixtures',
+            status: 'paused',
+            cronTime: '30 * * * *',
+            defaultCronTime: '15 * * * *',
+            overridden: true,
+            timeZone: 'America/Argentina/Buenos_Aires',
+            nextRun: null,
+            lastRun: {
+              status: 'completed',
+              startedAt: '2025-01-15T18:15:00.000Z',
+              completedAt: '2025-01-15T18:15:03.200Z',
+              executionTimeMs: 3200,
+              errorMessage: null,
+            },
+            updatedAt: '2025-01-15T18:20:00.000Z',
+            updatedBy: 'admin@prode.com',
+          },
+        ],
+        timestamp: '2025-01-15T18:30:00.000Z',
+      },
+    },
+  })
+  async getCronJobs() {
+    return {
+      jobs: await this.cronRegistry.findAll(),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post('cron-jobs/:jobName/pause')
+  @ApiOperation({
+    summary: 'Pausar un cron job',
+    description:
+      'El job deja de ejecutarse en todas las instancias hasta reanudarlo (se mantiene tras reiniciar). ' +
+      'Un job dinámico pausado se vuelve a crear pausado en la próxima ventana',
+  })
+  @ApiParam({
+    name: 'jobName',
+    description: 'Nombre del cron job',
+    example: 'sync-fixtures',
+  })
+  async pauseCronJob(
+    @Param('jobName') jobName: string,
+    @CurrentUser() user: { email: string },
+  ) {
+    return {
+      job: await this.cronRegistry.pause(jobName, user?.email ?? 'manual'),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post('cron-jobs/:jobName/resume')
+  @ApiOperation({
+    summary: 'Reanudar un cron job pausado',
+  })
+  @ApiParam({
+    name: 'jobName',
+    description: 'Nombre del cron job',
+    example: 'sync-fixtures',
+  })
+  async resumeCronJob(
+    @Param('jobName') jobName: string,
+    @CurrentUser() user: { email: string },
+  ) {
+    return {
+      job: await this.cronRegistry.resume(jobName, user?.email ?? 'manual'),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post('cron-jobs/:jobName/schedule')
+  @ApiOperation({
+    summary: 'Reprogramar un cron job',
+    description:
+      'Cambia la expresión cron del job en todas las instancias (se mantiene tras reiniciar). ' +
+      'Sin cronTime vuelve a la expresión original',
+  })
+  @ApiParam({
+    name: 'jobName',
+    description: 'Nombre del cron job',
+    example: 'sync-fixtures',
+  })
+  async rescheduleCronJob(
+    @Param('jobName') jobName: string,
+    @Body() rescheduleDto: RescheduleCronJobDto,
+    @CurrentUser() user: { email: string },
+  ) {
+    return {
+      job: await this.cronRegistry.reschedule(
+        jobName,
+        rescheduleDto?.cronTime ?? null,
+        user?.email ?? 'manual',
+      ),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  @Post('cron-jobs/execute/:jobName')
   @ApiOperation({
     summary: 'Ejecutar cron job manualmente (solo para testing)',
     description:
-      'Ejecuta un cron job específico manualmente para propósitos de testing',
+      'Ejecuta un cron job manualmente para propósitos de testing. ' +
+      'Acepta cualquier job de GET cron-jobs (aunque esté pausado) y plan-points-processing',
   })
   @ApiParam({
     name: 'jobName',
@@ -230,24 +389,13 @@ export class MonitoringController {
         await this.scheduler.executeCronJobManually();
         return { message: `✅ Cron job '${jobName}' ejecutado manualmente` };
 
-      case 'check-matches-today':
-        await this.scheduler.checkMatchesTodayCronJob();
+      case 'plan-points-processing':
+        await this.scheduler.planPointsProcessing('manual');
         return { message: `✅ Cron job '${jobName}' ejecutado manualmente` };
 
       default:
-        return { error: `❌ Cron job '${jobName}' no encontrado` };
-    }
-  }
-
-  private calculateNext11AM(): string {
-    const now = new Date();
-    const next11AM = new Date(now);
-    next11AM.setHours(11, 0, 0, 0);
-
-    if (now.getHours() >= 11) {
-      next11AM.setDate(next11AM.getDate() + 1);
+        await this.cronRegistry.run(jobName);
+        return { message: `✅ Cron job '${jobName}' ejecutado manualmente` };
     }
-
-    return next11AM.toISOString();
   }
 }
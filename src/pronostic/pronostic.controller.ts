@@ -36,7 +36,7 @@ export class PronosticController {
   @ApiOperation({
     summary: 'Crear nuevo pronóstico (requiere autenticación)',
     description:
-      'Crea un nuevo pronóstico para un partido específico. Solo usuarios autenticados pueden crear pronósticos. Un usuario solo puede crear un pronóstico por partido. Si ya existe un pronóstico para ese partido, retorna error 409.',
+      'Crea un nuevo pronóstico para un partido específico. Solo usuarios autenticados pueden crear pronósticos. Un usuario solo puede crear un pronóstico por partido. Si ya existe un pronóstico para ese partido, retorna error 409. Si el partido ya comenzó (o está dentro del margen de cierre), retorna error 403.',
   })
   @ApiBody({ type: CreatePronosticDto })
   @ApiResponse({
@@ -69,6 +69,10 @@ export class PronosticController {
     status: 401,
     description: 'Token de autenticación requerido',
   })
+  @ApiResponse({
+    status: 403,
+    description: 'Los pronósticos para este partido están cerrados',
+  })
   @ApiResponse({
     status: 409,
     description:
@@ -87,7 +91,7 @@ export class PronosticController {
   @ApiOperation({
     summary: 'Crear/actualizar múltiples pronósticos (requiere autenticación)',
     description:
-      'Crea o actualiza múltiples pronósticos para diferentes partidos en una sola operación. Si ya existe un pronóstico para un partido, lo actualiza; si no existe, lo crea. Un usuario solo puede tener un pronóstico por partido.',
+      'Crea o actualiza múltiples pronósticos para diferentes partidos en una sola operación. Si ya existe un pronóstico para un partido, lo actualiza; si no existe, lo crea. Un usuario solo puede tener un pronóstico por partido. Los pronósticos de partidos cerrados se rechazan individualmente y se informan en `rejected`, sin afectar al resto.',
   })
   @ApiBody({
     type: [CreatePronosticDto],
@@ -116,42 +120,40 @@ export class PronosticController {
   })
   @ApiResponse({
     status: 201,
-    description: 'Pronósticos creados/actualizados exitosamente',
+    description:
+      'Pronósticos creados/actualizados exitosamente, con el detalle de los rechazados',
     schema: {
-      example: [
-        {
-          id: 1,
-          externalId: 'edcgcdj',
-          userId: 1,
-          prediction: {
-            scores: [2, 1],
-            scorers: ['Messi', 'Di María'],
-          },
-          createdAt: '2024-07-11T19:00:00.000Z',
-          updatedAt: '2024-07-11T19:00:00.000Z',
-          user: {
+      example: {
+        saved: [
+          {
             id: 1,
-            name: 'Juan Pérez',
-            email: 'juan@ejemplo.com',
-          },
-        },
-        {
-          id: 2,
-          externalId: 'abcdef',
-          userId: 1,
-          prediction: {
-            scores: [1, 1],
-            scorers: ['Cavani', 'Suarez'],
+            externalId: 'edcgcdj',
+            userId: 1,
+            prediction: {
+              scores: [2, 1],
+              scorers: ['Messi', 'Di María'],
+            },
+            createdAt: '2024-07-11T19:00:00.000Z',
+            updatedAt: '2024-07-11T19:00:00.000Z',
+            user: {
+              id: 1,
+              name: 'Juan Pérez',
+              email: 'juan@ejemplo.com',
+            },
           },
-          createdAt: '2024-07-11T19:00:00.000Z',
-          updatedAt: '2024-07-11T19:00:00.000Z',
-          user: {
-            id: 1,
-            name: 'Juan Pérez',
-            email: 'juan@ejemplo.com',
+        ],
+        rejected: [
+          {
+            externalId: 'abcdef',
+            reason: 'El partido ya comenzó (13-07-2025 21:00)',
           },
+        ],
+        summary: {
+          requested: 2,
+          saved: 1,
+          rejected: 1,
         },
-      ],
+      },
     },
   })
   @ApiResponse({
@@ -301,7 +303,8 @@ export class PronosticController {
   })
   @ApiResponse({
     status: 403,
-    description: 'No tienes permisos para actualizar este pronóstico',
+    description:
+      'No tienes permisos para actualizar este pronóstico o el partido ya está cerrado',
   })
   @ApiResponse({
     status: 404,
@@ -338,7 +341,8 @@ export class PronosticController {
   })
   @ApiResponse({
     status: 403,
-    description: 'No tienes permisos para eliminar este pronóstico',
+    description:
+      'No tienes permisos para eliminar este pronóstico o el partido ya está cerrado',
   })
   @ApiResponse({
     status: 404,
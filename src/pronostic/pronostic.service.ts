@@ -12,6 +12,7 @@ import { CreatePronosticDto } from './dto/create-pronostic.dto';
 import { UpdatePronosticDto } from './dto/update-pronostic.dto';
 import { Prisma } from '@prisma/client';
 import { MatchdayCacheService } from '../external-api/services/matchday-cache.service';
+import { MatchLockService } from '../external-api/services/match-lock.service';
 
 @Injectable()
 export class PronosticService {
@@ -21,8 +22,37 @@ export class PronosticService {
     private readonly prisma: PrismaService,
     @Inject(forwardRef(() => MatchdayCacheService))
     private readonly cacheService: MatchdayCacheService,
+    @Inject(forwardRef(() => MatchLockService))
+    private readonly matchLockService: MatchLockService,
   ) {}
 
+  /**
+   * 🔒 Lanza error si los pronósticos del partido ya están cerrados
+   */
+  private async assertPronosticOpen(externalId: string): Promise<void> {
+    const lockStatus = await this.matchLockService.getLockStatus(externalId);
+
+    if (lockStatus.locked) {
+      throw new ForbiddenException(
+        `Los pronósticos para este partido están cerrados: ${lockStatus.reason}`,
+      );
+    }
+  }
+
+  /**
+   * 🔗 Ids de los partidos ya sincronizados (con fila en Match)
+   * Los pronósticos de partidos que todavía no se sincronizaron quedan sin
+   * matchId y se vinculan al sincronizar (FixtureService.linkPronostics)
+   */
+  private async getStoredMatchIds(externalIds: string[]): Promise<Set<string>> {
+    const matches = await this.prisma.match.findMany({
+      where: { id: { in: externalIds } },
+      select: { id: true },
+    });
+
+    return new Set(matches.map((match) => match.id));
+  }
+
   async create(createPronosticDto: CreatePronosticDto, userId: number) {
     // Verificar si el usuario ya tiene un pronóstico para este partido
     const existingPronostic = await this.prisma.pronostic.findFirst({
@@ -38,9 +68,18 @@ export class PronosticService {
       );
     }
 
+    await this.assertPronosticOpen(createPronosticDto.externalId);
+
+    const storedMatchIds = await this.getStoredMatchIds([
+      createPronosticDto.externalId,
+    ]);
+
     const result = await this.prisma.pronostic.create({
       data: {
         externalId: createPronosticDto.externalId,
+        matchId: storedMatchIds.has(createPronosticDto.externalId)
+          ? createPronosticDto.externalId
+          : null,
         userId: userId,
         prediction:
           createPronosticDto.prediction as unknown as Prisma.JsonObject,
@@ -65,7 +104,32 @@ export class PronosticService {
   }
 
   async createBulk(pronostics: CreatePronosticDto[], userId: number) {
-    const upsertPromises = pronostics.map((pronostic) => {
+    // Validar el cierre de cada partido por separado
+    const lockStatuses = await this.matchLockService.getLockStatuses(
+      pronostics.map((p) => p.externalId),
+    );
+
+    const accepted = pronostics.filter(
+      (p) => !lockStatuses.get(p.externalId)?.locked,
+    );
+    const rejected = pronostics
+      .filter((p) => lockStatuses.get(p.externalId)?.locked)
+      .map((p) => ({
+        externalId: p.externalId,
+        reason: lockStatuses.get(p.externalId).reason,
+      }));
+
+    if (rejected.length > 0) {
+      this.logger.warn(
+        `🔒 Bulk: ${rejected.length} pronósticos rechazados por partidos cerrados`,
+      );
+    }
+
+    const storedMatchIds = await this.getStoredMatchIds(
+      accepted.map((p) => p.externalId),
+    );
+
+    const upsertPromises = accepted.map((pronostic) => {
       return this.prisma.pronostic.upsert({
         where: {
           externalId_userId: {
@@ -75,6 +139,9 @@ export class PronosticService {
         },
         create: {
           externalId: pronostic.externalId,
+          matchId: storedMatchIds.has(pronostic.externalId)
+            ? pronostic.externalId
+            : null,
           userId: userId,
           prediction: pronostic.prediction as unknown as Prisma.JsonObject,
         },
@@ -96,7 +163,7 @@ export class PronosticService {
     try {
       const result = await this.prisma.$transaction(upsertPromises);
 
-      const externalIds = pronostics.map((p) => p.externalId);
+      const externalIds = accepted.map((p) => p.externalId);
       this.cacheService.invalidateByExternalIds(externalIds).catch((error) => {
         this.logger.error(
           `❌ Error invalidando cache (asíncrono): ${error.message}`,
@@ -106,7 +173,15 @@ export class PronosticService {
       this.logger.log(
         `✅ Bulk creado exitosamente: ${result.length} pronósticos`,
       );
-      return result;
+      return {
+        saved: result,
+        rejected,
+        summary: {
+          requested: pronostics.length,
+          saved: result.length,
+          rejected: rejected.length,
+        },
+      };
     } catch (error) {
       this.logger.error(`❌ Error en createBulk: ${error.message}`);
       throw error;
@@ -218,6 +293,8 @@ export class PronosticService {
       );
     }
 
+    await this.assertPronosticOpen(pronostic.externalId);
+
     const result = await this.prisma.pronostic.update({
       where: { id },
       data: {
@@ -255,6 +332,8 @@ export class PronosticService {
       );
     }
 
+    await this.assertPronosticOpen(pronostic.externalId);
+
     const result = await this.prisma.pronostic.delete({
       where: { id },
     });
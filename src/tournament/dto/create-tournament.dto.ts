@@ -1,5 +1,23 @@
-import { IsString, IsOptional, IsNotEmpty, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  MaxLength,
+  ValidateNested,
+  IsArray,
+  ArrayNotEmpty,
+  IsIn,
+  IsInt,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TournamentVisibility } from '@prisma/client';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UpdateScoringRulesDto } from './scoring-rules.dto';
+import {
+  TIEBREAKER_RULES,
+  TiebreakerRule,
+} from '../../external-api/utils/tiebreak.utils';
 
 export class CreateTournamentDto {
   @ApiProperty({
@@ -21,4 +39,72 @@ export class CreateTournamentDto {
   @IsString()
   @MaxLength(500)
   description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Reglas de puntuación del torneo (si se omiten se usan las por defecto: exacto = 3, resultado = 1)',
+    type: UpdateScoringRulesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateScoringRulesDto)
+  scoringRules?: UpdateScoringRulesDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Competencias que se juegan en el torneo (slug o alias). Si se omite se usa la competencia por defecto',
+    example: ['lpf'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  competitions?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Visibilidad: private = solo con código, unlisted = se ve y se une con el link que incluye su código, sin aparecer en el listado, public = aparece en /tournaments/public',
+    enum: ['private', 'unlisted', 'public'],
+    example: 'public',
+  })
+  @IsOptional()
+  @IsIn(['private', 'unlisted', 'public'])
+  visibility?: TournamentVisibility;
+
+  @ApiPropertyOptional({
+    description:
+      'Primera fecha que suma puntos en el torneo. Si se omite, suman todas desde el inicio',
+    example: 5,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  startMatchday?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Última fecha que suma puntos en el torneo. Si se omite, suman hasta el final',
+    example: 16,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  endMatchday?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Criterios de desempate en orden. exact_results = más exactos, correct_results = más aciertos, ' +
+      'fewest_zero = menos pronósticos sin puntos, head_to_head = más partidos ganados entre los empatados, ' +
+      'earliest_submission = primer pronóstico cargado antes. Si se omite: exactos, aciertos, menos sin puntos, cruce y primer pronóstico',
+    enum: TIEBREAKER_RULES,
+    isArray: true,
+    example: ['exact_results', 'correct_results', 'head_to_head'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(TIEBREAKER_RULES, { each: true })
+  tiebreakers?: TiebreakerRule[];
 }
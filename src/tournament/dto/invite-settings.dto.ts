@@ -0,0 +1,98 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateInviteSettingsDto {
+  @ApiPropertyOptional({
+    description: 'Vencimiento del código de invitación (ISO). null = no vence',
+    example: '2025-03-01T03:00:00Z',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Máximo de ingresos con el código actual. null = sin límite',
+    example: 20,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  maxUses?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Si es true, los ingresos con el código quedan pendientes hasta que el dueño o un admin los apruebe',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  requiresApproval?: boolean;
+}
+
+export class InviteSettingsResponseDto {
+  @ApiProperty({ description: 'Código de invitación', example: 'K7Q2M9XD' })
+  inviteCode: string;
+
+  @ApiProperty({
+    description: 'Vencimiento del código (null = no vence)',
+    example: '2025-03-01T03:00:00Z',
+    nullable: true,
+  })
+  expiresAt: string | null;
+
+  @ApiProperty({
+    description: 'Máximo de ingresos con el código (null = sin límite)',
+    example: 20,
+    nullable: true,
+  })
+  maxUses: number | null;
+
+  @ApiProperty({ description: 'Ingresos con el código actual', example: 3 })
+  uses: number;
+
+  @ApiProperty({
+    description: 'Si los ingresos requieren aprobación',
+    example: true,
+  })
+  requiresApproval: boolean;
+}
+
+export class JoinRequestResponseDto {
+  @ApiProperty({ description: 'ID del usuario que pidió ingresar', example: 7 })
+  userId: number;
+
+  @ApiProperty({ description: 'Nombre del usuario', example: 'Ana López' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Avatar del usuario',
+    example: 'https://example.com/avatar.jpg',
+    required: false,
+  })
+  avatar?: string;
+
+  @ApiProperty({
+    description: 'Estado de la solicitud',
+    enum: ['pending', 'approved', 'rejected'],
+    example: 'pending',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Fecha de la solicitud',
+    example: '2025-01-20T18:00:00Z',
+  })
+  createdAt: string;
+}
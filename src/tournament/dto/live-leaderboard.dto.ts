@@ -0,0 +1,121 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TournamentRole } from '@prisma/client';
+
+export class LiveMatchDto {
+  @ApiProperty({ description: 'ID del partido', example: 'edcgbhf' })
+  id: string;
+
+  @ApiProperty({ description: 'Fecha del partido', example: 5 })
+  round: number;
+
+  @ApiProperty({ description: 'Equipo local', example: 'Boca Juniors' })
+  homeTeam: string;
+
+  @ApiProperty({ description: 'Equipo visitante', example: 'River Plate' })
+  awayTeam: string;
+
+  @ApiProperty({
+    description: 'Resultado parcial [local, visitante]',
+    example: [1, 0],
+    type: [Number],
+  })
+  scores: number[];
+
+  @ApiProperty({
+    description: 'Minuto de juego',
+    example: "67'",
+    nullable: true,
+  })
+  gameTime: string | null;
+}
+
+export class LiveLeaderboardEntryDto {
+  @ApiProperty({
+    description: 'Posición proyectada (compartida si sigue empatado)',
+    example: 2,
+  })
+  position: number;
+
+  @ApiProperty({
+    description: 'Posición proyectada para mostrar ("T-2" si la comparte)',
+    example: '2',
+  })
+  positionLabel: string;
+
+  @ApiProperty({ description: 'Si comparte la posición', example: false })
+  tied: boolean;
+
+  @ApiProperty({
+    description: 'Posición en la tabla con los puntos ya acreditados',
+    example: 4,
+  })
+  settledPosition: number;
+
+  @ApiProperty({
+    description: 'Posiciones ganadas (positivo) o perdidas (negativo)',
+    example: 2,
+  })
+  positionDelta: number;
+
+  @ApiProperty({
+    description: 'Cambio de posición para mostrar',
+    example: '+2 ▲',
+  })
+  positionDeltaLabel: string;
+
+  @ApiProperty({
+    description: 'Usuario',
+    example: { id: 7, name: 'Ana López', avatar: null },
+  })
+  user: {
+    id: number;
+    name: string;
+    email?: string;
+    avatar?: string;
+  };
+
+  @ApiProperty({
+    description: 'Rol en el torneo',
+    enum: ['owner', 'admin', 'member'],
+    example: 'member',
+  })
+  role: TournamentRole;
+
+  @ApiProperty({ description: 'Puntos ya acreditados', example: 40 })
+  settledPoints: number;
+
+  @ApiProperty({
+    description: 'Puntos que sumaría si los partidos en vivo terminaran así',
+    example: 4,
+  })
+  livePoints: number;
+
+  @ApiProperty({ description: 'Puntos proyectados', example: 44 })
+  projectedPoints: number;
+
+  @ApiProperty({
+    description: 'Pronósticos en partidos en vivo',
+    example: 2,
+  })
+  livePredictions: number;
+}
+
+export class LiveLeaderboardResponseDto {
+  @ApiProperty({
+    description: 'Partidos en vivo que cuentan para el torneo',
+    type: [LiveMatchDto],
+  })
+  liveMatches: LiveMatchDto[];
+
+  @ApiProperty({
+    description: 'Tabla proyectada',
+    type: [LiveLeaderboardEntryDto],
+  })
+  ranking: LiveLeaderboardEntryDto[];
+
+  @ApiProperty({
+    description: 'Momento del cálculo',
+    example: '2025-01-20T21:35:00Z',
+  })
+  timestamp: string;
+}
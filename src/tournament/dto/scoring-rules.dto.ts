@@ -0,0 +1,99 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateScoringRulesDto {
+  @ApiPropertyOptional({
+    description: 'Puntos por resultado exacto',
+    example: 3,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  exactResult?: number;
+
+  @ApiPropertyOptional({
+    description: 'Puntos por acertar ganador o empate',
+    example: 1,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  correctResult?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Bonus por acertar la diferencia de gol (solo con resultado correcto no exacto)',
+    example: 1,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  goalDifference?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Puntos por cada equipo con goles exactos (cuando el resultado no es exacto)',
+    example: 1,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  teamGoals?: number;
+
+  @ApiPropertyOptional({
+    description: 'Puntos por cada goleador acertado',
+    example: 1,
+    minimum: 0,
+    maximum: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  scorer?: number;
+}
+
+export class ScoringRulesResponseDto {
+  @ApiProperty({ description: 'Puntos por resultado exacto', example: 3 })
+  exactResult: number;
+
+  @ApiProperty({
+    description: 'Puntos por acertar ganador o empate',
+    example: 1,
+  })
+  correctResult: number;
+
+  @ApiProperty({
+    description: 'Bonus por acertar la diferencia de gol',
+    example: 0,
+  })
+  goalDifference: number;
+
+  @ApiProperty({
+    description: 'Puntos por cada equipo con goles exactos',
+    example: 0,
+  })
+  teamGoals: number;
+
+  @ApiProperty({ description: 'Puntos por cada goleador acertado', example: 0 })
+  scorer: number;
+
+  @ApiProperty({
+    description:
+      'Si las reglas todavía pueden editarse (el torneo aún no sumó puntos)',
+    example: true,
+  })
+  editable: boolean;
+}
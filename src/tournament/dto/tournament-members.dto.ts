@@ -0,0 +1,57 @@
+import { IsIn, IsInt, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description:
+      'Nuevo rol del participante (el dueño se cambia transfiriendo el torneo)',
+    enum: ['admin', 'member'],
+    example: 'admin',
+  })
+  @IsIn(['admin', 'member'])
+  role: 'admin' | 'member';
+}
+
+export class BanMemberDto {
+  @ApiPropertyOptional({
+    description: 'Motivo de la expulsión',
+    example: 'Spam en el torneo',
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
+
+export class TransferOwnershipDto {
+  @ApiProperty({
+    description: 'ID del participante que pasa a ser el dueño del torneo',
+    example: 2,
+  })
+  @IsInt()
+  userId: number;
+}
+
+export class TournamentBanResponseDto {
+  @ApiProperty({ description: 'ID del usuario expulsado', example: 5 })
+  userId: number;
+
+  @ApiProperty({ description: 'Nombre del usuario', example: 'Spammer' })
+  name: string;
+
+  @ApiProperty({ description: 'ID de quien lo expulsó', example: 1 })
+  bannedById: number;
+
+  @ApiPropertyOptional({
+    description: 'Motivo de la expulsión',
+    example: 'Spam en el torneo',
+  })
+  reason?: string;
+
+  @ApiProperty({
+    description: 'Fecha de la expulsión',
+    example: '2025-01-20T18:00:00Z',
+  })
+  createdAt: string;
+}
@@ -1,4 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TournamentRole, TournamentVisibility } from '@prisma/client';
+import { FinalStandingDto } from './tournament-season.dto';
+import { ScoringRulesResponseDto } from './scoring-rules.dto';
 
 export class ParticipantResponseDto {
   @ApiProperty({
@@ -14,10 +17,11 @@ export class ParticipantResponseDto {
   name: string;
 
   @ApiProperty({
-    description: 'Email del usuario',
+    description: 'Email del usuario (solo visible para participantes)',
     example: 'juan@example.com',
+    required: false,
   })
-  email: string;
+  email?: string;
 
   @ApiProperty({
     description: 'Avatar del usuario',
@@ -26,6 +30,13 @@ export class ParticipantResponseDto {
   })
   avatar?: string;
 
+  @ApiProperty({
+    description: 'Rol en el torneo',
+    enum: ['owner', 'admin', 'member'],
+    example: 'member',
+  })
+  role: TournamentRole;
+
   @ApiProperty({
     description: 'Puntos del usuario en este torneo',
     example: 150,
@@ -37,6 +48,20 @@ export class ParticipantResponseDto {
     example: '2025-01-15T10:30:00Z',
   })
   joinedAt: string;
+
+  @ApiProperty({
+    description: 'Posición en la tabla (compartida si sigue empatado)',
+    example: 3,
+    required: false,
+  })
+  position?: number;
+
+  @ApiProperty({
+    description: 'Posición para mostrar ("T-3" si la comparte)',
+    example: 'T-3',
+    required: false,
+  })
+  positionLabel?: string;
 }
 
 export class TournamentResponseDto {
@@ -59,10 +84,11 @@ export class TournamentResponseDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Código de invitación',
+    description: 'Código de invitación (solo visible para participantes)',
     example: 'ABC123',
+    required: false,
   })
-  inviteCode: string;
+  inviteCode?: string;
 
   @ApiProperty({
     description: 'Información del creador del torneo',
@@ -75,7 +101,7 @@ export class TournamentResponseDto {
   creator: {
     id: number;
     name: string;
-    email: string;
+    email?: string;
   };
 
   @ApiProperty({
@@ -84,6 +110,13 @@ export class TournamentResponseDto {
   })
   isActive: boolean;
 
+  @ApiProperty({
+    description: 'Visibilidad del torneo',
+    enum: ['private', 'unlisted', 'public'],
+    example: 'private',
+  })
+  visibility: TournamentVisibility;
+
   @ApiProperty({
     description: 'Fecha de creación',
     example: '2025-01-15T10:30:00Z',
@@ -102,6 +135,93 @@ export class TournamentResponseDto {
     required: false,
   })
   participants?: ParticipantResponseDto[];
+
+  @ApiProperty({
+    description: 'Reglas de puntuación del torneo (opcional)',
+    type: ScoringRulesResponseDto,
+    required: false,
+  })
+  scoringRules?: ScoringRulesResponseDto;
+
+  @ApiProperty({
+    description: 'Slugs de las competencias que se juegan en el torneo',
+    example: ['liga-profesional'],
+    type: [String],
+    required: false,
+  })
+  competitions?: string[];
+
+  @ApiProperty({
+    description: 'Primera fecha que suma puntos (null = desde el inicio)',
+    example: 5,
+    nullable: true,
+    required: false,
+  })
+  startMatchday?: number | null;
+
+  @ApiProperty({
+    description: 'Última fecha que suma puntos (null = hasta el final)',
+    example: 16,
+    nullable: true,
+    required: false,
+  })
+  endMatchday?: number | null;
+
+  @ApiProperty({
+    description:
+      'Si suman los partidos jugados antes de que cada participante se uniera',
+    example: false,
+    required: false,
+  })
+  includePastMatches?: boolean;
+
+  @ApiProperty({
+    description: 'Criterios de desempate de las tablas, en orden',
+    example: ['exact_results', 'correct_results', 'head_to_head'],
+    type: [String],
+    required: false,
+  })
+  tiebreakers?: string[];
+
+  @ApiProperty({
+    description:
+      'Temporada en la que se juega el torneo (null = sin temporada)',
+    example: '2025',
+    nullable: true,
+    required: false,
+  })
+  season?: string | null;
+
+  @ApiProperty({
+    description: 'Fecha en que se archivó el torneo (null = en curso)',
+    example: '2025-12-15T03:00:00Z',
+    nullable: true,
+    required: false,
+  })
+  archivedAt?: string | null;
+
+  @ApiProperty({
+    description: 'Tabla final congelada al archivar el torneo',
+    type: [FinalStandingDto],
+    required: false,
+  })
+  finalStandings?: FinalStandingDto[];
+
+  @ApiProperty({
+    description: 'Torneo de la temporada anterior del que se copió',
+    example: 3,
+    nullable: true,
+    required: false,
+  })
+  clonedFromId?: number | null;
+
+  @ApiProperty({
+    description: 'Rol del usuario actual en el torneo',
+    enum: ['owner', 'admin', 'member'],
+    example: 'owner',
+    required: false,
+  })
+  myRole?: TournamentRole;
 }
 
 export class JoinTournamentResponseDto {
@@ -117,9 +237,90 @@ export class JoinTournamentResponseDto {
   })
   message: string;
 
+  @ApiProperty({
+    description:
+      'true si el torneo requiere aprobación y la solicitud quedó pendiente',
+    example: false,
+    required: false,
+  })
+  pending?: boolean;
+
   @ApiProperty({
     description: 'Información del torneo',
     type: TournamentResponseDto,
   })
   tournament: TournamentResponseDto;
 }
+
+export class TournamentActionResponseDto {
+  @ApiProperty({
+    description: 'Éxito de la operación',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Mensaje de confirmación',
+    example: 'Participante expulsado del torneo',
+  })
+  message: string;
+}
+
+export class PublicTournamentResponseDto {
+  @ApiProperty({ description: 'ID del torneo', example: 1 })
+  id: number;
+
+  @ApiProperty({
+    description: 'Nombre del torneo',
+    example: 'Prode Abierto 2025',
+  })
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Descripción del torneo',
+    example: 'Torneo abierto para todos los hinchas',
+  })
+  description?: string;
+
+  @ApiProperty({ description: 'Nombre del creador', example: 'Juan Pérez' })
+  creatorName: string;
+
+  @ApiProperty({ description: 'Número de participantes', example: 120 })
+  participantCount: number;
+
+  @ApiProperty({
+    description: 'Si unirse requiere aprobación',
+    example: false,
+  })
+  requiresApproval: boolean;
+
+  @ApiProperty({
+    description: 'Slugs de las competencias que se juegan en el torneo',
+    example: ['liga-profesional'],
+    type: [String],
+  })
+  competitions: string[];
+
+  @ApiProperty({
+    description: 'Fecha de creación',
+    example: '2025-01-15T10:30:00Z',
+  })
+  createdAt: string;
+}
+
+export class PublicTournamentListResponseDto {
+  @ApiProperty({
+    description: 'Torneos de la página',
+    type: [PublicTournamentResponseDto],
+  })
+  items: PublicTournamentResponseDto[];
+
+  @ApiProperty({ description: 'Total de torneos encontrados', example: 42 })
+  total: number;
+
+  @ApiProperty({ description: 'Página actual (desde 1)', example: 1 })
+  page: number;
+
+  @ApiProperty({ description: 'Torneos por página', example: 20 })
+  limit: number;
+}
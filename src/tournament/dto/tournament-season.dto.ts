@@ -0,0 +1,42 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CloneTournamentDto {
+  @ApiPropertyOptional({
+    description: 'Nombre del torneo nuevo (por defecto, el mismo del original)',
+    example: 'Liga Amigos 2026',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+}
+
+export class FinalStandingDto {
+  @ApiProperty({ description: 'Posición final', example: 1 })
+  position: number;
+
+  @ApiProperty({
+    description: 'Posición para mostrar ("T-3" si la comparte)',
+    example: '1',
+  })
+  positionLabel: string;
+
+  @ApiProperty({ description: 'ID del usuario', example: 7 })
+  userId: number;
+
+  @ApiProperty({ description: 'Nombre del usuario', example: 'Ana López' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Avatar del usuario',
+    example: 'https://example.com/avatar.jpg',
+    required: false,
+  })
+  avatar?: string;
+
+  @ApiProperty({ description: 'Puntos finales', example: 42 })
+  points: number;
+}
@@ -0,0 +1,86 @@
+import { IsBoolean, IsInt, IsOptional, Min, ValidateIf } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateTournamentWindowDto {
+  @ApiPropertyOptional({
+    description: 'Primera fecha que suma puntos. null = desde el inicio',
+    example: 5,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  startMatchday?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Última fecha que suma puntos. null = hasta el final',
+    example: 16,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  endMatchday?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Si es true, los partidos jugados antes de que cada participante se uniera también suman',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includePastMatches?: boolean;
+}
+
+export class TournamentRecomputeResponseDto {
+  @ApiProperty({
+    description:
+      'Job de recálculo encolado (ver GET /admin/points/jobs/:id para su resultado)',
+    example: 128,
+  })
+  jobId: number;
+
+  @ApiProperty({ description: 'Estado del job', example: 'pending' })
+  status: string;
+
+  @ApiProperty({
+    description: 'Momento a partir del cual se ejecuta',
+    example: '2025-01-15T16:45:00Z',
+  })
+  runAt: Date;
+}
+
+export class TournamentWindowResponseDto {
+  @ApiProperty({
+    description: 'Primera fecha que suma puntos (null = desde el inicio)',
+    example: 5,
+    nullable: true,
+  })
+  startMatchday: number | null;
+
+  @ApiProperty({
+    description: 'Última fecha que suma puntos (null = hasta el final)',
+    example: 16,
+    nullable: true,
+  })
+  endMatchday: number | null;
+
+  @ApiProperty({
+    description:
+      'Si suman los partidos jugados antes de que cada participante se uniera',
+    example: false,
+  })
+  includePastMatches: boolean;
+
+  @ApiProperty({
+    description:
+      'Recálculo de puntos encolado (solo si el torneo ya había sumado puntos)',
+    type: TournamentRecomputeResponseDto,
+    required: false,
+  })
+  recompute?: TournamentRecomputeResponseDto;
+}
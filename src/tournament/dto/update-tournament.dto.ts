@@ -0,0 +1,71 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  IsIn,
+  IsArray,
+} from 'class-validator';
+import { TournamentVisibility } from '@prisma/client';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  TIEBREAKER_RULES,
+  TiebreakerRule,
+} from '../../external-api/utils/tiebreak.utils';
+
+export class UpdateTournamentDto {
+  @ApiPropertyOptional({
+    description: 'Nuevo nombre del torneo',
+    example: 'Liga Amigos 2025 - Apertura',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nueva descripción del torneo',
+    example: 'Torneo de pronósticos entre amigos para la Liga Profesional',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Activar o desactivar el torneo (solo el dueño). Un torneo inactivo no acepta nuevos participantes',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Visibilidad (solo el dueño): private = solo con código, unlisted = se ve y se une con el link que incluye su código, sin aparecer en el listado, public = aparece en /tournaments/public',
+    enum: ['private', 'unlisted', 'public'],
+    example: 'public',
+  })
+  @IsOptional()
+  @IsIn(['private', 'unlisted', 'public'])
+  visibility?: TournamentVisibility;
+
+  @ApiPropertyOptional({
+    description:
+      'Criterios de desempate en orden (solo el dueño). exact_results = más exactos, correct_results = más aciertos, ' +
+      'fewest_zero = menos pronósticos sin puntos, head_to_head = más partidos ganados entre los empatados, ' +
+      'earliest_submission = primer pronóstico cargado antes. Lista vacía = posiciones compartidas',
+    enum: TIEBREAKER_RULES,
+    isArray: true,
+    example: ['exact_results', 'correct_results', 'head_to_head'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(TIEBREAKER_RULES, { each: true })
+  tiebreakers?: TiebreakerRule[];
+}
@@ -2,28 +2,61 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   ParseIntPipe,
+  Query,
   UseGuards,
+  DefaultValuePipe,
+  MessageEvent,
+  Sse,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { TournamentService } from './tournament.service';
 import { CreateTournamentDto } from './dto/create-tournament.dto';
 import { JoinTournamentDto } from './dto/join-tournament.dto';
+import { UpdateTournamentDto } from './dto/update-tournament.dto';
+import {
+  InviteSettingsResponseDto,
+  JoinRequestResponseDto,
+  UpdateInviteSettingsDto,
+} from './dto/invite-settings.dto';
+import {
+  BanMemberDto,
+  TournamentBanResponseDto,
+  TransferOwnershipDto,
+  UpdateMemberRoleDto,
+} from './dto/tournament-members.dto';
+import {
+  UpdateScoringRulesDto,
+  ScoringRulesResponseDto,
+} from './dto/scoring-rules.dto';
 import {
   TournamentResponseDto,
   ParticipantResponseDto,
   JoinTournamentResponseDto,
+  TournamentActionResponseDto,
+  PublicTournamentListResponseDto,
 } from './dto/tournament-response.dto';
+import { LiveLeaderboardResponseDto } from './dto/live-leaderboard.dto';
+import {
+  TournamentWindowResponseDto,
+  UpdateTournamentWindowDto,
+} from './dto/tournament-window.dto';
+import { CloneTournamentDto } from './dto/tournament-season.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Public } from '../auth/decorators/public.decorator';
 import { User } from '@prisma/client';
 
 @ApiTags('tournaments')
@@ -70,7 +103,8 @@ export class TournamentController {
   @ApiOperation({
     summary: '🎯 Unirse a un torneo',
     description:
-      'Únete a un torneo existente usando el código de invitación. Empezarás con 0 puntos.',
+      'Únete a un torneo existente usando el código de invitación. Empezarás con 0 puntos. ' +
+      'Si el torneo requiere aprobación, la solicitud queda pendiente (pending = true).',
   })
   @ApiResponse({
     status: 201,
@@ -79,7 +113,11 @@ export class TournamentController {
   })
   @ApiResponse({
     status: 400,
-    description: 'Código inválido o torneo inactivo',
+    description: 'Código vencido, sin usos disponibles o torneo inactivo',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Fuiste expulsado de este torneo',
   })
   @ApiResponse({
     status: 401,
@@ -106,6 +144,13 @@ export class TournamentController {
     description:
       'Lista todos los torneos en los que participa el usuario actual, ordenados por fecha de participación.',
   })
+  @ApiQuery({
+    name: 'archived',
+    required: false,
+    description:
+      'true = solo torneos archivados (historial), false = solo en curso. Si se omite, todos',
+    example: 'false',
+  })
   @ApiResponse({
     status: 200,
     description: 'Lista de torneos del usuario',
@@ -117,15 +162,71 @@ export class TournamentController {
   })
   async getUserTournaments(
     @CurrentUser() user: User,
+    @Query('archived') archived?: string,
   ): Promise<TournamentResponseDto[]> {
-    return this.tournamentService.getUserTournaments(user.id);
+    return this.tournamentService.getUserTournaments(
+      user.id,
+      archived === undefined ? undefined : archived === 'true',
+    );
+  }
+
+  @Get('public')
+  @Public()
+  @ApiOperation({
+    summary: '🌐 Buscar torneos públicos',
+    description:
+      'Lista los torneos públicos activos, con búsqueda por nombre y paginación. No requiere token.',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    description: 'Texto a buscar en el nombre del torneo',
+    example: 'amigos',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    description: 'Página (desde 1, default: 1)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Torneos por página (default: 20, máximo: 50)',
+    example: 20,
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    enum: ['participants', 'recent'],
+    description:
+      'Orden: participants = más participantes primero (default), recent = más nuevos primero',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Torneos públicos',
+    type: PublicTournamentListResponseDto,
+  })
+  async getPublicTournaments(
+    @Query('search') search?: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page?: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit?: number,
+    @Query('sort') sort?: string,
+  ): Promise<PublicTournamentListResponseDto> {
+    return this.tournamentService.getPublicTournaments(
+      search,
+      page,
+      limit,
+      sort === 'recent' ? 'recent' : 'participants',
+    );
   }
 
   @Get(':id')
   @ApiOperation({
     summary: '🔍 Obtener detalles de un torneo',
     description:
-      'Obtiene información detallada de un torneo específico, incluyendo la lista completa de participantes ordenada por puntos.',
+      'Obtiene información detallada de un torneo específico, incluyendo la lista completa de participantes ordenada por puntos. ' +
+      'Los no participantes pueden ver torneos públicos, o unlisted indicando su código (sin código de invitación ni emails).',
   })
   @ApiParam({
     name: 'id',
@@ -133,6 +234,13 @@ export class TournamentController {
     description: 'ID del torneo',
     example: 1,
   })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    description:
+      'Código de invitación: necesario para ver un torneo unlisted sin participar',
+    example: 'ABC123',
+  })
   @ApiResponse({
     status: 200,
     description: 'Detalles del torneo con participantes',
@@ -149,15 +257,18 @@ export class TournamentController {
   async getTournamentById(
     @Param('id', ParseIntPipe) id: number,
     @CurrentUser() user: User,
+    @Query('code') code?: string,
   ): Promise<TournamentResponseDto> {
-    return this.tournamentService.getTournamentById(id, user.id);
+    return this.tournamentService.getTournamentById(id, user.id, code);
   }
 
   @Get(':id/leaderboard')
   @ApiOperation({
     summary: '🏅 Obtener tabla de posiciones',
     description:
-      'Obtiene la tabla de posiciones del torneo, ordenada por puntos de mayor a menor. En caso de empate, se ordena por quien se unió primero.',
+      'Obtiene la tabla de posiciones del torneo, ordenada por puntos de mayor a menor. Los empates se resuelven con los criterios de desempate del torneo ' +
+      '(si siguen empatados comparten la posición, ej: "T-3"). ' +
+      'Los no participantes pueden verla en torneos públicos, o unlisted indicando su código (sin emails).',
   })
   @ApiParam({
     name: 'id',
@@ -165,6 +276,13 @@ export class TournamentController {
     description: 'ID del torneo',
     example: 1,
   })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    description:
+      'Código de invitación: necesario para ver un torneo unlisted sin participar',
+    example: 'ABC123',
+  })
   @ApiResponse({
     status: 200,
     description: 'Tabla de posiciones del torneo',
@@ -181,14 +299,235 @@ export class TournamentController {
   async getTournamentLeaderboard(
     @Param('id', ParseIntPipe) id: number,
     @CurrentUser() user: User,
+    @Query('code') code?: string,
   ): Promise<ParticipantResponseDto[]> {
-    return this.tournamentService.getTournamentLeaderboard(id, user.id);
+    return this.tournamentService.getTournamentLeaderboard(id, user.id, code);
+  }
+
+  @Get(':id/leaderboard/live')
+  @ApiOperation({
+    summary: '🔴 Tabla de posiciones en vivo',
+    description:
+      'Tabla proyectada: puntos acreditados más los que sumaría cada pronóstico si los partidos en vivo terminaran así ' +
+      '(con las reglas del torneo, sin goleadores). Incluye la posición acreditada y el cambio de posición (ej: "+2 ▲"). ' +
+      'Los no participantes pueden verla en torneos públicos, o unlisted indicando su código (sin emails).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    description:
+      'Código de invitación: necesario para ver un torneo unlisted sin participar',
+    example: 'ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tabla proyectada del torneo',
+    type: LiveLeaderboardResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getLiveLeaderboard(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+    @Query('code') code?: string,
+  ): Promise<LiveLeaderboardResponseDto> {
+    return this.tournamentService.getLiveLeaderboard(id, user.id, code);
+  }
+
+  @Sse(':id/events')
+  @ApiOperation({
+    summary: '📡 Eventos en tiempo real del torneo (SSE)',
+    description:
+      'Server-Sent Events con los cambios de cada procesamiento de puntos: "match_update" (resultado, estado y minuto de los partidos ' +
+      'de las competencias del torneo) y "leaderboard" (tabla proyectada completa y los cambios de posición o puntos desde el último envío). ' +
+      'La primera tabla llega en el siguiente procesamiento con partidos o puntos nuevos. Cada ~25 segundos llega un "ping". ' +
+      'Requiere el token en el header Authorization (EventSource nativo no lo envía: usar un cliente SSE que permita headers).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'matchday',
+    required: false,
+    description: 'Solo los partidos de esta fecha (la tabla se envía igual)',
+    example: 5,
+  })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    description:
+      'Código de invitación: necesario para ver un torneo unlisted sin participar',
+    example: 'ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Stream text/event-stream',
+    schema: {
+      example: {
+        type: 'leaderboard',
+        data: {
+          tournamentId: 1,
+          liveMatches: [
+            {
+              id: 'game_id_123',
+              round: 5,
+              homeTeam: 'River Plate',
+              awayTeam: 'Boca Juniors',
+              scores: [2, 1],
+              gameTime: "67'",
+            },
+          ],
+          ranking: [
+            {
+              position: 1,
+              positionLabel: '1',
+              tied: false,
+              settledPosition: 3,
+              positionDelta: 2,
+              positionDeltaLabel: '+2 ▲',
+              user: { id: 1, name: 'Juan Pérez', avatar: null },
+              settledPoints: 18,
+              livePoints: 3,
+              projectedPoints: 21,
+            },
+          ],
+          changes: [
+            {
+              userId: 1,
+              name: 'Juan Pérez',
+              previousPosition: 2,
+              position: 1,
+              previousPoints: 19,
+              projectedPoints: 21,
+            },
+          ],
+          timestamp: '2025-07-20T19:30:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getTournamentEvents(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+    @Query('matchday', new ParseIntPipe({ optional: true })) matchday?: number,
+    @Query('code') code?: string,
+  ): Promise<Observable<MessageEvent>> {
+    return this.tournamentService.getTournamentEvents(
+      id,
+      user.id,
+      matchday,
+      code,
+    );
   }
 
   // ==========================================
   // 🎯 NUEVOS ENDPOINTS - RANKINGS POR FECHA
   // ==========================================
 
+  @Get(':id/public-leaderboard')
+  @Public()
+  @ApiOperation({
+    summary: '🌐 Tabla de posiciones pública',
+    description:
+      'Tabla de posiciones de solo lectura de un torneo público, o unlisted indicando su código, sin emails. No requiere token.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'code',
+    required: false,
+    description:
+      'Código de invitación: necesario para ver un torneo unlisted sin participar',
+    example: 'ABC123',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tabla de posiciones del torneo',
+    type: [ParticipantResponseDto],
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado, privado o unlisted sin su código',
+  })
+  async getPublicLeaderboard(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('code') code?: string,
+  ): Promise<ParticipantResponseDto[]> {
+    return this.tournamentService.getTournamentLeaderboard(id, undefined, code);
+  }
+
+  @Post(':id/join')
+  @ApiOperation({
+    summary: '🌐 Unirse a un torneo público',
+    description:
+      'Unirse sin código a un torneo público (a los unlisted se entra con su código de invitación). ' +
+      'Si el torneo requiere aprobación, la solicitud queda pendiente.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Te has unido al torneo (o la solicitud quedó pendiente)',
+    type: JoinTournamentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Torneo inactivo',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Fuiste expulsado de este torneo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o no público',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya estás participando o tienes una solicitud pendiente',
+  })
+  async joinPublicTournament(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<JoinTournamentResponseDto> {
+    return this.tournamentService.joinPublicTournament(id, user.id);
+  }
+
   @Get(':id/matchday/:matchday/ranking')
   @ApiOperation({
     summary: '📅 Obtener ranking de una fecha específica',
@@ -208,6 +547,14 @@ export class TournamentController {
     description: 'Número de la fecha (1, 2, 3, etc.)',
     example: 5,
   })
+  @ApiQuery({
+    name: 'competition',
+    type: 'string',
+    description:
+      'Slug o alias de la competencia (por defecto, la primera del torneo)',
+    example: 'lpf',
+    required: false,
+  })
   @ApiResponse({
     status: 200,
     description: 'Ranking de la fecha específica',
@@ -215,6 +562,8 @@ export class TournamentController {
       example: [
         {
           position: 1,
+          positionLabel: '1',
+          tied: false,
           user: {
             id: 1,
             name: 'Juan Pérez',
@@ -223,9 +572,16 @@ export class TournamentController {
           },
           points: 9,
           matchday: 5,
+          stats: {
+            exactResults: 2,
+            correctResults: 5,
+            zeroPointPredictions: 2,
+          },
         },
         {
           position: 2,
+          positionLabel: 'T-2',
+          tied: true,
           user: {
             id: 2,
             name: 'María González',
@@ -234,6 +590,11 @@ export class TournamentController {
           },
           points: 6,
           matchday: 5,
+          stats: {
+            exactResults: 1,
+            correctResults: 4,
+            zeroPointPredictions: 3,
+          },
         },
       ],
     },
@@ -250,8 +611,14 @@ export class TournamentController {
     @Param('id', ParseIntPipe) id: number,
     @Param('matchday', ParseIntPipe) matchday: number,
     @CurrentUser() user: User,
+    @Query('competition') competition?: string,
   ): Promise<any[]> {
-    return this.tournamentService.getMatchdayRanking(id, matchday, user.id);
+    return this.tournamentService.getMatchdayRanking(
+      id,
+      matchday,
+      user.id,
+      competition,
+    );
   }
 
   @Get(':id/ranking-detailed')
@@ -274,25 +641,41 @@ export class TournamentController {
       example: [
         {
           position: 1,
+          positionLabel: '1',
+          tied: false,
           user: {
             id: 1,
             name: 'Juan Pérez',
             email: 'juan@example.com',
             avatar: 'https://example.com/avatar.jpg',
           },
+          role: 'owner',
           points: 45,
           joinedAt: '2025-01-15T10:30:00Z',
+          stats: {
+            exactResults: 9,
+            correctResults: 18,
+            zeroPointPredictions: 12,
+          },
         },
         {
           position: 2,
+          positionLabel: '2',
+          tied: false,
           user: {
             id: 2,
             name: 'María González',
             email: 'maria@example.com',
             avatar: null,
           },
+          role: 'member',
           points: 42,
           joinedAt: '2025-01-16T14:20:00Z',
+          stats: {
+            exactResults: 8,
+            correctResults: 18,
+            zeroPointPredictions: 12,
+          },
         },
       ],
     },
@@ -311,4 +694,813 @@ export class TournamentController {
   ): Promise<any[]> {
     return this.tournamentService.getTournamentRankingViaPoints(id, user.id);
   }
+
+  // ==========================================
+  // ⚙️ REGLAS DE PUNTUACIÓN
+  // ==========================================
+
+  @Get(':id/scoring-rules')
+  @ApiOperation({
+    summary: '⚙️ Obtener reglas de puntuación del torneo',
+    description:
+      'Devuelve las reglas de puntuación vigentes del torneo y si todavía pueden editarse.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reglas de puntuación del torneo',
+    type: ScoringRulesResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getScoringRules(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<ScoringRulesResponseDto> {
+    return this.tournamentService.getScoringRules(id, user.id);
+  }
+
+  @Patch(':id/scoring-rules')
+  @ApiOperation({
+    summary: '✏️ Modificar reglas de puntuación del torneo',
+    description:
+      'Permite al dueño o a un administrador del torneo ajustar las reglas de puntuación. ' +
+      'Solo es posible antes de que el torneo empiece a sumar puntos.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Reglas de puntuación actualizadas',
+    type: ScoringRulesResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El torneo ya empezó a sumar puntos',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Solo el dueño o un administrador del torneo puede modificar las reglas',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado',
+  })
+  async updateScoringRules(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateScoringRulesDto: UpdateScoringRulesDto,
+    @CurrentUser() user: User,
+  ): Promise<ScoringRulesResponseDto> {
+    return this.tournamentService.updateScoringRules(
+      id,
+      updateScoringRulesDto,
+      user.id,
+    );
+  }
+
+  @Patch(':id/window')
+  @ApiOperation({
+    summary: '📅 Configurar las fechas que suman',
+    description:
+      'Permite al dueño fijar la primera y la última fecha que suman puntos, y si cuentan los partidos ' +
+      'jugados antes de que cada participante se uniera (includePastMatches). Enviar null para quitar un límite. ' +
+      'Si el torneo ya sumó puntos, se encola el recálculo de los de todos sus participantes (lo ejecuta el procesamiento de puntos).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ventana de fechas actualizada',
+    type: TournamentWindowResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'La fecha de inicio es posterior a la fecha de fin',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede cambiar las fechas que suman',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async updateTournamentWindow(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTournamentWindowDto: UpdateTournamentWindowDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentWindowResponseDto> {
+    return this.tournamentService.updateTournamentWindow(
+      id,
+      updateTournamentWindowDto,
+      user.id,
+    );
+  }
+
+  // ==========================================
+  // 🗄️ TEMPORADAS: ARCHIVO Y COPIA
+  // ==========================================
+
+  @Post(':id/archive')
+  @ApiOperation({
+    summary: '🗄️ Archivar el torneo',
+    description:
+      'Permite al dueño archivar el torneo al terminar la temporada. Se congela la tabla final ' +
+      '(finalStandings), el torneo deja de aceptar participantes y no suma partidos nuevos.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Torneo archivado',
+    type: TournamentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El torneo ya está archivado',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede archivar el torneo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async archiveTournament(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentResponseDto> {
+    return this.tournamentService.archiveTournament(id, user.id);
+  }
+
+  @Post(':id/clone')
+  @ApiOperation({
+    summary: '📋 Copiar el torneo a la nueva temporada',
+    description:
+      'Permite al dueño crear un torneo en la temporada vigente con los mismos participantes (y sus roles), ' +
+      'competencias, reglas de puntuación y configuración. Los puntos empiezan de cero y el código de invitación es nuevo.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo a copiar',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Torneo creado en la temporada vigente',
+    type: TournamentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Todavía no empezó una nueva temporada',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede copiar el torneo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async cloneTournament(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() cloneTournamentDto: CloneTournamentDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentResponseDto> {
+    return this.tournamentService.cloneTournament(
+      id,
+      cloneTournamentDto,
+      user.id,
+    );
+  }
+
+  // ==========================================
+  // 👥 ADMINISTRACIÓN DEL TORNEO Y PARTICIPANTES
+  // ==========================================
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: '✏️ Modificar el torneo',
+    description:
+      'Permite al dueño o a un administrador renombrar el torneo o cambiar su descripción. ' +
+      'Solo el dueño puede activarlo o desactivarlo.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Torneo actualizado',
+    type: TournamentResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Sin permisos para modificar el torneo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async updateTournament(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTournamentDto: UpdateTournamentDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentResponseDto> {
+    return this.tournamentService.updateTournament(
+      id,
+      updateTournamentDto,
+      user.id,
+    );
+  }
+
+  @Patch(':id/members/:userId/role')
+  @ApiOperation({
+    summary: '⭐ Cambiar el rol de un participante',
+    description:
+      'Permite al dueño promover a un participante a administrador o pasarlo a miembro.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del participante',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rol actualizado',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No se puede cambiar el rol del dueño',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede cambiar roles',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo o participante no encontrado',
+  })
+  async updateMemberRole(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.updateMemberRole(
+      id,
+      userId,
+      updateMemberRoleDto,
+      user.id,
+    );
+  }
+
+  @Delete(':id/members/:userId')
+  @ApiOperation({
+    summary: '👢 Expulsar a un participante',
+    description:
+      'El dueño puede expulsar a cualquiera; los administradores, solo a miembros. ' +
+      'El usuario puede volver a unirse con el código (usar ban para impedirlo).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del participante',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Participante expulsado',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No puedes expulsarte a ti mismo',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Sin permisos para expulsar a ese participante',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo o participante no encontrado',
+  })
+  async removeMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.removeMember(id, userId, user.id);
+  }
+
+  @Post(':id/bans/:userId')
+  @ApiOperation({
+    summary: '🚫 Expulsar y bloquear a un participante',
+    description:
+      'Expulsa al participante y le impide volver a unirse al torneo. Mismos permisos que expulsar.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del participante',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Participante expulsado y bloqueado',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No puedes expulsarte a ti mismo',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Sin permisos para expulsar a ese participante',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo o participante no encontrado',
+  })
+  async banMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Body() banMemberDto: BanMemberDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.banMember(id, userId, banMemberDto, user.id);
+  }
+
+  @Delete(':id/bans/:userId')
+  @ApiOperation({
+    summary: '♻️ Levantar una expulsión',
+    description: 'Permite que el usuario vuelva a unirse al torneo.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del participante',
+    example: 2,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Expulsión levantada',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'El usuario no está expulsado',
+  })
+  async unbanMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.unbanMember(id, userId, user.id);
+  }
+
+  @Get(':id/bans')
+  @ApiOperation({
+    summary: '🚫 Usuarios expulsados del torneo',
+    description: 'Lista de usuarios bloqueados (dueño o administradores).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Usuarios expulsados',
+    type: [TournamentBanResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getBans(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentBanResponseDto[]> {
+    return this.tournamentService.getBans(id, user.id);
+  }
+
+  @Post(':id/leave')
+  @ApiOperation({
+    summary: '🚪 Abandonar el torneo',
+    description:
+      'El usuario deja el torneo. El dueño tiene que transferir el torneo antes de abandonarlo.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Abandonaste el torneo',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El dueño no puede abandonar el torneo',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async leaveTournament(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.leaveTournament(id, user.id);
+  }
+
+  @Post(':id/transfer-ownership')
+  @ApiOperation({
+    summary: '👑 Transferir el torneo',
+    description:
+      'El dueño transfiere el torneo a otro participante y queda como administrador.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Torneo transferido',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede transferir el torneo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo o participante no encontrado',
+  })
+  async transferOwnership(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() transferOwnershipDto: TransferOwnershipDto,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.transferOwnership(
+      id,
+      transferOwnershipDto,
+      user.id,
+    );
+  }
+
+  // ==========================================
+  // 🎟️ CÓDIGO DE INVITACIÓN Y SOLICITUDES DE INGRESO
+  // ==========================================
+
+  @Get(':id/invite-settings')
+  @ApiOperation({
+    summary: '🎟️ Configuración del código de invitación',
+    description:
+      'Código actual, vencimiento, máximo de usos, usos y si requiere aprobación (dueño o administradores).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Configuración del código de invitación',
+    type: InviteSettingsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getInviteSettings(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<InviteSettingsResponseDto> {
+    return this.tournamentService.getInviteSettings(id, user.id);
+  }
+
+  @Patch(':id/invite-settings')
+  @ApiOperation({
+    summary: '⚙️ Configurar el código de invitación',
+    description:
+      'Permite al dueño fijar vencimiento y máximo de usos del código, y exigir aprobación para ingresar. ' +
+      'Enviar null en expiresAt o maxUses para quitar el límite.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Configuración actualizada',
+    type: InviteSettingsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede cambiar la configuración',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async updateInviteSettings(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateInviteSettingsDto: UpdateInviteSettingsDto,
+    @CurrentUser() user: User,
+  ): Promise<InviteSettingsResponseDto> {
+    return this.tournamentService.updateInviteSettings(
+      id,
+      updateInviteSettingsDto,
+      user.id,
+    );
+  }
+
+  @Post(':id/invite-code/regenerate')
+  @ApiOperation({
+    summary: '🔄 Regenerar el código de invitación',
+    description:
+      'Genera un código nuevo (el anterior deja de funcionar) y reinicia el contador de usos. Solo el dueño.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Código regenerado',
+    type: InviteSettingsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño puede regenerar el código',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async regenerateInviteCode(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<InviteSettingsResponseDto> {
+    return this.tournamentService.regenerateInviteCode(id, user.id);
+  }
+
+  @Get(':id/join-requests')
+  @ApiOperation({
+    summary: '📥 Solicitudes de ingreso pendientes',
+    description:
+      'Solicitudes de usuarios que usaron el código en un torneo con aprobación (dueño o administradores).',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Solicitudes pendientes',
+    type: [JoinRequestResponseDto],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Torneo no encontrado o sin acceso',
+  })
+  async getJoinRequests(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: User,
+  ): Promise<JoinRequestResponseDto[]> {
+    return this.tournamentService.getJoinRequests(id, user.id);
+  }
+
+  @Post(':id/join-requests/:userId/approve')
+  @ApiOperation({
+    summary: '✅ Aprobar solicitud de ingreso',
+    description: 'El usuario pasa a participar del torneo.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del usuario que pidió ingresar',
+    example: 7,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Solicitud aprobada',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No hay una solicitud pendiente de ese usuario',
+  })
+  async approveJoinRequest(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.reviewJoinRequest(id, userId, true, user.id);
+  }
+
+  @Post(':id/join-requests/:userId/reject')
+  @ApiOperation({
+    summary: '❌ Rechazar solicitud de ingreso',
+    description:
+      'El usuario puede volver a solicitar el ingreso con el código.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: 'number',
+    description: 'ID del torneo',
+    example: 1,
+  })
+  @ApiParam({
+    name: 'userId',
+    type: 'number',
+    description: 'ID del usuario que pidió ingresar',
+    example: 7,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Solicitud rechazada',
+    type: TournamentActionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - token requerido',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Solo el dueño o un administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'No hay una solicitud pendiente de ese usuario',
+  })
+  async rejectJoinRequest(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @CurrentUser() user: User,
+  ): Promise<TournamentActionResponseDto> {
+    return this.tournamentService.reviewJoinRequest(id, userId, false, user.id);
+  }
 }
@@ -0,0 +1,592 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { DEFAULT_SCORING_RULES } from '../external-api/utils/scoring.utils';
+import { PointsService } from '../external-api/services/points.service';
+import { CompetitionService } from '../external-api/services/competition.service';
+import { SeasonService } from '../external-api/services/season.service';
+import { LiveEventsService } from '../external-api/services/live-events.service';
+import { TournamentService } from './tournament.service';
+
+// Cliente de Prisma simulado: la transacción recibe el mismo cliente
+function createPrismaMock() {
+  const prisma = {
+    user: { findUnique: jest.fn().mockResolvedValue({ id: 7 }) },
+    tournament: {
+      count: jest.fn().mockResolvedValue(0),
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    tournamentParticipant: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn(),
+      delete: jest.fn(),
+      update: jest.fn(),
+    },
+    tournamentBan: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    tournamentJoinRequest: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+    pointsLedgerEntry: {
+      aggregate: jest.fn().mockResolvedValue({ _sum: { delta: null } }),
+    },
+    tournamentScoringRules: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      upsert: jest.fn(),
+    },
+    matchdayPoints: { count: jest.fn().mockResolvedValue(0) },
+    $transaction: jest.fn(),
+  };
+
+  prisma.$transaction.mockImplementation((operations) =>
+    typeof operations === 'function'
+      ? operations(prisma)
+      : Promise.all(operations),
+  );
+
+  return prisma;
+}
+
+function tournament(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    name: 'Amigos',
+    description: null,
+    inviteCode: 'ABCD1234',
+    inviteCodeExpiresAt: null,
+    inviteCodeMaxUses: null,
+    inviteCodeUses: 0,
+    requiresApproval: false,
+    createdById: 1,
+    isActive: true,
+    visibility: 'private',
+    archivedAt: null,
+    createdAt: new Date('2025-07-01T12:00:00Z'),
+    creator: { id: 1, name: 'Dueño', email: 'owner@example.com' },
+    _count: { participants: 3 },
+    ...overrides,
+  };
+}
+
+function participant(userId: number, role: string) {
+  return { id: userId * 10, tournamentId: 1, userId, role, points: 0 };
+}
+
+describe('TournamentService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let pointsService: {
+    getTournamentRanking: jest.Mock;
+    enqueueTournamentRecompute: jest.Mock;
+  };
+  let tournaments: TournamentService;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    pointsService = {
+      getTournamentRanking: jest.fn(),
+      enqueueTournamentRecompute: jest.fn(),
+    };
+    tournaments = new TournamentService(
+      prisma as unknown as PrismaService,
+      pointsService as unknown as PointsService,
+      {} as CompetitionService,
+      {} as SeasonService,
+      {} as LiveEventsService,
+    );
+  });
+
+  describe('reglas de puntuación', () => {
+    it('devuelve las reglas por defecto si el torneo no tiene propias', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(7, 'member'),
+      );
+
+      await expect(tournaments.getScoringRules(1, 7)).resolves.toEqual({
+        ...DEFAULT_SCORING_RULES,
+        editable: true,
+      });
+    });
+
+    it('guarda las reglas partiendo de las por defecto', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(1, 'owner'),
+      );
+      prisma.tournament.findUnique.mockResolvedValue({ archivedAt: null });
+      prisma.tournamentScoringRules.upsert.mockResolvedValue({
+        tournamentId: 1,
+        ...DEFAULT_SCORING_RULES,
+        exactResult: 5,
+      });
+
+      const rules = await tournaments.updateScoringRules(
+        1,
+        { exactResult: 5 },
+        1,
+      );
+
+      expect(rules).toEqual({
+        ...DEFAULT_SCORING_RULES,
+        exactResult: 5,
+        editable: true,
+      });
+      expect(prisma.tournamentScoringRules.upsert).toHaveBeenCalledWith({
+        where: { tournamentId: 1 },
+        update: { exactResult: 5 },
+        create: { ...DEFAULT_SCORING_RULES, exactResult: 5, tournamentId: 1 },
+      });
+    });
+
+    it('no permite cambiarlas a un miembro', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(7, 'member'),
+      );
+
+      await expect(
+        tournaments.updateScoringRules(1, { exactResult: 5 }, 7),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('no permite cambiarlas una vez que el torneo sumó puntos', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(1, 'owner'),
+      );
+      prisma.tournament.findUnique.mockResolvedValue({ archivedAt: null });
+      prisma.matchdayPoints.count.mockResolvedValue(2);
+
+      await expect(
+        tournaments.updateScoringRules(1, { exactResult: 5 }, 1),
+      ).rejects.toThrow('una vez que el torneo empezó a sumar puntos');
+      expect(prisma.tournamentScoringRules.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('roles y moderación', () => {
+    // Dueño 1, admins 2 y 3, miembro 7
+    const roles: Record<number, string> = {
+      1: 'owner',
+      2: 'admin',
+      3: 'admin',
+      7: 'member',
+    };
+
+    beforeEach(() => {
+      prisma.tournamentParticipant.findUnique.mockImplementation(
+        ({ where }) => {
+          const { userId } = where.tournamentId_userId;
+          return roles[userId] ? participant(userId, roles[userId]) : null;
+        },
+      );
+    });
+
+    it('un admin expulsa a un miembro', async () => {
+      await tournaments.removeMember(1, 7, 2);
+
+      expect(prisma.tournamentParticipant.delete).toHaveBeenCalledWith({
+        where: { id: 70 },
+      });
+    });
+
+    it('un admin no puede expulsar a otro admin', async () => {
+      await expect(tournaments.removeMember(1, 3, 2)).rejects.toThrow(
+        'Un administrador solo puede expulsar a miembros',
+      );
+    });
+
+    it('un miembro no puede expulsar', async () => {
+      await expect(tournaments.removeMember(1, 2, 7)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('nadie se expulsa a sí mismo', async () => {
+      await expect(tournaments.removeMember(1, 2, 2)).rejects.toThrow(
+        'No puedes expulsarte a ti mismo',
+      );
+    });
+
+    it('al bloquear elimina la participación y registra la expulsión', async () => {
+      await tournaments.banMember(1, 7, { reason: 'spam' }, 1);
+
+      expect(prisma.tournamentParticipant.delete).toHaveBeenCalledWith({
+        where: { id: 70 },
+      });
+      expect(prisma.tournamentBan.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { tournamentId: 1, userId: 7, bannedById: 1, reason: 'spam' },
+        }),
+      );
+    });
+
+    it('un usuario bloqueado no puede volver a unirse', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(tournament());
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(null);
+      prisma.tournamentBan.findUnique.mockResolvedValue({ userId: 8 });
+
+      await expect(
+        tournaments.joinTournament({ inviteCode: 'ABCD1234' }, 8),
+      ).rejects.toThrow('Fuiste expulsado de este torneo');
+      expect(prisma.tournamentParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('solo el dueño cambia roles y nunca el suyo', async () => {
+      await expect(
+        tournaments.updateMemberRole(1, 7, { role: 'admin' }, 2),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        tournaments.updateMemberRole(1, 1, { role: 'member' }, 1),
+      ).rejects.toThrow('El rol del dueño solo cambia transfiriendo el torneo');
+
+      await tournaments.updateMemberRole(1, 7, { role: 'admin' }, 1);
+
+      expect(prisma.tournamentParticipant.update).toHaveBeenCalledWith({
+        where: { id: 70 },
+        data: { role: 'admin' },
+      });
+    });
+
+    it('el dueño no puede abandonar el torneo', async () => {
+      await expect(tournaments.leaveTournament(1, 1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.tournamentParticipant.delete).not.toHaveBeenCalled();
+    });
+
+    it('al transferir, el dueño anterior queda como admin', async () => {
+      await tournaments.transferOwnership(1, { userId: 7 }, 1);
+
+      expect(prisma.tournamentParticipant.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { role: 'admin' },
+      });
+      expect(prisma.tournamentParticipant.update).toHaveBeenCalledWith({
+        where: { id: 70 },
+        data: { role: 'owner' },
+      });
+    });
+  });
+
+  describe('visibilidad', () => {
+    beforeEach(() => {
+      pointsService.getTournamentRanking.mockResolvedValue([
+        {
+          user: { id: 1, name: 'Dueño', email: 'owner@example.com' },
+          role: 'owner',
+          points: 10,
+          joinedAt: new Date('2025-07-01T12:00:00Z'),
+          position: 1,
+          positionLabel: '1',
+        },
+      ]);
+    });
+
+    it('muestra la tabla de un torneo público sin emails', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ visibility: 'public' }),
+      );
+
+      const leaderboard = await tournaments.getTournamentLeaderboard(1);
+
+      expect(leaderboard).toEqual([
+        expect.objectContaining({ id: 1, points: 10, email: undefined }),
+      ]);
+    });
+
+    it('muestra un torneo unlisted solo con su código', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ visibility: 'unlisted' }),
+      );
+
+      await expect(tournaments.getTournamentLeaderboard(1, 7)).rejects.toThrow(
+        NotFoundException,
+      );
+      await expect(
+        tournaments.getTournamentLeaderboard(1, 7, ' abcd1234 '),
+      ).resolves.toHaveLength(1);
+    });
+
+    it('no muestra un torneo privado a quien no participa', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(tournament());
+
+      await expect(
+        tournaments.getTournamentLeaderboard(1, 7, 'ABCD1234'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('muestra los emails a los participantes', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(7, 'member'),
+      );
+
+      const [entry] = await tournaments.getTournamentLeaderboard(1, 7);
+
+      expect(entry.email).toBe('owner@example.com');
+    });
+
+    it('se une directo a un torneo público', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ visibility: 'public' }),
+      );
+
+      const result = await tournaments.joinPublicTournament(1, 7);
+
+      expect(result.success).toBe(true);
+      expect(prisma.tournamentParticipant.create).toHaveBeenCalled();
+      // Sin código no cuenta usos
+      expect(prisma.tournament.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('no se une sin código a un torneo unlisted', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ visibility: 'unlisted' }),
+      );
+
+      await expect(tournaments.joinPublicTournament(1, 7)).rejects.toThrow(
+        'solo accesible con código de invitación',
+      );
+    });
+
+    it('busca solo torneos públicos activos y limita el tamaño de página', async () => {
+      const result = await tournaments.getPublicTournaments(
+        ' amigos ',
+        2,
+        500,
+        'participants',
+      );
+
+      expect(result).toEqual({ items: [], total: 0, page: 2, limit: 50 });
+      expect(prisma.tournament.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            visibility: 'public',
+            isActive: true,
+            name: { contains: 'amigos', mode: 'insensitive' },
+          },
+          skip: 50,
+          take: 50,
+        }),
+      );
+    });
+  });
+
+  describe('ventana de fechas', () => {
+    const window = {
+      startMatchday: 5,
+      endMatchday: null,
+      includePastMatches: false,
+    };
+
+    beforeEach(() => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(1, 'owner'),
+      );
+      prisma.tournament.findUnique.mockResolvedValue({ archivedAt: null });
+      prisma.tournament.findUniqueOrThrow.mockResolvedValue(window);
+    });
+
+    it('encola el recálculo si el torneo ya sumó puntos', async () => {
+      prisma.tournament.update.mockResolvedValue({
+        ...window,
+        startMatchday: 1,
+      });
+      prisma.matchdayPoints.count.mockResolvedValue(3);
+      pointsService.enqueueTournamentRecompute.mockResolvedValue({
+        id: 40,
+        status: 'pending',
+        runAt: new Date('2025-07-19T20:00:00Z'),
+      });
+
+      const result = await tournaments.updateTournamentWindow(
+        1,
+        { startMatchday: 1 },
+        1,
+      );
+
+      expect(pointsService.enqueueTournamentRecompute).toHaveBeenCalledWith(1);
+      expect(result.recompute).toEqual({
+        jobId: 40,
+        status: 'pending',
+        runAt: new Date('2025-07-19T20:00:00Z'),
+      });
+    });
+
+    it('no recalcula si la ventana no cambió', async () => {
+      prisma.tournament.update.mockResolvedValue(window);
+      prisma.matchdayPoints.count.mockResolvedValue(3);
+
+      const result = await tournaments.updateTournamentWindow(
+        1,
+        { startMatchday: 5 },
+        1,
+      );
+
+      expect(result.recompute).toBeUndefined();
+      expect(pointsService.enqueueTournamentRecompute).not.toHaveBeenCalled();
+    });
+
+    it('rechaza una ventana que empieza después de terminar', async () => {
+      await expect(
+        tournaments.updateTournamentWindow(1, { endMatchday: 3 }, 1),
+      ).rejects.toThrow('no puede ser posterior a la fecha de fin');
+      expect(prisma.tournament.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('código de invitación', () => {
+    it('rechaza un código vencido', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ inviteCodeExpiresAt: new Date('2020-01-01T00:00:00Z') }),
+      );
+
+      await expect(
+        tournaments.joinTournament({ inviteCode: 'abcd1234' }, 7),
+      ).rejects.toThrow('El código de invitación venció');
+    });
+
+    it('rechaza un código que alcanzó el máximo de usos', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ inviteCodeMaxUses: 3, inviteCodeUses: 3 }),
+      );
+
+      await expect(
+        tournaments.joinTournament({ inviteCode: 'ABCD1234' }, 7),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.tournamentParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('cuenta el uso con el límite en la misma actualización', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ inviteCodeMaxUses: 3, inviteCodeUses: 2 }),
+      );
+
+      const result = await tournaments.joinTournament(
+        { inviteCode: 'ABCD1234' },
+        7,
+      );
+
+      expect(result.success).toBe(true);
+      expect(prisma.tournament.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, inviteCodeUses: { lt: 3 } },
+        data: { inviteCodeUses: { increment: 1 } },
+      });
+      expect(prisma.tournamentParticipant.create).toHaveBeenCalledWith({
+        data: { tournamentId: 1, userId: 7, points: 0 },
+      });
+    });
+
+    it('deja pendiente el ingreso si el torneo requiere aprobación', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ requiresApproval: true }),
+      );
+
+      const result = await tournaments.joinTournament(
+        { inviteCode: 'ABCD1234' },
+        7,
+      );
+
+      expect(result.pending).toBe(true);
+      expect(prisma.tournamentJoinRequest.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { tournamentId: 1, userId: 7, viaInviteCode: true },
+        }),
+      );
+      expect(prisma.tournamentParticipant.create).not.toHaveBeenCalled();
+      expect(prisma.tournament.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('no acepta una segunda solicitud pendiente', async () => {
+      prisma.tournament.findUnique.mockResolvedValue(
+        tournament({ requiresApproval: true }),
+      );
+      prisma.tournamentJoinRequest.findUnique.mockResolvedValue({
+        status: 'pending',
+      });
+
+      await expect(
+        tournaments.joinTournament({ inviteCode: 'ABCD1234' }, 7),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('regenera el código y reinicia los usos', async () => {
+      prisma.tournamentParticipant.findUnique.mockResolvedValue(
+        participant(1, 'owner'),
+      );
+      prisma.tournament.findUnique.mockResolvedValue(null);
+      prisma.tournament.update.mockResolvedValue(
+        tournament({ inviteCode: 'ZZZZ9999' }),
+      );
+
+      await tournaments.regenerateInviteCode(1, 1);
+
+      expect(prisma.tournament.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { inviteCode: expect.any(String), inviteCodeUses: 0 },
+      });
+    });
+  });
+
+  describe('reviewJoinRequest', () => {
+    beforeEach(() => {
+      prisma.tournamentParticipant.findUnique.mockImplementation(({ where }) =>
+        where.tournamentId_userId.userId === 1 ? participant(1, 'owner') : null,
+      );
+      prisma.tournamentJoinRequest.findUnique.mockResolvedValue({
+        id: 50,
+        status: 'pending',
+        viaInviteCode: true,
+      });
+      prisma.tournament.findUniqueOrThrow.mockResolvedValue({
+        inviteCodeMaxUses: 3,
+      });
+    });
+
+    it('al aprobar cuenta el uso del código respetando su máximo', async () => {
+      const result = await tournaments.reviewJoinRequest(1, 7, true, 1);
+
+      expect(result.message).toBe('Solicitud aprobada');
+      expect(prisma.tournament.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, inviteCodeUses: { lt: 3 } },
+        data: { inviteCodeUses: { increment: 1 } },
+      });
+      expect(prisma.tournamentParticipant.create).toHaveBeenCalled();
+    });
+
+    it('no aprueba si el código ya se agotó', async () => {
+      prisma.tournament.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        tournaments.reviewJoinRequest(1, 7, true, 1),
+      ).rejects.toThrow('El código de invitación alcanzó el máximo de usos');
+      expect(prisma.tournamentParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('no aprueba a un usuario expulsado', async () => {
+      prisma.tournamentBan.findUnique.mockResolvedValue({ userId: 7 });
+
+      await expect(
+        tournaments.reviewJoinRequest(1, 7, true, 1),
+      ).rejects.toThrow('El usuario está expulsado del torneo');
+      expect(prisma.tournamentParticipant.create).not.toHaveBeenCalled();
+    });
+
+    it('falla si otra revisión ya tomó la solicitud', async () => {
+      prisma.tournamentJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        tournaments.reviewJoinRequest(1, 7, false, 1),
+      ).rejects.toThrow('No hay una solicitud pendiente de ese usuario');
+    });
+  });
+});
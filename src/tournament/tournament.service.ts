@@ -1,55 +1,119 @@
 import {
   Injectable,
+  Logger,
+  OnModuleInit,
   ConflictException,
   NotFoundException,
   BadRequestException,
+  ForbiddenException,
+  MessageEvent,
 } from '@nestjs/common';
+import {
+  Prisma,
+  Tournament,
+  TournamentParticipant,
+  TournamentRole,
+} from '@prisma/client';
+import { randomInt } from 'crypto';
+import { Observable } from 'rxjs';
 import { PrismaService } from '../prisma.service';
 import { PointsService } from '../external-api/services/points.service';
+import { CompetitionService } from '../external-api/services/competition.service';
+import { SeasonService } from '../external-api/services/season.service';
+import { LiveEventsService } from '../external-api/services/live-events.service';
 import { CreateTournamentDto } from './dto/create-tournament.dto';
 import { JoinTournamentDto } from './dto/join-tournament.dto';
+import { UpdateTournamentDto } from './dto/update-tournament.dto';
+import {
+  InviteSettingsResponseDto,
+  JoinRequestResponseDto,
+  UpdateInviteSettingsDto,
+} from './dto/invite-settings.dto';
+import {
+  TournamentWindowResponseDto,
+  UpdateTournamentWindowDto,
+} from './dto/tournament-window.dto';
+import { LiveLeaderboardResponseDto } from './dto/live-leaderboard.dto';
+import {
+  CloneTournamentDto,
+  FinalStandingDto,
+} from './dto/tournament-season.dto';
+import {
+  BanMemberDto,
+  TournamentBanResponseDto,
+  TransferOwnershipDto,
+  UpdateMemberRoleDto,
+} from './dto/tournament-members.dto';
+import {
+  UpdateScoringRulesDto,
+  ScoringRulesResponseDto,
+} from './dto/scoring-rules.dto';
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringRules,
+} from '../external-api/utils/scoring.utils';
+import {
+  TIEBREAKER_RULES,
+  TiebreakerRule,
+  normalizeTiebreakers,
+} from '../external-api/utils/tiebreak.utils';
+import { fromJson, toJson } from '../external-api/utils/prisma-json.utils';
 import {
   TournamentResponseDto,
   ParticipantResponseDto,
   JoinTournamentResponseDto,
+  TournamentActionResponseDto,
+  PublicTournamentListResponseDto,
 } from './dto/tournament-response.dto';
 
+const INVITE_CODE_LENGTH = 8;
+const MAX_PUBLIC_PAGE_SIZE = 50;
+
+export type PublicTournamentSort = 'participants' | 'recent';
+
+type TournamentWithCreator = Tournament & {
+  creator: { id: number; name: string; email: string };
+  _count: { participants: number };
+};
+
 @Injectable()
-export class TournamentService {
+export class TournamentService implements OnModuleInit {
+  private readonly logger = new Logger(TournamentService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly pointsService: PointsService,
+    private readonly competitionService: CompetitionService,
+    private readonly seasonService: SeasonService,
+    private readonly liveEvents: LiveEventsService,
   ) {}
 
+  async onModuleInit() {
+    try {
+      await this.ensureTournamentOwners();
+    } catch (error) {
+      this.logger.error(
+        `❌ Error asignando dueños de torneos: ${error.message}`,
+      );
+    }
+  }
+
   /**
-   * Genera un código único de invitación para el torneo
+   * Genera un código de invitación con un generador criptográficamente seguro
    */
   private generateInviteCode(): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
     let result = '';
-    for (let i = 0; i < 6; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      result += chars.charAt(randomInt(chars.length));
     }
     return result;
   }
 
   /**
-   * Crea un nuevo torneo
+   * Genera un código de invitación que no use ningún otro torneo
    */
-  async createTournament(
-    createTournamentDto: CreateTournamentDto,
-    userId: number,
-  ): Promise<TournamentResponseDto> {
-    // Verificar que el usuario existe
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
-
-    if (!user) {
-      throw new NotFoundException('Usuario no encontrado');
-    }
-
-    // Generar código único de invitación
+  private async generateUniqueInviteCode(): Promise<string> {
     let inviteCode: string;
     let isUnique = false;
     let attempts = 0;
@@ -69,6 +133,45 @@ export class TournamentService {
       }
     } while (!isUnique);
 
+    return inviteCode;
+  }
+
+  /**
+   * Crea un nuevo torneo
+   */
+  async createTournament(
+    createTournamentDto: CreateTournamentDto,
+    userId: number,
+  ): Promise<TournamentResponseDto> {
+    // Verificar que el usuario existe
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Usuario no encontrado');
+    }
+
+    // Competencias del torneo (por defecto, la competencia principal)
+    const competitions = createTournamentDto.competitions
+      ? await this.competitionService.resolveMany(
+          createTournamentDto.competitions,
+        )
+      : [await this.competitionService.getDefault()];
+
+    this.assertValidWindow(
+      createTournamentDto.startMatchday,
+      createTournamentDto.endMatchday,
+    );
+
+    const tiebreakers = this.parseTiebreakers(createTournamentDto.tiebreakers);
+
+    // Temporada vigente de la competencia principal (si tiene temporadas)
+    const season = await this.seasonService.getCurrent(competitions[0].id);
+
+    // Generar código único de invitación
+    const inviteCode = await this.generateUniqueInviteCode();
+
     // Crear el torneo
     const tournament = await this.prisma.tournament.create({
       data: {
@@ -76,6 +179,19 @@ export class TournamentService {
         description: createTournamentDto.description,
         inviteCode,
         createdById: userId,
+        visibility: createTournamentDto.visibility,
+        startMatchday: createTournamentDto.startMatchday,
+        endMatchday: createTournamentDto.endMatchday,
+        tiebreakers,
+        seasonId: season?.id,
+        ...(createTournamentDto.scoringRules && {
+          scoringRules: { create: { ...createTournamentDto.scoringRules } },
+        }),
+        competitions: {
+          create: competitions.map((competition) => ({
+            competitionId: competition.id,
+          })),
+        },
       },
       include: {
         creator: {
@@ -93,11 +209,12 @@ export class TournamentService {
       },
     });
 
-    // Automáticamente unir al creador al torneo
+    // Automáticamente unir al creador al torneo como dueño
     await this.prisma.tournamentParticipant.create({
       data: {
         tournamentId: tournament.id,
         userId: userId,
+        role: 'owner',
         points: 0,
       },
     });
@@ -109,8 +226,17 @@ export class TournamentService {
       inviteCode: tournament.inviteCode,
       creator: tournament.creator,
       isActive: tournament.isActive,
+      visibility: tournament.visibility,
       createdAt: tournament.createdAt.toISOString(),
       participantCount: 1, // El creador ya está incluido
+      competitions: competitions.map((competition) => competition.slug),
+      startMatchday: tournament.startMatchday,
+      endMatchday: tournament.endMatchday,
+      includePastMatches: tournament.includePastMatches,
+      tiebreakers: tournament.tiebreakers,
+      season: season?.name ?? null,
+      archivedAt: null,
+      myRole: 'owner',
     };
   }
 
@@ -132,7 +258,7 @@ export class TournamentService {
 
     // Buscar el torneo por código de invitación
     const tournament = await this.prisma.tournament.findUnique({
-      where: { inviteCode: joinTournamentDto.inviteCode },
+      where: { inviteCode: joinTournamentDto.inviteCode.trim().toUpperCase() },
       include: {
         creator: {
           select: {
@@ -157,6 +283,73 @@ export class TournamentService {
       throw new BadRequestException('El torneo no está activo');
     }
 
+    if (
+      tournament.inviteCodeExpiresAt &&
+      tournament.inviteCodeExpiresAt <= new Date()
+    ) {
+      throw new BadRequestException('El código de invitación venció');
+    }
+
+    if (
+      tournament.inviteCodeMaxUses !== null &&
+      tournament.inviteCodeUses >= tournament.inviteCodeMaxUses
+    ) {
+      throw new BadRequestException(
+        'El código de invitación alcanzó el máximo de usos',
+      );
+    }
+
+    return this.enterTournament(tournament, userId, true);
+  }
+
+  /**
+   * Unirse directamente a un torneo público (sin código). A los unlisted se
+   * entra con su código de invitación
+   */
+  async joinPublicTournament(
+    tournamentId: number,
+    userId: number,
+  ): Promise<JoinTournamentResponseDto> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        _count: {
+          select: {
+            participants: true,
+          },
+        },
+      },
+    });
+
+    if (!tournament || tournament.visibility !== 'public') {
+      throw new NotFoundException(
+        'Torneo no encontrado o solo accesible con código de invitación',
+      );
+    }
+
+    if (!tournament.isActive) {
+      throw new BadRequestException('El torneo no está activo');
+    }
+
+    return this.enterTournament(tournament, userId, false);
+  }
+
+  /**
+   * Suma al usuario al torneo, o deja su solicitud pendiente si el torneo
+   * requiere aprobación
+   */
+  private async enterTournament(
+    tournament: TournamentWithCreator,
+    userId: number,
+    viaInviteCode: boolean,
+  ): Promise<JoinTournamentResponseDto> {
     // Verificar si el usuario ya está en el torneo
     const existingParticipation =
       await this.prisma.tournamentParticipant.findUnique({
@@ -172,39 +365,85 @@ export class TournamentService {
       throw new ConflictException('Ya estás participando en este torneo');
     }
 
-    // Unir al usuario al torneo
-    await this.prisma.tournamentParticipant.create({
-      data: {
-        tournamentId: tournament.id,
-        userId: userId,
-        points: 0,
+    const ban = await this.prisma.tournamentBan.findUnique({
+      where: {
+        tournamentId_userId: { tournamentId: tournament.id, userId },
       },
     });
 
-    const tournamentResponse: TournamentResponseDto = {
-      id: tournament.id,
-      name: tournament.name,
-      description: tournament.description,
-      inviteCode: tournament.inviteCode,
-      creator: tournament.creator,
-      isActive: tournament.isActive,
-      createdAt: tournament.createdAt.toISOString(),
-      participantCount: tournament._count.participants + 1,
-    };
+    if (ban) {
+      throw new ForbiddenException('Fuiste expulsado de este torneo');
+    }
+
+    // Con aprobación, el ingreso queda pendiente hasta que lo acepte el dueño o un admin
+    if (tournament.requiresApproval) {
+      const existingRequest =
+        await this.prisma.tournamentJoinRequest.findUnique({
+          where: {
+            tournamentId_userId: { tournamentId: tournament.id, userId },
+          },
+        });
+
+      if (existingRequest?.status === 'pending') {
+        throw new ConflictException(
+          'Ya tienes una solicitud pendiente para este torneo',
+        );
+      }
+
+      await this.prisma.tournamentJoinRequest.upsert({
+        where: {
+          tournamentId_userId: { tournamentId: tournament.id, userId },
+        },
+        update: {
+          status: 'pending',
+          viaInviteCode,
+          reviewedById: null,
+          reviewedAt: null,
+        },
+        create: { tournamentId: tournament.id, userId, viaInviteCode },
+      });
+
+      return {
+        success: true,
+        message:
+          'Solicitud enviada, un administrador del torneo tiene que aprobarla',
+        pending: true,
+        tournament: this.toTournamentResponse(tournament, false),
+      };
+    }
+
+    await this.admitParticipant(
+      tournament.id,
+      userId,
+      viaInviteCode ? { maxUses: tournament.inviteCodeMaxUses } : null,
+    );
 
     return {
       success: true,
       message: 'Te has unido al torneo exitosamente',
-      tournament: tournamentResponse,
+      tournament: {
+        ...this.toTournamentResponse(tournament, true),
+        participantCount: tournament._count.participants + 1,
+        myRole: 'member',
+      },
     };
   }
 
   /**
    * Obtener todos los torneos donde participa un usuario
+   * archived: true = solo archivados (historial), false = solo en curso
    */
-  async getUserTournaments(userId: number): Promise<TournamentResponseDto[]> {
+  async getUserTournaments(
+    userId: number,
+    archived?: boolean,
+  ): Promise<TournamentResponseDto[]> {
     const participations = await this.prisma.tournamentParticipant.findMany({
-      where: { userId },
+      where: {
+        userId,
+        ...(archived !== undefined && {
+          tournament: { archivedAt: archived ? { not: null } : null },
+        }),
+      },
       include: {
         tournament: {
           include: {
@@ -235,33 +474,91 @@ export class TournamentService {
       inviteCode: participation.tournament.inviteCode,
       creator: participation.tournament.creator,
       isActive: participation.tournament.isActive,
+      visibility: participation.tournament.visibility,
       createdAt: participation.tournament.createdAt.toISOString(),
       participantCount: participation.tournament._count.participants,
+      archivedAt: participation.tournament.archivedAt?.toISOString() ?? null,
+      myRole: participation.role,
     }));
   }
 
+  /**
+   * Torneos públicos activos, con búsqueda por nombre y paginación
+   * Orden: más participantes primero (participants) o más nuevos (recent)
+   */
+  async getPublicTournaments(
+    search: string | undefined,
+    page: number,
+    limit: number,
+    sort: PublicTournamentSort,
+  ): Promise<PublicTournamentListResponseDto> {
+    page = Math.max(1, page);
+    limit = Math.min(Math.max(1, limit), MAX_PUBLIC_PAGE_SIZE);
+
+    const where: Prisma.TournamentWhereInput = {
+      visibility: 'public',
+      isActive: true,
+      ...(search?.trim() && {
+        name: { contains: search.trim(), mode: 'insensitive' },
+      }),
+    };
+
+    const [total, tournaments] = await Promise.all([
+      this.prisma.tournament.count({ where }),
+      this.prisma.tournament.findMany({
+        where,
+        include: {
+          creator: { select: { name: true } },
+          _count: { select: { participants: true } },
+          competitions: {
+            include: { competition: { select: { slug: true } } },
+            orderBy: { competitionId: 'asc' },
+          },
+        },
+        orderBy:
+          sort === 'recent'
+            ? [{ createdAt: 'desc' }]
+            : [{ participants: { _count: 'desc' } }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      items: tournaments.map((tournament) => ({
+        id: tournament.id,
+        name: tournament.name,
+        description: tournament.description,
+        creatorName: tournament.creator.name,
+        participantCount: tournament._count.participants,
+        requiresApproval: tournament.requiresApproval,
+        competitions: tournament.competitions.map(
+          (binding) => binding.competition.slug,
+        ),
+        createdAt: tournament.createdAt.toISOString(),
+      })),
+      total,
+      page,
+      limit,
+    };
+  }
+
   /**
    * Obtener detalles de un torneo específico con sus participantes
+   * Los no participantes solo ven torneos públicos o unlisted (con su código),
+   * sin código ni emails
    */
   async getTournamentById(
     tournamentId: number,
     userId: number,
+    inviteCode?: string,
   ): Promise<TournamentResponseDto> {
-    // Verificar que el usuario participa en este torneo
-    const participation = await this.prisma.tournamentParticipant.findUnique({
-      where: {
-        tournamentId_userId: {
-          tournamentId,
-          userId,
-        },
-      },
-    });
-
-    if (!participation) {
-      throw new NotFoundException(
-        'No tienes acceso a este torneo o el torneo no existe',
-      );
-    }
+    const participation = await this.getViewerParticipation(
+      tournamentId,
+      userId,
+      inviteCode,
+    );
+    const isMember = participation !== null;
 
     const tournament = await this.prisma.tournament.findUnique({
       where: { id: tournamentId },
@@ -289,6 +586,12 @@ export class TournamentService {
             { joinedAt: 'asc' }, // En caso de empate, por quien se unió primero
           ],
         },
+        scoringRules: true,
+        competitions: {
+          include: { competition: { select: { slug: true } } },
+          orderBy: { competitionId: 'asc' },
+        },
+        season: { select: { name: true } },
       },
     });
 
@@ -300,8 +603,9 @@ export class TournamentService {
       (participant) => ({
         id: participant.user.id,
         name: participant.user.name,
-        email: participant.user.email,
+        email: isMember ? participant.user.email : undefined,
         avatar: participant.user.avatar,
+        role: participant.role,
         points: participant.points,
         joinedAt: participant.joinedAt.toISOString(),
       }),
@@ -311,83 +615,110 @@ export class TournamentService {
       id: tournament.id,
       name: tournament.name,
       description: tournament.description,
-      inviteCode: tournament.inviteCode,
-      creator: tournament.creator,
+      inviteCode: isMember ? tournament.inviteCode : undefined,
+      creator: isMember
+        ? tournament.creator
+        : { id: tournament.creator.id, name: tournament.creator.name },
       isActive: tournament.isActive,
+      visibility: tournament.visibility,
       createdAt: tournament.createdAt.toISOString(),
       participantCount: tournament.participants.length,
       participants,
+      scoringRules: {
+        ...this.toScoringRules(tournament.scoringRules),
+        editable: !(await this.hasTournamentStarted(tournament.id)),
+      },
+      competitions: tournament.competitions.map(
+        (binding) => binding.competition.slug,
+      ),
+      startMatchday: tournament.startMatchday,
+      endMatchday: tournament.endMatchday,
+      includePastMatches: tournament.includePastMatches,
+      tiebreakers: tournament.tiebreakers,
+      season: tournament.season?.name ?? null,
+      archivedAt: tournament.archivedAt?.toISOString() ?? null,
+      finalStandings:
+        fromJson<FinalStandingDto[]>(tournament.finalStandings) ?? undefined,
+      clonedFromId: tournament.clonedFromId,
+      myRole: participation?.role,
     };
   }
 
   /**
    * Obtener la tabla de posiciones de un torneo
+   * Sin usuario (o si no participa) solo para torneos públicos o unlisted
+   * (con su código), sin emails
    */
   async getTournamentLeaderboard(
     tournamentId: number,
-    userId: number,
+    userId?: number,
+    inviteCode?: string,
   ): Promise<ParticipantResponseDto[]> {
-    // Verificar que el usuario participa en este torneo
-    const participation = await this.prisma.tournamentParticipant.findUnique({
-      where: {
-        tournamentId_userId: {
-          tournamentId,
-          userId,
-        },
-      },
-    });
-
-    if (!participation) {
-      throw new NotFoundException(
-        'No tienes acceso a este torneo o el torneo no existe',
-      );
-    }
+    const participation = await this.getViewerParticipation(
+      tournamentId,
+      userId,
+      inviteCode,
+    );
 
-    const participants = await this.prisma.tournamentParticipant.findMany({
-      where: { tournamentId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: [{ points: 'desc' }, { joinedAt: 'asc' }],
-    });
+    const ranking = await this.pointsService.getTournamentRanking(tournamentId);
 
-    return participants.map((participant) => ({
-      id: participant.user.id,
-      name: participant.user.name,
-      email: participant.user.email,
-      avatar: participant.user.avatar,
-      points: participant.points,
-      joinedAt: participant.joinedAt.toISOString(),
+    return ranking.map((entry) => ({
+      id: entry.user.id,
+      name: entry.user.name,
+      email: participation ? entry.user.email : undefined,
+      avatar: entry.user.avatar,
+      role: entry.role,
+      points: entry.points,
+      joinedAt: entry.joinedAt.toISOString(),
+      position: entry.position,
+      positionLabel: entry.positionLabel,
     }));
   }
 
   /**
-   * Actualizar puntos de un usuario en un torneo (para uso interno del sistema)
+   * Tabla proyectada con los partidos en vivo y el cambio de posición de cada
+   * uno respecto de la tabla acreditada (mismo acceso que la tabla de posiciones)
    */
-  async updateUserPoints(
+  async getLiveLeaderboard(
     tournamentId: number,
     userId: number,
-    points: number,
-  ): Promise<void> {
-    await this.prisma.tournamentParticipant.update({
-      where: {
-        tournamentId_userId: {
-          tournamentId,
-          userId,
+    inviteCode?: string,
+  ): Promise<LiveLeaderboardResponseDto> {
+    const participation = await this.getViewerParticipation(
+      tournamentId,
+      userId,
+      inviteCode,
+    );
+
+    const { liveMatches, ranking } =
+      await this.pointsService.getLiveTournamentRanking(tournamentId);
+
+    return {
+      liveMatches,
+      ranking: ranking.map((entry) => ({
+        ...entry,
+        user: {
+          ...entry.user,
+          email: participation ? entry.user.email : undefined,
         },
-      },
-      data: {
-        points,
-        updatedAt: new Date(),
-      },
-    });
+      })),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 📡 Eventos en tiempo real del torneo (resultados y tabla proyectada).
+   * Mismo acceso que la tabla de posiciones
+   */
+  async getTournamentEvents(
+    tournamentId: number,
+    userId: number,
+    matchday?: number,
+    inviteCode?: string,
+  ): Promise<Observable<MessageEvent>> {
+    await this.getViewerParticipation(tournamentId, userId, inviteCode);
+
+    return this.liveEvents.streamTournament(tournamentId, matchday);
   }
 
   // ==========================================
@@ -396,11 +727,13 @@ export class TournamentService {
 
   /**
    * Obtener ranking de una fecha específica de un torneo
+   * Sin competencia indicada se usa la primera del torneo (o la por defecto)
    */
   async getMatchdayRanking(
     tournamentId: number,
     matchday: number,
     userId: number,
+    competitionSlug?: string,
   ): Promise<any[]> {
     // Verificar que el usuario participa en este torneo
     const participation = await this.prisma.tournamentParticipant.findUnique({
@@ -418,7 +751,15 @@ export class TournamentService {
       );
     }
 
-    return await this.pointsService.getMatchdayRanking(tournamentId, matchday);
+    const competitionId = competitionSlug
+      ? (await this.competitionService.resolve(competitionSlug)).id
+      : await this.getMainCompetitionId(tournamentId);
+
+    return await this.pointsService.getMatchdayRanking(
+      tournamentId,
+      competitionId,
+      matchday,
+    );
   }
 
   /**
@@ -446,4 +787,1058 @@ export class TournamentService {
 
     return await this.pointsService.getTournamentRanking(tournamentId);
   }
+
+  // ==========================================
+  // ⚙️ REGLAS DE PUNTUACIÓN
+  // ==========================================
+
+  /**
+   * Obtener las reglas de puntuación de un torneo
+   */
+  async getScoringRules(
+    tournamentId: number,
+    userId: number,
+  ): Promise<ScoringRulesResponseDto> {
+    // Verificar que el usuario participa en este torneo
+    const participation = await this.prisma.tournamentParticipant.findUnique({
+      where: {
+        tournamentId_userId: {
+          tournamentId,
+          userId,
+        },
+      },
+    });
+
+    if (!participation) {
+      throw new NotFoundException(
+        'No tienes acceso a este torneo o el torneo no existe',
+      );
+    }
+
+    const rules = await this.prisma.tournamentScoringRules.findUnique({
+      where: { tournamentId },
+    });
+
+    return {
+      ...this.toScoringRules(rules),
+      editable: !(await this.hasTournamentStarted(tournamentId)),
+    };
+  }
+
+  /**
+   * Actualizar las reglas de puntuación (dueño o admins, antes de que el torneo sume puntos)
+   */
+  async updateScoringRules(
+    tournamentId: number,
+    updateScoringRulesDto: UpdateScoringRulesDto,
+    userId: number,
+  ): Promise<ScoringRulesResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador del torneo puede modificar las reglas de puntuación',
+    );
+
+    await this.assertNotArchived(tournamentId);
+
+    if (await this.hasTournamentStarted(tournamentId)) {
+      throw new BadRequestException(
+        'Las reglas de puntuación no pueden modificarse una vez que el torneo empezó a sumar puntos',
+      );
+    }
+
+    const rules = await this.prisma.tournamentScoringRules.upsert({
+      where: { tournamentId },
+      update: { ...updateScoringRulesDto },
+      create: {
+        ...DEFAULT_SCORING_RULES,
+        ...updateScoringRulesDto,
+        tournamentId,
+      },
+    });
+
+    return {
+      ...this.toScoringRules(rules),
+      editable: true,
+    };
+  }
+
+  /**
+   * Cambiar la ventana de fechas que suman y si cuentan los partidos previos
+   * al ingreso de cada participante (solo el dueño). Si el torneo ya sumó
+   * puntos, se recalculan los de todos sus participantes
+   */
+  async updateTournamentWindow(
+    tournamentId: number,
+    updateTournamentWindowDto: UpdateTournamentWindowDto,
+    userId: number,
+  ): Promise<TournamentWindowResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede cambiar las fechas que suman en el torneo',
+    );
+
+    await this.assertNotArchived(tournamentId);
+
+    const current = await this.prisma.tournament.findUniqueOrThrow({
+      where: { id: tournamentId },
+    });
+    const { startMatchday, endMatchday, includePastMatches } =
+      updateTournamentWindowDto;
+
+    this.assertValidWindow(
+      startMatchday === undefined ? current.startMatchday : startMatchday,
+      endMatchday === undefined ? current.endMatchday : endMatchday,
+    );
+
+    const tournament = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: { startMatchday, endMatchday, includePastMatches },
+    });
+
+    const response: TournamentWindowResponseDto = {
+      startMatchday: tournament.startMatchday,
+      endMatchday: tournament.endMatchday,
+      includePastMatches: tournament.includePastMatches,
+    };
+
+    const windowChanged =
+      tournament.startMatchday !== current.startMatchday ||
+      tournament.endMatchday !== current.endMatchday ||
+      tournament.includePastMatches !== current.includePastMatches;
+
+    if (windowChanged && (await this.hasTournamentStarted(tournamentId))) {
+      const job =
+        await this.pointsService.enqueueTournamentRecompute(tournamentId);
+      response.recompute = {
+        jobId: job.id,
+        status: job.status,
+        runAt: job.runAt,
+      };
+    }
+
+    return response;
+  }
+
+  // ==========================================
+  // 🗄️ TEMPORADAS: ARCHIVO Y COPIA
+  // ==========================================
+
+  /**
+   * Archivar el torneo al terminar la temporada (solo el dueño): congela la
+   * tabla final, deja de aceptar participantes y no suma partidos nuevos
+   */
+  async archiveTournament(
+    tournamentId: number,
+    userId: number,
+  ): Promise<TournamentResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede archivar el torneo',
+    );
+
+    await this.assertNotArchived(tournamentId);
+
+    const ranking = await this.pointsService.getTournamentRanking(tournamentId);
+    const finalStandings: FinalStandingDto[] = ranking.map((entry) => ({
+      position: entry.position,
+      positionLabel: entry.positionLabel,
+      userId: entry.user.id,
+      name: entry.user.name,
+      avatar: entry.user.avatar ?? undefined,
+      points: entry.points,
+    }));
+
+    await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        archivedAt: new Date(),
+        isActive: false,
+        finalStandings: toJson(finalStandings),
+      },
+    });
+
+    this.logger.log(
+      `🗄️ Torneo ${tournamentId} archivado con ${finalStandings.length} participantes`,
+    );
+
+    return this.getTournamentById(tournamentId, userId);
+  }
+
+  /**
+   * Copiar el torneo a la temporada vigente (solo el dueño): mismos
+   * participantes con sus roles, competencias, reglas y configuración
+   */
+  async cloneTournament(
+    tournamentId: number,
+    cloneTournamentDto: CloneTournamentDto,
+    userId: number,
+  ): Promise<TournamentResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede copiar el torneo a una nueva temporada',
+    );
+
+    const source = await this.prisma.tournament.findUniqueOrThrow({
+      where: { id: tournamentId },
+      include: {
+        scoringRules: true,
+        competitions: { orderBy: { competitionId: 'asc' } },
+        participants: { orderBy: { joinedAt: 'asc' } },
+      },
+    });
+
+    const season = await this.seasonService.getCurrent(
+      await this.getMainCompetitionId(tournamentId),
+    );
+
+    if (!season || season.id === source.seasonId) {
+      throw new BadRequestException(
+        'Todavía no empezó una nueva temporada para copiar el torneo',
+      );
+    }
+
+    const clone = await this.prisma.tournament.create({
+      data: {
+        name: cloneTournamentDto.name ?? source.name,
+        description: source.description,
+        inviteCode: await this.generateUniqueInviteCode(),
+        createdById: userId,
+        visibility: source.visibility,
+        requiresApproval: source.requiresApproval,
+        includePastMatches: source.includePastMatches,
+        tiebreakers: source.tiebreakers,
+        seasonId: season.id,
+        clonedFromId: source.id,
+        ...(source.scoringRules && {
+          scoringRules: {
+            create: this.toScoringRules(source.scoringRules),
+          },
+        }),
+        competitions: {
+          create: source.competitions.map((binding) => ({
+            competitionId: binding.competitionId,
+          })),
+        },
+        participants: {
+          create: source.participants.map((participant) => ({
+            userId: participant.userId,
+            role: participant.role,
+          })),
+        },
+      },
+    });
+
+    this.logger.log(
+      `📋 Torneo ${source.id} copiado a la temporada "${season.name}" como torneo ${clone.id} (${source.participants.length} participantes)`,
+    );
+
+    return this.getTournamentById(clone.id, userId);
+  }
+
+  // ==========================================
+  // 👥 ADMINISTRACIÓN DEL TORNEO Y PARTICIPANTES
+  // ==========================================
+
+  /**
+   * Renombrar o cambiar la descripción (dueño o admins); activar/desactivar,
+   * visibilidad y desempates (solo el dueño)
+   */
+  async updateTournament(
+    tournamentId: number,
+    updateTournamentDto: UpdateTournamentDto,
+    userId: number,
+  ): Promise<TournamentResponseDto> {
+    const participation = await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede modificar el torneo',
+    );
+
+    if (
+      (updateTournamentDto.isActive !== undefined ||
+        updateTournamentDto.visibility !== undefined ||
+        updateTournamentDto.tiebreakers !== undefined) &&
+      participation.role !== 'owner'
+    ) {
+      throw new ForbiddenException(
+        'Solo el dueño puede activar, desactivar o cambiar la visibilidad o los desempates del torneo',
+      );
+    }
+
+    await this.assertNotArchived(tournamentId);
+
+    const tiebreakers = this.parseTiebreakers(updateTournamentDto.tiebreakers);
+
+    await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        name: updateTournamentDto.name,
+        description: updateTournamentDto.description,
+        isActive: updateTournamentDto.isActive,
+        visibility: updateTournamentDto.visibility,
+        tiebreakers,
+      },
+    });
+
+    return this.getTournamentById(tournamentId, userId);
+  }
+
+  /**
+   * Cambiar el rol de un participante entre admin y member (solo el dueño)
+   */
+  async updateMemberRole(
+    tournamentId: number,
+    targetUserId: number,
+    updateMemberRoleDto: UpdateMemberRoleDto,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede cambiar los roles del torneo',
+    );
+
+    const target = await this.getTargetParticipation(
+      tournamentId,
+      targetUserId,
+    );
+
+    if (target.role === 'owner') {
+      throw new BadRequestException(
+        'El rol del dueño solo cambia transfiriendo el torneo',
+      );
+    }
+
+    await this.prisma.tournamentParticipant.update({
+      where: { id: target.id },
+      data: { role: updateMemberRoleDto.role },
+    });
+
+    return {
+      success: true,
+      message:
+        updateMemberRoleDto.role === 'admin'
+          ? 'Participante promovido a administrador'
+          : 'Participante pasado a miembro',
+    };
+  }
+
+  /**
+   * Expulsar a un participante (puede volver a unirse con el código)
+   */
+  async removeMember(
+    tournamentId: number,
+    targetUserId: number,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    const target = await this.getModerationTarget(
+      tournamentId,
+      targetUserId,
+      userId,
+    );
+
+    await this.prisma.tournamentParticipant.delete({
+      where: { id: target.id },
+    });
+
+    return { success: true, message: 'Participante expulsado del torneo' };
+  }
+
+  /**
+   * Expulsar a un participante sin posibilidad de volver a unirse
+   */
+  async banMember(
+    tournamentId: number,
+    targetUserId: number,
+    banMemberDto: BanMemberDto,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    const target = await this.getModerationTarget(
+      tournamentId,
+      targetUserId,
+      userId,
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.tournamentParticipant.delete({ where: { id: target.id } }),
+      this.prisma.tournamentBan.upsert({
+        where: {
+          tournamentId_userId: { tournamentId, userId: targetUserId },
+        },
+        update: { bannedById: userId, reason: banMemberDto.reason },
+        create: {
+          tournamentId,
+          userId: targetUserId,
+          bannedById: userId,
+          reason: banMemberDto.reason,
+        },
+      }),
+    ]);
+
+    return {
+      success: true,
+      message: 'Participante expulsado y bloqueado en el torneo',
+    };
+  }
+
+  /**
+   * Levantar la expulsión de un usuario (dueño o admins)
+   */
+  async unbanMember(
+    tournamentId: number,
+    targetUserId: number,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede levantar expulsiones',
+    );
+
+    const { count } = await this.prisma.tournamentBan.deleteMany({
+      where: { tournamentId, userId: targetUserId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('El usuario no está expulsado del torneo');
+    }
+
+    return {
+      success: true,
+      message: 'Expulsión levantada, el usuario puede volver a unirse',
+    };
+  }
+
+  /**
+   * Usuarios expulsados del torneo (dueño o admins)
+   */
+  async getBans(
+    tournamentId: number,
+    userId: number,
+  ): Promise<TournamentBanResponseDto[]> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede ver las expulsiones',
+    );
+
+    const bans = await this.prisma.tournamentBan.findMany({
+      where: { tournamentId },
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return bans.map((ban) => ({
+      userId: ban.userId,
+      name: ban.user.name,
+      bannedById: ban.bannedById,
+      reason: ban.reason,
+      createdAt: ban.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Abandonar un torneo (el dueño tiene que transferirlo antes)
+   */
+  async leaveTournament(
+    tournamentId: number,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    const participation = await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin', 'member'],
+    );
+
+    if (participation.role === 'owner') {
+      throw new BadRequestException(
+        'El dueño no puede abandonar el torneo: transferilo a otro participante primero',
+      );
+    }
+
+    await this.prisma.tournamentParticipant.delete({
+      where: { id: participation.id },
+    });
+
+    return { success: true, message: 'Abandonaste el torneo' };
+  }
+
+  /**
+   * Transferir el torneo a otro participante (el dueño anterior queda como admin)
+   */
+  async transferOwnership(
+    tournamentId: number,
+    transferOwnershipDto: TransferOwnershipDto,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    const owner = await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede transferir el torneo',
+    );
+
+    if (transferOwnershipDto.userId === userId) {
+      throw new BadRequestException('Ya sos el dueño del torneo');
+    }
+
+    const target = await this.getTargetParticipation(
+      tournamentId,
+      transferOwnershipDto.userId,
+    );
+
+    await this.prisma.$transaction([
+      this.prisma.tournamentParticipant.update({
+        where: { id: owner.id },
+        data: { role: 'admin' },
+      }),
+      this.prisma.tournamentParticipant.update({
+        where: { id: target.id },
+        data: { role: 'owner' },
+      }),
+    ]);
+
+    return { success: true, message: 'Torneo transferido exitosamente' };
+  }
+
+  // ==========================================
+  // 🎟️ CÓDIGO DE INVITACIÓN Y SOLICITUDES DE INGRESO
+  // ==========================================
+
+  /**
+   * Configuración del código de invitación (dueño o admins)
+   */
+  async getInviteSettings(
+    tournamentId: number,
+    userId: number,
+  ): Promise<InviteSettingsResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede ver la configuración de invitación',
+    );
+
+    return this.toInviteSettings(
+      await this.prisma.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+      }),
+    );
+  }
+
+  /**
+   * Cambiar vencimiento, máximo de usos y aprobación del código (solo el dueño)
+   */
+  async updateInviteSettings(
+    tournamentId: number,
+    updateInviteSettingsDto: UpdateInviteSettingsDto,
+    userId: number,
+  ): Promise<InviteSettingsResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede cambiar la configuración de invitación',
+    );
+
+    const { expiresAt, maxUses, requiresApproval } = updateInviteSettingsDto;
+
+    const tournament = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        inviteCodeExpiresAt:
+          expiresAt === undefined
+            ? undefined
+            : expiresAt && new Date(expiresAt),
+        inviteCodeMaxUses: maxUses,
+        requiresApproval,
+      },
+    });
+
+    return this.toInviteSettings(tournament);
+  }
+
+  /**
+   * Generar un código nuevo: el anterior deja de servir y se reinician los usos
+   */
+  async regenerateInviteCode(
+    tournamentId: number,
+    userId: number,
+  ): Promise<InviteSettingsResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner'],
+      'Solo el dueño puede regenerar el código de invitación',
+    );
+
+    const tournament = await this.prisma.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        inviteCode: await this.generateUniqueInviteCode(),
+        inviteCodeUses: 0,
+      },
+    });
+
+    return this.toInviteSettings(tournament);
+  }
+
+  /**
+   * Solicitudes de ingreso pendientes (dueño o admins)
+   */
+  async getJoinRequests(
+    tournamentId: number,
+    userId: number,
+  ): Promise<JoinRequestResponseDto[]> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede ver las solicitudes de ingreso',
+    );
+
+    const requests = await this.prisma.tournamentJoinRequest.findMany({
+      where: { tournamentId, status: 'pending' },
+      include: { user: { select: { name: true, avatar: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return requests.map((request) => ({
+      userId: request.userId,
+      name: request.user.name,
+      avatar: request.user.avatar,
+      status: request.status,
+      createdAt: request.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Aprobar o rechazar una solicitud de ingreso (dueño o admins)
+   */
+  async reviewJoinRequest(
+    tournamentId: number,
+    targetUserId: number,
+    approve: boolean,
+    userId: number,
+  ): Promise<TournamentActionResponseDto> {
+    await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede revisar solicitudes de ingreso',
+    );
+
+    const request = await this.prisma.tournamentJoinRequest.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId: targetUserId } },
+    });
+
+    if (!request || request.status !== 'pending') {
+      throw new NotFoundException(
+        'No hay una solicitud pendiente de ese usuario',
+      );
+    }
+
+    // La revisión y el ingreso se confirman juntos: si el ingreso falla la
+    // solicitud sigue pendiente, y una revisión en paralelo no la vuelve a tomar
+    const alreadyParticipant = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.tournamentJoinRequest.updateMany({
+        where: { id: request.id, status: 'pending' },
+        data: {
+          status: approve ? 'approved' : 'rejected',
+          reviewedById: userId,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new NotFoundException(
+          'No hay una solicitud pendiente de ese usuario',
+        );
+      }
+
+      if (!approve) return false;
+
+      const ban = await tx.tournamentBan.findUnique({
+        where: { tournamentId_userId: { tournamentId, userId: targetUserId } },
+      });
+
+      if (ban) {
+        throw new BadRequestException('El usuario está expulsado del torneo');
+      }
+
+      const participant = await tx.tournamentParticipant.findUnique({
+        where: { tournamentId_userId: { tournamentId, userId: targetUserId } },
+      });
+
+      // Ya participa (entró por otro camino): la solicitud solo se cierra
+      if (participant) return true;
+
+      // Si pidió entrar con el código, la aprobación cuenta un uso y respeta
+      // el máximo vigente (rechaza si el código ya se agotó)
+      const { inviteCodeMaxUses } = await tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        select: { inviteCodeMaxUses: true },
+      });
+
+      await this.admitParticipant(
+        tournamentId,
+        targetUserId,
+        request.viaInviteCode ? { maxUses: inviteCodeMaxUses } : null,
+        tx,
+      );
+
+      return false;
+    });
+
+    return {
+      success: true,
+      message: !approve
+        ? 'Solicitud rechazada'
+        : alreadyParticipant
+          ? 'Solicitud aprobada (el usuario ya participaba del torneo)'
+          : 'Solicitud aprobada',
+    };
+  }
+
+  /**
+   * Suma al usuario como participante. Si entró con el código cuenta un uso;
+   * con máximo de usos, el límite se verifica en la misma actualización
+   * (si ya había participado, recupera sus puntos del ledger)
+   */
+  private async admitParticipant(
+    tournamentId: number,
+    userId: number,
+    codeUse: { maxUses: number | null } | null,
+    transaction?: Prisma.TransactionClient,
+  ): Promise<void> {
+    const points = await this.getLedgerPoints(tournamentId, userId);
+
+    const admit = async (tx: Prisma.TransactionClient) => {
+      if (codeUse) {
+        const { count } = await tx.tournament.updateMany({
+          where: {
+            id: tournamentId,
+            ...(codeUse.maxUses !== null && {
+              inviteCodeUses: { lt: codeUse.maxUses },
+            }),
+          },
+          data: { inviteCodeUses: { increment: 1 } },
+        });
+
+        if (count === 0) {
+          throw new BadRequestException(
+            'El código de invitación alcanzó el máximo de usos',
+          );
+        }
+      }
+
+      await tx.tournamentParticipant.create({
+        data: { tournamentId, userId, points },
+      });
+    };
+
+    // Dentro de la transacción de quien llama, o en una propia
+    if (transaction) {
+      await admit(transaction);
+    } else {
+      await this.prisma.$transaction(admit);
+    }
+  }
+
+  private toInviteSettings(tournament: Tournament): InviteSettingsResponseDto {
+    return {
+      inviteCode: tournament.inviteCode,
+      expiresAt: tournament.inviteCodeExpiresAt?.toISOString() ?? null,
+      maxUses: tournament.inviteCodeMaxUses,
+      uses: tournament.inviteCodeUses,
+      requiresApproval: tournament.requiresApproval,
+    };
+  }
+
+  /**
+   * Participación de quien consulta el torneo, o null si no participa pero el
+   * torneo es público, o unlisted y presenta su código de invitación (los
+   * privados solo los ven sus participantes)
+   */
+  private async getViewerParticipation(
+    tournamentId: number,
+    userId?: number,
+    inviteCode?: string,
+  ): Promise<TournamentParticipant | null> {
+    const participation =
+      userId === undefined
+        ? null
+        : await this.prisma.tournamentParticipant.findUnique({
+            where: { tournamentId_userId: { tournamentId, userId } },
+          });
+
+    if (participation) return participation;
+
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { visibility: true, inviteCode: true },
+    });
+
+    const canView =
+      tournament?.visibility === 'public' ||
+      (tournament?.visibility === 'unlisted' &&
+        inviteCode?.trim().toUpperCase() === tournament.inviteCode);
+
+    if (!canView) {
+      throw new NotFoundException(
+        'No tienes acceso a este torneo o el torneo no existe',
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Datos básicos de un torneo (el código y emails solo para participantes)
+   */
+  private toTournamentResponse(
+    tournament: TournamentWithCreator,
+    isMember: boolean,
+  ): TournamentResponseDto {
+    return {
+      id: tournament.id,
+      name: tournament.name,
+      description: tournament.description,
+      inviteCode: isMember ? tournament.inviteCode : undefined,
+      creator: isMember
+        ? tournament.creator
+        : { id: tournament.creator.id, name: tournament.creator.name },
+      isActive: tournament.isActive,
+      visibility: tournament.visibility,
+      createdAt: tournament.createdAt.toISOString(),
+      participantCount: tournament._count.participants,
+      archivedAt: tournament.archivedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Participación del usuario, verificando que tenga alguno de los roles dados
+   */
+  private async getParticipationWithRole(
+    tournamentId: number,
+    userId: number,
+    roles: TournamentRole[],
+    forbiddenMessage = 'No tienes permisos para esta acción en el torneo',
+  ): Promise<TournamentParticipant> {
+    const participation = await this.prisma.tournamentParticipant.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId } },
+    });
+
+    if (!participation) {
+      throw new NotFoundException(
+        'No tienes acceso a este torneo o el torneo no existe',
+      );
+    }
+
+    if (!roles.includes(participation.role)) {
+      throw new ForbiddenException(forbiddenMessage);
+    }
+
+    return participation;
+  }
+
+  /**
+   * Participación de otro usuario del torneo
+   */
+  private async getTargetParticipation(
+    tournamentId: number,
+    targetUserId: number,
+  ): Promise<TournamentParticipant> {
+    const target = await this.prisma.tournamentParticipant.findUnique({
+      where: { tournamentId_userId: { tournamentId, userId: targetUserId } },
+    });
+
+    if (!target) {
+      throw new NotFoundException('El usuario no participa en este torneo');
+    }
+
+    return target;
+  }
+
+  /**
+   * Participante que el usuario puede expulsar: el dueño a cualquiera,
+   * los admins solo a miembros. Nadie se expulsa a sí mismo
+   */
+  private async getModerationTarget(
+    tournamentId: number,
+    targetUserId: number,
+    userId: number,
+  ): Promise<TournamentParticipant> {
+    const actor = await this.getParticipationWithRole(
+      tournamentId,
+      userId,
+      ['owner', 'admin'],
+      'Solo el dueño o un administrador puede expulsar participantes',
+    );
+
+    if (targetUserId === userId) {
+      throw new BadRequestException(
+        'No puedes expulsarte a ti mismo, usa abandonar torneo',
+      );
+    }
+
+    const target = await this.getTargetParticipation(
+      tournamentId,
+      targetUserId,
+    );
+
+    if (actor.role === 'admin' && target.role !== 'member') {
+      throw new ForbiddenException(
+        'Un administrador solo puede expulsar a miembros',
+      );
+    }
+
+    return target;
+  }
+
+  /**
+   * Torneos creados antes de los roles: el creador pasa a ser el dueño
+   */
+  private async ensureTournamentOwners(): Promise<void> {
+    const tournaments = await this.prisma.tournament.findMany({
+      where: { participants: { none: { role: 'owner' } } },
+      select: { id: true, createdById: true },
+    });
+
+    let assigned = 0;
+
+    for (const tournament of tournaments) {
+      const { count } = await this.prisma.tournamentParticipant.updateMany({
+        where: { tournamentId: tournament.id, userId: tournament.createdById },
+        data: { role: 'owner' },
+      });
+      assigned += count;
+    }
+
+    if (assigned > 0) {
+      this.logger.log(`👑 ${assigned} torneos con dueño asignado (creador)`);
+    }
+  }
+
+  /**
+   * Puntos de un usuario en el torneo según el ledger (para quien vuelve a unirse)
+   */
+  private async getLedgerPoints(
+    tournamentId: number,
+    userId: number,
+  ): Promise<number> {
+    const { _sum } = await this.prisma.pointsLedgerEntry.aggregate({
+      where: { tournamentId, userId },
+      _sum: { delta: true },
+    });
+
+    return _sum.delta || 0;
+  }
+
+  /**
+   * Valida la cadena de desempates (sin repetidos); undefined = sin cambios
+   */
+  private parseTiebreakers(rules?: string[]): TiebreakerRule[] | undefined {
+    if (rules === undefined) return undefined;
+
+    const unknown = Array.isArray(rules)
+      ? rules.filter(
+          (rule) => !TIEBREAKER_RULES.includes(rule as TiebreakerRule),
+        )
+      : [String(rules)];
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Criterios de desempate inválidos: ${unknown.join(', ')}. Válidos: ${TIEBREAKER_RULES.join(', ')}`,
+      );
+    }
+
+    return normalizeTiebreakers(rules);
+  }
+
+  /**
+   * Un torneo archivado queda congelado
+   */
+  private async assertNotArchived(tournamentId: number): Promise<void> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { archivedAt: true },
+    });
+
+    if (tournament?.archivedAt) {
+      throw new BadRequestException('El torneo está archivado');
+    }
+  }
+
+  /**
+   * La ventana de fechas debe empezar antes de terminar
+   */
+  private assertValidWindow(
+    startMatchday?: number | null,
+    endMatchday?: number | null,
+  ): void {
+    if (
+      startMatchday !== undefined &&
+      startMatchday !== null &&
+      endMatchday !== undefined &&
+      endMatchday !== null &&
+      startMatchday > endMatchday
+    ) {
+      throw new BadRequestException(
+        'La fecha de inicio no puede ser posterior a la fecha de fin',
+      );
+    }
+  }
+
+  /**
+   * Un torneo "empezó" cuando ya tiene puntos registrados en alguna fecha
+   */
+  private async hasTournamentStarted(tournamentId: number): Promise<boolean> {
+    const scoredMatchdays = await this.prisma.matchdayPoints.count({
+      where: { tournamentId },
+    });
+
+    return scoredMatchdays > 0;
+  }
+
+  /**
+   * Primera competencia del torneo (los torneos sin competencias juegan la por defecto)
+   */
+  private async getMainCompetitionId(tournamentId: number): Promise<number> {
+    const binding = await this.prisma.tournamentCompetition.findFirst({
+      where: { tournamentId },
+      orderBy: { competitionId: 'asc' },
+    });
+
+    return (
+      binding?.competitionId ?? (await this.competitionService.getDefault()).id
+    );
+  }
+
+  /**
+   * Extrae solo los campos de reglas de un registro guardado (o las por defecto)
+   */
+  private toScoringRules(rules: ScoringRules | null): ScoringRules {
+    if (!rules) return DEFAULT_SCORING_RULES;
+
+    return {
+      exactResult: rules.exactResult,
+      correctResult: rules.correctResult,
+      goalDifference: rules.goalDifference,
+      teamGoals: rules.teamGoals,
+      scorer: rules.scorer,
+    };
+  }
 }